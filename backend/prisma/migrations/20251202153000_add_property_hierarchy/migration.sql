@@ -0,0 +1,90 @@
+/*
+  Warnings:
+
+  - The `unit` column on the `Request` table is replaced by `unitId`. Existing free-text units are moved into `Unit` rows under a "Default Property" / "Main Building" so no request loses its unit.
+  - `TenantProfile.unitId` now references `Unit`. Existing values are kept as unit numbers in the same default building.
+
+*/
+-- CreateTable
+CREATE TABLE "Property" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "address" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Property_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Building" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "propertyId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Building_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Unit" (
+    "id" SERIAL NOT NULL,
+    "number" TEXT NOT NULL,
+    "buildingId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Unit_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Building_propertyId_name_key" ON "Building"("propertyId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Unit_buildingId_number_key" ON "Unit"("buildingId", "number");
+
+-- Backfill: move existing free-text units into a default building
+INSERT INTO "Property" ("name", "updatedAt")
+SELECT 'Default Property', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "TenantProfile") OR EXISTS (SELECT 1 FROM "Request");
+
+INSERT INTO "Building" ("name", "propertyId", "updatedAt")
+SELECT 'Main Building', "id", CURRENT_TIMESTAMP FROM "Property";
+
+INSERT INTO "Unit" ("number", "buildingId", "updatedAt")
+SELECT DISTINCT u."number", b."id", CURRENT_TIMESTAMP
+FROM (
+    SELECT "unitId"::TEXT AS "number" FROM "TenantProfile"
+    UNION
+    SELECT "unit" AS "number" FROM "Request"
+) u
+CROSS JOIN "Building" b;
+
+UPDATE "TenantProfile" tp
+SET "unitId" = u."id"
+FROM "Unit" u
+WHERE u."number" = tp."unitId"::TEXT;
+
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN     "unitId" INTEGER;
+
+UPDATE "Request" r
+SET "unitId" = u."id"
+FROM "Unit" u
+WHERE u."number" = r."unit";
+
+ALTER TABLE "Request" DROP COLUMN "unit",
+ALTER COLUMN "unitId" SET NOT NULL;
+
+-- AddForeignKey
+ALTER TABLE "TenantProfile" ADD CONSTRAINT "TenantProfile_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Building" ADD CONSTRAINT "Building_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Unit" ADD CONSTRAINT "Unit_buildingId_fkey" FOREIGN KEY ("buildingId") REFERENCES "Building"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Request" ADD CONSTRAINT "Request_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
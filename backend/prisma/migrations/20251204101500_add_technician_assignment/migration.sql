@@ -0,0 +1,34 @@
+-- AlterEnum
+ALTER TYPE "Role" ADD VALUE 'technician';
+
+-- CreateEnum
+CREATE TYPE "TechnicianKind" AS ENUM ('staff', 'vendor');
+
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN     "assignedAt" TIMESTAMP(3),
+ADD COLUMN     "assigneeId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "Technician" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "email" TEXT,
+    "phone" TEXT,
+    "company" TEXT,
+    "kind" "TechnicianKind" NOT NULL DEFAULT 'staff',
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "userId" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Technician_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Technician_userId_key" ON "Technician"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Technician" ADD CONSTRAINT "Technician_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Request" ADD CONSTRAINT "Request_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "Technician"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "RequestEventType" AS ENUM ('created', 'status_changed', 'priority_changed', 'closed', 'assignee_changed');
+
+-- CreateTable
+CREATE TABLE "RequestEvent" (
+    "id" SERIAL NOT NULL,
+    "requestId" INTEGER NOT NULL,
+    "actorId" INTEGER,
+    "actorRole" TEXT,
+    "type" "RequestEventType" NOT NULL,
+    "field" TEXT,
+    "oldValue" TEXT,
+    "newValue" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RequestEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RequestEvent_requestId_createdAt_idx" ON "RequestEvent"("requestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "RequestEvent" ADD CONSTRAINT "RequestEvent_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "Request"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RequestEvent" ADD CONSTRAINT "RequestEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- Keep the audit trail append-only
+CREATE FUNCTION "request_event_append_only"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION 'RequestEvent rows are append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "RequestEvent_append_only"
+BEFORE UPDATE OR DELETE ON "RequestEvent"
+FOR EACH ROW EXECUTE FUNCTION "request_event_append_only"();
+
+-- Backfill: one "created" event for every existing request
+INSERT INTO "RequestEvent" ("requestId", "actorId", "actorRole", "type", "field", "newValue", "createdAt")
+SELECT "id", "tenantId", 'tenant', 'created', 'status', 'in_queue', "createdAt"
+FROM "Request";
@@ -0,0 +1,119 @@
+/*
+  Warnings:
+
+  - `Request.status` changes from the `RequestStatus` enum to TEXT holding a `WorkflowState.key`. Existing values are kept as-is and the enum type is dropped.
+
+*/
+-- AlterTable
+ALTER TABLE "Request" ALTER COLUMN "status" DROP DEFAULT,
+ALTER COLUMN "status" SET DATA TYPE TEXT USING "status"::TEXT,
+ALTER COLUMN "status" SET DEFAULT 'in_queue',
+ADD COLUMN     "workflowId" INTEGER;
+
+-- DropEnum
+DROP TYPE "RequestStatus";
+
+-- AlterTable
+ALTER TABLE "RequestEvent" ADD COLUMN     "note" TEXT;
+
+-- CreateTable
+CREATE TABLE "Workflow" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Workflow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowState" (
+    "id" SERIAL NOT NULL,
+    "workflowId" INTEGER NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "color" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "isTerminal" BOOLEAN NOT NULL DEFAULT false,
+    "timestampField" TEXT,
+
+    CONSTRAINT "WorkflowState_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "WorkflowTransition" (
+    "id" SERIAL NOT NULL,
+    "workflowId" INTEGER NOT NULL,
+    "fromKey" TEXT,
+    "toKey" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "roles" "Role"[],
+    "guard" TEXT,
+
+    CONSTRAINT "WorkflowTransition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workflow_name_key" ON "Workflow"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkflowState_workflowId_key_key" ON "WorkflowState"("workflowId", "key");
+
+-- CreateIndex
+CREATE INDEX "WorkflowTransition_workflowId_toKey_idx" ON "WorkflowTransition"("workflowId", "toKey");
+
+-- AddForeignKey
+ALTER TABLE "Request" ADD CONSTRAINT "Request_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowState" ADD CONSTRAINT "WorkflowState_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WorkflowTransition" ADD CONSTRAINT "WorkflowTransition_workflowId_fkey" FOREIGN KEY ("workflowId") REFERENCES "Workflow"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Default maintenance workflow
+INSERT INTO "Workflow" ("name", "isDefault", "updatedAt")
+VALUES ('Standard maintenance', true, CURRENT_TIMESTAMP);
+
+INSERT INTO "WorkflowState" ("workflowId", "key", "label", "color", "position", "isTerminal", "timestampField")
+SELECT w."id", s."key", s."label", s."color", s."position", s."isTerminal", s."timestampField"
+FROM "Workflow" w
+CROSS JOIN (VALUES
+    ('in_queue', 'In Queue', '#4b5563', 0, false, 'inQueueAt'),
+    ('viewed', 'Viewed', '#0ea5e9', 1, false, 'viewedAt'),
+    ('maintenance_requested', 'Maintenance Requested', '#f97316', 2, false, 'maintenanceRequestedAt'),
+    ('waiting_on_parts', 'Waiting on Parts', '#a855f7', 3, false, NULL),
+    ('implementing_actions', 'Implementing Actions', '#eab308', 4, false, 'implementingActionsAt'),
+    ('completed', 'Completed', '#16a34a', 5, true, 'completedAt'),
+    ('on_hold', 'On Hold', '#64748b', 6, false, NULL),
+    ('reopened', 'Reopened', '#ec4899', 7, false, NULL),
+    ('cancelled', 'Cancelled', '#ef4444', 8, true, NULL)
+) AS s("key", "label", "color", "position", "isTerminal", "timestampField")
+WHERE w."name" = 'Standard maintenance';
+
+INSERT INTO "WorkflowTransition" ("workflowId", "fromKey", "toKey", "label", "roles", "guard")
+SELECT w."id", t."fromKey", t."toKey", t."label", t."roles"::"Role"[], t."guard"
+FROM "Workflow" w
+CROSS JOIN (VALUES
+    ('in_queue', 'viewed', 'Mark viewed', '{manager,admin}', NULL),
+    ('viewed', 'maintenance_requested', 'Request maintenance', '{manager,admin}', NULL),
+    ('maintenance_requested', 'implementing_actions', 'Start work', '{manager,admin,technician}', 'requiresAssignee'),
+    ('maintenance_requested', 'waiting_on_parts', 'Wait for parts', '{manager,admin,technician}', NULL),
+    ('waiting_on_parts', 'implementing_actions', 'Parts arrived', '{manager,admin,technician}', 'requiresAssignee'),
+    ('implementing_actions', 'waiting_on_parts', 'Wait for parts', '{manager,admin,technician}', NULL),
+    ('implementing_actions', 'completed', 'Complete', '{manager,admin,technician}', NULL),
+    (NULL, 'on_hold', 'Put on hold', '{manager,admin}', 'requiresReason'),
+    ('on_hold', 'viewed', 'Resume', '{manager,admin}', NULL),
+    ('on_hold', 'maintenance_requested', 'Resume', '{manager,admin}', NULL),
+    ('on_hold', 'implementing_actions', 'Resume', '{manager,admin}', 'requiresAssignee'),
+    (NULL, 'cancelled', 'Cancel', '{manager,admin}', 'requiresReason'),
+    ('in_queue', 'cancelled', 'Withdraw request', '{tenant}', NULL),
+    (NULL, 'completed', 'Mark as resolved', '{tenant}', NULL),
+    ('completed', 'reopened', 'Reopen', '{manager,admin,tenant}', 'requiresReason'),
+    ('cancelled', 'reopened', 'Reopen', '{manager,admin}', 'requiresReason'),
+    ('reopened', 'viewed', 'Mark viewed', '{manager,admin}', NULL)
+) AS t("fromKey", "toKey", "label", "roles", "guard")
+WHERE w."name" = 'Standard maintenance';
+
+UPDATE "Request" SET "workflowId" = (SELECT "id" FROM "Workflow" WHERE "isDefault" = true);
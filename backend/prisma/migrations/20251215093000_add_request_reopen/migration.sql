@@ -0,0 +1,12 @@
+-- AlterEnum
+ALTER TYPE "RequestEventType" ADD VALUE 'reopened';
+
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN     "reopenReason" TEXT,
+ADD COLUMN     "reopenedFromId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Request_reopenedFromId_key" ON "Request"("reopenedFromId");
+
+-- AddForeignKey
+ALTER TABLE "Request" ADD CONSTRAINT "Request_reopenedFromId_fkey" FOREIGN KEY ("reopenedFromId") REFERENCES "Request"("id") ON DELETE SET NULL ON UPDATE CASCADE;
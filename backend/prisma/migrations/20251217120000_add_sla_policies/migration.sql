@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "RequestEventType" ADD VALUE 'sla_at_risk';
+ALTER TYPE "RequestEventType" ADD VALUE 'sla_breached';
+
+-- CreateEnum
+CREATE TYPE "SlaStatus" AS ENUM ('on_track', 'at_risk', 'breached');
+
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN     "slaEscalatedAt" TIMESTAMP(3),
+ADD COLUMN     "slaStatus" "SlaStatus" NOT NULL DEFAULT 'on_track';
+
+-- CreateTable
+CREATE TABLE "SlaPolicy" (
+    "id" SERIAL NOT NULL,
+    "priority" "Priority" NOT NULL,
+    "category" TEXT,
+    "viewMinutes" INTEGER,
+    "completeMinutes" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SlaPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlaPolicy_priority_category_key" ON "SlaPolicy"("priority", "category");
+
+-- Default targets for each priority (any category)
+INSERT INTO "SlaPolicy" ("priority", "category", "viewMinutes", "completeMinutes", "updatedAt") VALUES
+    ('emergency', NULL, 60, 1440, CURRENT_TIMESTAMP),
+    ('high', NULL, 240, 4320, CURRENT_TIMESTAMP),
+    ('normal', NULL, 1440, 10080, CURRENT_TIMESTAMP),
+    ('low', NULL, 4320, 20160, CURRENT_TIMESTAMP);
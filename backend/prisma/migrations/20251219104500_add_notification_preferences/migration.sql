@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "NotificationEvent" AS ENUM ('request_created', 'status_changed', 'priority_changed', 'request_completed');
+
+-- CreateTable
+CREATE TABLE "NotificationPreference" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "event" "NotificationEvent" NOT NULL,
+    "email" BOOLEAN NOT NULL DEFAULT true,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationPreference_userId_event_key" ON "NotificationPreference"("userId", "event");
+
+-- AddForeignKey
+ALTER TABLE "NotificationPreference" ADD CONSTRAINT "NotificationPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
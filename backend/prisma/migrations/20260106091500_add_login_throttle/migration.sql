@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "LoginFailureReason" AS ENUM ('unknown_email', 'no_password', 'bad_password', 'throttled', 'locked');
+
+-- CreateTable
+CREATE TABLE "LoginFailure" (
+    "id" SERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" INTEGER,
+    "ipAddress" TEXT,
+    "userAgent" TEXT,
+    "reason" "LoginFailureReason" NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoginFailure_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "LoginThrottle" (
+    "key" TEXT NOT NULL,
+    "failures" INTEGER NOT NULL DEFAULT 0,
+    "windowStartsAt" TIMESTAMP(3) NOT NULL,
+    "blockedUntil" TIMESTAMP(3),
+    "locked" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "LoginThrottle_pkey" PRIMARY KEY ("key")
+);
+
+-- CreateIndex
+CREATE INDEX "LoginFailure_email_createdAt_idx" ON "LoginFailure"("email", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LoginFailure_ipAddress_createdAt_idx" ON "LoginFailure"("ipAddress", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LoginFailure" ADD CONSTRAINT "LoginFailure_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
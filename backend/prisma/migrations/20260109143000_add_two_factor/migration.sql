@@ -0,0 +1,55 @@
+-- AlterEnum
+ALTER TYPE "LoginFailureReason" ADD VALUE 'bad_second_factor';
+
+-- CreateTable
+CREATE TABLE "TwoFactor" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "secret" TEXT,
+    "pendingSecret" TEXT,
+    "enabledAt" TIMESTAMP(3),
+    "lastUsedStep" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TwoFactor_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "RecoveryCode" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "codeHash" TEXT NOT NULL,
+    "usedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecoveryCode_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "TwoFactorPolicy" (
+    "id" INTEGER NOT NULL DEFAULT 1,
+    "requiredRoles" "Role"[],
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TwoFactorPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TwoFactor_userId_key" ON "TwoFactor"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecoveryCode_codeHash_key" ON "RecoveryCode"("codeHash");
+
+-- CreateIndex
+CREATE INDEX "RecoveryCode_userId_idx" ON "RecoveryCode"("userId");
+
+-- AddForeignKey
+ALTER TABLE "TwoFactor" ADD CONSTRAINT "TwoFactor_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecoveryCode" ADD CONSTRAINT "RecoveryCode_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Managers and admins must use two-factor authentication by default
+INSERT INTO "TwoFactorPolicy" ("id", "requiredRoles", "updatedAt")
+VALUES (1, ARRAY['manager', 'admin']::"Role"[], CURRENT_TIMESTAMP);
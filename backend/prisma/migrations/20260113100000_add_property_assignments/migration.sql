@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "PropertyAssignment" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "propertyId" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PropertyAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PropertyAssignment_userId_propertyId_key" ON "PropertyAssignment"("userId", "propertyId");
+
+-- CreateIndex
+CREATE INDEX "PropertyAssignment_propertyId_idx" ON "PropertyAssignment"("propertyId");
+
+-- AddForeignKey
+ALTER TABLE "PropertyAssignment" ADD CONSTRAINT "PropertyAssignment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PropertyAssignment" ADD CONSTRAINT "PropertyAssignment_propertyId_fkey" FOREIGN KEY ("propertyId") REFERENCES "Property"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Managers could see every property before scoping; keep it that way until
+-- an admin narrows their assignments
+INSERT INTO "PropertyAssignment" ("userId", "propertyId")
+SELECT u."id", p."id"
+FROM "User" u
+CROSS JOIN "Property" p
+WHERE u."role" = 'manager';
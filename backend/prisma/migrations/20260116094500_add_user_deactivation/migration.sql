@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "LoginFailureReason" ADD VALUE 'deactivated';
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "deactivatedAt" TIMESTAMP(3);
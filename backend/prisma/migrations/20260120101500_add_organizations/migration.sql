@@ -0,0 +1,81 @@
+-- CreateTable
+CREATE TABLE "Organization" (
+    "id" SERIAL NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Organization_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Organization_slug_key" ON "Organization"("slug");
+
+-- Everything that exists today belongs to one organization
+INSERT INTO "Organization" ("id", "name", "slug", "updatedAt")
+VALUES (1, 'Default organization', 'default', CURRENT_TIMESTAMP);
+SELECT setval(pg_get_serial_sequence('"Organization"', 'id'), 1);
+
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "organizationId" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "User" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Property" ADD COLUMN "organizationId" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Property" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Technician" ADD COLUMN "organizationId" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Technician" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN "organizationId" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "Request" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- AlterTable
+ALTER TABLE "SlaPolicy" ADD COLUMN "organizationId" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "SlaPolicy" ALTER COLUMN "organizationId" DROP DEFAULT;
+
+-- DropIndex
+DROP INDEX "SlaPolicy_priority_category_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlaPolicy_organizationId_priority_category_key" ON "SlaPolicy"("organizationId", "priority", "category");
+
+-- The single 2FA policy row becomes the default organization's
+ALTER TABLE "TwoFactorPolicy" ADD COLUMN "organizationId" INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE "TwoFactorPolicy" ALTER COLUMN "organizationId" DROP DEFAULT;
+ALTER TABLE "TwoFactorPolicy" DROP CONSTRAINT "TwoFactorPolicy_pkey";
+ALTER TABLE "TwoFactorPolicy" DROP COLUMN "id";
+ALTER TABLE "TwoFactorPolicy" ADD CONSTRAINT "TwoFactorPolicy_pkey" PRIMARY KEY ("organizationId");
+
+-- CreateIndex
+CREATE INDEX "User_organizationId_idx" ON "User"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Property_organizationId_idx" ON "Property"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Technician_organizationId_idx" ON "Technician"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "Request_organizationId_createdAt_idx" ON "Request"("organizationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "User" ADD CONSTRAINT "User_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Property" ADD CONSTRAINT "Property_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Technician" ADD CONSTRAINT "Technician_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Request" ADD CONSTRAINT "Request_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlaPolicy" ADD CONSTRAINT "SlaPolicy_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "TwoFactorPolicy" ADD CONSTRAINT "TwoFactorPolicy_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
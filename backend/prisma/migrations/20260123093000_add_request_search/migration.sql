@@ -0,0 +1,69 @@
+-- Full-text search over requests. Words are indexed unstemmed ('simple')
+-- so prefix queries match what was typed: "leak" finds "leaking".
+
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN "searchVector" tsvector;
+
+-- AlterTable
+ALTER TABLE "RequestComment" ADD COLUMN "searchVector" tsvector
+    GENERATED ALWAYS AS (to_tsvector('simple', "body")) STORED;
+
+-- CreateIndex
+CREATE INDEX "Request_searchVector_idx" ON "Request" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "RequestComment_searchVector_idx" ON "RequestComment" USING GIN ("searchVector");
+
+-- The request vector also covers its unit and tenant, which live in other
+-- tables, so a trigger keeps it current instead of a generated column.
+-- Description ranks highest; email addresses are also split into words so
+-- "jane" finds jane.doe@example.com.
+CREATE FUNCTION "request_search_vector"() RETURNS trigger AS $$
+BEGIN
+    SELECT
+        setweight(to_tsvector('simple', NEW."description"), 'A') ||
+        setweight(to_tsvector('simple', NEW."category"), 'B') ||
+        setweight(to_tsvector('simple', u."number"), 'B') ||
+        setweight(to_tsvector('simple',
+            t."name" || ' ' || t."email" || ' ' ||
+            regexp_replace(t."email", '[@._+-]', ' ', 'g')), 'C')
+    INTO NEW."searchVector"
+    FROM "Unit" u, "User" t
+    WHERE u."id" = NEW."unitId" AND t."id" = NEW."tenantId";
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Request_search_vector"
+BEFORE INSERT OR UPDATE OF "description", "category", "unitId", "tenantId" ON "Request"
+FOR EACH ROW EXECUTE FUNCTION "request_search_vector"();
+
+-- Renaming a tenant or unit re-indexes their requests
+CREATE FUNCTION "tenant_search_vector_refresh"() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Request" SET "tenantId" = "tenantId" WHERE "tenantId" = NEW."id";
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "User_search_vector_refresh"
+AFTER UPDATE OF "name", "email" ON "User"
+FOR EACH ROW
+WHEN (OLD."name" IS DISTINCT FROM NEW."name" OR OLD."email" IS DISTINCT FROM NEW."email")
+EXECUTE FUNCTION "tenant_search_vector_refresh"();
+
+CREATE FUNCTION "unit_search_vector_refresh"() RETURNS trigger AS $$
+BEGIN
+    UPDATE "Request" SET "unitId" = "unitId" WHERE "unitId" = NEW."id";
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "Unit_search_vector_refresh"
+AFTER UPDATE OF "number" ON "Unit"
+FOR EACH ROW
+WHEN (OLD."number" IS DISTINCT FROM NEW."number")
+EXECUTE FUNCTION "unit_search_vector_refresh"();
+
+-- Backfill: touching the tenant column fires the request trigger
+UPDATE "Request" SET "tenantId" = "tenantId";
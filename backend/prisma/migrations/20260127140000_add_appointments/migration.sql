@@ -0,0 +1,43 @@
+-- CreateEnum
+CREATE TYPE "AppointmentStatus" AS ENUM ('proposed', 'accepted', 'declined', 'cancelled');
+
+-- AlterEnum
+ALTER TYPE "RequestEventType" ADD VALUE 'appointment_proposed';
+ALTER TYPE "RequestEventType" ADD VALUE 'appointment_accepted';
+ALTER TYPE "RequestEventType" ADD VALUE 'appointment_declined';
+ALTER TYPE "RequestEventType" ADD VALUE 'appointment_cancelled';
+
+-- AlterTable
+ALTER TABLE "Technician" ADD COLUMN "maxDailyVisits" INTEGER NOT NULL DEFAULT 4;
+
+-- CreateTable
+CREATE TABLE "Appointment" (
+    "id" SERIAL NOT NULL,
+    "requestId" INTEGER NOT NULL,
+    "technicianId" INTEGER NOT NULL,
+    "date" DATE NOT NULL,
+    "window" TEXT NOT NULL,
+    "status" "AppointmentStatus" NOT NULL DEFAULT 'proposed',
+    "proposedById" INTEGER NOT NULL,
+    "declineReason" TEXT,
+    "respondedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Appointment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Appointment_requestId_idx" ON "Appointment"("requestId");
+
+-- CreateIndex
+CREATE INDEX "Appointment_technicianId_date_idx" ON "Appointment"("technicianId", "date");
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_requestId_fkey" FOREIGN KEY ("requestId") REFERENCES "Request"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_technicianId_fkey" FOREIGN KEY ("technicianId") REFERENCES "Technician"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_proposedById_fkey" FOREIGN KEY ("proposedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN "calendarFeedVersion" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Request" ADD COLUMN "scheduledVisitDate" DATE,
+ADD COLUMN "scheduledVisitWindow" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Request_organizationId_scheduledVisitDate_idx" ON "Request"("organizationId", "scheduledVisitDate");
+
+-- Backfill from visits already accepted
+UPDATE "Request" r
+SET "scheduledVisitDate" = a."date", "scheduledVisitWindow" = a."window"
+FROM (
+  SELECT DISTINCT ON ("requestId") "requestId", "date", "window"
+  FROM "Appointment"
+  WHERE "status" = 'accepted'
+  ORDER BY "requestId", "createdAt" DESC
+) a
+WHERE a."requestId" = r."id";
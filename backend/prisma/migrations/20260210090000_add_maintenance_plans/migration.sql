@@ -0,0 +1,92 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('daily', 'weekly', 'monthly', 'yearly');
+
+-- AlterTable
+ALTER TABLE "Request" ALTER COLUMN "tenantId" DROP NOT NULL,
+ADD COLUMN "maintenancePlanId" INTEGER,
+ADD COLUMN "maintenancePlanRunOn" DATE;
+
+-- CreateTable
+CREATE TABLE "MaintenancePlan" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "checklist" TEXT[],
+    "priority" "Priority" NOT NULL DEFAULT 'normal',
+    "preferredWindow1" TEXT NOT NULL,
+    "preferredWindow2" TEXT,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "startsOn" DATE NOT NULL,
+    "endsOn" DATE,
+    "nextRunOn" DATE,
+    "lastRunAt" TIMESTAMP(3),
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdById" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MaintenancePlan_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "MaintenancePlanTarget" (
+    "id" SERIAL NOT NULL,
+    "planId" INTEGER NOT NULL,
+    "unitId" INTEGER,
+    "buildingId" INTEGER,
+
+    CONSTRAINT "MaintenancePlanTarget_pkey" PRIMARY KEY ("id"),
+    -- Exactly one of unit and building
+    CONSTRAINT "MaintenancePlanTarget_one_target" CHECK (("unitId" IS NULL) <> ("buildingId" IS NULL))
+);
+
+-- CreateIndex
+CREATE INDEX "MaintenancePlan_organizationId_idx" ON "MaintenancePlan"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "MaintenancePlan_active_nextRunOn_idx" ON "MaintenancePlan"("active", "nextRunOn");
+
+-- CreateIndex
+CREATE INDEX "MaintenancePlanTarget_planId_idx" ON "MaintenancePlanTarget"("planId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Request_maintenancePlanId_unitId_maintenancePlanRunOn_key" ON "Request"("maintenancePlanId", "unitId", "maintenancePlanRunOn");
+
+-- AddForeignKey
+ALTER TABLE "Request" ADD CONSTRAINT "Request_maintenancePlanId_fkey" FOREIGN KEY ("maintenancePlanId") REFERENCES "MaintenancePlan"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenancePlan" ADD CONSTRAINT "MaintenancePlan_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenancePlan" ADD CONSTRAINT "MaintenancePlan_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenancePlanTarget" ADD CONSTRAINT "MaintenancePlanTarget_planId_fkey" FOREIGN KEY ("planId") REFERENCES "MaintenancePlan"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenancePlanTarget" ADD CONSTRAINT "MaintenancePlanTarget_unitId_fkey" FOREIGN KEY ("unitId") REFERENCES "Unit"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "MaintenancePlanTarget" ADD CONSTRAINT "MaintenancePlanTarget_buildingId_fkey" FOREIGN KEY ("buildingId") REFERENCES "Building"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Requests without a tenant still index their own text and unit
+CREATE OR REPLACE FUNCTION "request_search_vector"() RETURNS trigger AS $$
+BEGIN
+    SELECT
+        setweight(to_tsvector('simple', NEW."description"), 'A') ||
+        setweight(to_tsvector('simple', NEW."category"), 'B') ||
+        setweight(to_tsvector('simple', u."number"), 'B') ||
+        setweight(to_tsvector('simple', coalesce(
+            t."name" || ' ' || t."email" || ' ' ||
+            regexp_replace(t."email", '[@._+-]', ' ', 'g'), '')), 'C')
+    INTO NEW."searchVector"
+    FROM "Unit" u
+    LEFT JOIN "User" t ON t."id" = NEW."tenantId"
+    WHERE u."id" = NEW."unitId";
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "LoginUnlock" (
+    "id" SERIAL NOT NULL,
+    "email" TEXT NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "unlockedById" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LoginUnlock_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LoginUnlock_userId_createdAt_idx" ON "LoginUnlock"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "LoginUnlock" ADD CONSTRAINT "LoginUnlock_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "LoginUnlock" ADD CONSTRAINT "LoginUnlock_unlockedById_fkey" FOREIGN KEY ("unlockedById") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Each word (lexeme) of a request's search vector as its own row. A prefix
+-- search word matches a request when it starts one of these terms, the same
+-- rule as a "word:*" tsquery, so request filters can express a search as a
+-- subquery on this view.
+CREATE VIEW "RequestSearchTerm" AS
+SELECT
+    r."id" AS "requestId",
+    r."organizationId",
+    t."term"
+FROM "Request" r
+CROSS JOIN LATERAL unnest(tsvector_to_array(r."searchVector")) AS t("term");
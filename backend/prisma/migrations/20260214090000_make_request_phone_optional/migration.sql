@@ -0,0 +1,6 @@
+-- Requests a maintenance plan opened have no contact number; they were
+-- stored with an empty one
+ALTER TABLE "Request" ALTER COLUMN "phone" DROP NOT NULL;
+
+UPDATE "Request" SET "phone" = NULL
+WHERE "phone" = '' AND "maintenancePlanId" IS NOT NULL;
@@ -1,4 +1,4 @@
-import { PrismaClient, Role, Priority } from "@prisma/client";
+import { PrismaClient, Role, Priority, TechnicianKind } from "@prisma/client";
 import bcrypt from "bcrypt";
 import dotenv from "dotenv";
 
@@ -9,18 +9,81 @@ async function main() {
   const saltRounds = Number(process.env.BCRYPT_SALT_ROUNDS || 10);
   const passwordHash = await bcrypt.hash("password123", saltRounds);
 
-  // Manager user
-  await prisma.user.upsert({
+  // Everything below belongs to the organization the migration created
+  const organization = await prisma.organization.upsert({
+    where: { slug: "default" },
+    update: {},
+    create: { name: "Default organization", slug: "default" },
+  });
+  const organizationId = organization.id;
+
+  // Manager and admin users
+  const manager = await prisma.user.upsert({
     where: { email: "manager@example.com" },
     update: {},
     create: {
       name: "Manager One",
       email: "manager@example.com",
       passwordHash,
+      emailVerifiedAt: new Date(),
       role: Role.manager,
+      organizationId,
     },
   });
 
+  await prisma.user.upsert({
+    where: { email: "admin@example.com" },
+    update: {},
+    create: {
+      name: "Admin One",
+      email: "admin@example.com",
+      passwordHash,
+      emailVerifiedAt: new Date(),
+      role: Role.admin,
+      organizationId,
+    },
+  });
+
+  // Property → building → units
+  const property =
+    (await prisma.property.findFirst({
+      where: { name: "Kefiat Apartments", organizationId },
+    })) ??
+    (await prisma.property.create({
+      data: {
+        name: "Kefiat Apartments",
+        address: "100 Main St",
+        organizationId,
+      },
+    }));
+
+  // The manager looks after this property; admins see every property
+  await prisma.propertyAssignment.upsert({
+    where: {
+      userId_propertyId: { userId: manager.id, propertyId: property.id },
+    },
+    update: {},
+    create: { userId: manager.id, propertyId: property.id },
+  });
+
+  const building = await prisma.building.upsert({
+    where: { propertyId_name: { propertyId: property.id, name: "Building A" } },
+    update: {},
+    create: { name: "Building A", propertyId: property.id },
+  });
+
+  const units = [];
+  for (const number of ["101", "102", "201", "202"]) {
+    units.push(
+      await prisma.unit.upsert({
+        where: { buildingId_number: { buildingId: building.id, number } },
+        update: {},
+        create: { number, buildingId: building.id },
+      })
+    );
+  }
+  const unit101 = units[0];
+
   // Tenant user + profile
   const tenant = await prisma.user.upsert({
     where: { email: "tenant@example.com" },
@@ -29,7 +92,9 @@ async function main() {
       name: "Tenant One",
       email: "tenant@example.com",
       passwordHash,
+      emailVerifiedAt: new Date(),
       role: Role.tenant,
+      organizationId,
     },
   });
 
@@ -38,17 +103,66 @@ async function main() {
     update: {},
     create: {
       userId: tenant.id,
-      unitId: 101,
+      unitId: unit101.id,
+    },
+  });
+
+  // Technician user + staff record, plus an outside vendor
+  const technicianUser = await prisma.user.upsert({
+    where: { email: "tech@example.com" },
+    update: {},
+    create: {
+      name: "Tech One",
+      email: "tech@example.com",
+      passwordHash,
+      emailVerifiedAt: new Date(),
+      role: Role.technician,
+      organizationId,
     },
   });
 
-  // Sample requests
+  const technician = await prisma.technician.upsert({
+    where: { userId: technicianUser.id },
+    update: {},
+    create: {
+      name: technicianUser.name,
+      email: technicianUser.email,
+      phone: "555-987-6543",
+      kind: TechnicianKind.staff,
+      userId: technicianUser.id,
+      organizationId,
+    },
+  });
+
+  if (
+    !(await prisma.technician.findFirst({
+      where: { name: "CoolAir HVAC", organizationId },
+    }))
+  ) {
+    await prisma.technician.create({
+      data: {
+        name: "CoolAir HVAC",
+        company: "CoolAir HVAC LLC",
+        phone: "555-222-3344",
+        kind: TechnicianKind.vendor,
+        organizationId,
+      },
+    });
+  }
+
+  // Sample requests follow the default workflow created by the migration
+  const workflow = await prisma.workflow.findFirstOrThrow({
+    where: { isDefault: true },
+  });
+
   await prisma.request.create({
     data: {
-      unit: "101",
+      organizationId,
+      unitId: unit101.id,
       category: "Water leak",
       description: "Water dripping under kitchen sink.",
       phone: "555-123-4567",
+      workflowId: workflow.id,
       status: "in_queue",
       priority: Priority.high,
       accessInstructions: "OK to enter if I am not home.",
@@ -59,12 +173,16 @@ async function main() {
 
   await prisma.request.create({
     data: {
-      unit: "101",
+      organizationId,
+      unitId: unit101.id,
       category: "AC",
       description: "AC not cooling properly.",
       phone: "555-123-4567",
+      workflowId: workflow.id,
       status: "maintenance_requested",
       priority: Priority.normal,
+      assigneeId: technician.id,
+      assignedAt: new Date(),
       accessInstructions: "Please call before coming.",
       lastUpdatedByRole: "manager",
       tenantId: tenant.id,
@@ -0,0 +1,36 @@
+// Values that must be set for the server to run safely. Read lazily because
+// dotenv loads after the modules that import this file.
+
+// Placeholders from docs and old defaults that must never sign real tokens
+const placeholderSecrets = ["changeme", "secret", "jwt_secret", "your-secret"];
+const minSecretLength = 32;
+
+export function jwtSecret() {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error("JWT_SECRET is not set");
+  }
+  if (
+    placeholderSecrets.includes(secret.toLowerCase()) ||
+    secret.length < minSecretLength
+  ) {
+    throw new Error(
+      `JWT_SECRET must be a random value of at least ${minSecretLength} characters (try: openssl rand -hex 32)`
+    );
+  }
+  return secret;
+}
+
+// Access tokens are short-lived; sessions are renewed with the refresh cookie
+export function accessTokenTtlSeconds() {
+  return Number(process.env.ACCESS_TOKEN_TTL_SECONDS) || 15 * 60;
+}
+
+export function refreshTokenTtlDays() {
+  return Number(process.env.REFRESH_TOKEN_TTL_DAYS) || 30;
+}
+
+// Called once at startup so a misconfigured server fails before listening
+export function validateConfig() {
+  jwtSecret();
+}
@@ -1,11 +1,29 @@
 import express from "express";
 import cors from "cors";
+import cookieParser from "cookie-parser";
 import dotenv from "dotenv";
 import { PrismaClient } from "@prisma/client";
 import authRouter from "./routes/auth";
 import requestsRouter from "./routes/requests";
+import propertiesRouter from "./routes/properties";
+import techniciansRouter from "./routes/technicians";
+import workflowsRouter from "./routes/workflows";
+import slaPoliciesRouter from "./routes/slaPolicies";
+import notificationsRouter from "./routes/notifications";
+import eventsRouter from "./routes/events";
+import permissionsRouter from "./routes/permissions";
+import usersRouter from "./routes/users";
+import analyticsRouter from "./routes/analytics";
+import calendarRouter from "./routes/calendar";
+import maintenancePlansRouter from "./routes/maintenancePlans";
+import { startSlaChecker } from "./services/sla";
+import { startMaintenanceScheduler } from "./services/maintenancePlans";
+import { startNotifications } from "./services/notifications";
+import { startLiveUpdates } from "./realtime/liveUpdates";
+import { validateConfig } from "./config";
 
 dotenv.config();
+validateConfig();
 
 const app = express();
 const prisma = new PrismaClient();
@@ -19,6 +37,7 @@ app.use(
   })
 );
 app.use(express.json());
+app.use(cookieParser());
 
 app.get("/health", async (_req, res) => {
   try {
@@ -31,7 +50,22 @@ app.get("/health", async (_req, res) => {
 
 app.use("/auth", authRouter);
 app.use("/requests", requestsRouter);
+app.use("/properties", propertiesRouter);
+app.use("/technicians", techniciansRouter);
+app.use("/workflows", workflowsRouter);
+app.use("/sla-policies", slaPoliciesRouter);
+app.use("/notifications", notificationsRouter);
+app.use("/events", eventsRouter);
+app.use("/permissions", permissionsRouter);
+app.use("/users", usersRouter);
+app.use("/analytics", analyticsRouter);
+app.use("/calendar", calendarRouter);
+app.use("/maintenance-plans", maintenancePlansRouter);
 
 app.listen(PORT, () => {
   console.log(`Backend listening on port ${PORT}`);
+  startSlaChecker();
+  startMaintenanceScheduler();
+  startNotifications();
+  startLiveUpdates();
 });
@@ -1,22 +1,106 @@
 import { Request, Response, NextFunction } from "express";
 import jwt from "jsonwebtoken";
+import { jwtSecret } from "../config";
+import { isSessionActive } from "../services/sessions";
+import {
+  hasPermission,
+  Permission,
+  propertyScope,
+  PropertyScope,
+} from "../services/permissions";
 
 export interface AuthRequest extends Request {
   user?: any;
+  // Properties the user's permissions cover, set by requirePermission
+  scope?: PropertyScope;
 }
 
-export function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
+export async function authMiddleware(req: AuthRequest, res: Response, next: NextFunction) {
   const authHeader = req.headers.authorization;
   if (!authHeader || !authHeader.startsWith("Bearer ")) {
     return res.status(401).json({ message: "No token provided" });
   }
 
   const token = authHeader.split(" ")[1];
+  let decoded: any;
   try {
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || "changeme");
-    req.user = decoded;
-    next();
+    decoded = jwt.verify(token, jwtSecret());
   } catch (err) {
     return res.status(401).json({ message: "Invalid token" });
   }
+
+  // Tokens from before organizations existed carry no orgId; the client
+  // refreshes and gets one that does
+  if (typeof decoded?.orgId !== "number") {
+    return res.status(401).json({ message: "Invalid token" });
+  }
+
+  // Access tokens belong to a session so logging out takes effect at once
+  try {
+    if (!decoded.sid || !(await isSessionActive(decoded.sid))) {
+      return res.status(401).json({ message: "Session has ended" });
+    }
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to check session" });
+  }
+
+  req.user = decoded;
+  next();
+}
+
+// For EventSource connections, which can't send headers: the same JWT is
+// accepted from the access_token query parameter.
+export function streamAuthMiddleware(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  const token = req.query.access_token;
+  if (!req.headers.authorization && typeof token === "string") {
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  return authMiddleware(req, res, next);
+}
+
+export function ensureTenant(req: AuthRequest, res: Response) {
+  const user = req.user as any;
+  if (!user || user.role !== "tenant") {
+    res.status(403).json({ message: "Only tenants can perform this action" });
+    return null;
+  }
+  return user;
+}
+
+// Route guard for the permission matrix in services/permissions.ts. Runs
+// after authMiddleware and leaves the user's property scope on req.scope for
+// the handler to filter by.
+export function requirePermission(permission: Permission) {
+  return async (req: AuthRequest, res: Response, next: NextFunction) => {
+    const user = req.user as any;
+    if (!user || !hasPermission(user.role, permission)) {
+      return res
+        .status(403)
+        .json({ message: "You don't have permission to do this" });
+    }
+
+    try {
+      req.scope = await propertyScope(user);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to check permissions" });
+    }
+    next();
+  };
+}
+
+export function ensureTechnician(req: AuthRequest, res: Response) {
+  const user = req.user as any;
+  if (!user || user.role !== "technician") {
+    res
+      .status(403)
+      .json({ message: "Only technicians can perform this action" });
+    return null;
+  }
+  return user;
 }
@@ -0,0 +1,71 @@
+import { Request, Response, NextFunction } from "express";
+import multer from "multer";
+
+export const allowedUploadMimeTypes = [
+  "image/jpeg",
+  "image/png",
+  "image/webp",
+  "application/pdf",
+];
+
+export const maxFilesPerUpload = 5;
+
+class UploadRejectedError extends Error {}
+
+// Read lazily so values from .env are in place by the first upload
+function maxUploadBytes() {
+  return Number(process.env.MAX_UPLOAD_BYTES || 10 * 1024 * 1024);
+}
+
+let upload: multer.Multer | null = null;
+
+function getUpload() {
+  if (!upload) {
+    upload = multer({
+      storage: multer.memoryStorage(),
+      limits: { fileSize: maxUploadBytes(), files: maxFilesPerUpload },
+      fileFilter: (_req, file, cb) => {
+        if (!allowedUploadMimeTypes.includes(file.mimetype)) {
+          return cb(
+            new UploadRejectedError(`Unsupported file type: ${file.mimetype}`)
+          );
+        }
+        cb(null, true);
+      },
+    });
+  }
+  return upload;
+}
+
+// Accepts up to maxFilesPerUpload files in the "attachments" field.
+// JSON bodies pass straight through, so routes can take either.
+export function attachmentsUpload(
+  req: Request,
+  res: Response,
+  next: NextFunction
+) {
+  getUpload().array("attachments", maxFilesPerUpload)(
+    req,
+    res,
+    (err: unknown) => {
+      if (!err) return next();
+
+      if (err instanceof multer.MulterError) {
+        const message =
+          err.code === "LIMIT_FILE_SIZE"
+            ? `Each file must be smaller than ${Math.round(
+                maxUploadBytes() / (1024 * 1024)
+              )} MB`
+            : err.code === "LIMIT_FILE_COUNT" ||
+                err.code === "LIMIT_UNEXPECTED_FILE"
+              ? `You can upload at most ${maxFilesPerUpload} files at a time`
+              : err.message;
+        return res.status(400).json({ message });
+      }
+      if (err instanceof UploadRejectedError) {
+        return res.status(400).json({ message: err.message });
+      }
+      next(err);
+    }
+  );
+}
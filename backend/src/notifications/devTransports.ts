@@ -0,0 +1,50 @@
+import fs from "fs";
+import path from "path";
+import { EmailMessage, NotificationTransport } from "./index";
+
+// Prints emails to the server log
+export function createConsoleTransport(): NotificationTransport {
+  return {
+    async send(message) {
+      console.log(
+        `[mail] to=${message.to} subject="${message.subject}"\n${message.text}`
+      );
+    },
+  };
+}
+
+// Writes each email as a .eml file under MAIL_DIR (default: ./mail) so it can
+// be opened in a mail client during development
+export function createFileTransport(): NotificationTransport {
+  const root = path.resolve(process.env.MAIL_DIR || "mail");
+
+  return {
+    async send(message) {
+      await fs.promises.mkdir(root, { recursive: true });
+      const safeTo = message.to.replace(/[^a-zA-Z0-9@._-]/g, "_");
+      const fileName = `${Date.now()}-${safeTo}.eml`;
+      await fs.promises.writeFile(path.join(root, fileName), toEml(message));
+    },
+  };
+}
+
+function toEml(message: EmailMessage) {
+  const boundary = `kefiat-${Date.now().toString(36)}`;
+  return [
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    message.text,
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "",
+    message.html,
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
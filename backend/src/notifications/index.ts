@@ -0,0 +1,49 @@
+import { createConsoleTransport, createFileTransport } from "./devTransports";
+import { createSmtpTransport } from "./smtpTransport";
+
+export type EmailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// Delivers rendered emails. Drivers only deliver; templating and choosing
+// recipients happen before a message reaches them.
+export interface NotificationTransport {
+  send(message: EmailMessage): Promise<void>;
+}
+
+type TransportFactory = () => NotificationTransport;
+
+const transports: Record<string, TransportFactory> = {
+  console: createConsoleTransport,
+  file: createFileTransport,
+  smtp: createSmtpTransport,
+};
+
+// Lets deployments plug in another provider (SES, Postmark, ...) before first use
+export function registerNotificationTransport(
+  name: string,
+  factory: TransportFactory
+) {
+  transports[name] = factory;
+}
+
+let instance: NotificationTransport | null = null;
+
+export function getNotificationTransport(): NotificationTransport {
+  if (!instance) {
+    const name = process.env.MAIL_TRANSPORT || "console";
+    const factory = transports[name];
+    if (!factory) {
+      throw new Error(`Unknown MAIL_TRANSPORT "${name}"`);
+    }
+    instance = factory();
+  }
+  return instance;
+}
+
+export function mailFrom() {
+  return process.env.MAIL_FROM || "Kefiat Maintenance <no-reply@kefiat.local>";
+}
@@ -0,0 +1,24 @@
+import nodemailer from "nodemailer";
+import { mailFrom, NotificationTransport } from "./index";
+
+// Sends through an SMTP relay configured with SMTP_* variables
+export function createSmtpTransport(): NotificationTransport {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST is required when MAIL_TRANSPORT=smtp");
+  }
+
+  const transporter = nodemailer.createTransport({
+    host: process.env.SMTP_HOST,
+    port: Number(process.env.SMTP_PORT) || 587,
+    secure: process.env.SMTP_SECURE === "true",
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+      : undefined,
+  });
+
+  return {
+    async send(message) {
+      await transporter.sendMail({ from: mailFrom(), ...message });
+    },
+  };
+}
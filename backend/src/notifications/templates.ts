@@ -0,0 +1,151 @@
+import { NotificationEvent } from "@prisma/client";
+
+export type TemplateContext = {
+  recipientName: string;
+  requestId: number;
+  category: string;
+  location: string; // "Kefiat Apartments · Building A · Unit 101"
+  oldValue: string | null;
+  newValue: string | null;
+  note: string | null;
+};
+
+type Rendered = { subject: string; text: string; html: string };
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function appUrl() {
+  return process.env.APP_URL || "http://localhost:5173";
+}
+
+// Subject and body lines per event; text and HTML are built from the same lines
+const templates: Record<
+  NotificationEvent,
+  (ctx: TemplateContext) => { subject: string; lines: string[] }
+> = {
+  request_created: (ctx) => ({
+    subject: `Request #${ctx.requestId} received: ${ctx.category}`,
+    lines: [
+      `Maintenance request #${ctx.requestId} (${ctx.category}) was submitted for ${ctx.location}.`,
+    ],
+  }),
+  status_changed: (ctx) => ({
+    subject: `Request #${ctx.requestId} is now ${ctx.newValue}`,
+    lines: [
+      `The status of request #${ctx.requestId} (${ctx.category}) changed from ${ctx.oldValue} to ${ctx.newValue}.`,
+    ],
+  }),
+  priority_changed: (ctx) => ({
+    subject: `Request #${ctx.requestId} priority: ${ctx.newValue}`,
+    lines: [
+      `The priority of request #${ctx.requestId} (${ctx.category}) changed from ${ctx.oldValue} to ${ctx.newValue}.`,
+    ],
+  }),
+  request_completed: (ctx) => ({
+    subject: `Request #${ctx.requestId} completed`,
+    lines: [
+      `Request #${ctx.requestId} (${ctx.category}) at ${ctx.location} has been completed.`,
+      "If the problem comes back, you can reopen it from your dashboard.",
+    ],
+  }),
+};
+
+// Shared layout: greeting, body lines, one call-to-action link, footer
+function renderEmail(
+  recipientName: string,
+  subject: string,
+  body: string[],
+  link: { url: string; label: string },
+  footer: string
+): Rendered {
+  const text = [
+    `Hi ${recipientName},`,
+    "",
+    ...body,
+    "",
+    `${link.label}: ${link.url}`,
+    "",
+    footer,
+  ].join("\n");
+
+  const html = [
+    `<p>Hi ${escapeHtml(recipientName)},</p>`,
+    ...body.map((line) => `<p>${escapeHtml(line)}</p>`),
+    `<p><a href="${escapeHtml(link.url)}">${escapeHtml(link.label)}</a></p>`,
+    `<p style="color:#6b7280;font-size:12px">${escapeHtml(footer)}</p>`,
+  ].join("\n");
+
+  return { subject, text, html };
+}
+
+export function renderNotification(
+  event: NotificationEvent,
+  ctx: TemplateContext
+): Rendered {
+  const { subject, lines } = templates[event](ctx);
+  return renderEmail(
+    ctx.recipientName,
+    subject,
+    [...lines, ...(ctx.note ? [`Note: ${ctx.note}`] : [])],
+    { url: appUrl(), label: "Open Kefiat Maintenance" },
+    "You can change which emails you receive in your dashboard settings."
+  );
+}
+
+export type AccountEmail = "invite" | "password_reset" | "email_verification";
+
+// Emails that carry a single-use link to one of the account pages
+const accountTemplates: Record<
+  AccountEmail,
+  { subject: string; lines: string[]; path: string; label: string }
+> = {
+  invite: {
+    subject: "You're invited to Kefiat Maintenance",
+    lines: [
+      "Your property manager has set up an account for you to submit and track maintenance requests.",
+      "Choose a password to get started. This link expires in 7 days.",
+    ],
+    path: "/accept-invite",
+    label: "Set your password",
+  },
+  password_reset: {
+    subject: "Reset your Kefiat password",
+    lines: [
+      "We received a request to reset your password. This link expires in 1 hour.",
+      "If you didn't ask for this, you can ignore this email.",
+    ],
+    path: "/reset-password",
+    label: "Reset password",
+  },
+  email_verification: {
+    subject: "Confirm your email address",
+    lines: [
+      "Please confirm this is your email address. This link expires in 2 days.",
+    ],
+    path: "/verify-email",
+    label: "Confirm email",
+  },
+};
+
+export function renderAccountEmail(
+  kind: AccountEmail,
+  recipientName: string,
+  token: string
+): Rendered {
+  const template = accountTemplates[kind];
+  return renderEmail(
+    recipientName,
+    template.subject,
+    template.lines,
+    {
+      url: `${appUrl()}${template.path}?token=${encodeURIComponent(token)}`,
+      label: template.label,
+    },
+    "This link can only be used once."
+  );
+}
@@ -0,0 +1,176 @@
+import { Response } from "express";
+import { PrismaClient, RequestEvent, Role } from "@prisma/client";
+import { onRequestEvent } from "../services/requestEvents";
+import {
+  activeSessionIds,
+  onSessionsRevoked,
+  SessionRevocation,
+} from "../services/sessions";
+import { hasPermission, inScope, PropertyScope } from "../services/permissions";
+
+const prisma = new PrismaClient();
+
+type Client = {
+  // Scope is read when the stream opens; reconnecting picks up changes
+  user: { id: number; role: Role; orgId: number; scope: PropertyScope };
+  // The session and access token the stream was opened with. The stream
+  // closes when either ends; the browser then reconnects with a fresh token.
+  sessionId: string;
+  expiresAt: Date;
+  res: Response;
+};
+
+const clients = new Set<Client>();
+
+// Keeps idle connections open through proxies that drop silent sockets
+const heartbeatMs = 25 * 1000;
+
+function write(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Registers an open event stream; it's dropped when the connection closes
+export function addLiveClient(
+  user: Client["user"],
+  session: { id: string; expiresAt: Date },
+  res: Response
+) {
+  const client = {
+    user,
+    sessionId: session.id,
+    expiresAt: session.expiresAt,
+    res,
+  };
+  clients.add(client);
+  res.on("close", () => {
+    clients.delete(client);
+  });
+}
+
+function closeClient(client: Client) {
+  clients.delete(client);
+  client.res.end();
+}
+
+// Ends the streams of sessions that were just revoked (logout, deactivation,
+// password reset, ...)
+function closeRevoked({ userId, sessionId }: SessionRevocation) {
+  for (const client of clients) {
+    if (
+      client.user.id === userId &&
+      (!sessionId || client.sessionId === sessionId)
+    ) {
+      closeClient(client);
+    }
+  }
+}
+
+// Drops streams whose token has expired or whose session has ended
+// elsewhere (another instance, or directly in the database), then pings the
+// rest
+async function heartbeat() {
+  const now = Date.now();
+  for (const client of clients) {
+    if (client.expiresAt.getTime() <= now) closeClient(client);
+  }
+  if (clients.size === 0) return;
+
+  const active = await activeSessionIds([
+    ...new Set([...clients].map((c) => c.sessionId)),
+  ]);
+  for (const client of clients) {
+    if (active.has(client.sessionId)) {
+      client.res.write(": ping\n\n");
+    } else {
+      closeClient(client);
+    }
+  }
+}
+
+type Audience = {
+  organizationId: number;
+  tenantId: number | null;
+  technicianUserId: number | null;
+  propertyId: number;
+};
+
+// Same visibility rule as the REST routes: staff see their properties,
+// tenants their own requests, technicians the requests assigned to them
+function canSee(user: Client["user"], audience: Audience) {
+  if (audience.organizationId !== user.orgId) return false;
+  if (hasPermission(user.role, "requests.view_all")) {
+    return inScope(user.scope, audience.propertyId);
+  }
+  if (user.role === "tenant") return audience.tenantId === user.id;
+  if (user.role === "technician") {
+    return audience.technicianUserId === user.id;
+  }
+  return false;
+}
+
+async function broadcast(event: RequestEvent) {
+  if (clients.size === 0) return;
+
+  const request = await prisma.request.findUnique({
+    where: { id: event.requestId },
+    select: {
+      organizationId: true,
+      tenantId: true,
+      assignee: { select: { userId: true } },
+      unit: { select: { building: { select: { propertyId: true } } } },
+    },
+  });
+  if (!request) return;
+
+  const audience = {
+    organizationId: request.organizationId,
+    tenantId: request.tenantId,
+    technicianUserId: request.assignee?.userId ?? null,
+    propertyId: request.unit.building.propertyId,
+  };
+  // Clients refetch what they show; the event says what changed and where
+  const payload = {
+    id: event.id,
+    requestId: event.requestId,
+    type: event.type,
+    field: event.field,
+    newValue: event.newValue,
+    actorId: event.actorId,
+    createdAt: event.createdAt,
+  };
+
+  for (const client of clients) {
+    if (canSee(client.user, audience)) {
+      write(client.res, "request", payload);
+    }
+  }
+}
+
+let started = false;
+
+export function startLiveUpdates() {
+  if (started) return;
+  started = true;
+
+  onRequestEvent((event) => {
+    broadcast(event).catch((err) =>
+      console.error("Failed to push live update", err)
+    );
+  });
+
+  onSessionsRevoked(closeRevoked);
+
+  let running = false;
+  setInterval(async () => {
+    // Skip a beat rather than overlap a slow session check
+    if (running) return;
+    running = true;
+    try {
+      await heartbeat();
+    } catch (err) {
+      console.error("Live update heartbeat failed", err);
+    } finally {
+      running = false;
+    }
+  }, heartbeatMs);
+}
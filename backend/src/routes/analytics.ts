@@ -0,0 +1,37 @@
+import { Router } from "express";
+import {
+  authMiddleware,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth";
+import {
+  AnalyticsQueryError,
+  parseAnalyticsQuery,
+  requestAnalytics,
+} from "../services/analytics";
+
+const router = Router();
+
+// Manager: response and resolution times, backlog and volume for the
+// requests in their properties. Optional from/to (YYYY-MM-DD) and propertyId.
+router.get(
+  "/requests",
+  authMiddleware,
+  requirePermission("requests.view_all"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+
+    try {
+      const filters = parseAnalyticsQuery(req.query);
+      return res.json(await requestAnalytics(user.orgId, req.scope!, filters));
+    } catch (err) {
+      if (err instanceof AnalyticsQueryError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load analytics" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,128 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import { authenticator } from "otplib";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+const db = vi.hoisted(() => ({
+  session: { findUnique: vi.fn() },
+  user: { findUnique: vi.fn() },
+  twoFactor: { findUnique: vi.fn(), updateMany: vi.fn(), upsert: vi.fn() },
+  recoveryCode: { updateMany: vi.fn() },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { signAccessToken } from "../services/sessions";
+import { signChallenge } from "../services/twoFactor";
+import authRouter from "./auth";
+
+let server: Server;
+let baseUrl: string;
+
+const totpSecret = authenticator.generateSecret();
+const user = {
+  id: 7,
+  name: "Mina Park",
+  email: "mina@example.com",
+  role: "manager",
+  organizationId: 3,
+  deactivatedAt: null as Date | null,
+};
+
+function post(path: string, body: unknown, token?: string) {
+  return fetch(`${baseUrl}/auth${path}`, {
+    method: "POST",
+    headers: {
+      "content-type": "application/json",
+      ...(token ? { authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const accessToken = () => signAccessToken(user, "s1").token;
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = "test-secret-that-is-long-enough-for-config";
+  const app = express();
+  app.use(express.json());
+  app.use("/auth", authRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.session.findUnique.mockResolvedValue({
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  db.user.findUnique.mockResolvedValue(user);
+  db.twoFactor.findUnique.mockResolvedValue(null);
+  db.twoFactor.upsert.mockResolvedValue({});
+});
+
+describe("two-factor setup", () => {
+  it("refuses a setup challenge once the account is deactivated", async () => {
+    db.user.findUnique.mockResolvedValue({
+      ...user,
+      deactivatedAt: new Date(),
+    });
+
+    for (const path of ["/2fa/setup", "/2fa/enable"]) {
+      const res = await post(path, {
+        challengeToken: signChallenge(user.id, "setup"),
+        code: "123456",
+      });
+      expect(res.status).toBe(401);
+    }
+    expect(db.twoFactor.upsert).not.toHaveBeenCalled();
+  });
+
+  it("starts setup for a signed-in user without two-factor", async () => {
+    const res = await post("/2fa/setup", {}, accessToken());
+
+    expect(res.status).toBe(200);
+    expect(db.twoFactor.upsert).toHaveBeenCalled();
+  });
+
+  it("needs a current code to replace an enabled authenticator", async () => {
+    db.twoFactor.findUnique.mockResolvedValue({
+      userId: user.id,
+      secret: totpSecret,
+      enabledAt: new Date("2026-01-01T00:00:00Z"),
+      lastUsedStep: null,
+    });
+    db.recoveryCode.updateMany.mockResolvedValue({ count: 0 });
+
+    expect((await post("/2fa/setup", {}, accessToken())).status).toBe(400);
+    expect(
+      (await post("/2fa/setup", { code: "000000" }, accessToken())).status
+    ).toBe(400);
+    expect(db.twoFactor.upsert).not.toHaveBeenCalled();
+
+    db.twoFactor.updateMany.mockResolvedValue({ count: 1 });
+    const code = authenticator.generate(totpSecret);
+    const res = await post("/2fa/setup", { code }, accessToken());
+
+    expect(res.status).toBe(200);
+    expect(db.twoFactor.upsert).toHaveBeenCalled();
+  });
+});
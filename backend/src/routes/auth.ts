@@ -1,51 +1,674 @@
-import { Router } from "express";
-import { PrismaClient } from "@prisma/client";
+import { NextFunction, Request, Response, Router } from "express";
+import { PrismaClient, Role } from "@prisma/client";
 import bcrypt from "bcrypt";
-import jwt from "jsonwebtoken";
-import { authMiddleware, AuthRequest } from "../middleware/auth";
+import {
+  authMiddleware,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth";
+import { consumeAuthToken, sendAccountEmail } from "../services/authTokens";
+import {
+  checkLoginAllowed,
+  listLockedAccounts,
+  LoginBlock,
+  normalizeEmail,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockAccount,
+} from "../services/loginThrottle";
+import {
+  beginEnrollment,
+  confirmEnrollment,
+  disableTwoFactor,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  readChallenge,
+  regenerateRecoveryCodes,
+  requiredRoles,
+  setRequiredRoles,
+  signChallenge,
+  twoFactorStatus,
+  verifySecondFactor,
+} from "../services/twoFactor";
+import { inScope } from "../services/permissions";
+import {
+  createSession,
+  listActiveSessions,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+  signAccessToken,
+} from "../services/sessions";
 
 const router = Router();
 const prisma = new PrismaClient();
 
-function signToken(payload: any) {
-  return jwt.sign(payload, process.env.JWT_SECRET || "changeme", {
-    expiresIn: "7d",
+// Tenants get their unit (with building and property) alongside the user
+const tenantProfileInclude = {
+  tenantProfile: {
+    select: {
+      unit: {
+        select: {
+          id: true,
+          number: true,
+          building: {
+            select: {
+              id: true,
+              name: true,
+              property: { select: { id: true, name: true } },
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+// The refresh token lives in an httpOnly cookie scoped to /auth, out of
+// reach of page scripts and only sent where it's needed
+const refreshCookie = "kefiat_refresh";
+
+function setRefreshCookie(res: Response, token: string, expiresAt: Date) {
+  res.cookie(refreshCookie, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "strict",
+    path: "/auth",
+    expires: expiresAt,
+  });
+}
+
+function clearRefreshCookie(res: Response) {
+  res.clearCookie(refreshCookie, { path: "/auth" });
+}
+
+// Starts a session for a user who just proved who they are and returns the
+// body for the login-style responses
+async function startSession(
+  req: Request,
+  res: Response,
+  user: { id: number; role: string; organizationId: number }
+) {
+  const { session, refreshToken } = await createSession(user.id, {
+    userAgent: req.get("user-agent"),
+    ipAddress: req.ip,
+  });
+  setRefreshCookie(res, refreshToken, session.expiresAt);
+  return signAccessToken(user, session.id);
+}
+
+// Ends a login whose password (or invitation) checked out: straight into a
+// session, or on to the second factor when the account has or needs one.
+// The failed-login count is only cleared once no code is left to guess.
+async function finishLogin(
+  req: Request,
+  res: Response,
+  user: {
+    id: number;
+    email: string;
+    role: Role;
+    organizationId: number;
+    passwordHash: string | null;
+  }
+) {
+  if (await isTwoFactorEnabled(user.id)) {
+    return res.json({
+      twoFactor: "verify",
+      challengeToken: signChallenge(user.id, "verify"),
+    });
+  }
+  await recordLoginSuccess(user.email);
+
+  if (await isTwoFactorRequired(user.organizationId, user.role)) {
+    return res.json({
+      twoFactor: "setup",
+      challengeToken: signChallenge(user.id, "setup"),
+    });
+  }
+
+  const { token, expiresIn } = await startSession(req, res, user);
+  const { passwordHash, ...safeUser } = user;
+  return res.json({ token, expiresIn, user: safeUser });
+}
+
+function sendLoginBlocked(res: Response, block: LoginBlock) {
+  res.set("Retry-After", String(block.retryAfterSeconds));
+  return res.status(429).json({
+    message: block.locked
+      ? "Too many failed attempts. Login is locked for now; try again later or ask your property manager to unlock it."
+      : `Too many failed attempts. Try again in ${block.retryAfterSeconds} seconds.`,
+    retryAfterSeconds: block.retryAfterSeconds,
   });
 }
 
+// Lets the enrollment routes below run for a user midway through a forced
+// setup login: a "setup" challenge in the body stands in for a session.
+// Without one, Express moves on to the session-authenticated route.
+async function setupChallengeAuth(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) {
+  if (!req.body?.challengeToken) return next("route");
+
+  const userId = readChallenge(req.body.challengeToken, "setup");
+  try {
+    const user = userId
+      ? await prisma.user.findUnique({ where: { id: userId } })
+      : null;
+    // A challenge issued before 2FA was enabled can't be used to replace it,
+    // nor one issued before the account was deactivated
+    if (!user || user.deactivatedAt || (await isTwoFactorEnabled(user.id))) {
+      return res
+        .status(401)
+        .json({ message: "This sign-in has expired. Please log in again." });
+    }
+    req.user = {
+      id: user.id,
+      role: user.role,
+      orgId: user.organizationId,
+      challenge: true,
+    };
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to check sign-in" });
+  }
+  next();
+}
+
+const minPasswordLength = 8;
+
+function hashPassword(password: string) {
+  const saltRounds = Number(process.env.BCRYPT_SALT_ROUNDS || 10);
+  return bcrypt.hash(password, saltRounds);
+}
+
 router.post("/login", async (req, res) => {
   const { email, password } = req.body;
-  if (!email || !password) {
+  if (
+    typeof email !== "string" ||
+    typeof password !== "string" ||
+    !email.trim() ||
+    !password
+  ) {
     return res.status(400).json({ message: "Email and password required" });
   }
 
-  const user = await prisma.user.findUnique({ where: { email } });
-  if (!user) {
-    return res.status(401).json({ message: "Invalid credentials" });
+  // Emails are stored lowercased, so any casing typed here matches
+  const normalizedEmail = normalizeEmail(email);
+  const attempt = {
+    email: normalizedEmail,
+    ipAddress: req.ip,
+    userAgent: req.get("user-agent"),
+  };
+
+  try {
+    const block = await checkLoginAllowed(attempt);
+    if (block) return sendLoginBlocked(res, block);
+
+    const user = await prisma.user.findUnique({
+      where: { email: normalizedEmail },
+      include: tenantProfileInclude,
+    });
+    // Invited users can't log in until they have chosen a password
+    if (!user || !user.passwordHash) {
+      await recordLoginFailure(
+        attempt,
+        user ? "no_password" : "unknown_email",
+        user?.id
+      );
+      return res.status(401).json({ message: "Invalid credentials" });
+    }
+
+    const valid = await bcrypt.compare(password, user.passwordHash);
+    if (!valid) {
+      await recordLoginFailure(attempt, "bad_password", user.id);
+      return res.status(401).json({ message: "Invalid credentials" });
+    }
+
+    if (user.deactivatedAt) {
+      await recordLoginFailure(attempt, "deactivated", user.id);
+      return res.status(403).json({
+        message:
+          "This account has been deactivated. Contact your property manager.",
+      });
+    }
+
+    return await finishLogin(req, res, user);
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to log in" });
   }
+});
 
-  const valid = await bcrypt.compare(password, user.passwordHash);
-  if (!valid) {
-    return res.status(401).json({ message: "Invalid credentials" });
+// Public (challenge): second login step with an authenticator or recovery
+// code. Wrong codes count towards the same lockout as wrong passwords.
+router.post("/login/2fa", async (req, res) => {
+  const { challengeToken, code } = req.body;
+  const userId = readChallenge(challengeToken, "verify");
+  if (!userId) {
+    return res
+      .status(401)
+      .json({ message: "This sign-in has expired. Please log in again." });
+  }
+  if (!code || typeof code !== "string") {
+    return res.status(400).json({ message: "Code is required" });
   }
 
-  const token = signToken({ id: user.id, role: user.role });
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      include: tenantProfileInclude,
+    });
+    if (!user || user.deactivatedAt) {
+      return res.status(401).json({ message: "Invalid credentials" });
+    }
 
-  const { passwordHash, ...safeUser } = user;
+    const attempt = {
+      email: user.email,
+      ipAddress: req.ip,
+      userAgent: req.get("user-agent"),
+    };
+    const block = await checkLoginAllowed(attempt);
+    if (block) return sendLoginBlocked(res, block);
 
-  res.json({
-    token,
-    user: safeUser,
-  });
+    const method = await verifySecondFactor(user.id, code);
+    if (!method) {
+      await recordLoginFailure(attempt, "bad_second_factor", user.id);
+      return res.status(401).json({ message: "Invalid code" });
+    }
+    await recordLoginSuccess(attempt.email);
+
+    const { token, expiresIn } = await startSession(req, res, user);
+    const { passwordHash, ...safeUser } = user;
+    return res.json({
+      token,
+      expiresIn,
+      user: safeUser,
+      usedRecoveryCode: method === "recovery",
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to verify code" });
+  }
+});
+
+// Any user: two-factor status for their account
+router.get("/2fa", authMiddleware, async (req: AuthRequest, res) => {
+  const { id, orgId, role } = req.user as any;
+
+  try {
+    return res.json(await twoFactorStatus(id, orgId, role));
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json({ message: "Failed to load two-factor status" });
+  }
+});
+
+// Any user (or setup challenge): start enrolling an authenticator app.
+// Replacing one that is already on needs a current code from it (or a
+// recovery code), so a stolen access token can't take over the factor.
+async function handleTwoFactorSetup(req: AuthRequest, res: Response) {
+  const { id, challenge } = req.user as any;
+  const { code } = req.body ?? {};
+
+  try {
+    const user = await prisma.user.findUnique({ where: { id } });
+    if (!user) {
+      return res.status(404).json({ message: "User not found" });
+    }
+    if (
+      !challenge &&
+      (await isTwoFactorEnabled(user.id)) &&
+      (!code || !(await verifySecondFactor(user.id, String(code))))
+    ) {
+      return res.status(400).json({ message: "Invalid code" });
+    }
+    return res.json(await beginEnrollment(user));
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json({ message: "Failed to start two-factor setup" });
+  }
+}
+router.post("/2fa/setup", setupChallengeAuth, handleTwoFactorSetup);
+router.post("/2fa/setup", authMiddleware, handleTwoFactorSetup);
+
+// Any user (or setup challenge): confirm enrollment with a first code. A
+// forced-setup login gets its session here.
+async function handleTwoFactorEnable(req: AuthRequest, res: Response) {
+  const { id, challenge } = req.user as any;
+  const { code } = req.body;
+  if (!code || typeof code !== "string") {
+    return res.status(400).json({ message: "Code is required" });
+  }
+
+  try {
+    const recoveryCodes = await confirmEnrollment(id, code);
+    if (!recoveryCodes) {
+      return res.status(400).json({
+        message: "That code didn't match. Check the time on your device.",
+      });
+    }
+    if (!challenge) {
+      return res.json({ recoveryCodes });
+    }
+
+    const user = await prisma.user.findUniqueOrThrow({
+      where: { id },
+      include: tenantProfileInclude,
+    });
+    const { token, expiresIn } = await startSession(req, res, user);
+    const { passwordHash, ...safeUser } = user;
+    return res.json({ recoveryCodes, token, expiresIn, user: safeUser });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to enable two-factor" });
+  }
+}
+router.post("/2fa/enable", setupChallengeAuth, handleTwoFactorEnable);
+router.post("/2fa/enable", authMiddleware, handleTwoFactorEnable);
+
+// Any user: turn two-factor off, unless their role requires it
+router.post("/2fa/disable", authMiddleware, async (req: AuthRequest, res) => {
+  const { id, orgId, role } = req.user as any;
+  const { code } = req.body;
+
+  try {
+    if (await isTwoFactorRequired(orgId, role)) {
+      return res.status(403).json({
+        message: "Two-factor authentication is required for your role",
+      });
+    }
+    if (!code || !(await verifySecondFactor(id, String(code)))) {
+      return res.status(400).json({ message: "Invalid code" });
+    }
+
+    await disableTwoFactor(id);
+    return res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to disable two-factor" });
+  }
+});
+
+// Any user: replace their recovery codes (needs a current code)
+router.post(
+  "/2fa/recovery-codes",
+  authMiddleware,
+  async (req: AuthRequest, res) => {
+    const { id } = req.user as any;
+    const { code } = req.body;
+
+    try {
+      if (!code || !(await verifySecondFactor(id, String(code)))) {
+        return res.status(400).json({ message: "Invalid code" });
+      }
+      return res.json({ recoveryCodes: await regenerateRecoveryCodes(id) });
+    } catch (err) {
+      console.error(err);
+      return res
+        .status(500)
+        .json({ message: "Failed to regenerate recovery codes" });
+    }
+  }
+);
+
+// Admin: roles that must use two-factor authentication
+router.get(
+  "/2fa/policy",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+
+    try {
+      return res.json({ requiredRoles: await requiredRoles(orgId) });
+    } catch (err) {
+      console.error(err);
+      return res
+        .status(500)
+        .json({ message: "Failed to load two-factor policy" });
+    }
+  }
+);
+
+router.put(
+  "/2fa/policy",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const { requiredRoles: roles } = req.body;
+    const validRoles = Object.values(Role) as string[];
+    if (
+      !Array.isArray(roles) ||
+      roles.some((r) => typeof r !== "string" || !validRoles.includes(r))
+    ) {
+      return res.status(400).json({ message: "requiredRoles must list roles" });
+    }
+
+    try {
+      return res.json({
+        requiredRoles: await setRequiredRoles(orgId, [
+          ...new Set(roles as Role[]),
+        ]),
+      });
+    } catch (err) {
+      console.error(err);
+      return res
+        .status(500)
+        .json({ message: "Failed to save two-factor policy" });
+    }
+  }
+);
+
+// Public (refresh cookie): trade the refresh token for a new access token.
+// The refresh token rotates on every call.
+router.post("/refresh", async (req, res) => {
+  const presented = req.cookies?.[refreshCookie];
+  if (!presented) {
+    return res.status(401).json({ message: "Not signed in" });
+  }
+
+  try {
+    const rotated = await rotateSession(presented);
+    if (rotated === "raced") {
+      return res
+        .status(409)
+        .json({ message: "Session was refreshed by another request" });
+    }
+    if (!rotated) {
+      clearRefreshCookie(res);
+      return res.status(401).json({ message: "Session has ended" });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { id: rotated.session.userId },
+      include: tenantProfileInclude,
+    });
+    if (!user || user.deactivatedAt) {
+      clearRefreshCookie(res);
+      return res.status(401).json({ message: "Session has ended" });
+    }
+
+    const { session, refreshToken } = rotated;
+    setRefreshCookie(res, refreshToken, session.expiresAt);
+    const { token, expiresIn } = signAccessToken(user, session.id);
+
+    const { passwordHash, ...safeUser } = user;
+    return res.json({ token, expiresIn, user: safeUser });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to refresh session" });
+  }
+});
+
+// Manager: accounts in their organization currently locked out by failed
+// logins
+router.get(
+  "/lockouts",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+
+    try {
+      const locked = await listLockedAccounts();
+      const members = await prisma.user.findMany({
+        where: {
+          organizationId: orgId,
+          email: {
+            in: locked.map((entry) => entry.email),
+            mode: "insensitive",
+          },
+        },
+        select: { email: true },
+      });
+      const emails = new Set(members.map((m) => normalizeEmail(m.email)));
+      return res.json(locked.filter((entry) => emails.has(entry.email)));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load lockouts" });
+    }
+  }
+);
+
+// Manager: clear an account's failed-login count and any lockout
+router.post(
+  "/unlock",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const manager = req.user as any;
+
+    const { email } = req.body;
+    if (!email || typeof email !== "string") {
+      return res.status(400).json({ message: "Email is required" });
+    }
+
+    try {
+      const member = await prisma.user.findFirst({
+        where: {
+          organizationId: manager.orgId,
+          email: { equals: normalizeEmail(email), mode: "insensitive" },
+        },
+      });
+      if (!member) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      await unlockAccount(member, manager.id);
+      return res.status(204).send();
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to unlock account" });
+    }
+  }
+);
+
+// Manager: recent failed logins against accounts in their organization,
+// optionally for one email
+router.get(
+  "/login-failures",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const email =
+      typeof req.query.email === "string" ? req.query.email : undefined;
+
+    try {
+      const failures = await prisma.loginFailure.findMany({
+        where: {
+          user: { organizationId: orgId },
+          ...(email ? { email: normalizeEmail(email) } : {}),
+        },
+        orderBy: { createdAt: "desc" },
+        take: 100,
+      });
+      return res.json(failures);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load failed logins" });
+    }
+  }
+);
+
+// Any user: end the current session on the server
+router.post("/logout", authMiddleware, async (req: AuthRequest, res) => {
+  const { id, sid } = req.user as any;
+
+  try {
+    await revokeSession(id, sid);
+    clearRefreshCookie(res);
+    return res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to log out" });
+  }
+});
+
+// Any user: end every session, including this one
+router.post("/logout-all", authMiddleware, async (req: AuthRequest, res) => {
+  const { id } = req.user as any;
+
+  try {
+    await revokeAllSessions(id);
+    clearRefreshCookie(res);
+    return res.status(204).send();
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to log out" });
+  }
 });
 
+// Any user: devices currently signed in to their account
+router.get("/sessions", authMiddleware, async (req: AuthRequest, res) => {
+  const { id, sid } = req.user as any;
+
+  try {
+    const sessions = await listActiveSessions(id);
+    return res.json(sessions.map((s) => ({ ...s, current: s.id === sid })));
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to load sessions" });
+  }
+});
+
+// Any user: sign one of their devices out
+router.delete(
+  "/sessions/:id",
+  authMiddleware,
+  async (req: AuthRequest, res) => {
+    const { id } = req.user as any;
+
+    try {
+      const revoked = await revokeSession(id, req.params.id);
+      if (!revoked) {
+        return res.status(404).json({ message: "Session not found" });
+      }
+      return res.status(204).send();
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to revoke session" });
+    }
+  }
+);
+
 router.get("/me", authMiddleware, async (req: AuthRequest, res) => {
   const userId = (req.user as any)?.id;
   if (!userId) {
     return res.status(401).json({ message: "Unauthorized" });
   }
 
-  const user = await prisma.user.findUnique({ where: { id: userId } });
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    include: tenantProfileInclude,
+  });
   if (!user) {
     return res.status(404).json({ message: "User not found" });
   }
@@ -54,4 +677,240 @@ router.get("/me", authMiddleware, async (req: AuthRequest, res) => {
   res.json(safeUser);
 });
 
+// Manager: invite a tenant into a unit. The tenant chooses a password from
+// the emailed link.
+router.post(
+  "/invitations",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const { name, email, unitId } = req.body as {
+      name?: string;
+      email?: string;
+      unitId?: number;
+    };
+
+    const normalizedEmail = email?.trim().toLowerCase();
+    if (!name || !name.trim() || !normalizedEmail || !unitId) {
+      return res
+        .status(400)
+        .json({ message: "name, email and unitId are required" });
+    }
+
+    try {
+      const unit = await prisma.unit.findFirst({
+        where: {
+          id: Number(unitId),
+          building: { property: { organizationId: orgId } },
+        },
+        include: { building: { select: { propertyId: true } } },
+      });
+      if (!unit || !inScope(req.scope!, unit.building.propertyId)) {
+        return res.status(400).json({ message: "Unit not found" });
+      }
+
+      const existing = await prisma.user.findUnique({
+        where: { email: normalizedEmail },
+      });
+      // Re-inviting someone who never accepted just sends a fresh link
+      if (
+        existing &&
+        (existing.passwordHash ||
+          existing.role !== "tenant" ||
+          existing.organizationId !== orgId)
+      ) {
+        return res
+          .status(409)
+          .json({ message: "An account with this email already exists" });
+      }
+
+      const invited = await prisma.$transaction(async (tx) => {
+        const user = existing
+          ? await tx.user.update({
+              where: { id: existing.id },
+              data: { name: name.trim() },
+            })
+          : await tx.user.create({
+              data: {
+                name: name.trim(),
+                email: normalizedEmail,
+                passwordHash: null,
+                role: "tenant",
+                organizationId: orgId,
+              },
+            });
+        await tx.tenantProfile.upsert({
+          where: { userId: user.id },
+          update: { unitId: unit.id },
+          create: { userId: user.id, unitId: unit.id },
+        });
+        return user;
+      });
+
+      await sendAccountEmail(invited, "invite");
+      return res.status(201).json({
+        id: invited.id,
+        name: invited.name,
+        email: invited.email,
+      });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to send invitation" });
+    }
+  }
+);
+
+// Public: accept an invitation by choosing a password; logs the user in
+router.post("/accept-invite", async (req, res) => {
+  const { token, password } = req.body as { token?: string; password?: string };
+
+  if (!token) {
+    return res.status(400).json({ message: "Invitation token is required" });
+  }
+  if (!password || password.length < minPasswordLength) {
+    return res.status(400).json({
+      message: `Password must be at least ${minPasswordLength} characters`,
+    });
+  }
+
+  try {
+    const userId = await consumeAuthToken(token, "invite");
+    if (!userId) {
+      return res
+        .status(400)
+        .json({ message: "This invitation link is invalid or has expired" });
+    }
+
+    // Following the emailed link proves the address
+    const user = await prisma.user.update({
+      where: { id: userId },
+      data: {
+        passwordHash: await hashPassword(password),
+        emailVerifiedAt: new Date(),
+      },
+      include: tenantProfileInclude,
+    });
+
+    return finishLogin(req, res, user);
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to accept invitation" });
+  }
+});
+
+// Public: email a password reset link. Always answers the same way so the
+// response doesn't reveal which emails have accounts.
+router.post("/forgot-password", async (req, res) => {
+  const { email } = req.body as { email?: string };
+  const normalizedEmail = email?.trim().toLowerCase();
+
+  if (!normalizedEmail) {
+    return res.status(400).json({ message: "Email is required" });
+  }
+
+  try {
+    const user = await prisma.user.findUnique({
+      where: { email: normalizedEmail },
+    });
+    if (user && user.passwordHash && !user.deactivatedAt) {
+      await sendAccountEmail(user, "password_reset");
+    }
+  } catch (err) {
+    console.error(err);
+  }
+
+  return res.json({
+    message: "If an account exists for that email, a reset link is on its way.",
+  });
+});
+
+// Public: set a new password with a reset token
+router.post("/reset-password", async (req, res) => {
+  const { token, password } = req.body as { token?: string; password?: string };
+
+  if (!token) {
+    return res.status(400).json({ message: "Reset token is required" });
+  }
+  if (!password || password.length < minPasswordLength) {
+    return res.status(400).json({
+      message: `Password must be at least ${minPasswordLength} characters`,
+    });
+  }
+
+  try {
+    const userId = await consumeAuthToken(token, "password_reset");
+    if (!userId) {
+      return res
+        .status(400)
+        .json({ message: "This reset link is invalid or has expired" });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { passwordHash: await hashPassword(password) },
+    });
+    // Whoever knew the old password is signed out everywhere
+    await revokeAllSessions(userId);
+    return res.json({ message: "Password updated. You can now log in." });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to reset password" });
+  }
+});
+
+// Public: confirm an email address from the verification link
+router.post("/verify-email", async (req, res) => {
+  const { token } = req.body as { token?: string };
+
+  if (!token) {
+    return res.status(400).json({ message: "Verification token is required" });
+  }
+
+  try {
+    const userId = await consumeAuthToken(token, "email_verification");
+    if (!userId) {
+      return res
+        .status(400)
+        .json({ message: "This verification link is invalid or has expired" });
+    }
+
+    await prisma.user.update({
+      where: { id: userId },
+      data: { emailVerifiedAt: new Date() },
+    });
+    return res.json({ message: "Email confirmed." });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to verify email" });
+  }
+});
+
+// Any user: send a new verification link to their address
+router.post(
+  "/resend-verification",
+  authMiddleware,
+  async (req: AuthRequest, res) => {
+    const userId = (req.user as any)?.id;
+
+    try {
+      const user = await prisma.user.findUnique({ where: { id: userId } });
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.json({ message: "Email is already confirmed." });
+      }
+
+      await sendAccountEmail(user, "email_verification");
+      return res.json({ message: "Verification email sent." });
+    } catch (err) {
+      console.error(err);
+      return res
+        .status(500)
+        .json({ message: "Failed to send verification email" });
+    }
+  }
+);
+
 export default router;
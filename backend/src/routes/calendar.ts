@@ -0,0 +1,89 @@
+import { PrismaClient } from "@prisma/client";
+import { Router } from "express";
+import { authMiddleware, AuthRequest } from "../middleware/auth";
+import {
+  calendarFeed,
+  calendarFeedUrl,
+  calendarView,
+  CalendarQueryError,
+  feedUser,
+  parseCalendarRange,
+} from "../services/calendar";
+
+const router = Router();
+const prisma = new PrismaClient();
+
+// Any signed-in user: visits in a date range and the open requests still
+// waiting for one. Optional from (YYYY-MM-DD) and days (1-42, default 7).
+router.get("/", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+
+  try {
+    const range = parseCalendarRange(req.query);
+    return res.json(await calendarView(user, range));
+  } catch (err) {
+    if (err instanceof CalendarQueryError) {
+      return res.status(400).json({ message: err.message });
+    }
+    console.error(err);
+    return res.status(500).json({ message: "Failed to load the calendar" });
+  }
+});
+
+// Any signed-in user: the address of their calendar feed
+router.get("/feed", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+
+  try {
+    const record = await prisma.user.findUniqueOrThrow({
+      where: { id: user.id },
+    });
+    return res.json({ url: calendarFeedUrl(record) });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to load the feed link" });
+  }
+});
+
+// Any signed-in user: stop the current feed link working and get a new one
+router.post("/feed/reset", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+
+  try {
+    const record = await prisma.user.update({
+      where: { id: user.id },
+      data: { calendarFeedVersion: { increment: 1 } },
+    });
+    return res.json({ url: calendarFeedUrl(record) });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to reset the feed link" });
+  }
+});
+
+// Calendar apps: the iCalendar feed. The signed link stands in for a login.
+router.get("/feed/:userId/:signature.ics", async (req, res) => {
+  try {
+    const user = await feedUser(
+      Number(req.params.userId),
+      req.params.signature
+    );
+    if (!user) {
+      return res.status(404).json({ message: "Calendar not found" });
+    }
+
+    const body = await calendarFeed({
+      id: user.id,
+      role: user.role,
+      orgId: user.organizationId,
+    });
+    res.setHeader("Content-Type", "text/calendar; charset=utf-8");
+    res.setHeader("Cache-Control", "no-cache");
+    return res.send(body);
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to build the calendar" });
+  }
+});
+
+export default router;
@@ -0,0 +1,38 @@
+import { Router } from "express";
+import { AuthRequest, streamAuthMiddleware } from "../middleware/auth";
+import { addLiveClient } from "../realtime/liveUpdates";
+import { propertyScope } from "../services/permissions";
+
+const router = Router();
+
+// Any user: Server-Sent Events stream of changes to requests they can see
+router.get("/stream", streamAuthMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+
+  let scope;
+  try {
+    scope = await propertyScope(user);
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to open event stream" });
+  }
+
+  res.set({
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    // Stop nginx and similar proxies from buffering the stream
+    "X-Accel-Buffering": "no",
+  });
+  res.flushHeaders();
+
+  // Browsers reconnect after this many milliseconds if the stream drops
+  res.write("retry: 5000\n\n");
+  addLiveClient(
+    { id: user.id, role: user.role, orgId: user.orgId, scope },
+    { id: user.sid, expiresAt: new Date(user.exp * 1000) },
+    res
+  );
+});
+
+export default router;
@@ -0,0 +1,238 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  authMiddleware,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth";
+import {
+  firstRunOn,
+  MaintenancePlanError,
+  parsePlanInput,
+  PlanInput,
+  planInScope,
+} from "../services/maintenancePlans";
+import { PropertyScope } from "../services/permissions";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const planInclude = {
+  targets: {
+    include: {
+      unit: {
+        select: {
+          id: true,
+          number: true,
+          building: { select: { id: true, name: true, propertyId: true } },
+        },
+      },
+      building: { select: { id: true, name: true, propertyId: true } },
+    },
+  },
+  createdBy: { select: { id: true, name: true } },
+  _count: { select: { requests: true } },
+};
+
+// The plan if it belongs to the organization and all its targets are in
+// the caller's properties
+async function loadPlan(orgId: number, scope: PropertyScope, id: number) {
+  if (!Number.isInteger(id)) return null;
+  const plan = await prisma.maintenancePlan.findFirst({
+    where: { id, organizationId: orgId },
+    include: planInclude,
+  });
+  return plan && planInScope(scope, plan) ? plan : null;
+}
+
+// Checks the picked units and buildings exist in the organization and the
+// caller's properties
+async function checkTargets(
+  orgId: number,
+  scope: PropertyScope,
+  input: PlanInput
+) {
+  const property =
+    scope === "all"
+      ? { organizationId: orgId }
+      : { organizationId: orgId, id: { in: scope } };
+  const [units, buildings] = await Promise.all([
+    prisma.unit.count({
+      where: { id: { in: input.unitIds }, building: { property } },
+    }),
+    prisma.building.count({
+      where: { id: { in: input.buildingIds }, property },
+    }),
+  ]);
+  if (
+    units !== input.unitIds.length ||
+    buildings !== input.buildingIds.length
+  ) {
+    throw new MaintenancePlanError(
+      "Units and buildings must be in your properties"
+    );
+  }
+}
+
+function planData(input: PlanInput) {
+  return {
+    name: input.name,
+    category: input.category,
+    description: input.description,
+    checklist: input.checklist,
+    priority: input.priority,
+    preferredWindow1: input.preferredWindow1,
+    preferredWindow2: input.preferredWindow2,
+    frequency: input.frequency,
+    interval: input.interval,
+    startsOn: input.startsOn,
+    endsOn: input.endsOn,
+    nextRunOn: firstRunOn(input),
+  };
+}
+
+function targetRows(input: PlanInput) {
+  return [
+    ...input.unitIds.map((unitId) => ({ unitId })),
+    ...input.buildingIds.map((buildingId) => ({ buildingId })),
+  ];
+}
+
+// Manager: preventive maintenance plans for their properties
+router.get(
+  "/",
+  authMiddleware,
+  requirePermission("plans.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+
+    try {
+      const plans = await prisma.maintenancePlan.findMany({
+        where: { organizationId: orgId },
+        include: planInclude,
+        orderBy: [{ active: "desc" }, { name: "asc" }],
+      });
+      return res.json(plans.filter((p) => planInScope(req.scope!, p)));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load plans" });
+    }
+  }
+);
+
+// Manager: create a plan. Its first requests open on the first run date
+// from today on.
+router.post(
+  "/",
+  authMiddleware,
+  requirePermission("plans.manage"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+
+    try {
+      const input = parsePlanInput(req.body);
+      await checkTargets(user.orgId, req.scope!, input);
+
+      const plan = await prisma.maintenancePlan.create({
+        data: {
+          ...planData(input),
+          organizationId: user.orgId,
+          createdById: user.id,
+          targets: { create: targetRows(input) },
+        },
+        include: planInclude,
+      });
+      return res.status(201).json(plan);
+    } catch (err) {
+      if (err instanceof MaintenancePlanError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to create plan" });
+    }
+  }
+);
+
+// Manager: replace a plan's details, schedule and targets. Requests it
+// already opened are left alone.
+router.put(
+  "/:id",
+  authMiddleware,
+  requirePermission("plans.manage"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+
+    try {
+      const existing = await loadPlan(
+        user.orgId,
+        req.scope!,
+        Number(req.params.id)
+      );
+      if (!existing) {
+        return res.status(404).json({ message: "Plan not found" });
+      }
+      const input = parsePlanInput(req.body);
+      await checkTargets(user.orgId, req.scope!, input);
+
+      const plan = await prisma.$transaction(async (tx) => {
+        await tx.maintenancePlanTarget.deleteMany({
+          where: { planId: existing.id },
+        });
+        return tx.maintenancePlan.update({
+          where: { id: existing.id },
+          data: {
+            ...planData(input),
+            targets: { create: targetRows(input) },
+          },
+          include: planInclude,
+        });
+      });
+      return res.json(plan);
+    } catch (err) {
+      if (err instanceof MaintenancePlanError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to update plan" });
+    }
+  }
+);
+
+// Manager: pause or resume a plan. Resuming picks up from today; runs
+// missed while paused are not made up.
+router.patch(
+  "/:id/active",
+  authMiddleware,
+  requirePermission("plans.manage"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+    const { active } = req.body as { active?: boolean };
+
+    if (typeof active !== "boolean") {
+      return res.status(400).json({ message: "active must be true or false" });
+    }
+
+    try {
+      const existing = await loadPlan(
+        user.orgId,
+        req.scope!,
+        Number(req.params.id)
+      );
+      if (!existing) {
+        return res.status(404).json({ message: "Plan not found" });
+      }
+
+      const plan = await prisma.maintenancePlan.update({
+        where: { id: existing.id },
+        data: active ? { active, nextRunOn: firstRunOn(existing) } : { active },
+        include: planInclude,
+      });
+      return res.json(plan);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to update plan" });
+    }
+  }
+);
+
+export default router;
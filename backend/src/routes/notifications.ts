@@ -0,0 +1,62 @@
+import { Router } from "express";
+import { NotificationEvent, PrismaClient } from "@prisma/client";
+import { authMiddleware, AuthRequest } from "../middleware/auth";
+import { notificationEvents } from "../services/notifications";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Any user: email settings for every notification event
+router.get("/preferences", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+
+  try {
+    const saved = await prisma.notificationPreference.findMany({
+      where: { userId: user.id },
+    });
+    return res.json(
+      notificationEvents.map((event) => ({
+        event,
+        email: saved.find((p) => p.event === event)?.email ?? true,
+      }))
+    );
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json({ message: "Failed to load notification preferences" });
+  }
+});
+
+// Any user: turn emails for one event on or off
+router.put("/preferences", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+
+  const { event, email } = req.body as {
+    event?: NotificationEvent;
+    email?: boolean;
+  };
+
+  if (!event || !notificationEvents.includes(event)) {
+    return res.status(400).json({ message: "Invalid notification event" });
+  }
+  if (typeof email !== "boolean") {
+    return res.status(400).json({ message: "email must be true or false" });
+  }
+
+  try {
+    const preference = await prisma.notificationPreference.upsert({
+      where: { userId_event: { userId: user.id, event } },
+      update: { email },
+      create: { userId: user.id, event, email },
+    });
+    return res.json({ event: preference.event, email: preference.email });
+  } catch (err) {
+    console.error(err);
+    return res
+      .status(500)
+      .json({ message: "Failed to save notification preference" });
+  }
+});
+
+export default router;
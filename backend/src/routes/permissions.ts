@@ -0,0 +1,123 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  authMiddleware,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth";
+import {
+  permissions,
+  propertyScope,
+  rolePermissions,
+} from "../services/permissions";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Any user: the role → permission matrix
+router.get("/", authMiddleware, (_req: AuthRequest, res) => {
+  res.json({ permissions, roles: rolePermissions });
+});
+
+// Any user: what they may do and in which properties
+router.get("/me", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+
+  try {
+    return res.json({
+      role: user.role,
+      permissions: rolePermissions[user.role as keyof typeof rolePermissions],
+      propertyIds: await propertyScope(user),
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to load permissions" });
+  }
+});
+
+// Admin: the organization's managers and the properties each one looks
+// after
+router.get(
+  "/assignments",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+
+    try {
+      const managers = await prisma.user.findMany({
+        where: { role: "manager", organizationId: orgId },
+        select: {
+          id: true,
+          name: true,
+          email: true,
+          propertyAssignments: { select: { propertyId: true } },
+        },
+        orderBy: { name: "asc" },
+      });
+      return res.json(
+        managers.map(({ propertyAssignments, ...manager }) => ({
+          ...manager,
+          propertyIds: propertyAssignments.map((a) => a.propertyId),
+        }))
+      );
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load assignments" });
+    }
+  }
+);
+
+// Admin: replace the properties a manager looks after
+router.put(
+  "/assignments/:userId",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const userId = Number(req.params.userId);
+    const { propertyIds } = req.body as { propertyIds?: number[] };
+
+    if (
+      !Array.isArray(propertyIds) ||
+      propertyIds.some((id) => !Number.isInteger(id))
+    ) {
+      return res
+        .status(400)
+        .json({ message: "propertyIds must be a list of property ids" });
+    }
+
+    try {
+      const manager = await prisma.user.findFirst({
+        where: { id: userId, organizationId: orgId },
+      });
+      if (!manager || manager.role !== "manager") {
+        return res.status(404).json({ message: "Manager not found" });
+      }
+
+      const ids = [...new Set(propertyIds)];
+      const found = await prisma.property.count({
+        where: { id: { in: ids }, organizationId: orgId },
+      });
+      if (found !== ids.length) {
+        return res.status(400).json({ message: "Property not found" });
+      }
+
+      await prisma.$transaction([
+        prisma.propertyAssignment.deleteMany({
+          where: { userId, propertyId: { notIn: ids } },
+        }),
+        prisma.propertyAssignment.createMany({
+          data: ids.map((propertyId) => ({ userId, propertyId })),
+          skipDuplicates: true,
+        }),
+      ]);
+      return res.json({ id: userId, propertyIds: ids });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to save assignments" });
+    }
+  }
+);
+
+export default router;
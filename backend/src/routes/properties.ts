@@ -0,0 +1,155 @@
+import { Router } from "express";
+import { PrismaClient } from "@prisma/client";
+import {
+  authMiddleware,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Manager: property → building → unit tree for the properties they look after
+router.get(
+  "/",
+  authMiddleware,
+  requirePermission("requests.view_all"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+
+    try {
+      const properties = await prisma.property.findMany({
+        where: {
+          organizationId: orgId,
+          ...(req.scope === "all" ? {} : { id: { in: req.scope } }),
+        },
+        include: {
+          buildings: {
+            include: {
+              units: { orderBy: { number: "asc" } },
+            },
+            orderBy: { name: "asc" },
+          },
+        },
+        orderBy: { name: "asc" },
+      });
+      return res.json(properties);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load properties" });
+    }
+  }
+);
+
+// Admin: create a property
+router.post(
+  "/",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const { name, address } = req.body as { name?: string; address?: string };
+    if (!name || !name.trim()) {
+      return res.status(400).json({ message: "name is required" });
+    }
+
+    try {
+      const property = await prisma.property.create({
+        data: {
+          name: name.trim(),
+          address: address || null,
+          organizationId: orgId,
+        },
+      });
+      return res.status(201).json(property);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to create property" });
+    }
+  }
+);
+
+// Admin: add a building to a property
+router.post(
+  "/:propertyId/buildings",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const propertyId = Number(req.params.propertyId);
+    const { name } = req.body as { name?: string };
+    if (!name || !name.trim()) {
+      return res.status(400).json({ message: "name is required" });
+    }
+
+    try {
+      const property = await prisma.property.findFirst({
+        where: { id: propertyId, organizationId: orgId },
+      });
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const existing = await prisma.building.findUnique({
+        where: { propertyId_name: { propertyId, name: name.trim() } },
+      });
+      if (existing) {
+        return res
+          .status(409)
+          .json({ message: "A building with this name already exists" });
+      }
+
+      const building = await prisma.building.create({
+        data: { name: name.trim(), propertyId },
+      });
+      return res.status(201).json(building);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to create building" });
+    }
+  }
+);
+
+// Admin: add a unit to a building
+router.post(
+  "/buildings/:buildingId/units",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const buildingId = Number(req.params.buildingId);
+    const { number } = req.body as { number?: string };
+    if (!number || !String(number).trim()) {
+      return res.status(400).json({ message: "number is required" });
+    }
+    const unitNumber = String(number).trim();
+
+    try {
+      const building = await prisma.building.findFirst({
+        where: { id: buildingId, property: { organizationId: orgId } },
+      });
+      if (!building) {
+        return res.status(404).json({ message: "Building not found" });
+      }
+
+      const existing = await prisma.unit.findUnique({
+        where: { buildingId_number: { buildingId, number: unitNumber } },
+      });
+      if (existing) {
+        return res
+          .status(409)
+          .json({ message: "This unit already exists in the building" });
+      }
+
+      const unit = await prisma.unit.create({
+        data: { number: unitNumber, buildingId },
+      });
+      return res.status(201).json(unit);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to create unit" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,266 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+const db = vi.hoisted(() => ({
+  session: { findUnique: vi.fn() },
+  workflow: { findUnique: vi.fn() },
+  workflowState: { findMany: vi.fn() },
+  slaPolicy: { findMany: vi.fn() },
+  request: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+  },
+  requestEvent: { create: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { signAccessToken } from "../services/sessions";
+import requestsRouter from "./requests";
+
+let server: Server;
+let baseUrl: string;
+
+const tenant = { id: 8, role: "tenant", organizationId: 3 };
+const admin = { id: 1, role: "admin", organizationId: 3 };
+const day = 24 * 60 * 60 * 1000;
+
+function list(query: string) {
+  const { token } = signAccessToken(admin, "s1");
+  return fetch(`${baseUrl}/requests?${query}`, {
+    headers: { authorization: `Bearer ${token}` },
+  });
+}
+
+function reopen(id: number, body: unknown) {
+  const { token } = signAccessToken(tenant, "s1");
+  return fetch(`${baseUrl}/requests/${id}/reopen`, {
+    method: "POST",
+    headers: {
+      authorization: `Bearer ${token}`,
+      "content-type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+}
+
+const state = (key: string, position: number, isTerminal = false) => ({
+  id: position,
+  workflowId: 1,
+  key,
+  label: key,
+  color: "#888888",
+  position,
+  isTerminal,
+  timestampField: null,
+});
+
+const workflow = {
+  id: 1,
+  name: "Standard",
+  isDefault: true,
+  states: [state("reopened", 1), state("completed", 2, true)],
+  transitions: [
+    {
+      id: 1,
+      workflowId: 1,
+      fromKey: "completed",
+      toKey: "reopened",
+      label: "Reopen",
+      roles: ["tenant", "manager", "admin"],
+      guard: "requiresReason",
+    },
+  ],
+};
+
+const completed = (daysAgo: number) => ({
+  id: 12,
+  organizationId: 3,
+  unitId: 20,
+  tenantId: tenant.id,
+  workflowId: 1,
+  status: "completed",
+  category: "plumbing",
+  description: "Leaking tap",
+  phone: null,
+  priority: "normal",
+  preferredWindow1: null,
+  preferredWindow2: null,
+  accessInstructions: null,
+  assigneeId: 4,
+  completedAt: new Date(Date.now() - daysAgo * day),
+  assignee: null,
+  unit: { building: { propertyId: 6 } },
+});
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = "test-secret-that-is-long-enough-for-config";
+  const app = express();
+  app.use(express.json());
+  app.use("/requests", requestsRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.session.findUnique.mockResolvedValue({
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  db.workflow.findUnique.mockResolvedValue(workflow);
+  db.request.findFirst.mockResolvedValue(completed(3));
+  db.request.findUnique.mockResolvedValue(null);
+  db.request.create.mockImplementation(async ({ data }) => ({
+    id: 40,
+    ...data,
+  }));
+  db.requestEvent.create.mockImplementation(async ({ data }) => data);
+  db.$transaction.mockImplementation((fn) => fn(db));
+  db.workflowState.findMany.mockResolvedValue([]);
+  db.slaPolicy.findMany.mockResolvedValue([]);
+});
+
+afterEach(() => {
+  delete process.env.REOPEN_WINDOW_DAYS;
+});
+
+describe("POST /requests/:id/reopen", () => {
+  it("opens a follow-up linked to the original", async () => {
+    const res = await reopen(12, { reason: "  Dripping again  " });
+
+    expect(res.status).toBe(201);
+    expect(db.request.create.mock.calls[0][0].data).toMatchObject({
+      status: "reopened",
+      reopenedFromId: 12,
+      reopenReason: "Dripping again",
+      tenantId: tenant.id,
+      assigneeId: 4,
+      lastUpdatedByRole: "tenant",
+    });
+    const events = db.requestEvent.create.mock.calls.map((c) => c[0].data);
+    expect(events).toMatchObject([
+      { requestId: 40, type: "created", newValue: "reopened" },
+      { requestId: 12, type: "reopened", newValue: "40" },
+    ]);
+  });
+
+  it("needs a reason", async () => {
+    const res = await reopen(12, { reason: " " });
+
+    expect(res.status).toBe(400);
+    expect(db.request.findFirst).not.toHaveBeenCalled();
+  });
+
+  it("refuses once the window since completion has passed", async () => {
+    db.request.findFirst.mockResolvedValue(completed(15));
+
+    const res = await reopen(12, { reason: "Dripping again" });
+
+    expect(res.status).toBe(400);
+    expect((await res.json()).message).toMatch(/within 14 days/);
+    expect(db.request.create).not.toHaveBeenCalled();
+  });
+
+  it("takes the window from REOPEN_WINDOW_DAYS", async () => {
+    process.env.REOPEN_WINDOW_DAYS = "30";
+    db.request.findFirst.mockResolvedValue(completed(15));
+
+    expect((await reopen(12, { reason: "Dripping again" })).status).toBe(201);
+
+    process.env.REOPEN_WINDOW_DAYS = "2";
+    db.request.findFirst.mockResolvedValue(completed(3));
+
+    expect((await reopen(12, { reason: "Dripping again" })).status).toBe(400);
+  });
+
+  it("only reopens completed requests, and only once", async () => {
+    db.request.findFirst.mockResolvedValue({
+      ...completed(1),
+      status: "in_queue",
+    });
+    expect((await reopen(12, { reason: "Still broken" })).status).toBe(400);
+
+    db.request.findFirst.mockResolvedValue(completed(1));
+    db.request.findUnique.mockResolvedValue({ id: 40 });
+    const res = await reopen(12, { reason: "Still broken" });
+
+    expect(res.status).toBe(409);
+    expect((await res.json()).message).toBe(
+      "This request was already reopened as #40"
+    );
+    expect(db.request.create).not.toHaveBeenCalled();
+  });
+
+  it("doesn't let tenants reopen someone else's request", async () => {
+    db.request.findFirst.mockResolvedValue({ ...completed(1), tenantId: 99 });
+
+    expect((await reopen(12, { reason: "Still broken" })).status).toBe(404);
+  });
+});
+
+describe("GET /requests", () => {
+  const rows = (...ids: number[]) =>
+    ids.map((id) => ({ ...completed(1), id, status: "in_queue" }));
+
+  it("fetches one extra row to tell whether another page follows", async () => {
+    db.request.findMany.mockResolvedValue(rows(30, 29, 28));
+    db.request.count.mockResolvedValue(7);
+
+    const res = await list("sort=id&limit=2");
+
+    expect(res.status).toBe(200);
+    const body = await res.json();
+    expect(body.items.map((r: { id: number }) => r.id)).toEqual([30, 29]);
+    expect(body).toMatchObject({ nextCursor: "29", total: 7 });
+    expect(db.request.findMany.mock.calls[0][0]).toMatchObject({
+      orderBy: [{ id: "desc" }],
+      take: 3,
+    });
+    expect(db.request.findMany.mock.calls[0][0]).not.toHaveProperty("cursor");
+  });
+
+  it("continues after the cursor and ends on a short page", async () => {
+    db.request.findMany.mockResolvedValue(rows(28));
+    db.request.count.mockResolvedValue(7);
+
+    const body = await (await list("sort=id&limit=2&cursor=29")).json();
+
+    expect(db.request.findMany.mock.calls[0][0]).toMatchObject({
+      cursor: { id: 29 },
+      skip: 1,
+      take: 3,
+    });
+    expect(body.nextCursor).toBeNull();
+  });
+
+  it("answers 400 to a bad cursor", async () => {
+    const res = await list("cursor=next");
+
+    expect(res.status).toBe(400);
+    expect(db.request.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -1,27 +1,64 @@
-import { Router } from "express";
-import { PrismaClient, Priority } from "@prisma/client";
-import { authMiddleware, AuthRequest } from "../middleware/auth";
+import { Response, Router } from "express";
+import { Attachment, PrismaClient, Priority, Role } from "@prisma/client";
+import {
+  authMiddleware,
+  AuthRequest,
+  ensureTechnician,
+  ensureTenant,
+  requirePermission,
+} from "../middleware/auth";
+import { attachmentsUpload } from "../middleware/upload";
+import {
+  discardAttachmentFiles,
+  InvalidAttachmentError,
+  prepareAttachments,
+  storeAttachments,
+} from "../services/attachments";
+import { withRequestEvents } from "../services/requestEvents";
+import {
+  backfillTimestamps,
+  findState,
+  loadWorkflow,
+  resolveTransition,
+  transitionData,
+  TransitionError,
+} from "../services/workflow";
+import { withSla } from "../services/sla";
+import {
+  hasPermission,
+  inScope,
+  propertyScope,
+  requestScopeWhere,
+} from "../services/permissions";
+import {
+  parseRequestQuery,
+  RequestQueryError,
+  terminalStatusWhere,
+} from "../services/requestQuery";
+import { searchRequests } from "../services/search";
+import {
+  activeAppointmentStatuses,
+  AppointmentError,
+  cancelActiveAppointments,
+  checkTechnicianAvailability,
+  describeAppointment,
+  parseAppointmentDate,
+  syncScheduledVisit,
+  VisitWindow,
+  visitWindows,
+} from "../services/appointments";
+import {
+  ExportAbortedError,
+  exportContentTypes,
+  ExportFormat,
+  exportFormats,
+  exportRequests,
+} from "../services/requestExport";
+import { getStorage } from "../storage";
 
 const prisma = new PrismaClient();
 const router = Router();
 
-type RequestStatus =
-  | "in_queue"
-  | "viewed"
-  | "maintenance_requested"
-  | "implementing_actions"
-  | "completed";
-
-const statusPipeline: RequestStatus[] = [
-  "in_queue",
-  "viewed",
-  "maintenance_requested",
-  "implementing_actions",
-  "completed",
-];
-
-const allowedStatusValues: RequestStatus[] = [...statusPipeline];
-
 type PriorityValue = "low" | "normal" | "high" | "emergency";
 
 const allowedPriorities: PriorityValue[] = [
@@ -31,125 +68,238 @@ const allowedPriorities: PriorityValue[] = [
   "emergency",
 ];
 
-// New: allowed 2-hour windows between 8:00 and 17:00 (5pm)
-const allowedWindowOptions = [
-  "08:00-10:00",
-  "09:00-11:00",
-  "10:00-12:00",
-  "11:00-13:00",
-  "12:00-14:00",
-  "13:00-15:00",
-  "14:00-16:00",
-  "15:00-17:00",
-] as const;
-type WindowString = (typeof allowedWindowOptions)[number];
-
-function ensureTenant(req: AuthRequest, res: any) {
-  const user = req.user as any;
-  if (!user || user.role !== "tenant") {
-    res.status(403).json({ message: "Only tenants can perform this action" });
-    return null;
-  }
-  return user;
+// Unit with its building and property, returned on every request
+const unitSelect = {
+  select: {
+    id: true,
+    number: true,
+    building: {
+      select: {
+        id: true,
+        name: true,
+        property: { select: { id: true, name: true } },
+      },
+    },
+  },
+};
+
+const assigneeSelect = {
+  select: { id: true, name: true, kind: true, company: true, phone: true },
+};
+
+// The visit currently proposed or booked, shown alongside a request
+const activeAppointmentSelect = {
+  where: { status: { in: activeAppointmentStatuses } },
+  select: { id: true, date: true, window: true, status: true },
+  orderBy: { createdAt: "desc" as const },
+  take: 1,
+};
+
+const appointmentInclude = {
+  technician: { select: { id: true, name: true, phone: true } },
+  proposedBy: { select: { id: true, name: true } },
+};
+
+// Staff who see every request in their properties and the internal notes
+function isManagerRole(role: Role) {
+  return hasPermission(role, "requests.view_all");
 }
 
-function ensureManager(req: AuthRequest, res: any) {
-  const user = req.user as any;
-  if (!user || (user.role !== "manager" && user.role !== "admin")) {
-    res.status(403).json({ message: "Only managers can perform this action" });
-    return null;
-  }
-  return user;
+// Value stored in Request.lastUpdatedByRole for a user's role. Admins show
+// as maintenance staff, like managers.
+function updatedByRole(role: string) {
+  if (role === "tenant" || role === "technician") return role;
+  return "manager";
 }
 
-// Tenant: create new request
-router.post("/", authMiddleware, async (req: AuthRequest, res) => {
-  const user = ensureTenant(req, res);
-  if (!user) return;
+// Days after completion during which a request may still be reopened
+function reopenWindowDays() {
+  const days = Number(process.env.REOPEN_WINDOW_DAYS);
+  return Number.isFinite(days) && days > 0 ? days : 14;
+}
 
-  const {
-    unit,
-    category,
-    description,
-    phone,
-    priority,
-    // old field (ignored now, but safe if sent)
-    preferredTimeWindow,
-    accessInstructions,
-    // NEW fields
-    preferredWindow1,
-    preferredWindow2,
-  } = req.body as {
-    unit?: string;
-    category?: string;
-    description?: string;
-    phone?: string;
-    priority?: PriorityValue;
-    preferredTimeWindow?: string;
-    accessInstructions?: string;
-    preferredWindow1?: string;
-    preferredWindow2?: string;
-  };
+function reopenDeadline(request: { completedAt: Date | null }) {
+  if (!request.completedAt) return null;
+  return new Date(
+    request.completedAt.getTime() + reopenWindowDays() * 24 * 60 * 60 * 1000
+  );
+}
 
-  if (!unit || !category || !description || !phone) {
-    return res.status(400).json({
-      message: "unit, category, description, and phone are required",
-    });
+// Loads a request if the user may see it: the owning tenant, the assigned
+// technician, or staff whose property scope covers it, always within the
+// user's organization. Returns null otherwise so callers answer 404.
+async function loadAccessibleRequest(user: any, id: number) {
+  if (!Number.isInteger(id)) return null;
+
+  const request = await prisma.request.findFirst({
+    where: { id, organizationId: user.orgId },
+    include: {
+      assignee: { select: { userId: true } },
+      unit: { select: { building: { select: { propertyId: true } } } },
+    },
+  });
+  if (!request) return null;
+
+  if (isManagerRole(user.role)) {
+    const scope = await propertyScope(user);
+    return inScope(scope, request.unit.building.propertyId) ? request : null;
+  }
+  if (user.role === "tenant" && request.tenantId === user.id) return request;
+  if (user.role === "technician" && request.assignee?.userId === user.id) {
+    return request;
   }
+  return null;
+}
 
-  const prioritySafe: PriorityValue =
-    priority && allowedPriorities.includes(priority) ? priority : "normal";
+const attachmentSelect = {
+  select: {
+    id: true,
+    fileName: true,
+    mimeType: true,
+    size: true,
+    thumbnailKey: true,
+    createdAt: true,
+    uploadedBy: { select: { id: true, name: true, role: true } },
+  },
+};
 
-  // Validate new windows
-  const w1 = preferredWindow1 as WindowString | undefined;
-  const w2 = preferredWindow2 as WindowString | undefined;
+function uploadedFiles(req: AuthRequest) {
+  return (req.files as Express.Multer.File[] | undefined) ?? [];
+}
 
-  if (!w1 || !allowedWindowOptions.includes(w1)) {
-    return res.status(400).json({
-      message:
-        "preferredWindow1 is required and must be a valid 2-hour window between 8 AM and 5 PM.",
-    });
-  }
+// Tenant: create new request (JSON, or multipart with "attachments" files)
+router.post(
+  "/",
+  authMiddleware,
+  attachmentsUpload,
+  async (req: AuthRequest, res) => {
+    const user = ensureTenant(req, res);
+    if (!user) return;
 
-  if (w2 && !allowedWindowOptions.includes(w2)) {
-    return res.status(400).json({
-      message:
-        "preferredWindow2 must be a valid 2-hour window between 8 AM and 5 PM.",
-    });
-  }
+    const {
+      category,
+      description,
+      phone,
+      priority,
+      // old field (ignored now, but safe if sent)
+      preferredTimeWindow,
+      accessInstructions,
+      // NEW fields
+      preferredWindow1,
+      preferredWindow2,
+    } = req.body as {
+      category?: string;
+      description?: string;
+      phone?: string;
+      priority?: PriorityValue;
+      preferredTimeWindow?: string;
+      accessInstructions?: string;
+      preferredWindow1?: string;
+      preferredWindow2?: string;
+    };
 
-  if (w1 && w2 && w1 === w2) {
-    return res.status(400).json({
-      message: "Preferred windows must be different if two are provided.",
-    });
-  }
+    if (!category || !description || !phone) {
+      return res.status(400).json({
+        message: "category, description, and phone are required",
+      });
+    }
 
-  try {
-    const now = new Date();
+    const prioritySafe: PriorityValue =
+      priority && allowedPriorities.includes(priority) ? priority : "normal";
 
-    const request = await prisma.request.create({
-      data: {
-        unit,
-        category,
-        description,
-        phone,
-        priority: prioritySafe as Priority,
-        preferredWindow1: w1,
-        preferredWindow2: w2 || null,
-        accessInstructions: accessInstructions || undefined,
-        tenantId: user.id,
-        status: "in_queue",
-        lastUpdatedByRole: "tenant",
-        inQueueAt: now,
-      },
-    });
+    // Validate new windows
+    const w1 = preferredWindow1 as VisitWindow | undefined;
+    const w2 = preferredWindow2 as VisitWindow | undefined;
 
-    return res.status(201).json(request);
-  } catch (err) {
-    console.error(err);
-    return res.status(500).json({ message: "Failed to create request" });
+    if (!w1 || !visitWindows.includes(w1)) {
+      return res.status(400).json({
+        message:
+          "preferredWindow1 is required and must be a valid 2-hour window between 8 AM and 5 PM.",
+      });
+    }
+
+    if (w2 && !visitWindows.includes(w2)) {
+      return res.status(400).json({
+        message:
+          "preferredWindow2 must be a valid 2-hour window between 8 AM and 5 PM.",
+      });
+    }
+
+    if (w1 && w2 && w1 === w2) {
+      return res.status(400).json({
+        message: "Preferred windows must be different if two are provided.",
+      });
+    }
+
+    // Stored in the transaction below; removed again if it rolls back
+    let pending: Attachment[] = [];
+    try {
+      // The unit always comes from the tenant's profile, never from the form
+      const profile = await prisma.tenantProfile.findUnique({
+        where: { userId: user.id },
+      });
+
+      if (!profile) {
+        return res.status(400).json({
+          message:
+            "Your account is not linked to a unit yet. Please contact your property manager.",
+        });
+      }
+
+      const prepared = await prepareAttachments(uploadedFiles(req));
+
+      // New requests start in the first state of the default workflow
+      const workflow = await loadWorkflow();
+      const initialState = workflow.states[0];
+
+      const now = new Date();
+
+      const request = await withRequestEvents(prisma, async (tx, record) => {
+        const created = await tx.request.create({
+          data: {
+            organizationId: user.orgId,
+            unitId: profile.unitId,
+            category,
+            description,
+            phone,
+            priority: prioritySafe as Priority,
+            preferredWindow1: w1,
+            preferredWindow2: w2 || null,
+            accessInstructions: accessInstructions || undefined,
+            tenantId: user.id,
+            workflowId: workflow.id,
+            status: initialState.key,
+            lastUpdatedByRole: "tenant",
+            inQueueAt: now,
+          },
+          include: { unit: unitSelect },
+        });
+        await record({
+          requestId: created.id,
+          actor: user,
+          type: "created",
+          field: "status",
+          newValue: created.status,
+        });
+        // Files are written last, once everything else in the transaction
+        // has succeeded
+        pending = await storeAttachments(tx, created.id, user.id, prepared);
+        return created;
+      });
+      const attachments = pending;
+      pending = [];
+
+      return res.status(201).json({ ...request, attachments });
+    } catch (err) {
+      await discardAttachmentFiles(pending);
+      if (err instanceof InvalidAttachmentError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to create request" });
+    }
   }
-});
+);
 
 // Tenant: get own requests
 router.get("/mine", authMiddleware, async (req: AuthRequest, res) => {
@@ -158,10 +308,21 @@ router.get("/mine", authMiddleware, async (req: AuthRequest, res) => {
 
   try {
     const requests = await prisma.request.findMany({
-      where: { tenantId: user.id },
+      where: { tenantId: user.id, organizationId: user.orgId },
+      include: {
+        unit: unitSelect,
+        reopenedBy: { select: { id: true } },
+        appointments: activeAppointmentSelect,
+      },
       orderBy: { createdAt: "desc" },
     });
-    return res.json(requests);
+    return res.json(
+      requests.map((r) => ({
+        ...r,
+        reopenableUntil:
+          r.status === "completed" && !r.reopenedBy ? reopenDeadline(r) : null,
+      }))
+    );
   } catch (err) {
     console.error(err);
     return res.status(500).json({ message: "Failed to load requests" });
@@ -176,8 +337,8 @@ router.patch("/:id/close", authMiddleware, async (req: AuthRequest, res) => {
   const { id } = req.params;
 
   try {
-    const existing = await prisma.request.findUnique({
-      where: { id: Number(id) },
+    const existing = await prisma.request.findFirst({
+      where: { id: Number(id), organizationId: user.orgId },
     });
 
     if (!existing || existing.tenantId !== user.id) {
@@ -188,63 +349,556 @@ router.patch("/:id/close", authMiddleware, async (req: AuthRequest, res) => {
       return res.json(existing);
     }
 
+    const workflow = await loadWorkflow(existing.workflowId);
+    resolveTransition(workflow, existing, "completed", user.role);
+
     const now = new Date();
 
-    const data: any = {
-      status: "completed",
+    const data = {
+      ...backfillTimestamps(workflow, existing, now),
+      ...transitionData(workflow, existing, "completed", now),
       lastUpdatedByRole: "tenant",
     };
 
-    if (!existing.inQueueAt) {
-      data.inQueueAt = existing.createdAt ?? now;
+    const updated = await withRequestEvents(prisma, async (tx, record) => {
+      const result = await tx.request.update({
+        where: { id: Number(id) },
+        data,
+        include: { unit: unitSelect },
+      });
+      await record({
+        requestId: result.id,
+        actor: user,
+        type: "closed",
+        field: "status",
+        oldValue: existing.status,
+        newValue: result.status,
+      });
+      return result;
+    });
+
+    return res.json(updated);
+  } catch (err) {
+    if (err instanceof TransitionError) {
+      return res.status(err.status).json({ message: err.message });
     }
-    if (!existing.viewedAt && existing.status !== "in_queue") {
-      data.viewedAt = now;
+    console.error(err);
+    return res.status(500).json({ message: "Failed to close request" });
+  }
+});
+
+// Tenant or manager: the problem came back after completion. Opens a
+// follow-up request linked to the original, which keeps its own history.
+router.post("/:id/reopen", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+
+  const { id } = req.params;
+  const reason = ((req.body as { reason?: string }).reason ?? "").trim();
+
+  if (!reason) {
+    return res
+      .status(400)
+      .json({ message: "Please describe what went wrong." });
+  }
+
+  try {
+    const existing = await loadAccessibleRequest(user, Number(id));
+
+    if (!existing) {
+      return res.status(404).json({ message: "Request not found" });
     }
-    if (
-      !existing.maintenanceRequestedAt &&
-      statusPipeline.indexOf(existing.status as RequestStatus) >=
-        statusPipeline.indexOf("maintenance_requested")
-    ) {
-      data.maintenanceRequestedAt = existing.maintenanceRequestedAt ?? now;
+
+    if (existing.status !== "completed") {
+      return res
+        .status(400)
+        .json({ message: "Only completed requests can be reopened" });
     }
-    if (
-      !existing.implementingActionsAt &&
-      statusPipeline.indexOf(existing.status as RequestStatus) >=
-        statusPipeline.indexOf("implementing_actions")
-    ) {
-      data.implementingActionsAt = existing.implementingActionsAt ?? now;
+
+    const deadline = reopenDeadline(existing);
+    if (!deadline || deadline < new Date()) {
+      return res.status(400).json({
+        message: `Requests can only be reopened within ${reopenWindowDays()} days of completion. Please submit a new request.`,
+      });
     }
 
-    data.completedAt = existing.completedAt ?? now;
+    const followUp = await prisma.request.findUnique({
+      where: { reopenedFromId: existing.id },
+    });
+    if (followUp) {
+      return res.status(409).json({
+        message: `This request was already reopened as #${followUp.id}`,
+      });
+    }
+
+    const workflow = await loadWorkflow(existing.workflowId);
+    resolveTransition(workflow, existing, "reopened", user.role, reason);
+
+    const now = new Date();
 
-    const updated = await prisma.request.update({
-      where: { id: Number(id) },
-      data,
+    const created = await withRequestEvents(prisma, async (tx, record) => {
+      const result = await tx.request.create({
+        data: {
+          organizationId: existing.organizationId,
+          unitId: existing.unitId,
+          category: existing.category,
+          description: existing.description,
+          phone: existing.phone,
+          priority: existing.priority,
+          preferredWindow1: existing.preferredWindow1,
+          preferredWindow2: existing.preferredWindow2,
+          accessInstructions: existing.accessInstructions,
+          tenantId: existing.tenantId,
+          workflowId: workflow.id,
+          status: "reopened",
+          // Send the follow-up back to whoever did the original work
+          assigneeId: existing.assigneeId,
+          assignedAt: existing.assigneeId ? now : null,
+          reopenedFromId: existing.id,
+          reopenReason: reason,
+          lastUpdatedByRole: updatedByRole(user.role),
+          // The follow-up's timeline starts over; later steps stamp as it moves
+          inQueueAt: now,
+        },
+        include: {
+          unit: unitSelect,
+          assignee: assigneeSelect,
+          reopenedBy: { select: { id: true } },
+        },
+      });
+      await record({
+        requestId: result.id,
+        actor: user,
+        type: "created",
+        field: "status",
+        newValue: result.status,
+        note: reason,
+      });
+      await record({
+        requestId: existing.id,
+        actor: user,
+        type: "reopened",
+        newValue: String(result.id),
+        note: reason,
+      });
+      return result;
     });
 
-    return res.json(updated);
+    return res.status(201).json(created);
   } catch (err) {
+    if (err instanceof TransitionError) {
+      return res.status(err.status).json({ message: err.message });
+    }
     console.error(err);
-    return res.status(500).json({ message: "Failed to close request" });
+    return res.status(500).json({ message: "Failed to reopen request" });
   }
 });
 
-// Manager: get all requests
-router.get("/", authMiddleware, async (req: AuthRequest, res) => {
-  const user = ensureManager(req, res);
+// Manager: one page of requests in their properties. Filters, sort order
+// and page size come from the query string (see services/requestQuery.ts);
+// pass nextCursor back as cursor for the following page.
+router.get(
+  "/",
+  authMiddleware,
+  requirePermission("requests.view_all"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+
+    try {
+      const query = await parseRequestQuery(req.query, user.orgId);
+      const where = {
+        AND: [requestScopeWhere(user.orgId, req.scope!), query.where],
+      };
+
+      const [rows, total] = await Promise.all([
+        prisma.request.findMany({
+          where,
+          include: {
+            tenant: {
+              select: { name: true, email: true },
+            },
+            unit: unitSelect,
+            assignee: assigneeSelect,
+            appointments: activeAppointmentSelect,
+          },
+          orderBy: query.orderBy,
+          ...(query.cursor ? { cursor: { id: query.cursor }, skip: 1 } : {}),
+          // One extra row tells us whether there is another page
+          take: query.limit + 1,
+        }),
+        prisma.request.count({ where }),
+      ]);
+
+      const items = rows.slice(0, query.limit);
+      return res.json({
+        items: await withSla(items),
+        nextCursor:
+          rows.length > query.limit ? String(items[items.length - 1].id) : null,
+        total,
+      });
+    } catch (err) {
+      if (err instanceof RequestQueryError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load requests" });
+    }
+  }
+);
+
+// Manager: every request matching the GET / filters as a CSV or XLSX
+// download (format=csv|xlsx), streamed in batches. limit and cursor are
+// ignored.
+router.get(
+  "/export",
+  authMiddleware,
+  requirePermission("requests.view_all"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+    const format = (req.query.format ?? "csv") as ExportFormat;
+
+    if (!exportFormats.includes(format)) {
+      return res
+        .status(400)
+        .json({ message: `format must be one of ${exportFormats.join(", ")}` });
+    }
+
+    try {
+      const query = await parseRequestQuery(req.query, user.orgId);
+      const where = {
+        AND: [requestScopeWhere(user.orgId, req.scope!), query.where],
+      };
+      const date = new Date().toISOString().slice(0, 10);
+
+      res.setHeader("Content-Type", exportContentTypes[format]);
+      res.setHeader(
+        "Content-Disposition",
+        `attachment; filename="requests-${date}.${format}"`
+      );
+      await exportRequests(format, where, query.orderBy, res);
+    } catch (err) {
+      if (err instanceof RequestQueryError) {
+        return res.status(400).json({ message: err.message });
+      }
+      // The client cancelled the download
+      if (err instanceof ExportAbortedError) return;
+      console.error(err);
+      // Part of the file may already be out; cut the download off rather
+      // than leave a truncated file looking complete
+      if (res.headersSent) return res.destroy();
+      return res.status(500).json({ message: "Failed to export requests" });
+    }
+  }
+);
+
+// Manager: open and completed totals for the summary cards
+router.get(
+  "/summary",
+  authMiddleware,
+  requirePermission("requests.view_all"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+    const scope = requestScopeWhere(user.orgId, req.scope!);
+
+    try {
+      const terminal = await terminalStatusWhere();
+      const [open, completed] = await Promise.all([
+        prisma.request.count({ where: { AND: [scope, { NOT: terminal }] } }),
+        prisma.request.count({ where: { ...scope, status: "completed" } }),
+      ]);
+      return res.json({ open, completed });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load summary" });
+    }
+  }
+);
+
+// Manager: ranked full-text search over every request in their properties,
+// open or closed, with highlighted snippets. Pages with limit and offset.
+router.get(
+  "/search",
+  authMiddleware,
+  requirePermission("requests.view_all"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+    const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+    const limit = req.query.limit ? Number(req.query.limit) : 20;
+    const offset = req.query.offset ? Number(req.query.offset) : 0;
+
+    if (!q) {
+      return res.status(400).json({ message: "q is required" });
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > 50) {
+      return res
+        .status(400)
+        .json({ message: "limit must be between 1 and 50" });
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      return res.status(400).json({ message: "offset must be 0 or more" });
+    }
+
+    try {
+      const { hits, total } = await searchRequests(user.orgId, req.scope!, q, {
+        limit,
+        offset,
+      });
+      const requests = await prisma.request.findMany({
+        where: { id: { in: hits.map((h) => h.id) } },
+        include: {
+          tenant: {
+            select: { name: true, email: true },
+          },
+          unit: unitSelect,
+          assignee: assigneeSelect,
+        },
+      });
+      const byId = new Map(
+        (await withSla(requests)).map((r) => [r.id, r] as const)
+      );
+
+      return res.json({
+        items: hits
+          .filter((h) => byId.has(h.id))
+          .map((h) => ({
+            ...byId.get(h.id)!,
+            search: { rank: h.rank, source: h.source, snippet: h.snippet },
+          })),
+        total,
+      });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to search requests" });
+    }
+  }
+);
+
+// Move a request along its workflow. Which roles may fire each transition,
+// and any guard on it, come from the workflow data.
+router.patch(
+  "/:id/status",
+  authMiddleware,
+  requirePermission("requests.change_status"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+
+    const { id } = req.params;
+    const { status, reason } = req.body as { status?: string; reason?: string };
+
+    if (!status) {
+      return res.status(400).json({ message: "Invalid status" });
+    }
+
+    try {
+      const existing = await loadAccessibleRequest(user, Number(id));
+
+      if (!existing) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      if (status === existing.status) {
+        // Nothing changed, so there is nothing to record
+        return res.json(
+          await prisma.request.findUnique({
+            where: { id: existing.id },
+            include: { unit: unitSelect, assignee: assigneeSelect },
+          })
+        );
+      }
+
+      if (existing.status === "completed" && status === "reopened") {
+        // Completed work is reopened as a linked follow-up, see POST /:id/reopen
+        return res
+          .status(400)
+          .json({ message: "Use the reopen action for completed requests" });
+      }
+
+      const workflow = await loadWorkflow(existing.workflowId);
+      resolveTransition(workflow, existing, status, user.role, reason);
+
+      const now = new Date();
+      const data = {
+        ...backfillTimestamps(workflow, existing, now),
+        ...transitionData(workflow, existing, status, now),
+        lastUpdatedByRole: updatedByRole(user.role),
+      };
+
+      const updated = await withRequestEvents(prisma, async (tx, record) => {
+        const result = await tx.request.update({
+          where: { id: Number(id) },
+          data,
+          include: { unit: unitSelect, assignee: assigneeSelect },
+        });
+        await record({
+          requestId: result.id,
+          actor: user,
+          type: "status_changed",
+          field: "status",
+          oldValue: existing.status,
+          newValue: result.status,
+          note: reason?.trim() || null,
+        });
+        return result;
+      });
+      return res.json(updated);
+    } catch (err) {
+      if (err instanceof TransitionError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to update status" });
+    }
+  }
+);
+
+// Manager: update priority
+router.patch(
+  "/:id/priority",
+  authMiddleware,
+  requirePermission("requests.change_priority"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+
+    const { id } = req.params;
+    const { priority } = req.body as { priority?: PriorityValue };
+
+    if (!priority || !allowedPriorities.includes(priority)) {
+      return res.status(400).json({ message: "Invalid priority" });
+    }
+
+    try {
+      const existing = await loadAccessibleRequest(user, Number(id));
+
+      if (!existing) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const updated = await withRequestEvents(prisma, async (tx, record) => {
+        const result = await tx.request.update({
+          where: { id: Number(id) },
+          data: {
+            priority: priority as Priority,
+            lastUpdatedByRole: updatedByRole(user.role),
+          },
+          include: { unit: unitSelect, assignee: assigneeSelect },
+        });
+        if (existing.priority !== result.priority) {
+          await record({
+            requestId: result.id,
+            actor: user,
+            type: "priority_changed",
+            field: "priority",
+            oldValue: existing.priority,
+            newValue: result.priority,
+          });
+        }
+        return result;
+      });
+      return res.json(updated);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to update priority" });
+    }
+  }
+);
+
+// Manager: assign, reassign or unassign a technician/vendor
+router.patch(
+  "/:id/assignee",
+  authMiddleware,
+  requirePermission("requests.assign"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+
+    const { id } = req.params;
+    const { technicianId } = req.body as { technicianId?: number | null };
+
+    if (technicianId !== null && !Number.isInteger(Number(technicianId))) {
+      return res
+        .status(400)
+        .json({ message: "technicianId must be a technician id or null" });
+    }
+
+    try {
+      const existing = await prisma.request.findFirst({
+        where: { id: Number(id), ...requestScopeWhere(user.orgId, req.scope!) },
+        include: { assignee: { select: { name: true } } },
+      });
+
+      if (!existing) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      if (technicianId !== null) {
+        const technician = await prisma.technician.findFirst({
+          where: { id: Number(technicianId), organizationId: user.orgId },
+        });
+        if (!technician || !technician.active) {
+          return res.status(400).json({ message: "Technician not found" });
+        }
+      }
+
+      const updated = await withRequestEvents(prisma, async (tx, record) => {
+        const result = await tx.request.update({
+          where: { id: Number(id) },
+          data: {
+            assigneeId: technicianId === null ? null : Number(technicianId),
+            assignedAt: technicianId === null ? null : new Date(),
+            lastUpdatedByRole: updatedByRole(user.role),
+          },
+          include: { unit: unitSelect, assignee: assigneeSelect },
+        });
+        if (existing.assigneeId !== result.assigneeId) {
+          await record({
+            requestId: result.id,
+            actor: user,
+            type: "assignee_changed",
+            field: "assignee",
+            oldValue: existing.assignee?.name,
+            newValue: result.assignee?.name,
+          });
+          // The booked visit was with the previous technician
+          await cancelActiveAppointments(
+            tx,
+            result.id,
+            record,
+            user,
+            "Technician changed"
+          );
+        }
+        return result;
+      });
+      return res.json(updated);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to assign request" });
+    }
+  }
+);
+
+// Technician: requests assigned to me
+router.get("/assigned", authMiddleware, async (req: AuthRequest, res) => {
+  const user = ensureTechnician(req, res);
   if (!user) return;
 
   try {
+    const technician = await prisma.technician.findUnique({
+      where: { userId: user.id },
+    });
+    if (!technician) {
+      return res.json([]);
+    }
+
     const requests = await prisma.request.findMany({
+      where: { assigneeId: technician.id, organizationId: user.orgId },
       include: {
         tenant: {
-          select: { name: true, email: true },
+          select: { name: true },
         },
+        unit: unitSelect,
+        appointments: activeAppointmentSelect,
       },
       orderBy: { createdAt: "desc" },
     });
-
     return res.json(requests);
   } catch (err) {
     console.error(err);
@@ -252,111 +906,486 @@ router.get("/", authMiddleware, async (req: AuthRequest, res) => {
   }
 });
 
-// Manager: update status (must follow pipeline order)
-router.patch("/:id/status", authMiddleware, async (req: AuthRequest, res) => {
-  const user = ensureManager(req, res);
-  if (!user) return;
+// Any party on the request: read the conversation
+router.get("/:id/comments", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
 
-  const { id } = req.params;
-  const { status } = req.body as { status?: RequestStatus };
+  try {
+    const request = await loadAccessibleRequest(user, Number(req.params.id));
+    if (!request) {
+      return res.status(404).json({ message: "Request not found" });
+    }
+
+    const comments = await prisma.requestComment.findMany({
+      where: {
+        requestId: request.id,
+        // Internal notes never leave the manager side
+        ...(isManagerRole(user.role) ? {} : { internal: false }),
+      },
+      include: {
+        author: { select: { id: true, name: true, role: true } },
+      },
+      orderBy: { createdAt: "asc" },
+    });
+    return res.json(comments);
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to load comments" });
+  }
+});
 
-  if (!status || !allowedStatusValues.includes(status)) {
-    return res.status(400).json({ message: "Invalid status" });
+// Any party on the request: add a comment, reply or (managers) internal note
+router.post("/:id/comments", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
+  const { body, internal, parentId } = req.body as {
+    body?: string;
+    internal?: boolean;
+    parentId?: number;
+  };
+
+  if (!body || !body.trim()) {
+    return res.status(400).json({ message: "Comment body is required" });
   }
 
-  try {
-    const existing = await prisma.request.findUnique({
-      where: { id: Number(id) },
-    });
+  if (internal && !isManagerRole(user.role)) {
+    return res
+      .status(403)
+      .json({ message: "Only managers can add internal notes" });
+  }
 
-    if (!existing) {
+  try {
+    const request = await loadAccessibleRequest(user, Number(req.params.id));
+    if (!request) {
       return res.status(404).json({ message: "Request not found" });
     }
 
-    const currentIndex = statusPipeline.indexOf(
-      existing.status as RequestStatus
-    );
-    const nextIndex = statusPipeline.indexOf(status);
-
-    if (status !== existing.status) {
-      if (nextIndex !== currentIndex + 1) {
-        return res.status(400).json({
-          message:
-            "Status must be updated in order: In Queue → Viewed → Maintenance Requested → Implementing Actions → Completed.",
-        });
+    let isInternal = Boolean(internal);
+    if (parentId) {
+      const parent = await prisma.requestComment.findUnique({
+        where: { id: Number(parentId) },
+      });
+      if (
+        !parent ||
+        parent.requestId !== request.id ||
+        (parent.internal && !isManagerRole(user.role))
+      ) {
+        return res.status(400).json({ message: "Invalid parent comment" });
       }
+      // A reply to an internal note stays internal
+      isInternal = isInternal || parent.internal;
     }
 
-    const now = new Date();
-    const data: any = {
-      status,
-      lastUpdatedByRole: "manager",
-    };
+    const comment = await prisma.requestComment.create({
+      data: {
+        requestId: request.id,
+        authorId: user.id,
+        body: body.trim(),
+        internal: isInternal,
+        parentId: parentId ? Number(parentId) : null,
+      },
+      include: {
+        author: { select: { id: true, name: true, role: true } },
+      },
+    });
+    return res.status(201).json(comment);
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to add comment" });
+  }
+});
 
-    if (!existing.inQueueAt) {
-      data.inQueueAt = existing.createdAt ?? now;
-    }
+// Any party on the request: full change history, oldest first
+router.get("/:id/history", authMiddleware, async (req: AuthRequest, res) => {
+  const user = req.user as any;
 
-    switch (status) {
-      case "in_queue":
-        if (!existing.inQueueAt) data.inQueueAt = now;
-        break;
-      case "viewed":
-        if (!existing.viewedAt) data.viewedAt = now;
-        break;
-      case "maintenance_requested":
-        if (!existing.maintenanceRequestedAt) {
-          data.maintenanceRequestedAt = now;
-        }
-        break;
-      case "implementing_actions":
-        if (!existing.implementingActionsAt) {
-          data.implementingActionsAt = now;
-        }
-        break;
-      case "completed":
-        if (!existing.completedAt) {
-          data.completedAt = now;
-        }
-        break;
+  try {
+    const request = await loadAccessibleRequest(user, Number(req.params.id));
+    if (!request) {
+      return res.status(404).json({ message: "Request not found" });
     }
 
-    const updated = await prisma.request.update({
-      where: { id: Number(id) },
-      data,
+    const events = await prisma.requestEvent.findMany({
+      where: { requestId: request.id },
+      include: { actor: { select: { id: true, name: true, role: true } } },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
     });
-    return res.json(updated);
+    return res.json(events);
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ message: "Failed to update status" });
+    return res.status(500).json({ message: "Failed to load history" });
   }
 });
 
-// Manager: update priority
-router.patch("/:id/priority", authMiddleware, async (req: AuthRequest, res) => {
-  const user = ensureManager(req, res);
-  if (!user) return;
+// Anyone who can see the request: its visit proposals, newest first
+router.get(
+  "/:id/appointments",
+  authMiddleware,
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
 
-  const { id } = req.params;
-  const { priority } = req.body as { priority?: PriorityValue };
+    try {
+      const request = await loadAccessibleRequest(user, Number(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
 
-  if (!priority || !allowedPriorities.includes(priority)) {
-    return res.status(400).json({ message: "Invalid priority" });
+      const appointments = await prisma.appointment.findMany({
+        where: { requestId: request.id },
+        include: appointmentInclude,
+        orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      });
+      return res.json(appointments);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load appointments" });
+    }
   }
+);
+
+// Manager: propose a visit with the assigned technician in one of the
+// tenant's preferred windows. Replaces any earlier proposed or accepted
+// visit.
+router.post(
+  "/:id/appointments",
+  authMiddleware,
+  requirePermission("requests.assign"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+    const { date, window } = req.body as { date?: string; window?: string };
+
+    try {
+      const visitDate = parseAppointmentDate(date);
+
+      const request = await prisma.request.findFirst({
+        where: {
+          id: Number(req.params.id),
+          ...requestScopeWhere(user.orgId, req.scope!),
+        },
+        include: { assignee: true },
+      });
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const workflow = await loadWorkflow(request.workflowId);
+      if (findState(workflow, request.status)?.isTerminal) {
+        throw new AppointmentError("This request is closed.");
+      }
+      const windows = [request.preferredWindow1, request.preferredWindow2];
+      if (!window || !windows.includes(window)) {
+        throw new AppointmentError(
+          "window must be one of the tenant's preferred windows."
+        );
+      }
+      const technician = request.assignee;
+      if (!technician || !technician.active) {
+        throw new AppointmentError(
+          "Assign a technician before scheduling a visit."
+        );
+      }
+
+      const appointment = await withRequestEvents(
+        prisma,
+        async (tx, record) => {
+          await cancelActiveAppointments(
+            tx,
+            request.id,
+            record,
+            user,
+            "Replaced by a new proposal"
+          );
+          await checkTechnicianAvailability(tx, technician, visitDate, window);
+
+          const created = await tx.appointment.create({
+            data: {
+              requestId: request.id,
+              technicianId: technician.id,
+              date: visitDate,
+              window,
+              proposedById: user.id,
+            },
+            include: appointmentInclude,
+          });
+          await record({
+            requestId: request.id,
+            actor: user,
+            type: "appointment_proposed",
+            field: "appointment",
+            newValue: describeAppointment(created),
+          });
+          return created;
+        }
+      );
+      return res.status(201).json(appointment);
+    } catch (err) {
+      if (err instanceof AppointmentError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to propose a visit" });
+    }
+  }
+);
+
+// The tenant's answer to a proposed visit. The guarded update keeps a
+// late answer from overwriting a cancellation (or a second answer).
+async function answerAppointment(
+  req: AuthRequest,
+  res: Response,
+  answer: "accepted" | "declined"
+) {
+  const user = ensureTenant(req, res);
+  if (!user) return;
+  const { reason } = req.body as { reason?: string };
 
   try {
-    const updated = await prisma.request.update({
-      where: { id: Number(id) },
-      data: {
-        priority: priority as Priority,
-        lastUpdatedByRole: "manager",
+    const appointment = await prisma.appointment.findFirst({
+      where: {
+        id: Number(req.params.appointmentId),
+        requestId: Number(req.params.id),
+        request: { tenantId: user.id, organizationId: user.orgId },
       },
     });
+    if (!appointment) {
+      return res.status(404).json({ message: "Appointment not found" });
+    }
+
+    const updated = await withRequestEvents(prisma, async (tx, record) => {
+      const { count } = await tx.appointment.updateMany({
+        where: { id: appointment.id, status: "proposed" },
+        data: {
+          status: answer,
+          respondedAt: new Date(),
+          declineReason: answer === "declined" ? reason?.trim() || null : null,
+        },
+      });
+      if (count === 0) {
+        throw new AppointmentError(
+          "This visit is no longer waiting for an answer.",
+          409
+        );
+      }
+      await record({
+        requestId: appointment.requestId,
+        actor: user,
+        type:
+          answer === "accepted"
+            ? "appointment_accepted"
+            : "appointment_declined",
+        field: "appointment",
+        newValue: describeAppointment(appointment),
+        note: answer === "declined" ? reason?.trim() || null : null,
+      });
+      if (answer === "accepted") {
+        await syncScheduledVisit(tx, appointment.requestId);
+      }
+      return tx.appointment.findUniqueOrThrow({
+        where: { id: appointment.id },
+        include: appointmentInclude,
+      });
+    });
     return res.json(updated);
   } catch (err) {
+    if (err instanceof AppointmentError) {
+      return res.status(err.status).json({ message: err.message });
+    }
     console.error(err);
-    return res.status(500).json({ message: "Failed to update priority" });
+    return res.status(500).json({ message: "Failed to answer the proposal" });
   }
-});
+}
+
+// Tenant: accept a proposed visit
+router.post(
+  "/:id/appointments/:appointmentId/accept",
+  authMiddleware,
+  (req: AuthRequest, res) => answerAppointment(req, res, "accepted")
+);
+
+// Tenant: decline a proposed visit, optionally saying why
+router.post(
+  "/:id/appointments/:appointmentId/decline",
+  authMiddleware,
+  (req: AuthRequest, res) => answerAppointment(req, res, "declined")
+);
+
+// Manager: call off a proposed or accepted visit
+router.post(
+  "/:id/appointments/:appointmentId/cancel",
+  authMiddleware,
+  requirePermission("requests.assign"),
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+    const { reason } = req.body as { reason?: string };
+
+    try {
+      const appointment = await prisma.appointment.findFirst({
+        where: {
+          id: Number(req.params.appointmentId),
+          requestId: Number(req.params.id),
+          request: requestScopeWhere(user.orgId, req.scope!),
+        },
+      });
+      if (!appointment) {
+        return res.status(404).json({ message: "Appointment not found" });
+      }
+
+      const updated = await withRequestEvents(prisma, async (tx, record) => {
+        const { count } = await tx.appointment.updateMany({
+          where: {
+            id: appointment.id,
+            status: { in: activeAppointmentStatuses },
+          },
+          data: { status: "cancelled" },
+        });
+        if (count === 0) {
+          throw new AppointmentError("This visit is no longer booked.", 409);
+        }
+        await record({
+          requestId: appointment.requestId,
+          actor: user,
+          type: "appointment_cancelled",
+          field: "appointment",
+          oldValue: describeAppointment(appointment),
+          note: reason?.trim() || null,
+        });
+        await syncScheduledVisit(tx, appointment.requestId);
+        return tx.appointment.findUniqueOrThrow({
+          where: { id: appointment.id },
+          include: appointmentInclude,
+        });
+      });
+      return res.json(updated);
+    } catch (err) {
+      if (err instanceof AppointmentError) {
+        return res.status(err.status).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to cancel the visit" });
+    }
+  }
+);
+
+// Any party on the request: list attachments
+router.get(
+  "/:id/attachments",
+  authMiddleware,
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+
+    try {
+      const request = await loadAccessibleRequest(user, Number(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const attachments = await prisma.attachment.findMany({
+        where: { requestId: request.id },
+        ...attachmentSelect,
+        orderBy: { createdAt: "asc" },
+      });
+      return res.json(attachments);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load attachments" });
+    }
+  }
+);
+
+// Any party on the request: upload more files after creation
+router.post(
+  "/:id/attachments",
+  authMiddleware,
+  attachmentsUpload,
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+    const files = uploadedFiles(req);
+
+    if (files.length === 0) {
+      return res.status(400).json({ message: "No files uploaded" });
+    }
+
+    // Stored in the transaction below; removed again if it rolls back
+    let pending: Attachment[] = [];
+    try {
+      const request = await loadAccessibleRequest(user, Number(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const prepared = await prepareAttachments(files);
+      const created = await prisma.$transaction(async (tx) => {
+        pending = await storeAttachments(tx, request.id, user.id, prepared);
+        return pending;
+      });
+      pending = [];
+
+      const attachments = await prisma.attachment.findMany({
+        where: { id: { in: created.map((a) => a.id) } },
+        ...attachmentSelect,
+        orderBy: { createdAt: "asc" },
+      });
+      return res.status(201).json(attachments);
+    } catch (err) {
+      await discardAttachmentFiles(pending);
+      if (err instanceof InvalidAttachmentError) {
+        return res.status(400).json({ message: err.message });
+      }
+      console.error(err);
+      return res.status(500).json({ message: "Failed to upload attachments" });
+    }
+  }
+);
+
+// Any party on the request: download an attachment or its thumbnail.
+// Ownership is checked the same way as every other request route.
+router.get(
+  "/:id/attachments/:attachmentId/:variant(file|thumbnail)",
+  authMiddleware,
+  async (req: AuthRequest, res) => {
+    const user = req.user as any;
+    const { attachmentId, variant } = req.params;
+
+    try {
+      const request = await loadAccessibleRequest(user, Number(req.params.id));
+      if (!request) {
+        return res.status(404).json({ message: "Request not found" });
+      }
+
+      const attachment = await prisma.attachment.findUnique({
+        where: { id: Number(attachmentId) },
+      });
+      if (!attachment || attachment.requestId !== request.id) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+
+      const key =
+        variant === "thumbnail"
+          ? attachment.thumbnailKey
+          : attachment.storageKey;
+      if (!key) {
+        return res.status(404).json({ message: "No thumbnail for this file" });
+      }
+
+      const stream = await getStorage().read(key);
+      if (variant === "file") {
+        // Sets a properly encoded Content-Disposition for the original name
+        res.attachment(attachment.fileName);
+      }
+      res.setHeader(
+        "Content-Type",
+        variant === "thumbnail" ? "image/webp" : attachment.mimeType
+      );
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      stream.on("error", (err) => {
+        console.error(err);
+        res.destroy(err);
+      });
+      stream.pipe(res);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load attachment" });
+    }
+  }
+);
 
 export default router;
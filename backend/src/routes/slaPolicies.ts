@@ -0,0 +1,124 @@
+import { Router } from "express";
+import { Priority, PrismaClient } from "@prisma/client";
+import {
+  authMiddleware,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const allowedPriorities: Priority[] = ["low", "normal", "high", "emergency"];
+
+// Targets are whole minutes; null means no target for that step
+function parseMinutes(value: unknown) {
+  if (value === null || value === undefined || value === "") return null;
+  const minutes = Number(value);
+  return Number.isInteger(minutes) && minutes > 0 ? minutes : undefined;
+}
+
+// Manager: list their organization's SLA policies
+router.get(
+  "/",
+  authMiddleware,
+  requirePermission("requests.view_all"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+
+    try {
+      const policies = await prisma.slaPolicy.findMany({
+        where: { organizationId: orgId },
+        orderBy: [{ priority: "desc" }, { category: "asc" }],
+      });
+      return res.json(policies);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load SLA policies" });
+    }
+  }
+);
+
+// Admin: set the targets for a priority, optionally for one category only
+router.put(
+  "/",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const { priority, category, viewMinutes, completeMinutes } = req.body as {
+      priority?: Priority;
+      category?: string | null;
+      viewMinutes?: number | null;
+      completeMinutes?: number | null;
+    };
+
+    if (!priority || !allowedPriorities.includes(priority)) {
+      return res.status(400).json({ message: "Invalid priority" });
+    }
+
+    const view = parseMinutes(viewMinutes);
+    const complete = parseMinutes(completeMinutes);
+    if (view === undefined || complete === undefined) {
+      return res
+        .status(400)
+        .json({ message: "Targets must be whole minutes greater than 0" });
+    }
+    if (view && complete && view > complete) {
+      return res.status(400).json({
+        message: "The view target can't be after the completion target",
+      });
+    }
+
+    const data = {
+      organizationId: orgId,
+      priority,
+      category: category?.trim() || null,
+      viewMinutes: view,
+      completeMinutes: complete,
+    };
+
+    try {
+      // Compound unique lookups can't match a null category, so find first
+      const existing = await prisma.slaPolicy.findFirst({
+        where: {
+          organizationId: orgId,
+          priority: data.priority,
+          category: data.category,
+        },
+      });
+      const policy = existing
+        ? await prisma.slaPolicy.update({ where: { id: existing.id }, data })
+        : await prisma.slaPolicy.create({ data });
+      return res.json(policy);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to save SLA policy" });
+    }
+  }
+);
+
+// Admin: remove a policy (requests fall back to the priority-wide one)
+router.delete(
+  "/:id",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+
+    try {
+      const { count } = await prisma.slaPolicy.deleteMany({
+        where: { id: Number(req.params.id), organizationId: orgId },
+      });
+      if (count === 0) {
+        return res.status(404).json({ message: "SLA policy not found" });
+      }
+      return res.status(204).send();
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to delete SLA policy" });
+    }
+  }
+);
+
+export default router;
@@ -0,0 +1,126 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+const db = vi.hoisted(() => ({
+  session: { findUnique: vi.fn() },
+  workflowState: { findMany: vi.fn() },
+  user: { findFirst: vi.fn() },
+  technician: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  request: { count: vi.fn() },
+  appointment: { count: vi.fn() },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { signAccessToken } from "../services/sessions";
+import techniciansRouter from "./technicians";
+
+let server: Server;
+let baseUrl: string;
+
+function call(method: string, path: string, body?: unknown) {
+  const { token } = signAccessToken(
+    { id: 1, role: "admin", organizationId: 3 },
+    "s1"
+  );
+  return fetch(`${baseUrl}/technicians${path}`, {
+    method,
+    headers: {
+      authorization: `Bearer ${token}`,
+      "content-type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const technician = { id: 5, name: "Sam Ortiz", organizationId: 3 };
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = "test-secret-that-is-long-enough-for-config";
+  const app = express();
+  app.use(express.json());
+  app.use("/technicians", techniciansRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.session.findUnique.mockResolvedValue({
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  db.workflowState.findMany.mockResolvedValue([]);
+  db.technician.findFirst.mockResolvedValue(technician);
+  db.technician.update.mockResolvedValue({ ...technician, active: false });
+});
+
+describe("PATCH /technicians/:id/deactivate", () => {
+  it("refuses while requests or visits are still assigned", async () => {
+    db.request.count.mockResolvedValue(2);
+    db.appointment.count.mockResolvedValue(1);
+
+    const res = await call("PATCH", "/5/deactivate");
+
+    expect(res.status).toBe(409);
+    expect(await res.json()).toMatchObject({ openRequests: 2, visits: 1 });
+    expect(db.technician.update).not.toHaveBeenCalled();
+  });
+
+  it("deactivates a technician with no open work", async () => {
+    db.request.count.mockResolvedValue(0);
+    db.appointment.count.mockResolvedValue(0);
+
+    const res = await call("PATCH", "/5/deactivate");
+
+    expect(res.status).toBe(200);
+    expect(db.technician.update).toHaveBeenCalledWith({
+      where: { id: 5 },
+      data: { active: false },
+    });
+  });
+
+  it("doesn't reach other organizations' technicians", async () => {
+    db.technician.findFirst.mockResolvedValue(null);
+
+    expect((await call("PATCH", "/5/deactivate")).status).toBe(404);
+    expect(db.technician.findFirst).toHaveBeenCalledWith({
+      where: { id: 5, organizationId: 3 },
+    });
+  });
+});
+
+describe("POST /technicians", () => {
+  it("refuses a second record for the same account", async () => {
+    db.user.findFirst.mockResolvedValue({ id: 9, role: "technician" });
+    db.technician.findUnique.mockResolvedValue({ id: 5, userId: 9 });
+
+    const res = await call("POST", "/", { name: "Sam Ortiz", userId: 9 });
+
+    expect(res.status).toBe(409);
+    expect(db.technician.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,167 @@
+import { Router } from "express";
+import { PrismaClient, TechnicianKind } from "@prisma/client";
+import {
+  authMiddleware,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth";
+import { activeAppointmentStatuses } from "../services/appointments";
+import { terminalStatusWhere } from "../services/requestQuery";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const allowedKinds: TechnicianKind[] = ["staff", "vendor"];
+
+// Manager: list technicians and vendors that can take work
+router.get(
+  "/",
+  authMiddleware,
+  requirePermission("requests.assign"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+
+    try {
+      const technicians = await prisma.technician.findMany({
+        where: { active: true, organizationId: orgId },
+        orderBy: [{ kind: "asc" }, { name: "asc" }],
+      });
+      return res.json(technicians);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load technicians" });
+    }
+  }
+);
+
+// Manager: add a technician or vendor
+router.post(
+  "/",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const { name, email, phone, company, kind, userId, maxDailyVisits } =
+      req.body as {
+        name?: string;
+        email?: string;
+        phone?: string;
+        company?: string;
+        kind?: TechnicianKind;
+        userId?: number;
+        maxDailyVisits?: number;
+      };
+
+    if (!name || !name.trim()) {
+      return res.status(400).json({ message: "name is required" });
+    }
+    if (kind && !allowedKinds.includes(kind)) {
+      return res.status(400).json({ message: "kind must be staff or vendor" });
+    }
+    if (
+      maxDailyVisits !== undefined &&
+      (!Number.isInteger(maxDailyVisits) || maxDailyVisits < 1)
+    ) {
+      return res
+        .status(400)
+        .json({ message: "maxDailyVisits must be a positive whole number" });
+    }
+
+    try {
+      if (userId) {
+        const linkedUser = await prisma.user.findFirst({
+          where: { id: Number(userId), organizationId: orgId },
+        });
+        if (!linkedUser || linkedUser.role !== "technician") {
+          return res
+            .status(400)
+            .json({ message: "userId must belong to a technician account" });
+        }
+        const existing = await prisma.technician.findUnique({
+          where: { userId: linkedUser.id },
+        });
+        if (existing) {
+          return res.status(409).json({
+            message: "This account already has a technician record",
+            technicianId: existing.id,
+          });
+        }
+      }
+
+      const technician = await prisma.technician.create({
+        data: {
+          name: name.trim(),
+          email: email || null,
+          phone: phone || null,
+          company: company || null,
+          kind: kind || "staff",
+          userId: userId ? Number(userId) : null,
+          maxDailyVisits,
+          organizationId: orgId,
+        },
+      });
+      return res.status(201).json(technician);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to create technician" });
+    }
+  }
+);
+
+// Manager: deactivate a technician (keeps history on past requests). Their
+// open requests and visits have to be handed over first, as for
+// deactivating a user.
+router.patch(
+  "/:id/deactivate",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const { orgId } = req.user as any;
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id)) {
+      return res.status(404).json({ message: "Technician not found" });
+    }
+
+    try {
+      const technician = await prisma.technician.findFirst({
+        where: { id, organizationId: orgId },
+      });
+      if (!technician) {
+        return res.status(404).json({ message: "Technician not found" });
+      }
+
+      const terminal = await terminalStatusWhere();
+      const [openRequests, visits] = await Promise.all([
+        prisma.request.count({
+          where: { AND: [{ assigneeId: technician.id }, { NOT: terminal }] },
+        }),
+        prisma.appointment.count({
+          where: {
+            technicianId: technician.id,
+            status: { in: activeAppointmentStatuses },
+          },
+        }),
+      ]);
+      if (openRequests > 0 || visits > 0) {
+        return res.status(409).json({
+          message: `Reassign ${technician.name}'s open requests and visits before deactivating them`,
+          openRequests,
+          visits,
+        });
+      }
+
+      const updated = await prisma.technician.update({
+        where: { id: technician.id },
+        data: { active: false },
+      });
+      return res.json(updated);
+    } catch (err) {
+      console.error(err);
+      return res
+        .status(500)
+        .json({ message: "Failed to deactivate technician" });
+    }
+  }
+);
+
+export default router;
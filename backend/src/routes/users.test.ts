@@ -0,0 +1,106 @@
+import { AddressInfo } from "net";
+import { Server } from "http";
+import express from "express";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+const db = vi.hoisted(() => ({
+  session: { findUnique: vi.fn() },
+  propertyAssignment: { findMany: vi.fn() },
+  user: { findFirst: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { signAccessToken } from "../services/sessions";
+import usersRouter from "./users";
+
+let server: Server;
+let baseUrl: string;
+
+const manager = { id: 2, role: "manager", organizationId: 3 };
+
+function call(method: string, path: string, body?: unknown) {
+  const { token } = signAccessToken(manager, "s1");
+  return fetch(`${baseUrl}/users${path}`, {
+    method,
+    headers: {
+      authorization: `Bearer ${token}`,
+      "content-type": "application/json",
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+// The scope clause handed to the lookup of the user being managed
+const lookupScope = () => db.user.findFirst.mock.calls[0][0].where.AND[1];
+
+beforeAll(async () => {
+  process.env.JWT_SECRET = "test-secret-that-is-long-enough-for-config";
+  const app = express();
+  app.use(express.json());
+  app.use("/users", usersRouter);
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.session.findUnique.mockResolvedValue({
+    revokedAt: null,
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+  });
+  db.propertyAssignment.findMany.mockResolvedValue([{ propertyId: 4 }]);
+  db.user.findFirst.mockResolvedValue(null);
+});
+
+describe("users managed by a property-scoped manager", () => {
+  it("limits them to tenants and technicians of their properties", async () => {
+    const res = await call("GET", "/9");
+
+    expect(res.status).toBe(404);
+    const inScopeProperty = { building: { propertyId: { in: [4] } } };
+    expect(lookupScope()).toEqual({
+      organizationId: 3,
+      OR: [
+        { role: "tenant", tenantProfile: { unit: inScopeProperty } },
+        { role: "tenant", tenantProfile: null, invitedById: 2 },
+        {
+          role: "technician",
+          technician: { requests: { some: { unit: inScopeProperty } } },
+        },
+        { role: "technician", invitedById: 2 },
+      ],
+    });
+  });
+
+  it("can't change the email of someone outside their properties", async () => {
+    const res = await call("PATCH", "/9", { email: "new@example.com" });
+
+    expect(res.status).toBe(404);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("can't deactivate someone outside their properties", async () => {
+    const res = await call("POST", "/9/deactivate", {});
+
+    expect(res.status).toBe(404);
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+});
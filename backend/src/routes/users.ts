@@ -0,0 +1,606 @@
+import { Router } from "express";
+import { Prisma, PrismaClient, Role } from "@prisma/client";
+import {
+  authMiddleware,
+  AuthRequest,
+  requirePermission,
+} from "../middleware/auth";
+import { activeAppointmentStatuses } from "../services/appointments";
+import { sendAccountEmail } from "../services/authTokens";
+import { hasPermission, inScope, PropertyScope } from "../services/permissions";
+import { terminalStatusWhere } from "../services/requestQuery";
+import { revokeAllSessions } from "../services/sessions";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const roles = Object.values(Role);
+const maxPageSize = 100;
+
+const userSelect = {
+  id: true,
+  name: true,
+  email: true,
+  role: true,
+  emailVerifiedAt: true,
+  deactivatedAt: true,
+  createdAt: true,
+  passwordHash: true,
+  tenantProfile: {
+    select: {
+      unit: {
+        select: {
+          id: true,
+          number: true,
+          building: {
+            select: {
+              id: true,
+              name: true,
+              property: { select: { id: true, name: true } },
+            },
+          },
+        },
+      },
+    },
+  },
+} satisfies Prisma.UserSelect;
+
+type SelectedUser = Prisma.UserGetPayload<{ select: typeof userSelect }>;
+
+// Never send the hash; only whether the invitation was accepted
+function present({ passwordHash, ...user }: SelectedUser) {
+  return { ...user, invitePending: !passwordHash };
+}
+
+// Admins manage every account in their organization. Property-scoped staff
+// manage the tenants living in their properties and the technicians working
+// on requests there, plus the tenants between units and technicians they
+// invited themselves.
+function userScopeWhere(
+  manager: { id: number; orgId: number },
+  scope: PropertyScope
+): Prisma.UserWhereInput {
+  if (scope === "all") return { organizationId: manager.orgId };
+  const inScopeProperty = { building: { propertyId: { in: scope } } };
+  return {
+    organizationId: manager.orgId,
+    OR: [
+      { role: "tenant", tenantProfile: { unit: inScopeProperty } },
+      { role: "tenant", tenantProfile: null, invitedById: manager.id },
+      {
+        role: "technician",
+        technician: { requests: { some: { unit: inScopeProperty } } },
+      },
+      { role: "technician", invitedById: manager.id },
+    ],
+  };
+}
+
+// Roles a user may create or move others into
+function assignableRoles(role: Role): Role[] {
+  return hasPermission(role, "settings.manage")
+    ? roles
+    : ["tenant", "technician"];
+}
+
+function loadManagedUser(req: AuthRequest, id: number) {
+  if (!Number.isInteger(id)) return null;
+  return prisma.user.findFirst({
+    where: { AND: [{ id }, userScopeWhere(req.user, req.scope!)] },
+    select: userSelect,
+  });
+}
+
+async function loadUnitInScope(req: AuthRequest, unitId: unknown) {
+  if (!Number.isInteger(Number(unitId))) return null;
+  const unit = await prisma.unit.findFirst({
+    where: {
+      id: Number(unitId),
+      building: { property: { organizationId: req.user.orgId } },
+    },
+    include: { building: { select: { propertyId: true } } },
+  });
+  return unit && inScope(req.scope!, unit.building.propertyId) ? unit : null;
+}
+
+// Manager: users they look after, newest first. Filters: search (name or
+// email), role, status (active | deactivated | all); paged with page and
+// pageSize.
+router.get(
+  "/",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const { search, role, status } = req.query as {
+      search?: string;
+      role?: string;
+      status?: string;
+    };
+    const page = Math.max(1, Number(req.query.page) || 1);
+    const pageSize = Math.min(
+      maxPageSize,
+      Math.max(1, Number(req.query.pageSize) || 25)
+    );
+
+    if (role && !roles.includes(role as Role)) {
+      return res.status(400).json({ message: "Invalid role" });
+    }
+
+    const filters: Prisma.UserWhereInput[] = [
+      userScopeWhere(req.user, req.scope!),
+    ];
+    if (search && search.trim()) {
+      filters.push({
+        OR: [
+          { name: { contains: search.trim(), mode: "insensitive" } },
+          { email: { contains: search.trim(), mode: "insensitive" } },
+        ],
+      });
+    }
+    if (role) filters.push({ role: role as Role });
+    if (status !== "all") {
+      filters.push({
+        deactivatedAt: status === "deactivated" ? { not: null } : null,
+      });
+    }
+
+    try {
+      const where = { AND: filters };
+      const [users, total] = await Promise.all([
+        prisma.user.findMany({
+          where,
+          select: userSelect,
+          orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+          skip: (page - 1) * pageSize,
+          take: pageSize,
+        }),
+        prisma.user.count({ where }),
+      ]);
+      return res.json({ items: users.map(present), total, page, pageSize });
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load users" });
+    }
+  }
+);
+
+// Manager: one user
+router.get(
+  "/:id",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    try {
+      const user = await loadManagedUser(req, Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      return res.json(present(user));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to load user" });
+    }
+  }
+);
+
+// Manager: create an account and email an invitation to set a password.
+// Tenants can be moved into a unit straight away; technicians also get a
+// staff technician record so work can be assigned to them.
+router.post(
+  "/",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const manager = req.user as any;
+    const { name, email, role, unitId } = req.body as {
+      name?: string;
+      email?: string;
+      role?: Role;
+      unitId?: number | null;
+    };
+
+    const normalizedEmail = email?.trim().toLowerCase();
+    if (!name || !name.trim() || !normalizedEmail || !role) {
+      return res
+        .status(400)
+        .json({ message: "name, email and role are required" });
+    }
+    if (!assignableRoles(manager.role).includes(role)) {
+      return res
+        .status(403)
+        .json({ message: "You can't create accounts with this role" });
+    }
+    if (unitId && role !== "tenant") {
+      return res
+        .status(400)
+        .json({ message: "Only tenants can be placed in a unit" });
+    }
+
+    try {
+      const unit = unitId ? await loadUnitInScope(req, unitId) : null;
+      if (unitId && !unit) {
+        return res.status(400).json({ message: "Unit not found" });
+      }
+
+      const existing = await prisma.user.findUnique({
+        where: { email: normalizedEmail },
+      });
+      if (existing) {
+        return res
+          .status(409)
+          .json({ message: "An account with this email already exists" });
+      }
+
+      const created = await prisma.$transaction(async (tx) => {
+        const user = await tx.user.create({
+          data: {
+            name: name.trim(),
+            email: normalizedEmail,
+            passwordHash: null,
+            role,
+            organizationId: manager.orgId,
+            invitedById: manager.id,
+          },
+        });
+        if (unit) {
+          await tx.tenantProfile.create({
+            data: { userId: user.id, unitId: unit.id },
+          });
+        }
+        if (role === "technician") {
+          await tx.technician.create({
+            data: {
+              name: user.name,
+              email: user.email,
+              kind: "staff",
+              userId: user.id,
+              organizationId: user.organizationId,
+            },
+          });
+        }
+        return tx.user.findUniqueOrThrow({
+          where: { id: user.id },
+          select: userSelect,
+        });
+      });
+
+      await sendAccountEmail(created, "invite");
+      return res.status(201).json(present(created));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to create user" });
+    }
+  }
+);
+
+// Manager: change a user's name or email. A new email has to be verified
+// again, and links sent to the old one stop working; someone still invited
+// gets a fresh invitation at the new address.
+router.patch(
+  "/:id",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const { name, email } = req.body as { name?: string; email?: string };
+    const normalizedEmail = email?.trim().toLowerCase();
+
+    if (name !== undefined && !name.trim()) {
+      return res.status(400).json({ message: "Name can't be empty" });
+    }
+    if (email !== undefined && !normalizedEmail) {
+      return res.status(400).json({ message: "Email can't be empty" });
+    }
+
+    try {
+      const user = await loadManagedUser(req, Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const emailChanged = !!normalizedEmail && normalizedEmail !== user.email;
+      if (emailChanged) {
+        const taken = await prisma.user.findUnique({
+          where: { email: normalizedEmail },
+        });
+        if (taken) {
+          return res
+            .status(409)
+            .json({ message: "An account with this email already exists" });
+        }
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (emailChanged) {
+          await tx.authToken.updateMany({
+            where: { userId: user.id, usedAt: null },
+            data: { usedAt: new Date() },
+          });
+        }
+        return tx.user.update({
+          where: { id: user.id },
+          data: {
+            ...(name !== undefined ? { name: name.trim() } : {}),
+            ...(emailChanged
+              ? { email: normalizedEmail, emailVerifiedAt: null }
+              : {}),
+          },
+          select: userSelect,
+        });
+      });
+
+      if (emailChanged && !updated.deactivatedAt) {
+        await sendAccountEmail(
+          updated,
+          updated.passwordHash ? "email_verification" : "invite"
+        );
+      }
+      return res.json(present(updated));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to update user" });
+    }
+  }
+);
+
+// Admin: change a user's role. Role-specific records are set up or retired
+// to match, and the user signs in again so their token carries the new role.
+router.put(
+  "/:id/role",
+  authMiddleware,
+  requirePermission("settings.manage"),
+  async (req: AuthRequest, res) => {
+    const admin = req.user as any;
+    const { role } = req.body as { role?: Role };
+    const id = Number(req.params.id);
+
+    if (!role || !roles.includes(role)) {
+      return res.status(400).json({ message: "Invalid role" });
+    }
+    if (id === admin.id) {
+      return res
+        .status(400)
+        .json({ message: "You can't change your own role" });
+    }
+
+    try {
+      const user = await loadManagedUser(req, id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.role === role) {
+        return res.json(present(user));
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (user.role === "tenant") {
+          await tx.tenantProfile.deleteMany({ where: { userId: user.id } });
+        }
+        if (user.role === "manager") {
+          await tx.propertyAssignment.deleteMany({
+            where: { userId: user.id },
+          });
+        }
+        // Past work stays linked to the technician record
+        await tx.technician.updateMany({
+          where: { userId: user.id },
+          data: { active: role === "technician" && !user.deactivatedAt },
+        });
+        if (role === "technician") {
+          const technician = await tx.technician.findUnique({
+            where: { userId: user.id },
+          });
+          if (!technician) {
+            await tx.technician.create({
+              data: {
+                name: user.name,
+                email: user.email,
+                kind: "staff",
+                userId: user.id,
+                organizationId: admin.orgId,
+              },
+            });
+          }
+        }
+        return tx.user.update({
+          where: { id: user.id },
+          data: { role },
+          select: userSelect,
+        });
+      });
+
+      await revokeAllSessions(user.id);
+      return res.json(present(updated));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to change role" });
+    }
+  }
+);
+
+// Manager: move a tenant into a unit, or out of their unit with null.
+// Requests they made stay on the unit they were made for.
+router.put(
+  "/:id/unit",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const { unitId } = req.body as { unitId?: number | null };
+
+    if (unitId === undefined) {
+      return res
+        .status(400)
+        .json({ message: "unitId must be a unit id or null" });
+    }
+
+    try {
+      const user = await loadManagedUser(req, Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.role !== "tenant") {
+        return res
+          .status(400)
+          .json({ message: "Only tenants can be placed in a unit" });
+      }
+
+      if (unitId === null) {
+        await prisma.tenantProfile.deleteMany({ where: { userId: user.id } });
+      } else {
+        const unit = await loadUnitInScope(req, unitId);
+        if (!unit) {
+          return res.status(400).json({ message: "Unit not found" });
+        }
+        await prisma.tenantProfile.upsert({
+          where: { userId: user.id },
+          update: { unitId: unit.id },
+          create: { userId: user.id, unitId: unit.id },
+        });
+      }
+
+      const updated = await prisma.user.findUniqueOrThrow({
+        where: { id: user.id },
+        select: userSelect,
+      });
+      return res.json(present(updated));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to change unit" });
+    }
+  }
+);
+
+// Manager: resend the invitation to someone who hasn't set a password yet
+router.post(
+  "/:id/invite",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    try {
+      const user = await loadManagedUser(req, Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.passwordHash || user.deactivatedAt) {
+        return res
+          .status(400)
+          .json({ message: "This user doesn't have a pending invitation" });
+      }
+
+      await sendAccountEmail(user, "invite");
+      return res.status(204).send();
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to send invitation" });
+    }
+  }
+);
+
+// Manager: block a user's login without deleting anything. Their sessions
+// and emailed links stop working; with moveOut a tenant also leaves their
+// unit. Technicians must hand over their open requests and visits first.
+router.post(
+  "/:id/deactivate",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    const manager = req.user as any;
+    const id = Number(req.params.id);
+    const { moveOut } = req.body as { moveOut?: boolean };
+
+    if (id === manager.id) {
+      return res
+        .status(400)
+        .json({ message: "You can't deactivate your own account" });
+    }
+
+    try {
+      const user = await loadManagedUser(req, id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const terminal = await terminalStatusWhere();
+      const [openRequests, visits] = await Promise.all([
+        prisma.request.count({
+          where: {
+            AND: [{ assignee: { userId: user.id } }, { NOT: terminal }],
+          },
+        }),
+        prisma.appointment.count({
+          where: {
+            technician: { userId: user.id },
+            status: { in: activeAppointmentStatuses },
+          },
+        }),
+      ]);
+      if (openRequests > 0 || visits > 0) {
+        return res.status(409).json({
+          message: `Reassign ${user.name}'s open requests and visits before deactivating them`,
+          openRequests,
+          visits,
+        });
+      }
+
+      const now = new Date();
+      const updated = await prisma.$transaction(async (tx) => {
+        if (moveOut) {
+          await tx.tenantProfile.deleteMany({ where: { userId: user.id } });
+        }
+        await tx.authToken.updateMany({
+          where: { userId: user.id, usedAt: null },
+          data: { usedAt: now },
+        });
+        await tx.technician.updateMany({
+          where: { userId: user.id },
+          data: { active: false },
+        });
+        return tx.user.update({
+          where: { id: user.id },
+          data: { deactivatedAt: user.deactivatedAt ?? now },
+          select: userSelect,
+        });
+      });
+
+      await revokeAllSessions(user.id);
+      return res.json(present(updated));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  }
+);
+
+// Manager: let a deactivated user log in again
+router.post(
+  "/:id/reactivate",
+  authMiddleware,
+  requirePermission("users.manage"),
+  async (req: AuthRequest, res) => {
+    try {
+      const user = await loadManagedUser(req, Number(req.params.id));
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const updated = await prisma.$transaction(async (tx) => {
+        if (user.role === "technician") {
+          await tx.technician.updateMany({
+            where: { userId: user.id },
+            data: { active: true },
+          });
+        }
+        return tx.user.update({
+          where: { id: user.id },
+          data: { deactivatedAt: null },
+          select: userSelect,
+        });
+      });
+      return res.json(present(updated));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to reactivate user" });
+    }
+  }
+);
+
+export default router;
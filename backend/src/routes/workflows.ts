@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { authMiddleware, AuthRequest } from "../middleware/auth";
+import { loadWorkflow, publishWorkflow } from "../services/workflow";
+
+const router = Router();
+
+// Any user: the default workflow (states, labels, colors and transitions)
+router.get("/default", authMiddleware, async (_req: AuthRequest, res) => {
+  try {
+    const workflow = await loadWorkflow();
+    return res.json(publishWorkflow(workflow));
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ message: "Failed to load workflow" });
+  }
+});
+
+// Any user: a specific workflow by id. Workflows are shared by all
+// organizations (see the Workflow model), so no organization check applies.
+router.get("/:id", authMiddleware, async (req: AuthRequest, res) => {
+  const id = Number(req.params.id);
+  if (!Number.isInteger(id)) {
+    return res.status(404).json({ message: "Workflow not found" });
+  }
+
+  try {
+    const workflow = await loadWorkflow(id);
+    return res.json(publishWorkflow(workflow));
+  } catch (err) {
+    console.error(err);
+    return res.status(404).json({ message: "Workflow not found" });
+  }
+});
+
+export default router;
@@ -0,0 +1,78 @@
+import { Priority, PrismaClient, Role } from "@prisma/client";
+import dotenv from "dotenv";
+
+dotenv.config();
+const prisma = new PrismaClient();
+
+// Starting targets for a new organization, the same as the default
+// organization got from the add_sla_policies migration
+const defaultSlaTargets: {
+  priority: Priority;
+  viewMinutes: number;
+  completeMinutes: number;
+}[] = [
+  { priority: "emergency", viewMinutes: 60, completeMinutes: 1440 },
+  { priority: "high", viewMinutes: 240, completeMinutes: 4320 },
+  { priority: "normal", viewMinutes: 1440, completeMinutes: 10080 },
+  { priority: "low", viewMinutes: 4320, completeMinutes: 20160 },
+];
+
+// Usage: npm run org:create -- "<name>" <slug> <admin email> "<admin name>"
+// Creates a management company and invites its first admin, who sets up
+// properties and staff from there.
+async function main() {
+  const [name, slug, adminEmail, adminName] = process.argv.slice(2);
+  if (!name || !slug || !adminEmail || !adminName) {
+    console.error(
+      'Usage: npm run org:create -- "<name>" <slug> <admin email> "<admin name>"'
+    );
+    process.exit(1);
+  }
+
+  // Loaded after dotenv so the mail transport sees the environment
+  const { sendAccountEmail } = await import("../services/authTokens");
+
+  const email = adminEmail.trim().toLowerCase();
+  if (await prisma.user.findUnique({ where: { email } })) {
+    throw new Error(`An account with the email ${email} already exists`);
+  }
+
+  const admin = await prisma.$transaction(async (tx) => {
+    const organization = await tx.organization.create({
+      data: { name: name.trim(), slug: slug.trim().toLowerCase() },
+    });
+    await tx.twoFactorPolicy.create({
+      data: {
+        organizationId: organization.id,
+        requiredRoles: [Role.manager, Role.admin],
+      },
+    });
+    await tx.slaPolicy.createMany({
+      data: defaultSlaTargets.map((target) => ({
+        ...target,
+        organizationId: organization.id,
+      })),
+    });
+    return tx.user.create({
+      data: {
+        name: adminName.trim(),
+        email,
+        passwordHash: null,
+        role: Role.admin,
+        organizationId: organization.id,
+      },
+    });
+  });
+
+  await sendAccountEmail(admin, "invite");
+  console.log(`Created organization ${slug}; invitation sent to ${email}`);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,241 @@
+import { Prisma } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  AnalyticsQueryError,
+  parseAnalyticsQuery,
+  requestAnalytics,
+} from "./analytics";
+
+// Every raw query run so far, flattened to SQL text and bound values
+const queries = () =>
+  db.$queryRaw.mock.calls.map(([strings, ...values]) =>
+    Prisma.sql(strings, ...values)
+  );
+const queryWith = (text: string) =>
+  queries().find((q) => q.sql.includes(text))!;
+
+const stageRow = {
+  queueCount: BigInt(4),
+  queueMedian: 2.04,
+  queueP90: 7.96,
+  reviewCount: BigInt(0),
+  reviewMedian: null,
+  reviewP90: null,
+  schedulingCount: BigInt(1),
+  schedulingMedian: 30,
+  schedulingP90: 30,
+  workCount: BigInt(3),
+  workMedian: 5.25,
+  workP90: 11.449,
+  totalCount: BigInt(3),
+  totalMedian: 48,
+  totalP90: 100.05,
+};
+
+// Answers each of the analytics queries by what it selects
+function answer(sql: string) {
+  if (sql.includes("percentile_cont")) return [stageRow];
+  if (sql.includes("generate_series")) {
+    return [
+      {
+        start: new Date("2026-03-01T00:00:00Z"),
+        opened: BigInt(2),
+        closed: BigInt(1),
+        open: BigInt(5),
+      },
+    ];
+  }
+  if (sql.includes('GROUP BY r."category"')) {
+    return [{ key: "plumbing", count: BigInt(3) }];
+  }
+  if (sql.includes('GROUP BY r."priority"')) {
+    return [{ key: "normal", count: BigInt(3) }];
+  }
+  if (sql.includes('GROUP BY u."id"')) {
+    return [{ unitId: 20, unit: "2B", building: "North", count: BigInt(2) }];
+  }
+  if (sql.includes('"reopenedFromId"')) {
+    return [{ completed: BigInt(8), reopened: BigInt(1) }];
+  }
+  if (sql.includes("AS repeats")) {
+    return [{ created: BigInt(0), repeats: BigInt(0) }];
+  }
+  return [{ count: BigInt(6) }];
+}
+
+const filters = {
+  range: {
+    from: new Date("2026-03-01T00:00:00Z"),
+    to: new Date("2026-03-02T00:00:00Z"),
+    bucket: "day" as const,
+  },
+  propertyId: null,
+};
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.$queryRaw.mockImplementation(async (strings, ...values) =>
+    answer(Prisma.sql(strings, ...values).sql)
+  );
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("parseAnalyticsQuery", () => {
+  it("defaults to the 90 days up to today, by day", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-10T15:00:00Z"));
+
+    expect(parseAnalyticsQuery({})).toEqual({
+      range: {
+        from: new Date("2025-12-11T00:00:00Z"),
+        to: new Date("2026-03-11T00:00:00Z"),
+        bucket: "day",
+      },
+      propertyId: null,
+    });
+  });
+
+  it("includes the last day and switches to weeks for long periods", () => {
+    const { range } = parseAnalyticsQuery({
+      from: "2025-01-01",
+      to: "2025-12-31",
+      propertyId: "4",
+    });
+    expect(range.to).toEqual(new Date("2026-01-01T00:00:00Z"));
+    expect(range.bucket).toBe("week");
+  });
+
+  it("rejects bad dates, reversed and overlong periods", () => {
+    const bad = [
+      { from: "03/01/2026" },
+      { to: "2026-02-30x" },
+      { from: "2026-03-05", to: "2026-03-04" },
+      { from: "2020-01-01", to: "2026-01-01" },
+      { propertyId: "four" },
+    ];
+    for (const params of bad) {
+      expect(() => parseAnalyticsQuery(params)).toThrow(AnalyticsQueryError);
+    }
+  });
+});
+
+describe("requestAnalytics", () => {
+  it("takes the median and 90th percentile of each stage", async () => {
+    await requestAnalytics(3, "all", filters);
+
+    const sql = queryWith("percentile_cont").sql;
+    expect(sql).toContain("percentile_cont(0.5) WITHIN GROUP");
+    expect(sql).toContain("percentile_cont(0.9) WITHIN GROUP");
+    // Only requests that finished the stage in the period count, and a
+    // stage whose end came before its start is ignored
+    expect(sql).toContain(
+      'FILTER (WHERE r."inQueueAt" IS NOT NULL AND r."viewedAt" >= r."inQueueAt"'
+    );
+    expect(sql).toContain('"queueP90"');
+  });
+
+  it("reports hours to one decimal and empty stages as null", async () => {
+    const result = await requestAnalytics(3, "all", filters);
+
+    expect(result.stages).toEqual([
+      {
+        key: "queue",
+        label: "In queue → viewed",
+        count: 4,
+        medianHours: 2,
+        p90Hours: 8,
+      },
+      {
+        key: "review",
+        label: "Viewed → maintenance requested",
+        count: 0,
+        medianHours: null,
+        p90Hours: null,
+      },
+      {
+        key: "scheduling",
+        label: "Maintenance requested → work started",
+        count: 1,
+        medianHours: 30,
+        p90Hours: 30,
+      },
+      {
+        key: "work",
+        label: "Work started → completed",
+        count: 3,
+        medianHours: 5.3,
+        p90Hours: 11.4,
+      },
+      {
+        key: "total",
+        label: "Submitted → completed",
+        count: 3,
+        medianHours: 48,
+        p90Hours: 100.1,
+      },
+    ]);
+  });
+
+  it("converts the counts and leaves rates over nothing empty", async () => {
+    const result = await requestAnalytics(3, "all", filters);
+
+    expect(result.range).toEqual({
+      from: "2026-03-01",
+      to: "2026-03-01",
+      bucket: "day",
+    });
+    expect(result.backlog).toEqual([
+      { date: "2026-03-01", opened: 2, closed: 1, open: 5 },
+    ]);
+    expect(result.volume.byUnit).toEqual([
+      { unitId: 20, label: "North 2B", count: 2 },
+    ]);
+    expect(result.repeats).toMatchObject({
+      completed: 8,
+      reopened: 1,
+      reopenRate: 0.125,
+      created: 0,
+      sameUnitRate: null,
+      windowDays: 30,
+    });
+  });
+
+  it("leaves plan-generated requests out of repeats and volume", async () => {
+    const result = await requestAnalytics(3, "all", filters);
+
+    const sameUnit = queryWith("AS repeats").sql;
+    expect(sameUnit).toContain('p."maintenancePlanId" IS NULL');
+    expect(sameUnit).toContain('r."maintenancePlanId" IS NULL');
+    for (const group of ['r."category"', 'r."priority"', 'u."id"']) {
+      expect(queryWith(`GROUP BY ${group}`).sql).toContain(
+        'r."maintenancePlanId" IS NULL'
+      );
+    }
+    expect(queryWith('"maintenancePlanId" IS NOT NULL').sql).not.toContain(
+      "GROUP BY"
+    );
+    expect(result.volume.preventive).toBe(6);
+  });
+
+  it("limits every query to the scope and the chosen property", async () => {
+    await requestAnalytics(3, [4, 6], { ...filters, propertyId: 6 });
+
+    for (const query of queries()) {
+      expect(query.sql).toContain('"propertyId" = ?');
+      expect(query.values).toEqual(expect.arrayContaining([3, 4, 6]));
+    }
+  });
+});
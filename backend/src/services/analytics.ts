@@ -0,0 +1,346 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { PropertyScope, requestScopeSql } from "./permissions";
+
+const prisma = new PrismaClient();
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+// Default and longest reporting periods
+const defaultDays = 90;
+const maxDays = 731;
+// Longer periods chart the backlog by week instead of by day
+const maxDailyBuckets = 92;
+// A request counts as a repeat when its unit had one in the same category
+// this recently
+const repeatWindowDays = 30;
+
+// Pipeline stages, each measured from one Request timestamp to the next
+const stages = [
+  {
+    key: "queue",
+    label: "In queue → viewed",
+    from: "inQueueAt",
+    to: "viewedAt",
+  },
+  {
+    key: "review",
+    label: "Viewed → maintenance requested",
+    from: "viewedAt",
+    to: "maintenanceRequestedAt",
+  },
+  {
+    key: "scheduling",
+    label: "Maintenance requested → work started",
+    from: "maintenanceRequestedAt",
+    to: "implementingActionsAt",
+  },
+  {
+    key: "work",
+    label: "Work started → completed",
+    from: "implementingActionsAt",
+    to: "completedAt",
+  },
+  {
+    key: "total",
+    label: "Submitted → completed",
+    from: "createdAt",
+    to: "completedAt",
+  },
+] as const;
+
+export class AnalyticsQueryError extends Error {}
+
+export type AnalyticsRange = {
+  from: Date;
+  // Exclusive
+  to: Date;
+  bucket: "day" | "week";
+};
+
+export type AnalyticsFilters = {
+  range: AnalyticsRange;
+  propertyId: number | null;
+};
+
+// Reads from, to (inclusive YYYY-MM-DD dates, UTC) and propertyId. Defaults
+// to the last 90 days.
+export function parseAnalyticsQuery(
+  params: Record<string, unknown>
+): AnalyticsFilters {
+  const day = (name: string) => {
+    const value = params[name];
+    if (value === undefined || value === "") return null;
+    if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new AnalyticsQueryError(`${name} must be a date (YYYY-MM-DD)`);
+    }
+    const date = new Date(`${value}T00:00:00Z`);
+    if (Number.isNaN(date.getTime())) {
+      throw new AnalyticsQueryError(`${name} must be a date (YYYY-MM-DD)`);
+    }
+    return date;
+  };
+
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  const lastDay = day("to") ?? today;
+  const to = new Date(lastDay.getTime() + dayMs);
+  const from = day("from") ?? new Date(to.getTime() - defaultDays * dayMs);
+
+  const days = Math.round((to.getTime() - from.getTime()) / dayMs);
+  if (days < 1) {
+    throw new AnalyticsQueryError("from must not be after to");
+  }
+  if (days > maxDays) {
+    throw new AnalyticsQueryError(`The period can be at most ${maxDays} days`);
+  }
+
+  let propertyId: number | null = null;
+  if (params.propertyId !== undefined && params.propertyId !== "") {
+    propertyId = Number(params.propertyId);
+    if (!Number.isInteger(propertyId) || propertyId <= 0) {
+      throw new AnalyticsQueryError("propertyId must be an id");
+    }
+  }
+
+  return {
+    range: { from, to, bucket: days > maxDailyBuckets ? "week" : "day" },
+    propertyId,
+  };
+}
+
+const hours = (value: number | null) =>
+  value === null ? null : Math.round(value * 10) / 10;
+
+// Requests the caller may see, narrowed to one property if asked. Raw SQL
+// over "Request" r.
+function requestFilter(
+  organizationId: number,
+  scope: PropertyScope,
+  propertyId: number | null
+) {
+  const property = propertyId
+    ? Prisma.sql`AND r."unitId" IN (
+        SELECT pu."id" FROM "Unit" pu
+        JOIN "Building" pb ON pb."id" = pu."buildingId"
+        WHERE pb."propertyId" = ${propertyId}
+      )`
+    : Prisma.empty;
+  return Prisma.sql`${requestScopeSql(organizationId, scope)} ${property}`;
+}
+
+// Median and 90th percentile hours for each stage, over the requests that
+// finished the stage during the period
+async function stageDurations(where: Prisma.Sql, range: AnalyticsRange) {
+  const columns = stages.map((stage) => {
+    const from = Prisma.raw(`r."${stage.from}"`);
+    const to = Prisma.raw(`r."${stage.to}"`);
+    const finished = Prisma.sql`${from} IS NOT NULL AND ${to} >= ${from}
+      AND ${to} >= ${range.from} AND ${to} < ${range.to}`;
+    const elapsed = Prisma.sql`EXTRACT(EPOCH FROM (${to} - ${from})) / 3600`;
+    return Prisma.sql`
+      COUNT(*) FILTER (WHERE ${finished}) AS ${Prisma.raw(`"${stage.key}Count"`)},
+      percentile_cont(0.5) WITHIN GROUP (ORDER BY ${elapsed})
+        FILTER (WHERE ${finished}) AS ${Prisma.raw(`"${stage.key}Median"`)},
+      percentile_cont(0.9) WITHIN GROUP (ORDER BY ${elapsed})
+        FILTER (WHERE ${finished}) AS ${Prisma.raw(`"${stage.key}P90"`)}`;
+  });
+
+  const [row] = await prisma.$queryRaw<
+    Record<string, bigint | number | null>[]
+  >`
+    SELECT ${Prisma.join(columns)} FROM "Request" r WHERE ${where}
+  `;
+  return stages.map((stage) => ({
+    key: stage.key,
+    label: stage.label,
+    count: Number(row[`${stage.key}Count`]),
+    medianHours: hours(row[`${stage.key}Median`] as number | null),
+    p90Hours: hours(row[`${stage.key}P90`] as number | null),
+  }));
+}
+
+// Opened, closed and still-open counts per day or week. A request closes
+// when it reaches a terminal state of its workflow: at completedAt, or at
+// its last status change for states that don't stamp one (cancelled).
+async function backlog(where: Prisma.Sql, range: AnalyticsRange) {
+  const step = range.bucket === "week" ? "7 days" : "1 day";
+  const rows = await prisma.$queryRaw<
+    { start: Date; opened: bigint; closed: bigint; open: bigint }[]
+  >`
+    WITH requests AS (
+      SELECT r."createdAt",
+        CASE WHEN ws."isTerminal" THEN COALESCE(
+          r."completedAt",
+          (SELECT MAX(e."createdAt") FROM "RequestEvent" e
+            WHERE e."requestId" = r."id" AND e."field" = 'status'),
+          r."updatedAt"
+        ) END AS "closedAt"
+      FROM "Request" r
+      LEFT JOIN "WorkflowState" ws ON ws."key" = r."status"
+        AND ws."workflowId" = COALESCE(
+          r."workflowId",
+          (SELECT w."id" FROM "Workflow" w WHERE w."isDefault" LIMIT 1)
+        )
+      WHERE ${where} AND r."createdAt" < ${range.to}
+    ),
+    buckets AS (
+      SELECT g AS "start", LEAST(g + ${step}::interval, ${range.to}::timestamp) AS "end"
+      FROM generate_series(
+        ${range.from}::timestamp,
+        ${range.to}::timestamp - interval '1 day',
+        ${step}::interval
+      ) g
+    )
+    SELECT b."start",
+      COUNT(q."createdAt") FILTER (
+        WHERE q."createdAt" >= b."start" AND q."createdAt" < b."end"
+      ) AS opened,
+      COUNT(q."createdAt") FILTER (
+        WHERE q."closedAt" >= b."start" AND q."closedAt" < b."end"
+      ) AS closed,
+      COUNT(q."createdAt") FILTER (
+        WHERE q."createdAt" < b."end"
+          AND (q."closedAt" IS NULL OR q."closedAt" >= b."end")
+      ) AS open
+    FROM buckets b
+    LEFT JOIN requests q ON TRUE
+    GROUP BY b."start"
+    ORDER BY b."start"
+  `;
+  return rows.map((row) => ({
+    date: row.start.toISOString().slice(0, 10),
+    opened: Number(row.opened),
+    closed: Number(row.closed),
+    open: Number(row.open),
+  }));
+}
+
+// Requests opened during the period by category, priority and (top ten)
+// unit. Preventive requests from maintenance plans recur on the same units
+// by design, so they are only counted as a total.
+async function volume(where: Prisma.Sql, range: AnalyticsRange) {
+  const opened = Prisma.sql`${where}
+    AND r."createdAt" >= ${range.from} AND r."createdAt" < ${range.to}`;
+  const created = Prisma.sql`${opened} AND r."maintenancePlanId" IS NULL`;
+
+  const [byCategory, byPriority, byUnit, [preventive]] = await Promise.all([
+    prisma.$queryRaw<{ key: string; count: bigint }[]>`
+      SELECT r."category" AS key, COUNT(*) AS count
+      FROM "Request" r WHERE ${created}
+      GROUP BY r."category" ORDER BY count DESC, key
+    `,
+    prisma.$queryRaw<{ key: string; count: bigint }[]>`
+      SELECT r."priority"::text AS key, COUNT(*) AS count
+      FROM "Request" r WHERE ${created}
+      GROUP BY r."priority" ORDER BY count DESC, key
+    `,
+    prisma.$queryRaw<
+      { unitId: number; unit: string; building: string; count: bigint }[]
+    >`
+      SELECT u."id" AS "unitId", u."number" AS unit, b."name" AS building,
+        COUNT(*) AS count
+      FROM "Request" r
+      JOIN "Unit" u ON u."id" = r."unitId"
+      JOIN "Building" b ON b."id" = u."buildingId"
+      WHERE ${created}
+      GROUP BY u."id", u."number", b."name"
+      ORDER BY count DESC, b."name", u."number"
+      LIMIT 10
+    `,
+    prisma.$queryRaw<{ count: bigint }[]>`
+      SELECT COUNT(*) AS count
+      FROM "Request" r
+      WHERE ${opened} AND r."maintenancePlanId" IS NOT NULL
+    `,
+  ]);
+
+  return {
+    byCategory: byCategory.map((r) => ({ key: r.key, count: Number(r.count) })),
+    byPriority: byPriority.map((r) => ({ key: r.key, count: Number(r.count) })),
+    byUnit: byUnit.map((r) => ({
+      unitId: r.unitId,
+      label: `${r.building} ${r.unit}`,
+      count: Number(r.count),
+    })),
+    preventive: Number(preventive.count),
+  };
+}
+
+const rate = (part: number, whole: number) =>
+  whole === 0 ? null : Math.round((part / whole) * 1000) / 1000;
+
+// How often work doesn't stick: completed requests the tenant reopened, and
+// new requests for a unit that had one in the same category shortly before.
+// Preventive requests from maintenance plans are left out of the latter:
+// they repeat on purpose.
+async function repeats(where: Prisma.Sql, range: AnalyticsRange) {
+  const [[reopens], [sameUnit]] = await Promise.all([
+    prisma.$queryRaw<{ completed: bigint; reopened: bigint }[]>`
+      SELECT COUNT(*) AS completed, COUNT(f."id") AS reopened
+      FROM "Request" r
+      LEFT JOIN "Request" f ON f."reopenedFromId" = r."id"
+      WHERE ${where}
+        AND r."completedAt" >= ${range.from} AND r."completedAt" < ${range.to}
+    `,
+    prisma.$queryRaw<{ created: bigint; repeats: bigint }[]>`
+      SELECT COUNT(*) AS created,
+        COUNT(*) FILTER (WHERE EXISTS (
+          SELECT 1 FROM "Request" p
+          WHERE p."unitId" = r."unitId"
+            AND p."id" <> r."id"
+            AND p."maintenancePlanId" IS NULL
+            AND lower(p."category") = lower(r."category")
+            AND p."createdAt" < r."createdAt"
+            AND p."createdAt" >= r."createdAt" - ${`${repeatWindowDays} days`}::interval
+        )) AS repeats
+      FROM "Request" r
+      WHERE ${where}
+        AND r."maintenancePlanId" IS NULL
+        AND r."createdAt" >= ${range.from} AND r."createdAt" < ${range.to}
+    `,
+  ]);
+
+  const completed = Number(reopens.completed);
+  const reopened = Number(reopens.reopened);
+  const created = Number(sameUnit.created);
+  const sameUnitRepeats = Number(sameUnit.repeats);
+  return {
+    completed,
+    reopened,
+    reopenRate: rate(reopened, completed),
+    created,
+    sameUnitRepeats,
+    sameUnitRate: rate(sameUnitRepeats, created),
+    windowDays: repeatWindowDays,
+  };
+}
+
+// Everything the analytics page charts, for the requests the caller can see
+export async function requestAnalytics(
+  organizationId: number,
+  scope: PropertyScope,
+  filters: AnalyticsFilters
+) {
+  const { range } = filters;
+  const where = requestFilter(organizationId, scope, filters.propertyId);
+
+  const [stageStats, backlogSeries, volumeStats, repeatStats] =
+    await Promise.all([
+      stageDurations(where, range),
+      backlog(where, range),
+      volume(where, range),
+      repeats(where, range),
+    ]);
+
+  return {
+    range: {
+      from: range.from.toISOString().slice(0, 10),
+      to: new Date(range.to.getTime() - dayMs).toISOString().slice(0, 10),
+      bucket: range.bucket,
+    },
+    stages: stageStats,
+    backlog: backlogSeries,
+    volume: volumeStats,
+    repeats: repeatStats,
+  };
+}
@@ -0,0 +1,188 @@
+import { Prisma } from "@prisma/client";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  AppointmentError,
+  cancelActiveAppointments,
+  checkTechnicianAvailability,
+  parseAppointmentDate,
+  windowsOverlap,
+} from "./appointments";
+
+const tx = {
+  $executeRaw: vi.fn(),
+  appointment: { findMany: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+  request: { update: vi.fn() },
+};
+const client = tx as unknown as Prisma.TransactionClient;
+
+const technician = { id: 5, name: "Sam Ortiz", maxDailyVisits: 3 };
+const date = new Date("2026-03-04T00:00:00Z");
+
+const booked = (id: number, window: string, requestId = 100 + id) => ({
+  id,
+  requestId,
+  technicianId: technician.id,
+  date,
+  window,
+  status: "accepted",
+  createdAt: date,
+});
+
+// The error checkTechnicianAvailability rejects with
+async function refusal(window: string) {
+  const err = await checkTechnicianAvailability(
+    client,
+    technician,
+    date,
+    window
+  ).catch((e) => e);
+  expect(err).toBeInstanceOf(AppointmentError);
+  return err as AppointmentError;
+}
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("windowsOverlap", () => {
+  it("treats windows sharing only an end time as free", () => {
+    expect(windowsOverlap("08:00-10:00", "10:00-12:00")).toBe(false);
+    expect(windowsOverlap("12:00-14:00", "10:00-12:00")).toBe(false);
+  });
+
+  it("catches partial and identical overlaps", () => {
+    expect(windowsOverlap("08:00-10:00", "09:00-11:00")).toBe(true);
+    expect(windowsOverlap("11:00-13:00", "10:00-12:00")).toBe(true);
+    expect(windowsOverlap("15:00-17:00", "15:00-17:00")).toBe(true);
+  });
+});
+
+describe("parseAppointmentDate", () => {
+  it("accepts today and later, refusing the past", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-04T22:00:00Z"));
+
+    expect(parseAppointmentDate("2026-03-04")).toEqual(date);
+    expect(() => parseAppointmentDate("2026-03-03")).toThrow(
+      "The visit date is in the past."
+    );
+  });
+
+  it("refuses anything but a calendar date", () => {
+    for (const value of ["2026-3-4", "04/03/2026", "2026-13-01", 20260304]) {
+      expect(() => parseAppointmentDate(value)).toThrow(AppointmentError);
+    }
+  });
+});
+
+describe("checkTechnicianAvailability", () => {
+  it("locks the technician before looking at their day", async () => {
+    tx.appointment.findMany.mockResolvedValue([]);
+
+    await checkTechnicianAvailability(client, technician, date, "08:00-10:00");
+
+    expect(tx.$executeRaw).toHaveBeenCalledTimes(1);
+    const [strings, ...values] = tx.$executeRaw.mock.calls[0];
+    expect(strings.join("?")).toContain("pg_advisory_xact_lock");
+    expect(values).toContain(technician.id);
+    expect(tx.$executeRaw.mock.invocationCallOrder[0]).toBeLessThan(
+      tx.appointment.findMany.mock.invocationCallOrder[0]
+    );
+    expect(tx.appointment.findMany).toHaveBeenCalledWith({
+      where: {
+        technicianId: 5,
+        date,
+        status: { in: ["proposed", "accepted"] },
+      },
+    });
+  });
+
+  it("refuses a slot overlapping another visit", async () => {
+    tx.appointment.findMany.mockResolvedValue([booked(1, "09:00-11:00", 42)]);
+
+    const err = await refusal("10:00-12:00");
+
+    expect(err.status).toBe(409);
+    expect(err.message).toBe(
+      "Sam Ortiz already has a visit 09:00-11:00 that day (request #42)."
+    );
+  });
+
+  it("books back-to-back visits", async () => {
+    tx.appointment.findMany.mockResolvedValue([booked(1, "08:00-10:00")]);
+
+    await expect(
+      checkTechnicianAvailability(client, technician, date, "10:00-12:00")
+    ).resolves.toBeUndefined();
+  });
+
+  it("refuses once the daily limit is reached", async () => {
+    tx.appointment.findMany.mockResolvedValue([
+      booked(1, "08:00-10:00"),
+      booked(2, "10:00-12:00"),
+      booked(3, "12:00-14:00"),
+    ]);
+
+    const err = await refusal("15:00-17:00");
+
+    expect(err.status).toBe(409);
+    expect(err.message).toBe("Sam Ortiz is fully booked that day (3 visits).");
+  });
+});
+
+describe("cancelActiveAppointments", () => {
+  it("cancels and records each active visit, then clears the schedule", async () => {
+    tx.appointment.findMany.mockResolvedValue([
+      booked(1, "08:00-10:00", 12),
+      { ...booked(2, "13:00-15:00", 12), status: "proposed" },
+    ]);
+    tx.appointment.findFirst.mockResolvedValue(null);
+    const record = vi.fn();
+    const actor = { id: 2, role: "manager" };
+
+    const cancelled = await cancelActiveAppointments(
+      client,
+      12,
+      record,
+      actor,
+      "Technician changed"
+    );
+
+    expect(cancelled).toBe(2);
+    expect(tx.appointment.update.mock.calls.map((c) => c[0])).toEqual([
+      { where: { id: 1 }, data: { status: "cancelled" } },
+      { where: { id: 2 }, data: { status: "cancelled" } },
+    ]);
+    expect(record).toHaveBeenCalledWith({
+      requestId: 12,
+      actor,
+      type: "appointment_cancelled",
+      field: "appointment",
+      oldValue: "2026-03-04 08:00-10:00",
+      note: "Technician changed",
+    });
+    expect(tx.request.update).toHaveBeenCalledWith({
+      where: { id: 12 },
+      data: { scheduledVisitDate: null, scheduledVisitWindow: null },
+    });
+  });
+
+  it("leaves the request alone when nothing was booked", async () => {
+    tx.appointment.findMany.mockResolvedValue([]);
+
+    expect(
+      await cancelActiveAppointments(
+        client,
+        12,
+        vi.fn(),
+        { id: 2, role: "manager" },
+        ""
+      )
+    ).toBe(0);
+    expect(tx.request.update).not.toHaveBeenCalled();
+  });
+});
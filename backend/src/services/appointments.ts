@@ -0,0 +1,163 @@
+import {
+  Appointment,
+  AppointmentStatus,
+  Prisma,
+  Technician,
+} from "@prisma/client";
+import { RequestEventInput } from "./requestEvents";
+
+// The 2-hour windows between 8:00 and 17:00 (5pm) a tenant can prefer and a
+// visit can be booked in
+export const visitWindows = [
+  "08:00-10:00",
+  "09:00-11:00",
+  "10:00-12:00",
+  "11:00-13:00",
+  "12:00-14:00",
+  "13:00-15:00",
+  "14:00-16:00",
+  "15:00-17:00",
+] as const;
+export type VisitWindow = (typeof visitWindows)[number];
+
+// Appointments that hold the technician's time
+export const activeAppointmentStatuses: AppointmentStatus[] = [
+  "proposed",
+  "accepted",
+];
+
+// Namespace for pg_advisory_xact_lock, so booking locks can't collide with
+// any other advisory lock
+const bookingLockNamespace = 7201;
+
+export class AppointmentError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 | 404 | 409 = 400
+  ) {
+    super(message);
+  }
+}
+
+// "08:00-10:00" → minutes since midnight
+function windowMinutes(window: string) {
+  const [start, end] = window.split("-").map((time) => {
+    const [h, m] = time.split(":").map(Number);
+    return h * 60 + m;
+  });
+  return { start, end };
+}
+
+export function windowsOverlap(a: string, b: string) {
+  const x = windowMinutes(a);
+  const y = windowMinutes(b);
+  return x.start < y.end && y.start < x.end;
+}
+
+// "2026-02-03 08:00-10:00", for the audit trail
+export function describeAppointment(appointment: {
+  date: Date;
+  window: string;
+}) {
+  return `${appointment.date.toISOString().slice(0, 10)} ${appointment.window}`;
+}
+
+// Parses a YYYY-MM-DD visit date. Visits can't be booked in the past.
+export function parseAppointmentDate(value: unknown) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new AppointmentError("date must be a date (YYYY-MM-DD)");
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) {
+    throw new AppointmentError("date must be a date (YYYY-MM-DD)");
+  }
+  if (value < new Date().toISOString().slice(0, 10)) {
+    throw new AppointmentError("The visit date is in the past.");
+  }
+  return date;
+}
+
+// Makes sure the technician is free for the slot and under their daily
+// limit. Takes a per-technician lock first, so two managers booking the same
+// person at once can't both pass the check; call it inside the transaction
+// that creates the appointment.
+export async function checkTechnicianAvailability(
+  tx: Prisma.TransactionClient,
+  technician: Pick<Technician, "id" | "name" | "maxDailyVisits">,
+  date: Date,
+  window: string
+) {
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(${bookingLockNamespace}::int, ${technician.id}::int)`;
+
+  const sameDay = await tx.appointment.findMany({
+    where: {
+      technicianId: technician.id,
+      date,
+      status: { in: activeAppointmentStatuses },
+    },
+  });
+
+  const clash = sameDay.find((a) => windowsOverlap(a.window, window));
+  if (clash) {
+    throw new AppointmentError(
+      `${technician.name} already has a visit ${clash.window} that day (request #${clash.requestId}).`,
+      409
+    );
+  }
+  if (sameDay.length >= technician.maxDailyVisits) {
+    throw new AppointmentError(
+      `${technician.name} is fully booked that day (${technician.maxDailyVisits} visits).`,
+      409
+    );
+  }
+}
+
+// Copies the accepted visit (if any) onto the request's scheduled visit
+// fields. Call after anything that accepts or cancels an appointment.
+export async function syncScheduledVisit(
+  tx: Prisma.TransactionClient,
+  requestId: number
+) {
+  const accepted = await tx.appointment.findFirst({
+    where: { requestId, status: "accepted" },
+    orderBy: { createdAt: "desc" },
+  });
+  await tx.request.update({
+    where: { id: requestId },
+    data: {
+      scheduledVisitDate: accepted?.date ?? null,
+      scheduledVisitWindow: accepted?.window ?? null,
+    },
+  });
+}
+
+// Cancels the request's proposed or accepted appointments, recording each
+// in the audit trail. Used when a new time is proposed or the technician
+// changes.
+export async function cancelActiveAppointments(
+  tx: Prisma.TransactionClient,
+  requestId: number,
+  record: (event: RequestEventInput) => Promise<unknown>,
+  actor: { id: number; role: string },
+  note: string
+) {
+  const active: Appointment[] = await tx.appointment.findMany({
+    where: { requestId, status: { in: activeAppointmentStatuses } },
+  });
+  for (const appointment of active) {
+    await tx.appointment.update({
+      where: { id: appointment.id },
+      data: { status: "cancelled" },
+    });
+    await record({
+      requestId,
+      actor,
+      type: "appointment_cancelled",
+      field: "appointment",
+      oldValue: describeAppointment(appointment),
+      note,
+    });
+  }
+  if (active.length > 0) await syncScheduledVisit(tx, requestId);
+  return active.length;
+}
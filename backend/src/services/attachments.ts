@@ -0,0 +1,123 @@
+import crypto from "crypto";
+import path from "path";
+import { Attachment, Prisma, PrismaClient } from "@prisma/client";
+import sharp from "sharp";
+import { getStorage } from "../storage";
+
+const thumbnailWidth = 320;
+
+export class InvalidAttachmentError extends Error {}
+
+function storageKeyFor(requestId: number, originalName: string) {
+  const ext = path.extname(originalName).toLowerCase().slice(0, 10);
+  return `requests/${requestId}/${crypto.randomUUID()}${ext}`;
+}
+
+export type PreparedAttachment = {
+  file: Express.Multer.File;
+  thumbnail: Buffer | null;
+};
+
+// Checks uploaded files before anything is written. Images are decoded with
+// sharp, which both proves the content matches the declared type and
+// produces the thumbnail; PDFs must start with the PDF signature.
+export async function prepareAttachments(
+  files: Express.Multer.File[]
+): Promise<PreparedAttachment[]> {
+  const prepared: PreparedAttachment[] = [];
+
+  for (const file of files) {
+    let thumbnail: Buffer | null = null;
+
+    if (file.mimetype.startsWith("image/")) {
+      try {
+        thumbnail = await sharp(file.buffer)
+          .rotate()
+          .resize({ width: thumbnailWidth, withoutEnlargement: true })
+          .webp({ quality: 70 })
+          .toBuffer();
+      } catch {
+        throw new InvalidAttachmentError(
+          `${file.originalname} is not a valid image`
+        );
+      }
+    } else if (!file.buffer.subarray(0, 5).equals(Buffer.from("%PDF-"))) {
+      throw new InvalidAttachmentError(
+        `${file.originalname} is not a valid PDF`
+      );
+    }
+
+    prepared.push({ file, thumbnail });
+  }
+
+  return prepared;
+}
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Removes stored files again, for rows that never committed. Best effort:
+// a file that can't be removed is logged and left behind.
+export async function discardAttachmentFiles(
+  attachments: Pick<Attachment, "storageKey" | "thumbnailKey">[]
+) {
+  const storage = getStorage();
+  const keys = attachments.flatMap((a) =>
+    a.thumbnailKey ? [a.storageKey, a.thumbnailKey] : [a.storageKey]
+  );
+  for (const key of keys) {
+    try {
+      await storage.remove(key);
+    } catch (err) {
+      console.error(`Failed to remove stored file ${key}`, err);
+    }
+  }
+}
+
+// Records prepared files against the request, then writes them to storage.
+// Pass the transaction client that creates the request so the rows roll
+// back with it; if a write fails, the files already written are removed.
+// Callers whose transaction fails after this returns should pass the result
+// to discardAttachmentFiles.
+export async function storeAttachments(
+  db: Db,
+  requestId: number,
+  uploadedById: number,
+  prepared: PreparedAttachment[]
+) {
+  const created: Attachment[] = [];
+  for (const { file, thumbnail } of prepared) {
+    const storageKey = storageKeyFor(requestId, file.originalname);
+    created.push(
+      await db.attachment.create({
+        data: {
+          requestId,
+          uploadedById,
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          size: file.size,
+          storageKey,
+          thumbnailKey: thumbnail ? `${storageKey}.thumb.webp` : null,
+        },
+      })
+    );
+  }
+
+  const storage = getStorage();
+  const written: Attachment[] = [];
+  try {
+    for (const [i, attachment] of created.entries()) {
+      const { file, thumbnail } = prepared[i];
+      // Counted before the writes so a half-written pair is cleaned up too
+      written.push(attachment);
+      await storage.save(attachment.storageKey, file.buffer, file.mimetype);
+      if (thumbnail && attachment.thumbnailKey) {
+        await storage.save(attachment.thumbnailKey, thumbnail, "image/webp");
+      }
+    }
+  } catch (err) {
+    await discardAttachmentFiles(written);
+    throw err;
+  }
+
+  return created;
+}
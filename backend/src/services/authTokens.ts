@@ -0,0 +1,83 @@
+import crypto from "crypto";
+import { AuthTokenPurpose, Prisma, PrismaClient } from "@prisma/client";
+import { getNotificationTransport } from "../notifications";
+import { renderAccountEmail } from "../notifications/templates";
+
+const prisma = new PrismaClient();
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// How long each kind of link stays valid
+const lifetimeMs: Record<AuthTokenPurpose, number> = {
+  invite: 7 * 24 * 60 * 60 * 1000,
+  password_reset: 60 * 60 * 1000,
+  email_verification: 2 * 24 * 60 * 60 * 1000,
+};
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+// Creates a link token and returns the raw value for the email. Earlier
+// unused tokens for the same purpose stop working.
+export async function issueAuthToken(
+  userId: number,
+  purpose: AuthTokenPurpose,
+  db: Db = prisma
+) {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const now = new Date();
+
+  await db.authToken.updateMany({
+    where: { userId, purpose, usedAt: null },
+    data: { usedAt: now },
+  });
+  await db.authToken.create({
+    data: {
+      userId,
+      purpose,
+      tokenHash: hashToken(token),
+      expiresAt: new Date(now.getTime() + lifetimeMs[purpose]),
+    },
+  });
+  return token;
+}
+
+// Marks a token used and returns its user id, or null when the token is
+// unknown, expired, already used or meant for something else. The guarded
+// update makes concurrent redemptions of one token succeed at most once.
+export async function consumeAuthToken(
+  token: string,
+  purpose: AuthTokenPurpose,
+  db: Db = prisma
+) {
+  const now = new Date();
+  const record = await db.authToken.findUnique({
+    where: { tokenHash: hashToken(token) },
+  });
+  if (
+    !record ||
+    record.purpose !== purpose ||
+    record.usedAt ||
+    record.expiresAt < now
+  ) {
+    return null;
+  }
+
+  const { count } = await db.authToken.updateMany({
+    where: { id: record.id, usedAt: null },
+    data: { usedAt: now },
+  });
+  return count === 1 ? record.userId : null;
+}
+
+// Issues a single-use token and emails the matching link to the user
+export async function sendAccountEmail(
+  user: { id: number; name: string; email: string },
+  purpose: AuthTokenPurpose
+) {
+  const token = await issueAuthToken(user.id, purpose);
+  await getNotificationTransport().send({
+    to: user.email,
+    ...renderAccountEmail(purpose, user.name, token),
+  });
+}
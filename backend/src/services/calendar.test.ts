@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  user: { findUnique: vi.fn() },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  CalendarQueryError,
+  calendarFeedUrl,
+  feedUser,
+  parseCalendarRange,
+} from "./calendar";
+
+const user = (overrides = {}) => ({
+  id: 7,
+  calendarFeedVersion: 2,
+  deactivatedAt: null,
+  ...overrides,
+});
+
+// The signature segment of a feed link
+const signatureFor = (u: { id: number; calendarFeedVersion: number }) =>
+  calendarFeedUrl(u).match(/\/([^/]+)\.ics$/)![1];
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  process.env.JWT_SECRET = "test-secret-that-is-long-enough-for-config";
+  process.env.API_URL = "https://api.example.com";
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("calendar feed links", () => {
+  it("points at the user's feed", () => {
+    expect(calendarFeedUrl(user())).toMatch(
+      /^https:\/\/api\.example\.com\/calendar\/feed\/7\/[\w-]+\.ics$/
+    );
+  });
+
+  it("accepts the link handed out for the current version", async () => {
+    db.user.findUnique.mockResolvedValue(user());
+
+    expect(await feedUser(7, signatureFor(user()))).toMatchObject({ id: 7 });
+    expect(db.user.findUnique).toHaveBeenCalledWith({ where: { id: 7 } });
+  });
+
+  it("rejects tampered, reset and other users' links", async () => {
+    db.user.findUnique.mockResolvedValue(user());
+    const signature = signatureFor(user());
+    const last = signature.slice(-1) === "A" ? "B" : "A";
+
+    expect(await feedUser(7, signature.slice(0, -1) + last)).toBeNull();
+    expect(await feedUser(7, signature.slice(1))).toBeNull();
+    expect(
+      await feedUser(7, signatureFor(user({ calendarFeedVersion: 1 })))
+    ).toBeNull();
+    expect(await feedUser(7, signatureFor(user({ id: 8 })))).toBeNull();
+  });
+
+  it("rejects links of deactivated users", async () => {
+    db.user.findUnique.mockResolvedValue(
+      user({ deactivatedAt: new Date("2026-03-01T00:00:00Z") })
+    );
+
+    expect(await feedUser(7, signatureFor(user()))).toBeNull();
+  });
+
+  it("looks nothing up for a malformed id", async () => {
+    expect(await feedUser(Number("7abc"), "sig")).toBeNull();
+    expect(await feedUser(7.5, "sig")).toBeNull();
+    expect(db.user.findUnique).not.toHaveBeenCalled();
+  });
+});
+
+describe("parseCalendarRange", () => {
+  it("defaults to a week from today", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-03-02T15:30:00Z"));
+
+    expect(parseCalendarRange({})).toEqual({
+      from: new Date("2026-03-02T00:00:00Z"),
+      to: new Date("2026-03-09T00:00:00Z"),
+    });
+  });
+
+  it("reads from and days", () => {
+    expect(parseCalendarRange({ from: "2026-02-27", days: "3" })).toEqual({
+      from: new Date("2026-02-27T00:00:00Z"),
+      to: new Date("2026-03-02T00:00:00Z"),
+    });
+  });
+
+  it("refuses bad dates and spans", () => {
+    for (const params of [
+      { from: "02/27/2026" },
+      { from: "2026-13-45" },
+      { days: "0" },
+      { days: "43" },
+      { days: "1.5" },
+    ]) {
+      expect(() => parseCalendarRange(params)).toThrow(CalendarQueryError);
+    }
+  });
+});
@@ -0,0 +1,328 @@
+import crypto from "crypto";
+import { AppointmentStatus, Prisma, PrismaClient, Role } from "@prisma/client";
+import { jwtSecret } from "../config";
+import { activeAppointmentStatuses } from "./appointments";
+import { hasPermission, propertyScope, requestScopeWhere } from "./permissions";
+import { terminalStatusWhere } from "./requestQuery";
+
+const prisma = new PrismaClient();
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+// Longest span the calendar page can ask for at once
+const maxDays = 42;
+// Most open requests listed as waiting for a visit
+const unscheduledLimit = 100;
+// How far back the feed reaches, so past visits stay in subscribers'
+// calendars and recent cancellations remove the old entries
+const feedHistoryDays = 30;
+
+export class CalendarQueryError extends Error {}
+
+type CalendarUser = { id: number; role: Role; orgId: number };
+
+export type CalendarRange = {
+  from: Date;
+  // Exclusive
+  to: Date;
+};
+
+// Reads from (YYYY-MM-DD, default today) and days (default 7)
+export function parseCalendarRange(
+  params: Record<string, unknown>
+): CalendarRange {
+  let from = new Date();
+  from.setUTCHours(0, 0, 0, 0);
+  if (params.from !== undefined && params.from !== "") {
+    const value = params.from;
+    if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+      throw new CalendarQueryError("from must be a date (YYYY-MM-DD)");
+    }
+    from = new Date(`${value}T00:00:00Z`);
+    if (Number.isNaN(from.getTime())) {
+      throw new CalendarQueryError("from must be a date (YYYY-MM-DD)");
+    }
+  }
+
+  const days =
+    params.days === undefined || params.days === "" ? 7 : Number(params.days);
+  if (!Number.isInteger(days) || days < 1 || days > maxDays) {
+    throw new CalendarQueryError(`days must be between 1 and ${maxDays}`);
+  }
+
+  return { from, to: new Date(from.getTime() + days * dayMs) };
+}
+
+// Requests whose visits a user sees: managers their properties, technicians
+// what is assigned to them, tenants their own
+async function visibleRequestsWhere(
+  user: CalendarUser
+): Promise<Prisma.RequestWhereInput> {
+  if (hasPermission(user.role, "requests.view_all")) {
+    return requestScopeWhere(user.orgId, await propertyScope(user));
+  }
+  if (user.role === "technician") {
+    return { organizationId: user.orgId, assignee: { userId: user.id } };
+  }
+  return { organizationId: user.orgId, tenantId: user.id };
+}
+
+// Technicians only see the visits they make, even on a request that was
+// handed to someone else
+function visitOwnerWhere(user: CalendarUser): Prisma.AppointmentWhereInput {
+  return user.role === "technician" ? { technician: { userId: user.id } } : {};
+}
+
+const unitSelect = {
+  select: {
+    id: true,
+    number: true,
+    building: {
+      select: { id: true, name: true, property: { select: { name: true } } },
+    },
+  },
+};
+
+// Proposed and confirmed visits in the range, plus the open requests still
+// waiting for one (with the tenant's preferred windows)
+export async function calendarView(user: CalendarUser, range: CalendarRange) {
+  const requestWhere = await visibleRequestsWhere(user);
+  const terminal = await terminalStatusWhere();
+
+  const [visits, unscheduled] = await Promise.all([
+    prisma.appointment.findMany({
+      where: {
+        ...visitOwnerWhere(user),
+        request: requestWhere,
+        status: { in: activeAppointmentStatuses },
+        date: { gte: range.from, lt: range.to },
+      },
+      select: {
+        id: true,
+        date: true,
+        window: true,
+        status: true,
+        technician: { select: { id: true, name: true } },
+        request: {
+          select: {
+            id: true,
+            category: true,
+            priority: true,
+            status: true,
+            unit: unitSelect,
+            tenant: { select: { name: true } },
+          },
+        },
+      },
+      orderBy: [{ date: "asc" }, { window: "asc" }, { id: "asc" }],
+    }),
+    prisma.request.findMany({
+      where: {
+        AND: [
+          requestWhere,
+          { NOT: terminal },
+          {
+            appointments: {
+              none: { status: { in: activeAppointmentStatuses } },
+            },
+          },
+        ],
+      },
+      select: {
+        id: true,
+        category: true,
+        priority: true,
+        status: true,
+        preferredWindow1: true,
+        preferredWindow2: true,
+        createdAt: true,
+        unit: unitSelect,
+        assignee: { select: { id: true, name: true } },
+      },
+      orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      take: unscheduledLimit,
+    }),
+  ]);
+
+  return {
+    range: {
+      from: range.from.toISOString().slice(0, 10),
+      to: new Date(range.to.getTime() - dayMs).toISOString().slice(0, 10),
+    },
+    visits: visits.map((v) => ({
+      ...v,
+      date: v.date.toISOString().slice(0, 10),
+    })),
+    unscheduled,
+  };
+}
+
+// Feed links carry an HMAC of the user id and their feed version instead of
+// a session, since calendar apps can't log in. Resetting the version
+// invalidates every link handed out before.
+function feedSignature(userId: number, version: number) {
+  return crypto
+    .createHmac("sha256", jwtSecret())
+    .update(`calendar-feed:${userId}:${version}`)
+    .digest("base64url");
+}
+
+function apiUrl() {
+  return process.env.API_URL || "http://localhost:4000";
+}
+
+export function calendarFeedUrl(user: {
+  id: number;
+  calendarFeedVersion: number;
+}) {
+  const signature = feedSignature(user.id, user.calendarFeedVersion);
+  return `${apiUrl()}/calendar/feed/${user.id}/${signature}.ics`;
+}
+
+// The feed's owner, or null when the link is forged, reset or belongs to a
+// deactivated account
+export async function feedUser(userId: number, signature: string) {
+  if (!Number.isInteger(userId)) return null;
+  const user = await prisma.user.findUnique({ where: { id: userId } });
+  if (!user || user.deactivatedAt) return null;
+
+  const expected = Buffer.from(
+    feedSignature(user.id, user.calendarFeedVersion)
+  );
+  const given = Buffer.from(signature);
+  if (
+    expected.length !== given.length ||
+    !crypto.timingSafeEqual(expected, given)
+  ) {
+    return null;
+  }
+  return user;
+}
+
+// RFC 5545 text escaping, with lines folded at 75 octets
+function icsText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string) {
+  const bytes = Buffer.from(line);
+  if (bytes.length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = "";
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+const icsUtc = (date: Date) =>
+  date
+    .toISOString()
+    .replace(/[-:]/g, "")
+    .replace(/\.\d{3}/, "");
+
+// Visits have no timezone (a window is local time at the property), so
+// they go out as floating times the calendar app shows as written
+const icsLocal = (date: Date, time: string) =>
+  `${date.toISOString().slice(0, 10).replace(/-/g, "")}T${time.replace(":", "")}00`;
+
+// An appointment only moves forward (proposed, then accepted, then
+// cancelled), so its status doubles as the event's revision number
+const sequence: Record<AppointmentStatus, number> = {
+  proposed: 0,
+  accepted: 1,
+  declined: 1,
+  cancelled: 2,
+};
+
+const eventStatus: Record<AppointmentStatus, string> = {
+  proposed: "TENTATIVE",
+  accepted: "CONFIRMED",
+  declined: "CANCELLED",
+  cancelled: "CANCELLED",
+};
+
+// The user's visits as an iCalendar document. Rescheduling cancels the old
+// appointment and creates a new one, so subscribers see the old entry
+// cancelled and the new one appear.
+export async function calendarFeed(user: CalendarUser) {
+  const since = new Date(Date.now() - feedHistoryDays * dayMs);
+  const appointments = await prisma.appointment.findMany({
+    where: {
+      ...visitOwnerWhere(user),
+      request: await visibleRequestsWhere(user),
+      date: { gte: since },
+      OR: [
+        { status: { in: activeAppointmentStatuses } },
+        {
+          status: { in: ["declined", "cancelled"] },
+          updatedAt: { gte: since },
+        },
+      ],
+    },
+    include: {
+      technician: { select: { name: true } },
+      request: {
+        select: {
+          id: true,
+          category: true,
+          description: true,
+          accessInstructions: true,
+          unit: unitSelect,
+          tenant: { select: { name: true } },
+        },
+      },
+    },
+    orderBy: [{ date: "asc" }, { id: "asc" }],
+  });
+
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Kefiat//Maintenance visits//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    "X-WR-CALNAME:Kefiat visits",
+  ];
+  for (const a of appointments) {
+    const [start, end] = a.window.split("-");
+    const { request } = a;
+    const location = `${request.unit.building.property.name}, ${request.unit.building.name} ${request.unit.number}`;
+    const details = [
+      request.description,
+      request.tenant ? `Tenant: ${request.tenant.name}` : null,
+      `Technician: ${a.technician.name}`,
+      request.accessInstructions
+        ? `Access: ${request.accessInstructions}`
+        : null,
+    ].filter(Boolean);
+
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:appointment-${a.id}@kefiat`,
+      `DTSTAMP:${icsUtc(a.updatedAt)}`,
+      `LAST-MODIFIED:${icsUtc(a.updatedAt)}`,
+      `SEQUENCE:${sequence[a.status]}`,
+      `DTSTART:${icsLocal(a.date, start)}`,
+      `DTEND:${icsLocal(a.date, end)}`,
+      `SUMMARY:${icsText(`#${request.id} ${request.category} · ${request.unit.building.name} ${request.unit.number}`)}`,
+      `LOCATION:${icsText(location)}`,
+      `DESCRIPTION:${icsText(details.join("\n"))}`,
+      `STATUS:${eventStatus[a.status]}`,
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  loginFailure: { create: vi.fn() },
+  loginUnlock: { create: vi.fn() },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  checkLoginAllowed,
+  listLockedAccounts,
+  recordLoginFailure,
+  recordLoginSuccess,
+  unlockAccount,
+} from "./loginThrottle";
+
+let now: Date;
+let seq = 0;
+
+// The memory store lives for the whole file, so every test gets its own
+// account and address
+const freshAttempt = () => {
+  seq += 1;
+  return { email: `tenant${seq}@example.com`, ipAddress: `10.0.0.${seq}` };
+};
+
+const advance = (ms: number) => {
+  now = new Date(now.getTime() + ms);
+  vi.setSystemTime(now);
+};
+
+const fail = async (attempt: { email: string; ipAddress?: string }, n = 1) => {
+  for (let i = 0; i < n; i++) {
+    await recordLoginFailure(attempt, "bad_password");
+  }
+};
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.useFakeTimers();
+  now = new Date("2026-03-02T10:00:00Z");
+  vi.setSystemTime(now);
+  delete process.env.LOGIN_THROTTLE_STORE;
+  delete process.env.LOGIN_MAX_FAILURES;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe("login throttle", () => {
+  it("lets the first failures through without a wait", async () => {
+    const attempt = freshAttempt();
+    await fail(attempt, 2);
+
+    expect(await checkLoginAllowed(attempt)).toBeNull();
+    expect(db.loginFailure.create).toHaveBeenCalledTimes(2);
+  });
+
+  it("delays from the third failure, doubling each time", async () => {
+    const attempt = freshAttempt();
+    await fail(attempt, 3);
+    expect(await checkLoginAllowed(attempt)).toEqual({
+      retryAfterSeconds: 1,
+      locked: false,
+    });
+
+    advance(1000);
+    expect(await checkLoginAllowed(attempt)).toBeNull();
+
+    await fail(attempt);
+    expect(await checkLoginAllowed(attempt)).toEqual({
+      retryAfterSeconds: 2,
+      locked: false,
+    });
+  });
+
+  it("audits blocked attempts without counting them", async () => {
+    const attempt = freshAttempt();
+    await fail(attempt, 3);
+    db.loginFailure.create.mockClear();
+
+    await checkLoginAllowed(attempt);
+    await checkLoginAllowed(attempt);
+
+    expect(db.loginFailure.create).toHaveBeenCalledTimes(2);
+    expect(db.loginFailure.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ reason: "throttled" }),
+    });
+    advance(1000);
+    expect(await checkLoginAllowed(attempt)).toBeNull();
+  });
+
+  it("locks the account after LOGIN_MAX_FAILURES", async () => {
+    process.env.LOGIN_MAX_FAILURES = "5";
+    const attempt = freshAttempt();
+    await fail(attempt, 5);
+
+    const block = await checkLoginAllowed(attempt);
+    expect(block).toEqual({ retryAfterSeconds: 15 * 60, locked: true });
+    expect(db.loginFailure.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ reason: "locked" }),
+    });
+    expect(await listLockedAccounts()).toContainEqual(
+      expect.objectContaining({ email: attempt.email, failures: 5 })
+    );
+
+    advance(15 * 60 * 1000);
+    expect(await checkLoginAllowed(attempt)).toBeNull();
+  });
+
+  it("counts an account the same however its email is typed", async () => {
+    const attempt = freshAttempt();
+    await fail({ email: `  ${attempt.email.toUpperCase()}` }, 3);
+
+    expect(await checkLoginAllowed({ email: attempt.email })).not.toBeNull();
+    expect(db.loginFailure.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ email: attempt.email }),
+    });
+  });
+
+  it("clears the account's count on success but not the address's", async () => {
+    const attempt = freshAttempt();
+    await fail(attempt, 10);
+    await recordLoginSuccess(attempt.email);
+
+    expect(await checkLoginAllowed({ email: attempt.email })).toBeNull();
+    expect(await checkLoginAllowed(attempt)).toEqual({
+      retryAfterSeconds: 1,
+      locked: false,
+    });
+  });
+
+  it("delays an address trying many accounts", async () => {
+    const { ipAddress } = freshAttempt();
+    for (let i = 0; i < 9; i++) {
+      await fail({ ...freshAttempt(), ipAddress });
+    }
+    const next = { ...freshAttempt(), ipAddress };
+    expect(await checkLoginAllowed(next)).toBeNull();
+
+    await fail({ ...freshAttempt(), ipAddress });
+    expect(await checkLoginAllowed(next)).toEqual({
+      retryAfterSeconds: 1,
+      locked: false,
+    });
+  });
+
+  it("records who unlocked an account", async () => {
+    process.env.LOGIN_MAX_FAILURES = "5";
+    const attempt = freshAttempt();
+    await fail({ email: attempt.email }, 5);
+
+    await unlockAccount({ id: 12, email: attempt.email.toUpperCase() }, 3);
+
+    expect(await checkLoginAllowed({ email: attempt.email })).toBeNull();
+    expect(db.loginUnlock.create).toHaveBeenCalledWith({
+      data: { email: attempt.email, userId: 12, unlockedById: 3 },
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { LoginFailureReason, PrismaClient } from "@prisma/client";
+import { getThrottleStore, ThrottleState } from "../throttle";
+
+const prisma = new PrismaClient();
+
+// Failures per account before each further attempt has to wait, doubling
+// from one second up to maxDelayMs, and before the account is locked
+const accountDelayAfter = 3;
+const maxDelayMs = 30 * 1000;
+// A single address may try many accounts (shared office or campus
+// networks), so its limits are looser
+const ipDelayAfter = 10;
+
+const maxAccountFailures = () => Number(process.env.LOGIN_MAX_FAILURES) || 10;
+const maxIpFailures = () => Number(process.env.LOGIN_MAX_FAILURES_PER_IP) || 50;
+const lockoutMs = () =>
+  (Number(process.env.LOGIN_LOCKOUT_MINUTES) || 15) * 60 * 1000;
+// Failures older than this stop counting. Never shorter than a lockout, so
+// a lock can't outlive the failures that caused it.
+const windowMs = () => Math.max(15 * 60 * 1000, lockoutMs());
+
+const accountKey = (email: string) => `account:${normalizeEmail(email)}`;
+const ipKey = (ip: string) => `ip:${ip}`;
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export type LoginAttempt = {
+  email: string;
+  ipAddress?: string;
+  userAgent?: string;
+};
+
+export type LoginBlock = {
+  retryAfterSeconds: number;
+  locked: boolean;
+};
+
+function activeBlock(state: ThrottleState | null, now: Date) {
+  if (!state?.blockedUntil || state.blockedUntil <= now) return null;
+  return {
+    retryAfterSeconds: Math.ceil(
+      (state.blockedUntil.getTime() - now.getTime()) / 1000
+    ),
+    locked: state.locked,
+  };
+}
+
+// How long `failures` blocks further attempts for, or null for no wait
+function penalty(
+  failures: number,
+  delayAfter: number,
+  lockAfter: number
+): { ms: number; locked: boolean } | null {
+  if (failures >= lockAfter) return { ms: lockoutMs(), locked: true };
+  if (failures < delayAfter) return null;
+  return {
+    ms: Math.min(1000 * 2 ** (failures - delayAfter), maxDelayMs),
+    locked: false,
+  };
+}
+
+// Null when the attempt may go ahead. Blocked attempts are audited but not
+// counted, so retrying while blocked doesn't extend the block.
+export async function checkLoginAllowed(
+  attempt: LoginAttempt
+): Promise<LoginBlock | null> {
+  const store = getThrottleStore();
+  const now = new Date();
+
+  const blocks = [await store.get(accountKey(attempt.email))];
+  if (attempt.ipAddress) {
+    blocks.push(await store.get(ipKey(attempt.ipAddress)));
+  }
+
+  const block = blocks
+    .map((state) => activeBlock(state, now))
+    .filter((b): b is LoginBlock => !!b)
+    .sort((a, b) => b.retryAfterSeconds - a.retryAfterSeconds)[0];
+  if (!block) return null;
+
+  await auditLoginFailure(attempt, block.locked ? "locked" : "throttled");
+  return block;
+}
+
+export async function recordLoginFailure(
+  attempt: LoginAttempt,
+  reason: LoginFailureReason,
+  userId?: number
+) {
+  const store = getThrottleStore();
+  const now = new Date();
+  const windowStart = new Date(now.getTime() - windowMs());
+
+  await auditLoginFailure(attempt, reason, userId);
+
+  const key = accountKey(attempt.email);
+  const account = await store.recordFailure(key, windowStart, now);
+  const accountPenalty = penalty(
+    account.failures,
+    accountDelayAfter,
+    maxAccountFailures()
+  );
+  if (accountPenalty) {
+    await store.block(
+      key,
+      new Date(now.getTime() + accountPenalty.ms),
+      accountPenalty.locked
+    );
+    if (accountPenalty.locked && account.failures === maxAccountFailures()) {
+      console.warn(`Login locked for ${normalizeEmail(attempt.email)}`);
+    }
+  }
+
+  if (attempt.ipAddress) {
+    const key = ipKey(attempt.ipAddress);
+    const ip = await store.recordFailure(key, windowStart, now);
+    const ipPenalty = penalty(ip.failures, ipDelayAfter, maxIpFailures());
+    if (ipPenalty) {
+      await store.block(
+        key,
+        new Date(now.getTime() + ipPenalty.ms),
+        ipPenalty.locked
+      );
+    }
+  }
+}
+
+// A correct password clears the account's count. The address keeps its
+// count so one known login can't be used to reset guessing at others.
+export async function recordLoginSuccess(email: string) {
+  await getThrottleStore().reset(accountKey(email));
+}
+
+// Clears the account's failures and lockout and records who did it
+export async function unlockAccount(
+  user: { id: number; email: string },
+  unlockedById: number
+) {
+  await getThrottleStore().reset(accountKey(user.email));
+  await prisma.loginUnlock.create({
+    data: {
+      email: normalizeEmail(user.email),
+      userId: user.id,
+      unlockedById,
+    },
+  });
+}
+
+export async function listLockedAccounts() {
+  const prefix = "account:";
+  const locked = await getThrottleStore().listLocked(prefix, new Date());
+  return locked.map((entry) => ({
+    email: entry.key.slice(prefix.length),
+    failures: entry.failures,
+    lockedUntil: entry.blockedUntil,
+  }));
+}
+
+async function auditLoginFailure(
+  attempt: LoginAttempt,
+  reason: LoginFailureReason,
+  userId?: number
+) {
+  await prisma.loginFailure.create({
+    data: {
+      email: normalizeEmail(attempt.email).slice(0, 255),
+      userId: userId ?? null,
+      ipAddress: attempt.ipAddress ?? null,
+      userAgent: attempt.userAgent?.slice(0, 255) ?? null,
+      reason,
+    },
+  });
+}
@@ -0,0 +1,277 @@
+import { MaintenancePlan } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  maintenancePlan: { findMany: vi.fn(), update: vi.fn() },
+  maintenancePlanTarget: { findMany: vi.fn() },
+  workflow: { findFirst: vi.fn() },
+  unit: { findMany: vi.fn() },
+  request: { findMany: vi.fn(), create: vi.fn() },
+  requestEvent: { create: vi.fn() },
+  $queryRaw: vi.fn(),
+  $transaction: vi.fn(),
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  MaintenancePlanError,
+  PlanSchedule,
+  firstRunOn,
+  nextOccurrence,
+  parsePlanInput,
+  runDuePlans,
+} from "./maintenancePlans";
+
+const d = (value: string) => new Date(`${value}T00:00:00Z`);
+
+const schedule = (overrides: Partial<PlanSchedule> = {}): PlanSchedule => ({
+  frequency: "monthly",
+  interval: 1,
+  startsOn: d("2026-01-31"),
+  endsOn: null,
+  ...overrides,
+});
+
+// The run dates from `from` on, each found from the day after the last
+function runs(plan: PlanSchedule, from: Date, count: number) {
+  const dates: string[] = [];
+  let next = nextOccurrence(plan, from);
+  while (next && dates.length < count) {
+    dates.push(next.toISOString().slice(0, 10));
+    next = nextOccurrence(plan, new Date(next.getTime() + 24 * 3600 * 1000));
+  }
+  return dates;
+}
+
+const plan = (overrides: Partial<MaintenancePlan> = {}) =>
+  ({
+    id: 9,
+    organizationId: 3,
+    name: "Boiler service",
+    category: "hvac",
+    description: "Annual boiler service",
+    checklist: ["Check pressure", "Bleed radiators"],
+    priority: "normal",
+    preferredWindow1: "08:00-10:00",
+    preferredWindow2: null,
+    frequency: "monthly",
+    interval: 1,
+    startsOn: d("2026-01-15"),
+    endsOn: null,
+    nextRunOn: d("2026-03-15"),
+    active: true,
+    lastRunAt: null,
+    ...overrides,
+  }) as MaintenancePlan;
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.$transaction.mockImplementation((fn) => fn(db));
+  db.workflow.findFirst.mockResolvedValue({
+    id: 1,
+    states: [{ key: "in_queue" }],
+    transitions: [],
+  });
+  db.$queryRaw.mockResolvedValue([{ id: 9 }]);
+  db.maintenancePlanTarget.findMany.mockResolvedValue([
+    { planId: 9, unitId: null, buildingId: 2 },
+  ]);
+  db.unit.findMany.mockResolvedValue([
+    { id: 20, tenantProfiles: [{ userId: 8 }] },
+    { id: 21, tenantProfiles: [] },
+  ]);
+  db.request.findMany.mockResolvedValue([]);
+  db.request.create.mockImplementation(async ({ data }) => ({
+    id: 100 + data.unitId,
+    ...data,
+  }));
+  db.requestEvent.create.mockImplementation(async ({ data }) => data);
+});
+
+describe("nextOccurrence", () => {
+  it("keeps month-end plans on the last day of shorter months", () => {
+    expect(runs(schedule(), d("2026-01-01"), 4)).toEqual([
+      "2026-01-31",
+      "2026-02-28",
+      "2026-03-31",
+      "2026-04-30",
+    ]);
+    expect(runs(schedule(), d("2028-02-01"), 1)).toEqual(["2028-02-29"]);
+  });
+
+  it("clamps yearly plans started on a leap day", () => {
+    const leap = schedule({ frequency: "yearly", startsOn: d("2028-02-29") });
+    expect(runs(leap, d("2028-03-01"), 5)).toEqual([
+      "2029-02-28",
+      "2030-02-28",
+      "2031-02-28",
+      "2032-02-29",
+      "2033-02-28",
+    ]);
+  });
+
+  it("counts intervals from the start date", () => {
+    const quarterly = schedule({ interval: 3, startsOn: d("2026-01-15") });
+    expect(runs(quarterly, d("2026-05-01"), 2)).toEqual([
+      "2026-07-15",
+      "2026-10-15",
+    ]);
+    const fortnightly = schedule({
+      frequency: "weekly",
+      interval: 2,
+      startsOn: d("2026-03-02"),
+    });
+    expect(runs(fortnightly, d("2026-03-03"), 2)).toEqual([
+      "2026-03-16",
+      "2026-03-30",
+    ]);
+  });
+
+  it("returns the run on the given day itself", () => {
+    const daily = schedule({
+      frequency: "daily",
+      interval: 10,
+      startsOn: d("2026-03-01"),
+    });
+    expect(nextOccurrence(daily, d("2026-03-21"))).toEqual(d("2026-03-21"));
+    expect(nextOccurrence(daily, d("2026-03-22"))).toEqual(d("2026-03-31"));
+  });
+
+  it("starts at the start date and stops after the end date", () => {
+    const bounded = schedule({
+      startsOn: d("2026-05-10"),
+      endsOn: d("2026-07-09"),
+    });
+    expect(nextOccurrence(bounded, d("2026-01-01"))).toEqual(d("2026-05-10"));
+    expect(runs(bounded, d("2026-01-01"), 5)).toEqual([
+      "2026-05-10",
+      "2026-06-10",
+    ]);
+  });
+
+  it("picks up from today for a new or resumed plan", () => {
+    const monthly = schedule({ startsOn: d("2026-01-15") });
+    expect(firstRunOn(monthly, new Date("2026-03-15T18:30:00Z"))).toEqual(
+      d("2026-03-15")
+    );
+  });
+});
+
+describe("parsePlanInput", () => {
+  const body = {
+    name: " Boiler service ",
+    category: "hvac",
+    description: "Annual boiler service",
+    checklist: ["Check pressure", " ", "Bleed radiators"],
+    preferredWindow1: "08:00-10:00",
+    frequency: "monthly",
+    startsOn: "2026-01-31",
+    buildingIds: [2, 2],
+  };
+
+  it("trims text, drops blank checklist items and duplicate targets", () => {
+    expect(parsePlanInput(body)).toMatchObject({
+      name: "Boiler service",
+      checklist: ["Check pressure", "Bleed radiators"],
+      priority: "normal",
+      interval: 1,
+      endsOn: null,
+      unitIds: [],
+      buildingIds: [2],
+    });
+  });
+
+  it("refuses a plan without targets or with an end before its start", () => {
+    expect(() => parsePlanInput({ ...body, buildingIds: [] })).toThrow(
+      "Pick at least one unit or building"
+    );
+    expect(() => parsePlanInput({ ...body, endsOn: "2026-01-30" })).toThrow(
+      MaintenancePlanError
+    );
+    expect(() => parsePlanInput({ ...body, interval: 0 })).toThrow(
+      MaintenancePlanError
+    );
+  });
+});
+
+describe("runDuePlans", () => {
+  it("opens one request per target unit and moves the plan on", async () => {
+    db.maintenancePlan.findMany.mockResolvedValue([plan()]);
+    const now = new Date("2026-03-15T06:00:00Z");
+
+    expect(await runDuePlans(now)).toBe(2);
+
+    expect(db.maintenancePlan.findMany).toHaveBeenCalledWith({
+      where: { active: true, nextRunOn: { lte: d("2026-03-15") } },
+    });
+    expect(db.request.create.mock.calls.map((c) => c[0].data)).toMatchObject([
+      {
+        unitId: 20,
+        tenantId: 8,
+        status: "in_queue",
+        maintenancePlanId: 9,
+        maintenancePlanRunOn: d("2026-03-15"),
+        lastUpdatedByRole: "system",
+        description:
+          "Annual boiler service\n\nChecklist:\n- Check pressure\n- Bleed radiators",
+      },
+      { unitId: 21, tenantId: null },
+    ]);
+    expect(db.maintenancePlan.update).toHaveBeenCalledWith({
+      where: { id: 9 },
+      data: { nextRunOn: d("2026-04-15"), lastRunAt: now },
+    });
+  });
+
+  it("catches up with one run for the latest missed date", async () => {
+    db.maintenancePlan.findMany.mockResolvedValue([
+      plan({ nextRunOn: d("2025-12-15"), startsOn: d("2025-11-15") }),
+    ]);
+
+    await runDuePlans(new Date("2026-03-20T06:00:00Z"));
+
+    const runOn = new Set(
+      db.request.create.mock.calls.map((c) => c[0].data.maintenancePlanRunOn)
+    );
+    expect([...runOn]).toEqual([d("2026-03-15")]);
+    expect(db.maintenancePlan.update.mock.calls[0][0].data.nextRunOn).toEqual(
+      d("2026-04-15")
+    );
+  });
+
+  it("skips units that already have a request for the date", async () => {
+    db.maintenancePlan.findMany.mockResolvedValue([plan()]);
+    db.request.findMany.mockResolvedValue([{ unitId: 20 }]);
+
+    expect(await runDuePlans(new Date("2026-03-15T06:00:00Z"))).toBe(1);
+    expect(db.request.create.mock.calls[0][0].data.unitId).toBe(21);
+  });
+
+  it("leaves a plan another scheduler is running alone", async () => {
+    db.maintenancePlan.findMany.mockResolvedValue([plan()]);
+    db.$queryRaw.mockResolvedValue([]);
+
+    expect(await runDuePlans(new Date("2026-03-15T06:00:00Z"))).toBe(0);
+    expect(db.request.create).not.toHaveBeenCalled();
+    expect(db.maintenancePlan.update).not.toHaveBeenCalled();
+  });
+
+  it("keeps going when one plan fails", async () => {
+    db.maintenancePlan.findMany.mockResolvedValue([plan({ id: 8 }), plan()]);
+    db.maintenancePlanTarget.findMany
+      .mockRejectedValueOnce(new Error("connection reset"))
+      .mockResolvedValue([{ planId: 9, unitId: 20, buildingId: null }]);
+    const log = vi.spyOn(console, "error").mockImplementation(() => {});
+
+    expect(await runDuePlans(new Date("2026-03-15T06:00:00Z"))).toBe(2);
+    expect(log).toHaveBeenCalledWith(
+      "Maintenance plan 8 failed",
+      expect.any(Error)
+    );
+    log.mockRestore();
+  });
+});
@@ -0,0 +1,375 @@
+import {
+  MaintenancePlan,
+  Priority,
+  PrismaClient,
+  RecurrenceFrequency,
+} from "@prisma/client";
+import { visitWindows, VisitWindow } from "./appointments";
+import { PropertyScope, inScope } from "./permissions";
+import { withRequestEvents } from "./requestEvents";
+import { loadWorkflow } from "./workflow";
+
+const prisma = new PrismaClient();
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+const frequencies = Object.values(RecurrenceFrequency);
+const priorities = Object.values(Priority);
+const maxInterval = 365;
+const maxChecklistItems = 30;
+
+export class MaintenancePlanError extends Error {}
+
+export type PlanSchedule = Pick<
+  MaintenancePlan,
+  "frequency" | "interval" | "startsOn" | "endsOn"
+>;
+
+export type PlanInput = {
+  name: string;
+  category: string;
+  description: string;
+  checklist: string[];
+  priority: Priority;
+  preferredWindow1: VisitWindow;
+  preferredWindow2: VisitWindow | null;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startsOn: Date;
+  endsOn: Date | null;
+  unitIds: number[];
+  buildingIds: number[];
+};
+
+function day(value: unknown, name: string) {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    throw new MaintenancePlanError(`${name} must be a date (YYYY-MM-DD)`);
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  if (Number.isNaN(date.getTime())) {
+    throw new MaintenancePlanError(`${name} must be a date (YYYY-MM-DD)`);
+  }
+  return date;
+}
+
+function ids(value: unknown, name: string) {
+  if (value === undefined || value === null) return [];
+  if (
+    !Array.isArray(value) ||
+    !value.every((v) => Number.isInteger(v) && v > 0)
+  ) {
+    throw new MaintenancePlanError(`${name} must be a list of ids`);
+  }
+  return [...new Set(value as number[])];
+}
+
+// Validates the body of a create or update. Throws MaintenancePlanError.
+export function parsePlanInput(body: Record<string, unknown>): PlanInput {
+  const text = (name: string) => {
+    const value = body[name];
+    if (typeof value !== "string" || !value.trim()) {
+      throw new MaintenancePlanError(`${name} is required`);
+    }
+    return value.trim();
+  };
+
+  const checklist = body.checklist ?? [];
+  if (
+    !Array.isArray(checklist) ||
+    !checklist.every((item) => typeof item === "string")
+  ) {
+    throw new MaintenancePlanError("checklist must be a list of strings");
+  }
+  const items = (checklist as string[]).map((i) => i.trim()).filter(Boolean);
+  if (items.length > maxChecklistItems) {
+    throw new MaintenancePlanError(
+      `checklist can have at most ${maxChecklistItems} items`
+    );
+  }
+
+  const priority = (body.priority ?? "normal") as Priority;
+  if (!priorities.includes(priority)) {
+    throw new MaintenancePlanError(
+      `priority must be one of ${priorities.join(", ")}`
+    );
+  }
+
+  const w1 = body.preferredWindow1 as VisitWindow;
+  const w2 = (body.preferredWindow2 || null) as VisitWindow | null;
+  if (!visitWindows.includes(w1)) {
+    throw new MaintenancePlanError(
+      "preferredWindow1 must be a 2-hour window between 8 AM and 5 PM"
+    );
+  }
+  if (w2 && (!visitWindows.includes(w2) || w2 === w1)) {
+    throw new MaintenancePlanError(
+      "preferredWindow2 must be a different 2-hour window between 8 AM and 5 PM"
+    );
+  }
+
+  const frequency = body.frequency as RecurrenceFrequency;
+  if (!frequencies.includes(frequency)) {
+    throw new MaintenancePlanError(
+      `frequency must be one of ${frequencies.join(", ")}`
+    );
+  }
+  const interval = body.interval === undefined ? 1 : Number(body.interval);
+  if (!Number.isInteger(interval) || interval < 1 || interval > maxInterval) {
+    throw new MaintenancePlanError(
+      `interval must be between 1 and ${maxInterval}`
+    );
+  }
+
+  const startsOn = day(body.startsOn, "startsOn");
+  const endsOn = body.endsOn ? day(body.endsOn, "endsOn") : null;
+  if (endsOn && endsOn < startsOn) {
+    throw new MaintenancePlanError("endsOn must not be before startsOn");
+  }
+
+  const unitIds = ids(body.unitIds, "unitIds");
+  const buildingIds = ids(body.buildingIds, "buildingIds");
+  if (unitIds.length === 0 && buildingIds.length === 0) {
+    throw new MaintenancePlanError("Pick at least one unit or building");
+  }
+
+  return {
+    name: text("name"),
+    category: text("category"),
+    description: text("description"),
+    checklist: items,
+    priority,
+    preferredWindow1: w1,
+    preferredWindow2: w2,
+    frequency,
+    interval,
+    startsOn,
+    endsOn,
+    unitIds,
+    buildingIds,
+  };
+}
+
+// startsOn moved forward by `count` periods. Monthly and yearly plans keep
+// the start's day of month, or the month's last day when it is shorter.
+function addPeriods(
+  startsOn: Date,
+  frequency: RecurrenceFrequency,
+  count: number
+) {
+  if (frequency === "daily")
+    return new Date(startsOn.getTime() + count * dayMs);
+  if (frequency === "weekly") {
+    return new Date(startsOn.getTime() + count * 7 * dayMs);
+  }
+  const months = frequency === "yearly" ? count * 12 : count;
+  const year = startsOn.getUTCFullYear();
+  const month = startsOn.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(
+    Date.UTC(year, month, Math.min(startsOn.getUTCDate(), lastDay))
+  );
+}
+
+// The first run date on or after `from`, or null when the plan ends before
+export function nextOccurrence(schedule: PlanSchedule, from: Date) {
+  const { startsOn, frequency, interval } = schedule;
+  let periods = 0;
+  if (from > startsOn) {
+    // Whole periods since the start, rounded down so no run is skipped
+    const elapsed =
+      frequency === "daily"
+        ? (from.getTime() - startsOn.getTime()) / dayMs
+        : frequency === "weekly"
+          ? (from.getTime() - startsOn.getTime()) / (7 * dayMs)
+          : (from.getUTCFullYear() - startsOn.getUTCFullYear()) * 12 +
+            from.getUTCMonth() -
+            startsOn.getUTCMonth();
+    const unit = frequency === "yearly" ? 12 : 1;
+    periods = Math.max(0, Math.floor(elapsed / (interval * unit))) * interval;
+  }
+
+  let date = addPeriods(startsOn, frequency, periods);
+  while (date < from) {
+    periods += interval;
+    date = addPeriods(startsOn, frequency, periods);
+  }
+  return schedule.endsOn && date > schedule.endsOn ? null : date;
+}
+
+function utcToday(now: Date) {
+  const today = new Date(now);
+  today.setUTCHours(0, 0, 0, 0);
+  return today;
+}
+
+// Where a paused, new or edited plan picks up: its next run from today on
+export function firstRunOn(schedule: PlanSchedule, now = new Date()) {
+  return nextOccurrence(schedule, utcToday(now));
+}
+
+// Property ids a plan's targets sit in, for checking against a scope
+function planPropertyIds(plan: {
+  targets: {
+    unit: { building: { propertyId: number } } | null;
+    building: { propertyId: number } | null;
+  }[];
+}) {
+  return plan.targets.map(
+    (t) => t.unit?.building.propertyId ?? t.building!.propertyId
+  );
+}
+
+export function planInScope(
+  scope: PropertyScope,
+  plan: Parameters<typeof planPropertyIds>[0]
+) {
+  return planPropertyIds(plan).every((id) => inScope(scope, id));
+}
+
+// The request text: the plan's description followed by its checklist
+function requestDescription(plan: MaintenancePlan) {
+  if (plan.checklist.length === 0) return plan.description;
+  return [
+    plan.description,
+    "",
+    "Checklist:",
+    ...plan.checklist.map((item) => `- ${item}`),
+  ].join("\n");
+}
+
+// Opens the plan's requests for one run date, one per target unit, and moves
+// the plan on to its next date. The row lock lets only one scheduler (of
+// several backend instances) run a given date; units that already have a
+// request for it are skipped.
+async function runPlan(plan: MaintenancePlan, runOn: Date, now: Date) {
+  const workflow = await loadWorkflow();
+  const initialState = workflow.states[0];
+
+  return withRequestEvents(prisma, async (tx, record) => {
+    const locked = await tx.$queryRaw<{ id: number }[]>`
+      SELECT "id" FROM "MaintenancePlan"
+      WHERE "id" = ${plan.id} AND "active" AND "nextRunOn" = ${plan.nextRunOn}::date
+      FOR UPDATE SKIP LOCKED
+    `;
+    if (locked.length === 0) return 0;
+
+    const targets = await tx.maintenancePlanTarget.findMany({
+      where: { planId: plan.id },
+    });
+    const units = await tx.unit.findMany({
+      where: {
+        building: { property: { organizationId: plan.organizationId } },
+        OR: [
+          { id: { in: targets.flatMap((t) => t.unitId ?? []) } },
+          { buildingId: { in: targets.flatMap((t) => t.buildingId ?? []) } },
+        ],
+      },
+      include: {
+        // The unit's current tenant, if it is let
+        tenantProfiles: {
+          where: { user: { deactivatedAt: null } },
+          orderBy: { id: "asc" },
+          take: 1,
+        },
+      },
+    });
+    const done = await tx.request.findMany({
+      where: { maintenancePlanId: plan.id, maintenancePlanRunOn: runOn },
+      select: { unitId: true },
+    });
+    const doneUnits = new Set(done.map((r) => r.unitId));
+
+    let created = 0;
+    for (const unit of units) {
+      if (doneUnits.has(unit.id)) continue;
+
+      const request = await tx.request.create({
+        data: {
+          organizationId: plan.organizationId,
+          unitId: unit.id,
+          tenantId: unit.tenantProfiles[0]?.userId ?? null,
+          category: plan.category,
+          description: requestDescription(plan),
+          phone: null,
+          priority: plan.priority,
+          preferredWindow1: plan.preferredWindow1,
+          preferredWindow2: plan.preferredWindow2,
+          workflowId: workflow.id,
+          status: initialState.key,
+          lastUpdatedByRole: "system",
+          inQueueAt: now,
+          maintenancePlanId: plan.id,
+          maintenancePlanRunOn: runOn,
+        },
+      });
+      await record({
+        requestId: request.id,
+        type: "created",
+        field: "status",
+        newValue: request.status,
+        note: `Preventive maintenance: ${plan.name}`,
+      });
+      created++;
+    }
+
+    const next = new Date(runOn.getTime() + dayMs);
+    await tx.maintenancePlan.update({
+      where: { id: plan.id },
+      data: { nextRunOn: nextOccurrence(plan, next), lastRunAt: now },
+    });
+    return created;
+  });
+}
+
+// One pass of the scheduler: runs every active plan that is due. A plan
+// that fell behind (the server was down) runs once, for its latest missed
+// date, instead of once per missed date.
+export async function runDuePlans(now = new Date()) {
+  const today = utcToday(now);
+  const plans = await prisma.maintenancePlan.findMany({
+    where: { active: true, nextRunOn: { lte: today } },
+  });
+
+  let created = 0;
+  for (const plan of plans) {
+    let runOn = plan.nextRunOn!;
+    for (;;) {
+      const later = nextOccurrence(plan, new Date(runOn.getTime() + dayMs));
+      if (!later || later > today) break;
+      runOn = later;
+    }
+    try {
+      created += await runPlan(plan, runOn, now);
+    } catch (err) {
+      // One broken plan must not hold up the rest
+      console.error(`Maintenance plan ${plan.id} failed`, err);
+    }
+  }
+  return created;
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null;
+
+export function startMaintenanceScheduler() {
+  if (schedulerTimer) return;
+
+  const intervalMs =
+    Number(process.env.MAINTENANCE_SCHEDULER_INTERVAL_MS) || 15 * 60 * 1000;
+  let running = false;
+
+  schedulerTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow pass
+    if (running) return;
+    running = true;
+    try {
+      const created = await runDuePlans();
+      if (created > 0) {
+        console.log(`Preventive maintenance opened ${created} request(s)`);
+      }
+    } catch (err) {
+      console.error("Preventive maintenance run failed", err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
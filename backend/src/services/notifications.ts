@@ -0,0 +1,139 @@
+import { NotificationEvent, PrismaClient, RequestEvent } from "@prisma/client";
+import { getNotificationTransport } from "../notifications";
+import { renderNotification } from "../notifications/templates";
+import { onRequestEvent } from "./requestEvents";
+import { findState, loadWorkflow } from "./workflow";
+import { usersWithPermissionWhere } from "./permissions";
+
+const prisma = new PrismaClient();
+
+export const notificationEvents: NotificationEvent[] = [
+  "request_created",
+  "status_changed",
+  "priority_changed",
+  "request_completed",
+];
+
+const priorityLabels: Record<string, string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "High",
+  emergency: "Emergency",
+};
+
+// Managers of the property hear about new and finished work; tenants and the assigned
+// technician hear about everything that happens to their request.
+const managerEvents: NotificationEvent[] = [
+  "request_created",
+  "request_completed",
+];
+
+type Recipient = {
+  id: number;
+  name: string;
+  email: string;
+  deactivatedAt: Date | null;
+};
+
+export async function notifyRequestEvent(event: RequestEvent) {
+  if (
+    !["created", "closed", "status_changed", "priority_changed"].includes(
+      event.type
+    )
+  ) {
+    return;
+  }
+
+  const request = await prisma.request.findUnique({
+    where: { id: event.requestId },
+    include: {
+      tenant: true,
+      assignee: { include: { user: true } },
+      unit: { include: { building: { include: { property: true } } } },
+    },
+  });
+  if (!request) return;
+
+  const workflow = await loadWorkflow(request.workflowId);
+  const statusLabel = (key: string | null) =>
+    key ? (findState(workflow, key)?.label ?? key) : null;
+
+  let kind: NotificationEvent;
+  let oldValue = event.oldValue;
+  let newValue = event.newValue;
+  if (event.type === "created") {
+    kind = "request_created";
+  } else if (event.type === "priority_changed") {
+    kind = "priority_changed";
+    oldValue = oldValue && (priorityLabels[oldValue] ?? oldValue);
+    newValue = newValue && (priorityLabels[newValue] ?? newValue);
+  } else {
+    // Entering the state that stamps completedAt counts as completion
+    const completes =
+      event.type === "closed" ||
+      (newValue !== null &&
+        findState(workflow, newValue)?.timestampField === "completedAt");
+    kind = completes ? "request_completed" : "status_changed";
+    oldValue = statusLabel(oldValue);
+    newValue = statusLabel(newValue);
+  }
+
+  const candidates: Recipient[] = request.tenant ? [request.tenant] : [];
+  if (kind !== "request_created" && request.assignee?.user) {
+    candidates.push(request.assignee.user);
+  }
+  if (managerEvents.includes(kind)) {
+    candidates.push(
+      ...(await prisma.user.findMany({
+        where: usersWithPermissionWhere(
+          "requests.view_all",
+          request.organizationId,
+          request.unit.building.propertyId
+        ),
+      }))
+    );
+  }
+
+  const unique = new Map<number, Recipient>();
+  for (const r of candidates) {
+    // People don't need an email about their own change, and deactivated
+    // accounts get nothing
+    if (r.id !== event.actorId && !r.deactivatedAt) unique.set(r.id, r);
+  }
+
+  const optedOut = await prisma.notificationPreference.findMany({
+    where: { userId: { in: [...unique.keys()] }, event: kind, email: false },
+  });
+  optedOut.forEach((p) => unique.delete(p.userId));
+
+  const { building } = request.unit;
+  const location = `${building.property.name} · ${building.name} · Unit ${request.unit.number}`;
+
+  const transport = getNotificationTransport();
+  for (const recipient of unique.values()) {
+    const message = renderNotification(kind, {
+      recipientName: recipient.name,
+      requestId: request.id,
+      category: request.category,
+      location,
+      oldValue,
+      newValue,
+      note: event.note,
+    });
+    try {
+      await transport.send({ to: recipient.email, ...message });
+    } catch (err) {
+      // One bad address shouldn't stop the rest
+      console.error(`Failed to email ${recipient.email}`, err);
+    }
+  }
+}
+
+// Emails go out after the change commits and never hold up the response
+export function startNotifications() {
+  onRequestEvent((event) => {
+    notifyRequestEvent(event).catch((err) =>
+      console.error("Failed to send notifications", err)
+    );
+  });
+}
@@ -0,0 +1,113 @@
+import { Role } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  propertyAssignment: { findMany: vi.fn() },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  hasPermission,
+  inScope,
+  permissions,
+  propertyScope,
+  requestScopeSql,
+  requestScopeWhere,
+  usersWithPermissionWhere,
+} from "./permissions";
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe("hasPermission", () => {
+  it("gives admins everything", () => {
+    for (const permission of permissions) {
+      expect(hasPermission("admin", permission)).toBe(true);
+    }
+  });
+
+  it("keeps settings to admins", () => {
+    const roles: Role[] = ["manager", "technician", "tenant"];
+    for (const role of roles) {
+      expect(hasPermission(role, "settings.manage")).toBe(false);
+    }
+  });
+
+  it("lets tenants and technicians only change status", () => {
+    for (const role of ["technician", "tenant"] as Role[]) {
+      const granted = permissions.filter((p) => hasPermission(role, p));
+      expect(granted).toEqual(["requests.change_status"]);
+    }
+  });
+
+  it("refuses unknown roles", () => {
+    expect(hasPermission("janitor" as Role, "requests.view_all")).toBe(false);
+  });
+});
+
+describe("propertyScope", () => {
+  it("reaches every property for admins without a query", async () => {
+    expect(await propertyScope({ id: 1, role: "admin", orgId: 3 })).toBe("all");
+    expect(db.propertyAssignment.findMany).not.toHaveBeenCalled();
+  });
+
+  it("limits managers to their assignments in their organization", async () => {
+    db.propertyAssignment.findMany.mockResolvedValue([
+      { propertyId: 4 },
+      { propertyId: 9 },
+    ]);
+
+    const scope = await propertyScope({ id: 2, role: "manager", orgId: 3 });
+
+    expect(scope).toEqual([4, 9]);
+    expect(db.propertyAssignment.findMany).toHaveBeenCalledWith({
+      where: { userId: 2, property: { organizationId: 3 } },
+      select: { propertyId: true },
+    });
+    expect(inScope(scope, 4)).toBe(true);
+    expect(inScope(scope, 5)).toBe(false);
+    expect(inScope("all", 5)).toBe(true);
+  });
+});
+
+describe("request scope", () => {
+  it("always filters on the organization", () => {
+    expect(requestScopeWhere(3, "all")).toEqual({ organizationId: 3 });
+    expect(requestScopeWhere(3, [4, 9])).toEqual({
+      organizationId: 3,
+      unit: { building: { propertyId: { in: [4, 9] } } },
+    });
+  });
+
+  it("matches nothing in SQL for an empty scope", () => {
+    expect(requestScopeSql(3, []).sql).toBe("FALSE");
+
+    const all = requestScopeSql(3, "all");
+    expect(all.sql).toBe(`r."organizationId" = ?`);
+    expect(all.values).toEqual([3]);
+
+    const some = requestScopeSql(3, [4, 9]);
+    expect(some.sql).toContain(`b."propertyId" IN (?,?)`);
+    expect(some.values).toEqual([3, 4, 9]);
+  });
+});
+
+describe("usersWithPermissionWhere", () => {
+  it("finds unscoped roles plus staff assigned to the property", () => {
+    expect(usersWithPermissionWhere("requests.assign", 3, 4)).toEqual({
+      organizationId: 3,
+      OR: [
+        { role: { in: ["admin"] } },
+        {
+          role: { in: ["manager"] },
+          propertyAssignments: { some: { propertyId: 4 } },
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import { Prisma, PrismaClient, Role } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export const permissions = [
+  "requests.view_all",
+  "requests.change_status",
+  "requests.change_priority",
+  "requests.assign",
+  "users.manage",
+  "plans.manage",
+  "settings.manage",
+] as const;
+export type Permission = (typeof permissions)[number];
+
+// What each role may do. Tenants and technicians change status only on the
+// requests they can reach (their own / assigned to them), under the
+// workflow's transition roles.
+export const rolePermissions: Record<Role, readonly Permission[]> = {
+  admin: permissions,
+  manager: [
+    "requests.view_all",
+    "requests.change_status",
+    "requests.change_priority",
+    "requests.assign",
+    "users.manage",
+    "plans.manage",
+  ],
+  technician: ["requests.change_status"],
+  tenant: ["requests.change_status"],
+};
+
+// Roles whose permissions reach every property in their organization;
+// everyone else is limited to their PropertyAssignment rows
+const unscopedRoles: readonly Role[] = ["admin"];
+
+// Properties a user's permissions apply to. "all" never crosses the
+// organization boundary; queries filter on the organization as well.
+export type PropertyScope = "all" | number[];
+
+export function hasPermission(role: Role, permission: Permission) {
+  return rolePermissions[role]?.includes(permission) ?? false;
+}
+
+export async function propertyScope(user: {
+  id: number;
+  role: Role;
+  orgId: number;
+}): Promise<PropertyScope> {
+  if (unscopedRoles.includes(user.role)) return "all";
+  const assignments = await prisma.propertyAssignment.findMany({
+    where: { userId: user.id, property: { organizationId: user.orgId } },
+    select: { propertyId: true },
+  });
+  return assignments.map((a) => a.propertyId);
+}
+
+export function inScope(scope: PropertyScope, propertyId: number) {
+  return scope === "all" || scope.includes(propertyId);
+}
+
+// Request filter limiting a query to the organization and scope
+export function requestScopeWhere(
+  organizationId: number,
+  scope: PropertyScope
+): Prisma.RequestWhereInput {
+  if (scope === "all") return { organizationId };
+  return {
+    organizationId,
+    unit: { building: { propertyId: { in: scope } } },
+  };
+}
+
+// The same limit for raw SQL over "Request" aliased as r
+export function requestScopeSql(
+  organizationId: number,
+  scope: PropertyScope
+): Prisma.Sql {
+  if (scope === "all")
+    return Prisma.sql`r."organizationId" = ${organizationId}`;
+  if (scope.length === 0) return Prisma.sql`FALSE`;
+  return Prisma.sql`r."organizationId" = ${organizationId} AND r."unitId" IN (
+    SELECT u."id" FROM "Unit" u
+    JOIN "Building" b ON b."id" = u."buildingId"
+    WHERE b."propertyId" IN (${Prisma.join(scope)})
+  )`;
+}
+
+// Users holding `permission` for a property: the organization's unscoped
+// roles plus staff assigned to it
+export function usersWithPermissionWhere(
+  permission: Permission,
+  organizationId: number,
+  propertyId: number
+): Prisma.UserWhereInput {
+  const roles = (Object.keys(rolePermissions) as Role[]).filter((role) =>
+    hasPermission(role, permission)
+  );
+  return {
+    organizationId,
+    OR: [
+      { role: { in: roles.filter((r) => unscopedRoles.includes(r)) } },
+      {
+        role: { in: roles.filter((r) => !unscopedRoles.includes(r)) },
+        propertyAssignments: { some: { propertyId } },
+      },
+    ],
+  };
+}
+
+// Property id of a request, for checking it against a scope
+export async function requestPropertyId(requestId: number) {
+  const request = await prisma.request.findUnique({
+    where: { id: requestId },
+    select: {
+      unit: { select: { building: { select: { propertyId: true } } } },
+    },
+  });
+  return request?.unit.building.propertyId ?? null;
+}
@@ -0,0 +1,80 @@
+import { EventEmitter } from "events";
+import {
+  Prisma,
+  PrismaClient,
+  RequestEvent,
+  RequestEventType,
+} from "@prisma/client";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type RequestEventInput = {
+  requestId: number;
+  // The authenticated user behind the change; omitted for system changes
+  actor?: { id: number; role: string } | null;
+  type: RequestEventType;
+  field?: string;
+  oldValue?: string | null;
+  newValue?: string | null;
+  // Free-text reason given with the change (hold, cancel, reopen, ...)
+  note?: string | null;
+};
+
+// Appends one entry to a request's audit trail. Pass the transaction client
+// so the event commits (or rolls back) together with the change it records.
+export function recordRequestEvent(db: Db, event: RequestEventInput) {
+  return db.requestEvent.create({
+    data: {
+      requestId: event.requestId,
+      actorId: event.actor?.id ?? null,
+      actorRole: event.actor?.role ?? "system",
+      type: event.type,
+      field: event.field ?? null,
+      oldValue: event.oldValue ?? null,
+      newValue: event.newValue ?? null,
+      note: event.note ?? null,
+    },
+  });
+}
+
+// In-process bus for recorded events (notifications, live updates, ...)
+const bus = new EventEmitter();
+
+export type RequestEventListener = (event: RequestEvent) => void;
+
+export function onRequestEvent(listener: RequestEventListener) {
+  bus.on("event", listener);
+  return () => {
+    bus.off("event", listener);
+  };
+}
+
+// Runs `fn` in a transaction and publishes the events it recorded once the
+// transaction commits, so listeners never see a change that rolled back.
+export async function withRequestEvents<T>(
+  prisma: PrismaClient,
+  fn: (
+    tx: Prisma.TransactionClient,
+    record: (event: RequestEventInput) => Promise<RequestEvent>
+  ) => Promise<T>
+): Promise<T> {
+  const recorded: RequestEvent[] = [];
+
+  const result = await prisma.$transaction((tx) =>
+    fn(tx, async (event) => {
+      const row = await recordRequestEvent(tx, event);
+      recorded.push(row);
+      return row;
+    })
+  );
+
+  for (const event of recorded) {
+    // A failing listener must not fail the request that produced the event
+    try {
+      bus.emit("event", event);
+    } catch (err) {
+      console.error("Request event listener failed", err);
+    }
+  }
+  return result;
+}
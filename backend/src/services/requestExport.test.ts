@@ -0,0 +1,209 @@
+import { Readable, Writable } from "stream";
+import ExcelJS from "exceljs";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  workflowState: { findMany: vi.fn() },
+  request: { findMany: vi.fn() },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { ExportAbortedError, exportRequests } from "./requestExport";
+
+const created = new Date("2026-03-02T10:00:00Z");
+
+const request = (id: number, overrides = {}) => ({
+  id,
+  category: "plumbing",
+  priority: "normal",
+  status: "in_queue",
+  workflowId: null,
+  description: "Leaking tap",
+  slaStatus: null,
+  createdAt: created,
+  updatedAt: created,
+  inQueueAt: created,
+  viewedAt: new Date("2026-03-02T13:30:00Z"),
+  maintenanceRequestedAt: null,
+  implementingActionsAt: null,
+  completedAt: null,
+  tenant: { name: "Ada Lovelace", email: "ada@example.com" },
+  unit: {
+    number: "2B",
+    building: { name: "North", property: { name: "Maple Court" } },
+  },
+  assignee: null,
+  ...overrides,
+});
+
+// Collects everything written, acknowledging each chunk at once
+function sink() {
+  const chunks: Buffer[] = [];
+  const out = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+  return { out, text: () => Buffer.concat(chunks).toString("utf8") };
+}
+
+// Accepts writes but never acknowledges them, like a client that stopped
+// reading
+function stalled() {
+  return new Writable({ highWaterMark: 1024, write() {} });
+}
+
+const csvLines = (text: string) => text.replace(/^﻿/, "").split("\r\n");
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.workflowState.findMany.mockResolvedValue([
+    {
+      workflowId: 1,
+      key: "in_queue",
+      label: "In queue",
+      workflow: { isDefault: true },
+    },
+  ]);
+});
+
+describe("CSV export", () => {
+  it("writes a header and one line per request", async () => {
+    db.request.findMany.mockResolvedValueOnce([request(1)]);
+    const { out, text } = sink();
+
+    await exportRequests("csv", { organizationId: 3 }, [{ id: "asc" }], out);
+
+    const [header, line, end] = csvLines(text());
+    expect(text().startsWith("﻿")).toBe(true);
+    expect(header.split(",").slice(0, 4)).toEqual([
+      "ID",
+      "Property",
+      "Building",
+      "Unit",
+    ]);
+    expect(line).toContain("1,Maple Court,North,2B,Ada Lovelace");
+    expect(line).toContain(",In queue,");
+    expect(line).toContain(",3.5,");
+    expect(end).toBe("");
+  });
+
+  it("keeps text from being read as a formula", async () => {
+    db.request.findMany.mockResolvedValueOnce([
+      request(1, { description: '=HYPERLINK("http://x")' }),
+      request(2, { description: "+1 call me" }),
+      request(3, { description: "-5 degrees" }),
+      request(4, { description: "@SUM(A1)" }),
+      request(5, { description: "ok = fine" }),
+    ]);
+    const { out, text } = sink();
+
+    await exportRequests("csv", {}, [{ id: "asc" }], out);
+
+    const lines = csvLines(text());
+    expect(lines[1]).toContain(`,"'=HYPERLINK(""http://x"")",`);
+    expect(lines[2]).toContain(",'+1 call me,");
+    expect(lines[3]).toContain(",'-5 degrees,");
+    expect(lines[4]).toContain(",'@SUM(A1),");
+    expect(lines[5]).toContain(",ok = fine,");
+  });
+
+  it("quotes commas, quotes and line breaks and leaves gaps empty", async () => {
+    db.request.findMany.mockResolvedValueOnce([
+      request(1, { description: 'Door, "front"\nstuck', tenant: null }),
+    ]);
+    const { out, text } = sink();
+
+    await exportRequests("csv", {}, [{ id: "asc" }], out);
+
+    expect(text()).toContain(`,"Door, ""front""\nstuck",`);
+    expect(text()).toContain("Maple Court,North,2B,,,plumbing");
+  });
+
+  it("pages through every batch after the last id", async () => {
+    const first = Array.from({ length: 500 }, (_, i) => request(i + 1));
+    db.request.findMany
+      .mockResolvedValueOnce(first)
+      .mockResolvedValueOnce([request(501)]);
+    const { out, text } = sink();
+
+    await exportRequests("csv", {}, [{ id: "asc" }], out);
+
+    expect(csvLines(text())).toHaveLength(503);
+    expect(db.request.findMany).toHaveBeenCalledTimes(2);
+    expect(db.request.findMany.mock.calls[1][0]).toMatchObject({
+      cursor: { id: 500 },
+      skip: 1,
+      take: 500,
+    });
+  });
+
+  it("stops when the download is aborted while waiting", async () => {
+    const big = "x".repeat(4096);
+    db.request.findMany.mockResolvedValue(
+      Array.from({ length: 500 }, (_, i) =>
+        request(i + 1, { description: big })
+      )
+    );
+    const out = stalled();
+
+    const exporting = exportRequests("csv", {}, [{ id: "asc" }], out);
+    await vi.waitFor(() => expect(out.writableNeedDrain).toBe(true));
+    out.destroy();
+
+    await expect(exporting).rejects.toBeInstanceOf(ExportAbortedError);
+    expect(db.request.findMany).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("XLSX export", () => {
+  it("writes a whole workbook across batches", async () => {
+    db.request.findMany
+      .mockResolvedValueOnce(
+        Array.from({ length: 500 }, (_, i) => request(i + 1))
+      )
+      .mockResolvedValueOnce([request(501)]);
+    const chunks: Buffer[] = [];
+    const out = new Writable({
+      write(chunk, _encoding, callback) {
+        chunks.push(chunk);
+        callback();
+      },
+    });
+
+    await exportRequests("xlsx", {}, [{ id: "asc" }], out);
+
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.read(Readable.from([Buffer.concat(chunks)]));
+    const sheet = workbook.getWorksheet("Requests")!;
+    expect(sheet.rowCount).toBe(502);
+    expect(sheet.getRow(502).getCell(1).value).toBe(501);
+  });
+
+  it("waits for the client before fetching the next batch", async () => {
+    const big = "x".repeat(2000);
+    db.request.findMany.mockImplementation(async () =>
+      Array.from({ length: 500 }, (_, i) =>
+        request(i + 1, { description: `${i}${big}` })
+      )
+    );
+    const out = stalled();
+
+    const exporting = exportRequests("xlsx", {}, [{ id: "asc" }], out);
+    await vi.waitFor(() => expect(out.writableNeedDrain).toBe(true));
+    // A batch already being written may still go out, but no more after it
+    const fetched = db.request.findMany.mock.calls.length;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(db.request.findMany.mock.calls.length).toBeLessThanOrEqual(
+      fetched + 1
+    );
+
+    out.destroy();
+    await expect(exporting).rejects.toBeInstanceOf(ExportAbortedError);
+  });
+});
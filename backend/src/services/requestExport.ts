@@ -0,0 +1,268 @@
+import { once } from "events";
+import { Writable } from "stream";
+import ExcelJS from "exceljs";
+import { Prisma, PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export const exportFormats = ["csv", "xlsx"] as const;
+export type ExportFormat = (typeof exportFormats)[number];
+
+export const exportContentTypes: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// Rows fetched per query; only one batch is in memory at a time
+const batchSize = 500;
+
+// The client went away mid-download; nothing more can be sent
+export class ExportAbortedError extends Error {}
+
+const exportInclude = {
+  tenant: { select: { name: true, email: true } },
+  unit: {
+    select: {
+      number: true,
+      building: {
+        select: { name: true, property: { select: { name: true } } },
+      },
+    },
+  },
+  assignee: { select: { name: true } },
+} satisfies Prisma.RequestInclude;
+
+type ExportRequest = Prisma.RequestGetPayload<{
+  include: typeof exportInclude;
+}>;
+
+type Cell = string | number | Date | null;
+
+// Hours from one pipeline step to another, to one decimal
+function hoursBetween(from: Date | null, to: Date | null) {
+  if (!from || !to) return null;
+  return Math.round((to.getTime() - from.getTime()) / 360000) / 10;
+}
+
+// "workflowId:key" → state label; requests without a workflow use the
+// default one's labels
+async function loadStatusLabels() {
+  const states = await prisma.workflowState.findMany({
+    include: { workflow: { select: { isDefault: true } } },
+  });
+  const labels = new Map<string, string>();
+  for (const s of states) {
+    labels.set(`${s.workflowId}:${s.key}`, s.label);
+    if (s.workflow.isDefault) labels.set(`null:${s.key}`, s.label);
+  }
+  return labels;
+}
+
+// Spreadsheet columns, in order
+function exportColumns(statusLabels: Map<string, string>): {
+  header: string;
+  width: number;
+  date?: boolean;
+  value: (r: ExportRequest) => Cell;
+}[] {
+  const start = (r: ExportRequest) => r.inQueueAt ?? r.createdAt;
+  return [
+    { header: "ID", width: 8, value: (r) => r.id },
+    {
+      header: "Property",
+      width: 20,
+      value: (r) => r.unit.building.property.name,
+    },
+    { header: "Building", width: 16, value: (r) => r.unit.building.name },
+    { header: "Unit", width: 8, value: (r) => r.unit.number },
+    { header: "Tenant", width: 20, value: (r) => r.tenant?.name ?? null },
+    {
+      header: "Tenant email",
+      width: 26,
+      value: (r) => r.tenant?.email ?? null,
+    },
+    { header: "Category", width: 14, value: (r) => r.category },
+    { header: "Priority", width: 10, value: (r) => r.priority },
+    {
+      header: "Status",
+      width: 18,
+      value: (r) => statusLabels.get(`${r.workflowId}:${r.status}`) ?? r.status,
+    },
+    { header: "Assignee", width: 18, value: (r) => r.assignee?.name ?? null },
+    { header: "Description", width: 40, value: (r) => r.description },
+    { header: "Created", width: 18, date: true, value: (r) => r.createdAt },
+    { header: "In queue", width: 18, date: true, value: (r) => r.inQueueAt },
+    { header: "Viewed", width: 18, date: true, value: (r) => r.viewedAt },
+    {
+      header: "Maintenance requested",
+      width: 18,
+      date: true,
+      value: (r) => r.maintenanceRequestedAt,
+    },
+    {
+      header: "Implementing actions",
+      width: 18,
+      date: true,
+      value: (r) => r.implementingActionsAt,
+    },
+    {
+      header: "Completed",
+      width: 18,
+      date: true,
+      value: (r) => r.completedAt,
+    },
+    {
+      header: "Last updated",
+      width: 18,
+      date: true,
+      value: (r) => r.updatedAt,
+    },
+    {
+      header: "Hours to view",
+      width: 10,
+      value: (r) => hoursBetween(start(r), r.viewedAt),
+    },
+    {
+      header: "Hours to start work",
+      width: 10,
+      value: (r) => hoursBetween(start(r), r.implementingActionsAt),
+    },
+    {
+      header: "Hours to complete",
+      width: 10,
+      value: (r) => hoursBetween(start(r), r.completedAt),
+    },
+    { header: "SLA", width: 10, value: (r) => r.slaStatus },
+  ];
+}
+
+// Walks every matching request in `orderBy` order, one batch at a time,
+// and stops paging once `out` has closed
+async function* requestBatches(
+  where: Prisma.RequestWhereInput,
+  orderBy: Prisma.RequestOrderByWithRelationInput[],
+  out: Writable
+) {
+  let cursor: number | null = null;
+  for (;;) {
+    if (out.destroyed) throw new ExportAbortedError();
+    const batch: ExportRequest[] = await prisma.request.findMany({
+      where,
+      include: exportInclude,
+      orderBy,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      take: batchSize,
+    });
+    if (batch.length > 0) yield batch;
+    if (batch.length < batchSize) return;
+    cursor = batch[batch.length - 1].id;
+  }
+}
+
+function csvField(value: Cell) {
+  if (value === null) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  // Keep spreadsheet apps from running text that looks like a formula
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Waits until the stream's buffer has room again. An aborted download
+// closes the stream instead of draining it, so closing ends the wait too.
+async function drained(out: Writable) {
+  if (out.destroyed) throw new ExportAbortedError();
+  if (!out.writableNeedDrain) return;
+
+  const waiting = new AbortController();
+  try {
+    await Promise.race([
+      once(out, "drain", { signal: waiting.signal }),
+      once(out, "close", { signal: waiting.signal }).then(() => {
+        throw new ExportAbortedError();
+      }),
+    ]);
+  } finally {
+    // Drops the listener that lost the race
+    waiting.abort();
+  }
+}
+
+// Writes a string to the stream, waiting whenever its buffer is full
+async function write(out: Writable, chunk: string) {
+  if (out.destroyed) throw new ExportAbortedError();
+  out.write(chunk);
+  await drained(out);
+}
+
+// The workbook compresses rows on the thread pool and hands them to `out`
+// a few ticks later, so a full buffer only shows once the zip stream stops
+// making progress. Waiting for that after each batch keeps a slow client
+// from making the whole file pile up in memory.
+async function zipped(
+  workbook: ExcelJS.stream.xlsx.WorkbookWriter,
+  out: Writable
+) {
+  // Not in the typings; the archiver instance piped to `out`
+  const zip = (workbook as unknown as { zip: { pointer(): number } }).zip;
+  for (;;) {
+    const sent = zip.pointer();
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    if (out.writableNeedDrain || out.destroyed) return drained(out);
+    if (zip.pointer() === sent) return;
+  }
+}
+
+// Streams the requests matching `where` to `out` as CSV or XLSX. The
+// caller sets the response headers and adds the organization and scope to
+// `where`.
+export async function exportRequests(
+  format: ExportFormat,
+  where: Prisma.RequestWhereInput,
+  orderBy: Prisma.RequestOrderByWithRelationInput[],
+  out: Writable
+) {
+  const columns = exportColumns(await loadStatusLabels());
+
+  if (format === "csv") {
+    // The byte order mark makes Excel read the file as UTF-8
+    await write(
+      out,
+      "\uFEFF" + columns.map((c) => csvField(c.header)).join(",")
+    );
+    for await (const batch of requestBatches(where, orderBy, out)) {
+      const lines = batch.map((r) =>
+        columns.map((c) => csvField(c.value(r))).join(",")
+      );
+      await write(out, "\r\n" + lines.join("\r\n"));
+    }
+    await write(out, "\r\n");
+    out.end();
+    return;
+  }
+
+  const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+    stream: out,
+    useStyles: true,
+  });
+  const sheet = workbook.addWorksheet("Requests", {
+    views: [{ state: "frozen", ySplit: 1 }],
+  });
+  sheet.columns = columns.map((c) => ({
+    header: c.header,
+    width: c.width,
+    ...(c.date ? { style: { numFmt: "yyyy-mm-dd hh:mm" } } : {}),
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.getRow(1).commit();
+
+  for await (const batch of requestBatches(where, orderBy, out)) {
+    for (const r of batch) {
+      sheet.addRow(columns.map((c) => c.value(r))).commit();
+    }
+    await zipped(workbook, out);
+  }
+  sheet.commit();
+  await workbook.commit();
+}
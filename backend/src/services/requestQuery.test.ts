@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  workflowState: { findMany: vi.fn() },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  RequestQueryError,
+  parseRequestQuery,
+  terminalStatusWhere,
+} from "./requestQuery";
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.workflowState.findMany.mockResolvedValue([
+    { key: "completed", workflowId: 1, workflow: { isDefault: true } },
+    { key: "done", workflowId: 2, workflow: { isDefault: false } },
+  ]);
+});
+
+describe("paging", () => {
+  it("defaults to the newest 50 with id breaking ties", async () => {
+    expect(await parseRequestQuery({}, 3)).toEqual({
+      where: { AND: [] },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      limit: 50,
+      cursor: null,
+    });
+  });
+
+  it("sorts by id alone without a tie-breaker", async () => {
+    const query = await parseRequestQuery({ sort: "id", dir: "asc" }, 3);
+    expect(query.orderBy).toEqual([{ id: "asc" }]);
+  });
+
+  it("reads the cursor and page size", async () => {
+    const query = await parseRequestQuery(
+      { sort: "priority", dir: "asc", limit: "20", cursor: "140" },
+      3
+    );
+    expect(query).toMatchObject({
+      orderBy: [{ priority: "asc" }, { id: "asc" }],
+      limit: 20,
+      cursor: 140,
+    });
+  });
+
+  it("rejects bad cursors, limits and sort orders", async () => {
+    const bad = [
+      { cursor: "abc" },
+      { cursor: "0" },
+      { cursor: "1.5" },
+      { limit: "0" },
+      { limit: "201" },
+      { limit: "ten" },
+      { sort: "description" },
+      { dir: "up" },
+    ];
+    for (const params of bad) {
+      await expect(parseRequestQuery(params, 3)).rejects.toBeInstanceOf(
+        RequestQueryError
+      );
+    }
+  });
+});
+
+describe("filters", () => {
+  it("combines lists, ids and case-insensitive text", async () => {
+    const { where } = await parseRequestQuery(
+      {
+        status: "in_queue, viewed",
+        priority: "high,emergency",
+        category: " Plumbing ",
+        propertyId: "4",
+      },
+      3
+    );
+    expect(where).toEqual({
+      AND: [
+        { status: { in: ["in_queue", "viewed"] } },
+        { priority: { in: ["high", "emergency"] } },
+        { category: { equals: "Plumbing", mode: "insensitive" } },
+        { unit: { building: { propertyId: 4 } } },
+      ],
+    });
+  });
+
+  it("refuses priorities that don't exist", async () => {
+    await expect(
+      parseRequestQuery({ priority: "high,urgent" }, 3)
+    ).rejects.toThrow("Invalid priority: urgent");
+  });
+
+  it("covers the whole day for a bare end date", async () => {
+    const { where } = await parseRequestQuery(
+      { createdFrom: "2026-03-01", createdTo: "2026-03-02" },
+      3
+    );
+    expect(where).toEqual({
+      AND: [
+        {
+          createdAt: {
+            gte: new Date("2026-03-01T00:00:00Z"),
+            lt: new Date("2026-03-03T00:00:00Z"),
+          },
+        },
+      ],
+    });
+  });
+
+  it("splits open and closed on each workflow's terminal states", async () => {
+    const terminal = {
+      OR: [
+        { workflowId: 1, status: "completed" },
+        { workflowId: null, status: "completed" },
+        { workflowId: 2, status: "done" },
+      ],
+    };
+    expect(await terminalStatusWhere()).toEqual(terminal);
+    expect((await parseRequestQuery({ open: "true" }, 3)).where).toEqual({
+      AND: [{ NOT: terminal }],
+    });
+    expect((await parseRequestQuery({ open: "false" }, 3)).where).toEqual({
+      AND: [terminal],
+    });
+    await expect(parseRequestQuery({ open: "yes" }, 3)).rejects.toThrow(
+      "open must be true or false"
+    );
+  });
+
+  it("matches nothing when the search is only punctuation", async () => {
+    const { where } = await parseRequestQuery({ q: "?!" }, 3);
+    expect(where).toEqual({ AND: [{ id: { in: [] } }] });
+  });
+});
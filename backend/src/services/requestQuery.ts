@@ -0,0 +1,210 @@
+import { Prisma, Priority, PrismaClient } from "@prisma/client";
+import { requestSearchWhere } from "./search";
+
+const prisma = new PrismaClient();
+
+const priorities = Object.values(Priority);
+
+// Columns the manager table can sort by; id breaks ties so the order (and
+// the cursor) is stable
+export const sortFields = [
+  "createdAt",
+  "updatedAt",
+  "priority",
+  "status",
+  "category",
+  "id",
+] as const;
+export type SortField = (typeof sortFields)[number];
+
+const defaultLimit = 50;
+const maxLimit = 200;
+
+export class RequestQueryError extends Error {}
+
+export type RequestQuery = {
+  where: Prisma.RequestWhereInput;
+  orderBy: Prisma.RequestOrderByWithRelationInput[];
+  limit: number;
+  cursor: number | null;
+};
+
+type QueryParams = Record<string, unknown>;
+
+function text(params: QueryParams, name: string) {
+  const value = params[name];
+  return typeof value === "string" && value.trim() ? value.trim() : null;
+}
+
+// Comma-separated list, e.g. status=in_queue,viewed
+function list(params: QueryParams, name: string) {
+  const value = text(params, name);
+  return value
+    ? value
+        .split(",")
+        .map((v) => v.trim())
+        .filter(Boolean)
+    : null;
+}
+
+function id(params: QueryParams, name: string) {
+  const value = text(params, name);
+  if (value === null) return null;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new RequestQueryError(`${name} must be an id`);
+  }
+  return parsed;
+}
+
+// Dates are ISO strings; a bare date as the upper bound covers that whole day
+function dateRange(params: QueryParams, from: string, to: string) {
+  const range: Prisma.DateTimeFilter = {};
+  const start = text(params, from);
+  const end = text(params, to);
+
+  if (start) {
+    const date = new Date(start);
+    if (Number.isNaN(date.getTime())) {
+      throw new RequestQueryError(`${from} must be a date`);
+    }
+    range.gte = date;
+  }
+  if (end) {
+    const date = new Date(end);
+    if (Number.isNaN(date.getTime())) {
+      throw new RequestQueryError(`${to} must be a date`);
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(end)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      range.lt = date;
+    } else {
+      range.lte = date;
+    }
+  }
+  return start || end ? range : null;
+}
+
+// Requests whose status is a terminal state of their workflow. Requests
+// without a workflow follow the default one.
+export async function terminalStatusWhere(): Promise<Prisma.RequestWhereInput> {
+  const states = await prisma.workflowState.findMany({
+    where: { isTerminal: true },
+    select: {
+      key: true,
+      workflowId: true,
+      workflow: { select: { isDefault: true } },
+    },
+  });
+  return {
+    OR: states.flatMap((s) => [
+      { workflowId: s.workflowId, status: s.key },
+      ...(s.workflow.isDefault ? [{ workflowId: null, status: s.key }] : []),
+    ]),
+  };
+}
+
+// Turns the query string of GET /requests (and anything listing requests
+// the same way) into a Prisma filter, order and page. The caller adds the
+// organization and property scope. Throws RequestQueryError for bad input.
+//
+// Filters: status (comma list of state keys), open (true = non-terminal,
+// false = terminal), priority (comma list), category, propertyId,
+// buildingId, unitId, tenantId, tenant (name or email contains),
+// createdFrom/createdTo, updatedFrom/updatedTo, completedFrom/completedTo,
+// scheduledFrom/scheduledTo (accepted visit date), q (prefix search on description, category, unit and tenant; see
+// services/search.ts).
+// Paging: sort (one of sortFields), dir (asc | desc), limit, cursor.
+export async function parseRequestQuery(
+  params: QueryParams,
+  organizationId: number
+): Promise<RequestQuery> {
+  const filters: Prisma.RequestWhereInput[] = [];
+
+  const statuses = list(params, "status");
+  if (statuses) filters.push({ status: { in: statuses } });
+
+  const open = text(params, "open");
+  if (open === "true" || open === "false") {
+    const terminal = await terminalStatusWhere();
+    filters.push(open === "true" ? { NOT: terminal } : terminal);
+  } else if (open !== null) {
+    throw new RequestQueryError("open must be true or false");
+  }
+
+  const wantedPriorities = list(params, "priority");
+  if (wantedPriorities) {
+    const invalid = wantedPriorities.find(
+      (p) => !priorities.includes(p as Priority)
+    );
+    if (invalid) {
+      throw new RequestQueryError(`Invalid priority: ${invalid}`);
+    }
+    filters.push({ priority: { in: wantedPriorities as Priority[] } });
+  }
+
+  const category = text(params, "category");
+  if (category) {
+    filters.push({ category: { equals: category, mode: "insensitive" } });
+  }
+
+  const unitId = id(params, "unitId");
+  const buildingId = id(params, "buildingId");
+  const propertyId = id(params, "propertyId");
+  if (unitId) filters.push({ unitId });
+  if (buildingId) filters.push({ unit: { buildingId } });
+  if (propertyId) filters.push({ unit: { building: { propertyId } } });
+
+  const tenantId = id(params, "tenantId");
+  if (tenantId) filters.push({ tenantId });
+  const tenant = text(params, "tenant");
+  if (tenant) {
+    filters.push({
+      tenant: {
+        OR: [
+          { name: { contains: tenant, mode: "insensitive" } },
+          { email: { contains: tenant, mode: "insensitive" } },
+        ],
+      },
+    });
+  }
+
+  const created = dateRange(params, "createdFrom", "createdTo");
+  if (created) filters.push({ createdAt: created });
+  const updated = dateRange(params, "updatedFrom", "updatedTo");
+  if (updated) filters.push({ updatedAt: updated });
+  const completed = dateRange(params, "completedFrom", "completedTo");
+  if (completed) filters.push({ completedAt: completed });
+  const scheduled = dateRange(params, "scheduledFrom", "scheduledTo");
+  if (scheduled) filters.push({ scheduledVisitDate: scheduled });
+
+  const search = text(params, "q");
+  if (search) {
+    // Punctuation alone matches nothing
+    filters.push(
+      requestSearchWhere(organizationId, search) ?? { id: { in: [] } }
+    );
+  }
+
+  const sort = (text(params, "sort") ?? "createdAt") as SortField;
+  if (!sortFields.includes(sort)) {
+    throw new RequestQueryError(`sort must be one of ${sortFields.join(", ")}`);
+  }
+  const dir = text(params, "dir") ?? "desc";
+  if (dir !== "asc" && dir !== "desc") {
+    throw new RequestQueryError("dir must be asc or desc");
+  }
+
+  const limitParam = text(params, "limit");
+  const limit = limitParam === null ? defaultLimit : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > maxLimit) {
+    throw new RequestQueryError(`limit must be between 1 and ${maxLimit}`);
+  }
+
+  return {
+    where: { AND: filters },
+    orderBy: sort === "id" ? [{ id: dir }] : [{ [sort]: dir }, { id: dir }],
+    limit,
+    cursor: id(params, "cursor"),
+  };
+}
@@ -0,0 +1,182 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  $queryRaw: vi.fn(),
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { prefixQuery, requestSearchWhere, searchRequests } from "./search";
+
+// The SQL text of the nth raw query, placeholders shown as "?"
+const sqlOf = (n: number) =>
+  (db.$queryRaw.mock.calls[n][0] as TemplateStringsArray).join("?");
+const valuesOf = (n: number) => db.$queryRaw.mock.calls[n].slice(1);
+
+const row = (id: number, rank: number, snippets: Partial<Row> = {}) => ({
+  id,
+  rank,
+  total: BigInt(3),
+  requestSnippet: "Kitchen tap dripping",
+  commentSnippet: null,
+  ...snippets,
+});
+type Row = {
+  requestSnippet: string;
+  commentSnippet: string | null;
+};
+
+beforeEach(() => {
+  vi.resetAllMocks();
+});
+
+describe("prefixQuery", () => {
+  it("matches every word as a prefix", () => {
+    expect(prefixQuery("Kitch LEAK")).toBe("kitch:* & leak:*");
+  });
+
+  it("treats punctuation as a separator so it can't break the query", () => {
+    expect(prefixQuery("o'brien & (sink) | !")).toBe("o:* & brien:* & sink:*");
+    expect(prefixQuery("?!:*")).toBeNull();
+  });
+
+  it("keeps letters and digits from any script", () => {
+    expect(prefixQuery("Wohnung 2B Küche")).toBe("wohnung:* & 2b:* & küche:*");
+  });
+
+  it("caps long searches at eight words", () => {
+    const query = prefixQuery("a b c d e f g h i j");
+    expect(query?.split(" & ")).toHaveLength(8);
+  });
+});
+
+describe("requestSearchWhere", () => {
+  it("needs each word to start one of the request's terms", () => {
+    expect(requestSearchWhere(3, "kitch leak")).toEqual({
+      AND: [
+        {
+          searchTerms: {
+            some: { organizationId: 3, term: { startsWith: "kitch" } },
+          },
+        },
+        {
+          searchTerms: {
+            some: { organizationId: 3, term: { startsWith: "leak" } },
+          },
+        },
+      ],
+    });
+    expect(requestSearchWhere(3, "--")).toBeNull();
+  });
+});
+
+describe("searchRequests", () => {
+  it("runs no query when there is nothing to search for", async () => {
+    expect(
+      await searchRequests(3, "all", "  ", { limit: 20, offset: 0 })
+    ).toEqual({ hits: [], total: 0 });
+    expect(db.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("ranks comment matches at half weight, best first", async () => {
+    db.$queryRaw.mockResolvedValue([]);
+
+    await searchRequests(3, [4], "leak", { limit: 20, offset: 0 });
+
+    const sql = sqlOf(0);
+    expect(sql).toContain("COALESCE(ch.rank, 0) * 0.5");
+    expect(sql).toContain('ORDER BY rank DESC, r."id" DESC');
+    expect(sql).toContain('cr."organizationId" = ?');
+    expect(valuesOf(0)).toEqual(expect.arrayContaining(["leak:*", 3, 20, 0]));
+  });
+
+  it("keeps the search within the user's properties", async () => {
+    db.$queryRaw.mockResolvedValue([]);
+
+    await searchRequests(3, [4, 6], "leak", { limit: 20, offset: 0 });
+
+    const scope = valuesOf(0).find(
+      (v) => typeof v === "object" && v !== null && "strings" in v
+    );
+    expect(scope.strings.join("?")).toContain('"propertyId"');
+    expect(scope.values).toEqual(expect.arrayContaining([3, 4, 6]));
+  });
+
+  it("returns the rows in rank order with their highlights", async () => {
+    db.$queryRaw.mockResolvedValue([
+      row(7, 0.6, { requestSnippet: "Kitchen [[[leak]]] under sink" }),
+      row(5, 0.2, {
+        requestSnippet: "Tap dripping",
+        commentSnippet: "Still [[[leaking]]] after the visit",
+      }),
+    ]);
+
+    const result = await searchRequests(3, "all", "leak", {
+      limit: 20,
+      offset: 0,
+    });
+
+    expect(result.total).toBe(3);
+    expect(result.hits).toEqual([
+      {
+        id: 7,
+        rank: 0.6,
+        source: "request",
+        snippet: [
+          { text: "Kitchen ", match: false },
+          { text: "leak", match: true },
+          { text: " under sink", match: false },
+        ],
+      },
+      {
+        id: 5,
+        rank: 0.2,
+        source: "comment",
+        snippet: [
+          { text: "Still ", match: false },
+          { text: "leaking", match: true },
+          { text: " after the visit", match: false },
+        ],
+      },
+    ]);
+  });
+
+  it("counts matches on their own past the last page", async () => {
+    db.$queryRaw
+      .mockResolvedValueOnce([])
+      .mockResolvedValueOnce([{ total: BigInt(12) }]);
+
+    const result = await searchRequests(3, "all", "leak", {
+      limit: 20,
+      offset: 40,
+    });
+
+    expect(result).toEqual({ hits: [], total: 12 });
+    expect(sqlOf(1)).toContain("COUNT(*)");
+  });
+});
+
+describe("request search vector", () => {
+  // The trigger is SQL; its latest definition is the one in effect
+  const migrations = path.join(__dirname, "../../prisma/migrations");
+  const latestTrigger = () =>
+    readdirSync(migrations)
+      .filter((name) => /^\d+_/.test(name))
+      .sort()
+      .map((dir) =>
+        readFileSync(path.join(migrations, dir, "migration.sql"), "utf8")
+      )
+      .filter((sql) => sql.includes('FUNCTION "request_search_vector"()'))
+      .pop()!;
+
+  it("still indexes requests that have no tenant", () => {
+    const sql = latestTrigger();
+    expect(sql).toContain('LEFT JOIN "User" t ON t."id" = NEW."tenantId"');
+    expect(sql).toMatch(/coalesce\(\s*t\."name"/);
+  });
+});
@@ -0,0 +1,183 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { PropertyScope, requestScopeSql } from "./permissions";
+
+const prisma = new PrismaClient();
+
+// Highlight markers for ts_headline; split out again before anything reaches
+// the client, so the response never carries markup
+const startSel = "[[[";
+const stopSel = "]]]";
+const headlineOptions = `StartSel="${startSel}", StopSel="${stopSel}", MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Longer input is cut off rather than turned into a huge query
+const maxWords = 8;
+
+export type SnippetPart = { text: string; match: boolean };
+
+export type SearchHit = {
+  id: number;
+  rank: number;
+  // Where the best snippet came from
+  source: "request" | "comment";
+  snippet: SnippetPart[];
+};
+
+// The words of a search, lowercased. Punctuation only separates words, so
+// nothing typed can break a query. Longer input is cut off.
+function searchWords(search: string) {
+  const words = search.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.slice(0, maxWords);
+}
+
+// Turns what the user typed into a tsquery where every word matches as a
+// prefix: "kitch leak" finds "leaking kitchen sink". Returns null when there
+// is nothing to search for.
+export function prefixQuery(search: string) {
+  const words = searchWords(search);
+  if (words.length === 0) return null;
+  return words.map((w) => `${w}:*`).join(" & ");
+}
+
+// Prisma filter for the organization's requests whose description,
+// category, unit or tenant match the search, with the same prefix rule as
+// prefixQuery. Null when there is nothing to search for.
+export function requestSearchWhere(
+  organizationId: number,
+  search: string
+): Prisma.RequestWhereInput | null {
+  const words = searchWords(search);
+  if (words.length === 0) return null;
+  return {
+    AND: words.map((word) => ({
+      searchTerms: { some: { organizationId, term: { startsWith: word } } },
+    })),
+  };
+}
+
+function snippetParts(headline: string): SnippetPart[] {
+  const parts: SnippetPart[] = [];
+  let rest = headline;
+  while (rest) {
+    const start = rest.indexOf(startSel);
+    const stop = start === -1 ? -1 : rest.indexOf(stopSel, start);
+    if (stop === -1) {
+      parts.push({ text: rest, match: false });
+      break;
+    }
+    if (start > 0) parts.push({ text: rest.slice(0, start), match: false });
+    parts.push({
+      text: rest.slice(start + startSel.length, stop),
+      match: true,
+    });
+    rest = rest.slice(stop + stopSel.length);
+  }
+  return parts;
+}
+
+// Ranked search over every request in the organization (and scope), open or
+// closed, including the comments on them. A comment match counts for half
+// as much as a match on the request itself. Returns one page of hits, best
+// first, and the total number of matching requests.
+export async function searchRequests(
+  organizationId: number,
+  scope: PropertyScope,
+  search: string,
+  page: { limit: number; offset: number }
+): Promise<{ hits: SearchHit[]; total: number }> {
+  const query = prefixQuery(search);
+  if (!query) return { hits: [], total: 0 };
+
+  const rows = await prisma.$queryRaw<
+    {
+      id: number;
+      rank: number;
+      total: bigint;
+      requestSnippet: string;
+      commentSnippet: string | null;
+    }[]
+  >`
+    WITH q AS (SELECT to_tsquery('simple', ${query}) AS query),
+    comment_hits AS (
+      SELECT DISTINCT ON (c."requestId")
+        c."requestId", c."body", ts_rank_cd(c."searchVector", q.query) AS rank
+      FROM "RequestComment" c
+      JOIN "Request" cr ON cr."id" = c."requestId"
+      CROSS JOIN q
+      WHERE cr."organizationId" = ${organizationId}
+        AND c."searchVector" @@ q.query
+      ORDER BY c."requestId", rank DESC
+    ),
+    hits AS (
+      SELECT
+        r."id",
+        r."description",
+        ch."body" AS "commentBody",
+        (CASE WHEN r."searchVector" @@ q.query
+          THEN ts_rank_cd(r."searchVector", q.query) ELSE 0 END
+          + COALESCE(ch.rank, 0) * 0.5)::float8 AS rank,
+        COUNT(*) OVER () AS total
+      FROM "Request" r
+      CROSS JOIN q
+      LEFT JOIN comment_hits ch ON ch."requestId" = r."id"
+      WHERE ${requestScopeSql(organizationId, scope)}
+        AND (r."searchVector" @@ q.query OR ch."requestId" IS NOT NULL)
+      ORDER BY rank DESC, r."id" DESC
+      LIMIT ${page.limit} OFFSET ${page.offset}
+    )
+    SELECT
+      h."id",
+      h.rank,
+      h.total,
+      ts_headline('simple', h."description", q.query, ${headlineOptions}) AS "requestSnippet",
+      CASE WHEN h."commentBody" IS NULL THEN NULL
+        ELSE ts_headline('simple', h."commentBody", q.query, ${headlineOptions})
+      END AS "commentSnippet"
+    FROM hits h
+    CROSS JOIN q
+    ORDER BY h.rank DESC, h."id" DESC
+  `;
+
+  const hits = rows.map((row): SearchHit => {
+    // Prefer the description; show the matching comment instead when the
+    // description has nothing to highlight
+    const request = snippetParts(row.requestSnippet);
+    const useComment =
+      row.commentSnippet !== null && !request.some((p) => p.match);
+    return {
+      id: row.id,
+      rank: row.rank,
+      source: useComment ? "comment" : "request",
+      snippet: useComment ? snippetParts(row.commentSnippet!) : request,
+    };
+  });
+
+  // The window count rides on every row; past the last page there are no
+  // rows to carry it, so it is counted on its own
+  const total =
+    rows.length > 0
+      ? Number(rows[0].total)
+      : page.offset > 0
+        ? await countMatches(organizationId, scope, query)
+        : 0;
+  return { hits, total };
+}
+
+// How many requests searchRequests would find in all, over every page
+async function countMatches(
+  organizationId: number,
+  scope: PropertyScope,
+  query: string
+) {
+  const [row] = await prisma.$queryRaw<{ total: bigint }[]>`
+    WITH q AS (SELECT to_tsquery('simple', ${query}) AS query)
+    SELECT COUNT(*) AS total
+    FROM "Request" r
+    CROSS JOIN q
+    WHERE ${requestScopeSql(organizationId, scope)}
+      AND (r."searchVector" @@ q.query OR EXISTS (
+        SELECT 1 FROM "RequestComment" c
+        WHERE c."requestId" = r."id" AND c."searchVector" @@ q.query
+      ))
+  `;
+  return Number(row.total);
+}
@@ -0,0 +1,188 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  session: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  activeSessionIds,
+  onSessionsRevoked,
+  revokeAllSessions,
+  revokeSession,
+  rotateSession,
+  signAccessToken,
+} from "./sessions";
+
+const secret = "test-secret-that-is-long-enough-for-config";
+const now = new Date("2026-03-02T10:00:00Z");
+
+const hash = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const session = (overrides = {}) => ({
+  id: "s1",
+  userId: 7,
+  refreshTokenHash: hash("current"),
+  previousTokenHash: hash("previous"),
+  revokedAt: null,
+  expiresAt: new Date("2026-04-01T00:00:00Z"),
+  lastUsedAt: new Date("2026-03-01T00:00:00Z"),
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.useFakeTimers();
+  vi.setSystemTime(now);
+  process.env.JWT_SECRET = secret;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("signAccessToken", () => {
+  it("carries the user, organization and session", () => {
+    const { token, expiresIn } = signAccessToken(
+      { id: 7, role: "manager", organizationId: 3 },
+      "s1"
+    );
+    const payload = jwt.verify(token, secret) as jwt.JwtPayload;
+    expect(payload).toMatchObject({ id: 7, role: "manager", orgId: 3 });
+    expect(payload.sid).toBe("s1");
+    expect(payload.exp! - payload.iat!).toBe(expiresIn);
+  });
+});
+
+describe("rotateSession", () => {
+  it("swaps the refresh token, guarded on the current hash", async () => {
+    db.session.findUnique.mockResolvedValueOnce(session());
+    db.session.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await rotateSession("current");
+
+    expect(result).not.toBeNull();
+    expect(result).not.toBe("raced");
+    const { refreshToken } = result as { refreshToken: string };
+    expect(refreshToken).not.toBe("current");
+    expect(db.session.updateMany).toHaveBeenCalledWith({
+      where: { id: "s1", refreshTokenHash: hash("current"), revokedAt: null },
+      data: expect.objectContaining({
+        refreshTokenHash: hash(refreshToken),
+        previousTokenHash: hash("current"),
+        lastUsedAt: now,
+      }),
+    });
+  });
+
+  it("reports a race when another request rotated first", async () => {
+    db.session.findUnique.mockResolvedValueOnce(session());
+    db.session.updateMany.mockResolvedValue({ count: 0 });
+
+    expect(await rotateSession("current")).toBe("raced");
+  });
+
+  it("refuses revoked and expired sessions", async () => {
+    db.session.findUnique.mockResolvedValueOnce(session({ revokedAt: now }));
+    expect(await rotateSession("current")).toBeNull();
+
+    db.session.findUnique.mockResolvedValueOnce(
+      session({ expiresAt: new Date("2026-03-01T00:00:00Z") })
+    );
+    expect(await rotateSession("current")).toBeNull();
+
+    expect(db.session.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("treats a replay right after rotation as a race", async () => {
+    db.session.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(
+        session({ lastUsedAt: new Date(now.getTime() - 5000) })
+      );
+
+    expect(await rotateSession("previous")).toBe("raced");
+    expect(db.session.update).not.toHaveBeenCalled();
+  });
+
+  it("revokes the session when an old token is replayed later", async () => {
+    const listener = vi.fn();
+    const stop = onSessionsRevoked(listener);
+    db.session.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce(
+        session({ lastUsedAt: new Date(now.getTime() - 60 * 1000) })
+      );
+
+    expect(await rotateSession("previous")).toBeNull();
+    expect(db.session.update).toHaveBeenCalledWith({
+      where: { id: "s1" },
+      data: { revokedAt: now },
+    });
+    expect(listener).toHaveBeenCalledWith({ userId: 7, sessionId: "s1" });
+    stop();
+  });
+
+  it("refuses unknown tokens", async () => {
+    db.session.findUnique.mockResolvedValue(null);
+    expect(await rotateSession("unknown")).toBeNull();
+  });
+});
+
+describe("revocation", () => {
+  it("announces one revoked session only when it was the user's", async () => {
+    const listener = vi.fn();
+    const stop = onSessionsRevoked(listener);
+
+    db.session.updateMany.mockResolvedValueOnce({ count: 1 });
+    expect(await revokeSession(7, "s1")).toBe(true);
+    db.session.updateMany.mockResolvedValueOnce({ count: 0 });
+    expect(await revokeSession(7, "someone-elses")).toBe(false);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ userId: 7, sessionId: "s1" });
+    stop();
+  });
+
+  it("announces revoking every session of a user", async () => {
+    const listener = vi.fn();
+    const stop = onSessionsRevoked(listener);
+    db.session.updateMany.mockResolvedValue({ count: 2 });
+
+    expect(await revokeAllSessions(7)).toBe(2);
+    expect(db.session.updateMany).toHaveBeenCalledWith({
+      where: { userId: 7, revokedAt: null },
+      data: { revokedAt: now },
+    });
+    expect(listener).toHaveBeenCalledWith({ userId: 7 });
+    stop();
+  });
+
+  it("finds which sessions are still active", async () => {
+    db.session.findMany.mockResolvedValue([{ id: "s1" }]);
+
+    const active = await activeSessionIds(["s1", "s2"]);
+
+    expect([...active]).toEqual(["s1"]);
+    expect(db.session.findMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: ["s1", "s2"] },
+        revokedAt: null,
+        expiresAt: { gt: now },
+      },
+      select: { id: true },
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import crypto from "crypto";
+import { EventEmitter } from "events";
+import jwt from "jsonwebtoken";
+import { PrismaClient } from "@prisma/client";
+import {
+  accessTokenTtlSeconds,
+  jwtSecret,
+  refreshTokenTtlDays,
+} from "../config";
+
+const prisma = new PrismaClient();
+
+// Two tabs refreshing at once both send the old cookie; a replay this soon
+// after rotation is treated as that race, not as a stolen token.
+const reuseGraceMs = 30 * 1000;
+
+const hashToken = (token: string) =>
+  crypto.createHash("sha256").update(token).digest("hex");
+
+const newRefreshToken = () => crypto.randomBytes(48).toString("base64url");
+
+const refreshExpiry = (from: Date) =>
+  new Date(from.getTime() + refreshTokenTtlDays() * 24 * 60 * 60 * 1000);
+
+export type SessionMeta = { userAgent?: string; ipAddress?: string };
+
+// Which sessions were just revoked: one of a user's, or (without a
+// sessionId) all of them
+export type SessionRevocation = { userId: number; sessionId?: string };
+
+// In-process notice of revocations, so connections that outlive a request
+// (live update streams) can close at once
+const revocations = new EventEmitter();
+
+export function onSessionsRevoked(
+  listener: (revocation: SessionRevocation) => void
+) {
+  revocations.on("revoked", listener);
+  return () => {
+    revocations.off("revoked", listener);
+  };
+}
+
+function announceRevocation(revocation: SessionRevocation) {
+  // A failing listener must not fail the logout that revoked the session
+  try {
+    revocations.emit("revoked", revocation);
+  } catch (err) {
+    console.error("Session revocation listener failed", err);
+  }
+}
+
+// The organization rides in the token as orgId; routes scope every query
+// to it
+export function signAccessToken(
+  user: { id: number; role: string; organizationId: number },
+  sessionId: string
+) {
+  const expiresIn = accessTokenTtlSeconds();
+  const token = jwt.sign(
+    {
+      id: user.id,
+      role: user.role,
+      orgId: user.organizationId,
+      sid: sessionId,
+    },
+    jwtSecret(),
+    {
+      expiresIn,
+    }
+  );
+  return { token, expiresIn };
+}
+
+export async function createSession(userId: number, meta: SessionMeta) {
+  const refreshToken = newRefreshToken();
+  const now = new Date();
+  const session = await prisma.session.create({
+    data: {
+      userId,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: meta.userAgent?.slice(0, 255) ?? null,
+      ipAddress: meta.ipAddress ?? null,
+      expiresAt: refreshExpiry(now),
+    },
+  });
+  return { session, refreshToken };
+}
+
+// Swaps a refresh token for a new one. Returns null when the token is
+// unknown, expired or revoked, and "raced" when another request rotated it
+// moments ago (the caller's cookie jar already has the new token).
+// Replaying an already-rotated token after that revokes the whole session.
+export async function rotateSession(refreshToken: string) {
+  const hash = hashToken(refreshToken);
+  const now = new Date();
+
+  const session = await prisma.session.findUnique({
+    where: { refreshTokenHash: hash },
+  });
+
+  if (!session) {
+    const replayed = await prisma.session.findUnique({
+      where: { previousTokenHash: hash },
+    });
+    if (!replayed || replayed.revokedAt) return null;
+    if (now.getTime() - replayed.lastUsedAt.getTime() <= reuseGraceMs) {
+      return "raced" as const;
+    }
+    await prisma.session.update({
+      where: { id: replayed.id },
+      data: { revokedAt: now },
+    });
+    announceRevocation({ userId: replayed.userId, sessionId: replayed.id });
+    return null;
+  }
+
+  if (session.revokedAt || session.expiresAt < now) return null;
+
+  const next = newRefreshToken();
+  const expiresAt = refreshExpiry(now);
+  // Guarded on the current hash so concurrent rotations succeed only once
+  const { count } = await prisma.session.updateMany({
+    where: { id: session.id, refreshTokenHash: hash, revokedAt: null },
+    data: {
+      refreshTokenHash: hashToken(next),
+      previousTokenHash: hash,
+      lastUsedAt: now,
+      expiresAt,
+    },
+  });
+  if (count !== 1) return "raced" as const;
+
+  return {
+    session: { ...session, lastUsedAt: now, expiresAt },
+    refreshToken: next,
+  };
+}
+
+export async function isSessionActive(sessionId: string) {
+  const session = await prisma.session.findUnique({
+    where: { id: sessionId },
+    select: { revokedAt: true, expiresAt: true },
+  });
+  return !!session && !session.revokedAt && session.expiresAt > new Date();
+}
+
+// The ones among `sessionIds` that are still active, in one query
+export async function activeSessionIds(sessionIds: string[]) {
+  const sessions = await prisma.session.findMany({
+    where: {
+      id: { in: sessionIds },
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: { id: true },
+  });
+  return new Set(sessions.map((s) => s.id));
+}
+
+export function listActiveSessions(userId: number) {
+  return prisma.session.findMany({
+    where: { userId, revokedAt: null, expiresAt: { gt: new Date() } },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+    },
+    orderBy: { lastUsedAt: "desc" },
+  });
+}
+
+// Revokes one of the user's sessions; false if it isn't theirs or is gone
+export async function revokeSession(userId: number, sessionId: string) {
+  const { count } = await prisma.session.updateMany({
+    where: { id: sessionId, userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  if (count === 1) announceRevocation({ userId, sessionId });
+  return count === 1;
+}
+
+export async function revokeAllSessions(userId: number) {
+  const { count } = await prisma.session.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  // Announced even when nothing was active: streams may still be open
+  announceRevocation({ userId });
+  return count;
+}
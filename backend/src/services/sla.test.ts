@@ -0,0 +1,229 @@
+import { Priority, SlaPolicy } from "@prisma/client";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  slaPolicy: { findMany: vi.fn() },
+  workflowState: { findMany: vi.fn() },
+  request: { findMany: vi.fn(), update: vi.fn() },
+  requestEvent: { create: vi.fn() },
+  $transaction: vi.fn(),
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import { checkSlas, evaluateSla, findSlaPolicy } from "./sla";
+
+const queued = new Date("2026-03-02T10:00:00Z");
+const minutes = (n: number) => new Date(queued.getTime() + n * 60 * 1000);
+
+const policy = (overrides: Partial<SlaPolicy> = {}): SlaPolicy => ({
+  id: 1,
+  organizationId: 3,
+  priority: "normal",
+  category: null,
+  viewMinutes: 60,
+  completeMinutes: 480,
+  createdAt: queued,
+  updatedAt: queued,
+  ...overrides,
+});
+
+const request = (overrides = {}) => ({
+  id: 12,
+  organizationId: 3,
+  workflowId: 1,
+  status: "in_queue",
+  priority: "normal" as Priority,
+  category: "plumbing",
+  slaStatus: "on_track" as const,
+  createdAt: new Date("2026-03-02T09:00:00Z"),
+  updatedAt: queued,
+  inQueueAt: queued,
+  viewedAt: null as Date | null,
+  completedAt: null as Date | null,
+  ...overrides,
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  db.workflowState.findMany.mockResolvedValue([
+    { workflowId: 1, key: "completed" },
+  ]);
+  db.requestEvent.create.mockImplementation(async ({ data }) => data);
+  db.$transaction.mockImplementation((fn) => fn(db));
+});
+
+describe("findSlaPolicy", () => {
+  const policies = [
+    policy({ id: 1 }),
+    policy({ id: 2, category: "plumbing", viewMinutes: 30 }),
+    policy({ id: 3, organizationId: 4, category: "electrical" }),
+    policy({ id: 4, priority: "high" }),
+  ];
+
+  it("prefers the category's policy over the priority-wide one", () => {
+    expect(findSlaPolicy(policies, request())?.id).toBe(2);
+    expect(findSlaPolicy(policies, request({ category: "hvac" }))?.id).toBe(1);
+  });
+
+  it("only uses the request's own organization's policies", () => {
+    const elsewhere = request({ organizationId: 5 });
+    expect(findSlaPolicy(policies, elsewhere)).toBeNull();
+    expect(
+      findSlaPolicy(policies, request({ category: "electrical" }))?.id
+    ).toBe(1);
+  });
+});
+
+describe("evaluateSla", () => {
+  it("measures from when the request was queued", () => {
+    expect(evaluateSla(request(), policy(), minutes(10))).toEqual({
+      status: "on_track",
+      target: "view",
+      viewDueAt: minutes(60),
+      completeDueAt: minutes(480),
+    });
+  });
+
+  it("falls back to the creation time for requests never queued", () => {
+    const legacy = request({ inQueueAt: null });
+    expect(evaluateSla(legacy, policy(), minutes(10)).viewDueAt).toEqual(
+      minutes(0)
+    );
+  });
+
+  it("flags a request at risk once three quarters of a target passed", () => {
+    expect(evaluateSla(request(), policy(), minutes(44)).status).toBe(
+      "on_track"
+    );
+    expect(evaluateSla(request(), policy(), minutes(45))).toMatchObject({
+      status: "at_risk",
+      target: "view",
+    });
+  });
+
+  it("reports the worst target as breached", () => {
+    const viewed = request({ viewedAt: minutes(20) });
+    expect(evaluateSla(viewed, policy(), minutes(481))).toMatchObject({
+      status: "breached",
+      target: "complete",
+    });
+    expect(evaluateSla(request(), policy(), minutes(61))).toMatchObject({
+      status: "breached",
+      target: "view",
+    });
+  });
+
+  it("moves on to the next target once one is met in time", () => {
+    const viewed = request({ viewedAt: minutes(50) });
+    expect(evaluateSla(viewed, policy(), minutes(100))).toMatchObject({
+      status: "on_track",
+      target: "complete",
+    });
+  });
+
+  it("keeps a late view breached after the fact", () => {
+    const late = request({ viewedAt: minutes(90) });
+    expect(evaluateSla(late, policy(), minutes(100)).status).toBe("breached");
+  });
+
+  it("stops the clock at the last update once the request is closed", () => {
+    const closed = request({
+      status: "completed",
+      viewedAt: minutes(20),
+      updatedAt: minutes(300),
+    });
+    expect(evaluateSla(closed, policy(), minutes(2000), false)).toMatchObject({
+      status: "on_track",
+    });
+  });
+
+  it("is on track without a policy or targets", () => {
+    expect(evaluateSla(request(), null, minutes(10_000))).toEqual({
+      status: "on_track",
+      target: null,
+      viewDueAt: null,
+      completeDueAt: null,
+    });
+    const viewOnly = policy({ completeMinutes: null });
+    expect(
+      evaluateSla(request({ viewedAt: minutes(5) }), viewOnly, minutes(10_000))
+        .status
+    ).toBe("on_track");
+  });
+});
+
+describe("checkSlas", () => {
+  beforeEach(() => {
+    db.slaPolicy.findMany.mockResolvedValue([policy()]);
+  });
+
+  it("escalates a breach by one priority and records both changes", async () => {
+    db.request.findMany.mockResolvedValue([request()]);
+
+    expect(await checkSlas(minutes(61))).toBe(1);
+
+    expect(db.request.update).toHaveBeenCalledWith({
+      where: { id: 12 },
+      data: {
+        slaStatus: "breached",
+        slaEscalatedAt: minutes(61),
+        priority: "high",
+        lastUpdatedByRole: "system",
+      },
+    });
+    const events = db.requestEvent.create.mock.calls.map((c) => c[0].data);
+    expect(events).toMatchObject([
+      { type: "sla_breached", oldValue: "on_track", newValue: "view" },
+      {
+        type: "priority_changed",
+        oldValue: "normal",
+        newValue: "high",
+        actorRole: "system",
+      },
+    ]);
+  });
+
+  it("leaves emergencies at their priority when they breach", async () => {
+    db.slaPolicy.findMany.mockResolvedValue([
+      policy({ priority: "emergency" }),
+    ]);
+    db.request.findMany.mockResolvedValue([request({ priority: "emergency" })]);
+
+    await checkSlas(minutes(61));
+
+    expect(db.request.update.mock.calls[0][0].data).toEqual({
+      slaStatus: "breached",
+      slaEscalatedAt: minutes(61),
+    });
+    expect(db.requestEvent.create).toHaveBeenCalledTimes(1);
+  });
+
+  it("flags at-risk requests without escalating them", async () => {
+    db.request.findMany.mockResolvedValue([request()]);
+
+    await checkSlas(minutes(50));
+
+    expect(db.request.update.mock.calls[0][0].data).toEqual({
+      slaStatus: "at_risk",
+    });
+    expect(db.requestEvent.create.mock.calls[0][0].data.type).toBe(
+      "sla_at_risk"
+    );
+  });
+
+  it("skips closed requests and ones already flagged", async () => {
+    db.request.findMany.mockResolvedValue([
+      request({ id: 1, status: "completed" }),
+      request({ id: 2, slaStatus: "at_risk" }),
+      request({ id: 3 }),
+    ]);
+
+    expect(await checkSlas(minutes(50))).toBe(1);
+    expect(db.request.update).toHaveBeenCalledTimes(1);
+    expect(db.request.update.mock.calls[0][0].where).toEqual({ id: 3 });
+  });
+});
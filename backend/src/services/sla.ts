@@ -0,0 +1,232 @@
+import {
+  Prisma,
+  Priority,
+  PrismaClient,
+  SlaPolicy,
+  SlaStatus,
+} from "@prisma/client";
+import { withRequestEvents } from "./requestEvents";
+
+const prisma = new PrismaClient();
+
+// Share of a target that may pass before a request is flagged as at risk
+const atRiskRatio = 0.75;
+
+const statusRank: Record<SlaStatus, number> = {
+  on_track: 0,
+  at_risk: 1,
+  breached: 2,
+};
+
+// Breached requests move up one priority level
+const escalatedPriority: Record<Priority, Priority> = {
+  low: "normal",
+  normal: "high",
+  high: "emergency",
+  emergency: "emergency",
+};
+
+type SlaRequest = {
+  organizationId: number;
+  priority: Priority;
+  category: string;
+  createdAt: Date;
+  updatedAt: Date;
+  inQueueAt: Date | null;
+  viewedAt: Date | null;
+  completedAt: Date | null;
+};
+
+export type SlaSnapshot = {
+  status: SlaStatus;
+  // Which target drives the status: the breached/at-risk one, else the next due
+  target: "view" | "complete" | null;
+  viewDueAt: Date | null;
+  completeDueAt: Date | null;
+};
+
+export function loadSlaPolicies() {
+  return prisma.slaPolicy.findMany();
+}
+
+// "workflowId:key" for every terminal state, where the SLA clock stops
+async function loadTerminalStates() {
+  const states = await prisma.workflowState.findMany({
+    where: { isTerminal: true },
+  });
+  return new Set(states.map((s) => `${s.workflowId}:${s.key}`));
+}
+
+const isOpen = (
+  terminal: Set<string>,
+  request: { workflowId: number | null; status: string }
+) => !terminal.has(`${request.workflowId}:${request.status}`);
+
+// The category-specific policy for a priority wins over the priority-wide
+// one. Only the request's own organization's policies apply.
+export function findSlaPolicy(policies: SlaPolicy[], request: SlaRequest) {
+  const own = policies.filter(
+    (p) =>
+      p.organizationId === request.organizationId &&
+      p.priority === request.priority
+  );
+  return (
+    own.find((p) => p.category === request.category) ??
+    own.find((p) => p.category === null) ??
+    null
+  );
+}
+
+// Measures a request against its policy. `open` is false once the request
+// reached a terminal state; the clock then stops at its last update.
+export function evaluateSla(
+  request: SlaRequest,
+  policy: SlaPolicy | null,
+  now: Date,
+  open = true
+): SlaSnapshot {
+  const start = request.inQueueAt ?? request.createdAt;
+  const clock = open ? now : request.updatedAt;
+  const due = (minutes: number | null | undefined) =>
+    minutes ? new Date(start.getTime() + minutes * 60 * 1000) : null;
+
+  const targets = [
+    {
+      kind: "view" as const,
+      dueAt: due(policy?.viewMinutes),
+      metAt: request.viewedAt ?? request.completedAt,
+    },
+    {
+      kind: "complete" as const,
+      dueAt: due(policy?.completeMinutes),
+      metAt: request.completedAt,
+    },
+  ];
+
+  let status: SlaStatus = "on_track";
+  let target: SlaSnapshot["target"] = null;
+
+  for (const t of targets) {
+    if (!t.dueAt) continue;
+    const end = t.metAt ?? clock;
+
+    let result: SlaStatus = "on_track";
+    if (end > t.dueAt) {
+      result = "breached";
+    } else if (
+      !t.metAt &&
+      end.getTime() - start.getTime() >=
+        atRiskRatio * (t.dueAt.getTime() - start.getTime())
+    ) {
+      result = "at_risk";
+    }
+
+    if (statusRank[result] > statusRank[status]) {
+      status = result;
+      target = t.kind;
+    } else if (!target && !t.metAt) {
+      target = t.kind;
+    }
+  }
+
+  return {
+    status,
+    target,
+    viewDueAt: targets[0].dueAt,
+    completeDueAt: targets[1].dueAt,
+  };
+}
+
+// Adds the current SLA snapshot to each request for the manager views
+export async function withSla<
+  T extends SlaRequest & { workflowId: number | null; status: string },
+>(requests: T[], now = new Date()) {
+  const [policies, terminal] = await Promise.all([
+    loadSlaPolicies(),
+    loadTerminalStates(),
+  ]);
+  return requests.map((r) => ({
+    ...r,
+    sla: evaluateSla(r, findSlaPolicy(policies, r), now, isOpen(terminal, r)),
+  }));
+}
+
+// One pass of the background checker: flags open requests that became at
+// risk or breached, and escalates breaches by raising their priority.
+export async function checkSlas(now = new Date()) {
+  const [policies, terminal] = await Promise.all([
+    loadSlaPolicies(),
+    loadTerminalStates(),
+  ]);
+
+  const candidates = await prisma.request.findMany({
+    where: { completedAt: null, slaStatus: { not: "breached" } },
+  });
+
+  let flagged = 0;
+  for (const request of candidates) {
+    if (!isOpen(terminal, request)) continue;
+
+    const sla = evaluateSla(request, findSlaPolicy(policies, request), now);
+    if (statusRank[sla.status] <= statusRank[request.slaStatus]) continue;
+
+    const data: Prisma.RequestUpdateInput = { slaStatus: sla.status };
+    const breached = sla.status === "breached";
+    const priority = escalatedPriority[request.priority];
+    if (breached) {
+      data.slaEscalatedAt = now;
+      if (priority !== request.priority) {
+        data.priority = priority;
+        data.lastUpdatedByRole = "system";
+      }
+    }
+
+    await withRequestEvents(prisma, async (tx, record) => {
+      await tx.request.update({ where: { id: request.id }, data });
+      await record({
+        requestId: request.id,
+        type: breached ? "sla_breached" : "sla_at_risk",
+        field: "sla",
+        oldValue: request.slaStatus,
+        newValue: sla.target,
+      });
+      if (data.priority) {
+        await record({
+          requestId: request.id,
+          type: "priority_changed",
+          field: "priority",
+          oldValue: request.priority,
+          newValue: priority,
+        });
+      }
+    });
+    flagged++;
+  }
+
+  return flagged;
+}
+
+let checkerTimer: NodeJS.Timeout | null = null;
+
+export function startSlaChecker() {
+  if (checkerTimer) return;
+
+  const intervalMs = Number(process.env.SLA_CHECK_INTERVAL_MS) || 60 * 1000;
+  let running = false;
+
+  checkerTimer = setInterval(async () => {
+    // Skip a tick rather than overlap a slow pass
+    if (running) return;
+    running = true;
+    try {
+      const flagged = await checkSlas();
+      if (flagged > 0) {
+        console.log(`SLA check flagged ${flagged} request(s)`);
+      }
+    } catch (err) {
+      console.error("SLA check failed", err);
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+}
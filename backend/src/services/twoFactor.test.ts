@@ -0,0 +1,171 @@
+import jwt from "jsonwebtoken";
+import { authenticator } from "otplib";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+const db = vi.hoisted(() => ({
+  $transaction: vi.fn(),
+  twoFactor: {
+    findUnique: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  },
+  recoveryCode: {
+    createMany: vi.fn(),
+    deleteMany: vi.fn(),
+    updateMany: vi.fn(),
+  },
+}));
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => db),
+}));
+
+import {
+  confirmEnrollment,
+  readChallenge,
+  signChallenge,
+  verifySecondFactor,
+} from "./twoFactor";
+
+const secret = "test-secret-that-is-long-enough-for-config";
+const now = new Date("2026-03-02T10:00:00Z");
+const currentStep = Math.floor(now.getTime() / 1000 / 30);
+const totpSecret = authenticator.generateSecret();
+
+const enabled = () => ({
+  userId: 7,
+  secret: totpSecret,
+  pendingSecret: null,
+  enabledAt: new Date("2026-01-01T00:00:00Z"),
+  lastUsedStep: null,
+});
+
+beforeEach(() => {
+  vi.resetAllMocks();
+  vi.useFakeTimers();
+  vi.setSystemTime(now);
+  process.env.JWT_SECRET = secret;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("challenges", () => {
+  it("round-trips the user id for the same purpose only", () => {
+    const token = signChallenge(7, "verify");
+
+    expect(readChallenge(token, "verify")).toBe(7);
+    expect(readChallenge(token, "setup")).toBeNull();
+  });
+
+  it("rejects expired, foreign and malformed tokens", () => {
+    const token = signChallenge(7, "setup");
+    vi.setSystemTime(now.getTime() + 6 * 60 * 1000);
+    expect(readChallenge(token, "setup")).toBeNull();
+
+    const access = jwt.sign({ id: 7, role: "tenant" }, secret);
+    expect(readChallenge(access, "setup")).toBeNull();
+    expect(readChallenge("not-a-token", "setup")).toBeNull();
+    expect(readChallenge(undefined, "setup")).toBeNull();
+  });
+});
+
+describe("verifySecondFactor", () => {
+  it("accepts a current authenticator code once", async () => {
+    db.twoFactor.findUnique.mockResolvedValue(enabled());
+    db.twoFactor.updateMany.mockResolvedValueOnce({ count: 1 });
+
+    const code = authenticator.generate(totpSecret);
+    expect(await verifySecondFactor(7, code)).toBe("totp");
+    expect(db.twoFactor.updateMany).toHaveBeenCalledWith({
+      where: {
+        userId: 7,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: currentStep } }],
+      },
+      data: { lastUsedStep: currentStep },
+    });
+
+    db.twoFactor.updateMany.mockResolvedValueOnce({ count: 0 });
+    expect(await verifySecondFactor(7, code)).toBeNull();
+    expect(db.recoveryCode.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("refuses users without two-factor enabled", async () => {
+    db.twoFactor.findUnique.mockResolvedValueOnce(null);
+    expect(await verifySecondFactor(7, "123456")).toBeNull();
+
+    db.twoFactor.findUnique.mockResolvedValueOnce({
+      ...enabled(),
+      enabledAt: null,
+    });
+    expect(await verifySecondFactor(7, "123456")).toBeNull();
+  });
+
+  it("spends a recovery code however it is typed", async () => {
+    db.twoFactor.findUnique.mockResolvedValue({
+      ...enabled(),
+      secret: null,
+      pendingSecret: totpSecret,
+      enabledAt: null,
+    });
+    const codes = await confirmEnrollment(
+      7,
+      authenticator.generate(totpSecret)
+    );
+    expect(codes).toHaveLength(10);
+    const [{ data: stored }] = db.recoveryCode.createMany.mock.calls[0];
+
+    db.twoFactor.findUnique.mockResolvedValue(enabled());
+    db.recoveryCode.updateMany.mockResolvedValueOnce({ count: 1 });
+    const typed = ` ${codes![0].toUpperCase().replace("-", " - ")} `;
+
+    expect(await verifySecondFactor(7, typed)).toBe("recovery");
+    expect(db.recoveryCode.updateMany).toHaveBeenCalledWith({
+      where: { userId: 7, codeHash: stored[0].codeHash, usedAt: null },
+      data: { usedAt: now },
+    });
+
+    db.recoveryCode.updateMany.mockResolvedValueOnce({ count: 0 });
+    expect(await verifySecondFactor(7, codes![0])).toBeNull();
+  });
+});
+
+describe("confirmEnrollment", () => {
+  it("needs a code from the pending secret", async () => {
+    db.twoFactor.findUnique.mockResolvedValue({
+      ...enabled(),
+      pendingSecret: authenticator.generateSecret(),
+    });
+
+    const code = authenticator.generate(totpSecret);
+    expect(await confirmEnrollment(7, code)).toBeNull();
+    expect(db.$transaction).not.toHaveBeenCalled();
+  });
+
+  it("activates the pending secret and spends the code's step", async () => {
+    db.twoFactor.findUnique.mockResolvedValue({
+      ...enabled(),
+      secret: null,
+      pendingSecret: totpSecret,
+      enabledAt: null,
+    });
+
+    await confirmEnrollment(7, authenticator.generate(totpSecret));
+
+    expect(db.twoFactor.update).toHaveBeenCalledWith({
+      where: { userId: 7 },
+      data: {
+        secret: totpSecret,
+        pendingSecret: null,
+        enabledAt: now,
+        lastUsedStep: currentStep,
+      },
+    });
+    expect(db.recoveryCode.deleteMany).toHaveBeenCalledWith({
+      where: { userId: 7 },
+    });
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
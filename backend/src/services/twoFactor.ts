@@ -0,0 +1,196 @@
+import crypto from "crypto";
+import jwt from "jsonwebtoken";
+import { authenticator } from "otplib";
+import QRCode from "qrcode";
+import { PrismaClient, Role } from "@prisma/client";
+import { jwtSecret } from "../config";
+
+const prisma = new PrismaClient();
+
+const issuer = "Kefiat";
+const recoveryCodeCount = 10;
+// Accept the code from one step either side to allow for clock drift
+const totp = authenticator.clone({ window: 1 });
+const stepSeconds = 30;
+
+// Short-lived proof that the password was right, exchanged for a session
+// once the second factor is verified ("verify") or enrolled ("setup")
+export type ChallengePurpose = "verify" | "setup";
+const challengeTtl = "5m";
+
+export function signChallenge(userId: number, purpose: ChallengePurpose) {
+  return jwt.sign({ id: userId, twoFactor: purpose }, jwtSecret(), {
+    expiresIn: challengeTtl,
+  });
+}
+
+// The user id from a valid challenge, or null
+export function readChallenge(token: unknown, purpose: ChallengePurpose) {
+  if (typeof token !== "string") return null;
+  try {
+    const payload = jwt.verify(token, jwtSecret()) as any;
+    return payload?.twoFactor === purpose && typeof payload.id === "number"
+      ? (payload.id as number)
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// A missing policy row means no role is required to use 2FA
+export async function requiredRoles(organizationId: number): Promise<Role[]> {
+  const policy = await prisma.twoFactorPolicy.findUnique({
+    where: { organizationId },
+  });
+  return policy?.requiredRoles ?? [];
+}
+
+export async function setRequiredRoles(organizationId: number, roles: Role[]) {
+  const policy = await prisma.twoFactorPolicy.upsert({
+    where: { organizationId },
+    update: { requiredRoles: roles },
+    create: { organizationId, requiredRoles: roles },
+  });
+  return policy.requiredRoles;
+}
+
+export async function isTwoFactorRequired(organizationId: number, role: Role) {
+  return (await requiredRoles(organizationId)).includes(role);
+}
+
+export async function isTwoFactorEnabled(userId: number) {
+  const twoFactor = await prisma.twoFactor.findUnique({ where: { userId } });
+  return !!twoFactor?.enabledAt && !!twoFactor.secret;
+}
+
+export async function twoFactorStatus(
+  userId: number,
+  organizationId: number,
+  role: Role
+) {
+  const [enabled, required, recoveryCodesLeft] = await Promise.all([
+    isTwoFactorEnabled(userId),
+    isTwoFactorRequired(organizationId, role),
+    prisma.recoveryCode.count({ where: { userId, usedAt: null } }),
+  ]);
+  return { enabled, required, recoveryCodesLeft };
+}
+
+// Starts (or restarts) enrollment with a fresh secret. The active secret, if
+// any, keeps working until the new one is confirmed.
+export async function beginEnrollment(user: { id: number; email: string }) {
+  const secret = totp.generateSecret();
+  await prisma.twoFactor.upsert({
+    where: { userId: user.id },
+    update: { pendingSecret: secret },
+    create: { userId: user.id, pendingSecret: secret },
+  });
+
+  const otpauthUrl = totp.keyuri(user.email, issuer, secret);
+  return {
+    secret,
+    otpauthUrl,
+    qrCode: await QRCode.toDataURL(otpauthUrl),
+  };
+}
+
+// Activates the pending secret if `code` matches it. Returns fresh recovery
+// codes, or null when the code is wrong or nothing is being enrolled.
+export async function confirmEnrollment(userId: number, code: string) {
+  const twoFactor = await prisma.twoFactor.findUnique({ where: { userId } });
+  const step = twoFactor?.pendingSecret
+    ? matchStep(code, twoFactor.pendingSecret)
+    : null;
+  if (!twoFactor?.pendingSecret || step === null) return null;
+
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.$transaction([
+    prisma.twoFactor.update({
+      where: { userId },
+      data: {
+        secret: twoFactor.pendingSecret,
+        pendingSecret: null,
+        enabledAt: new Date(),
+        lastUsedStep: step,
+      },
+    }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: hashes.map((codeHash) => ({ userId, codeHash })),
+    }),
+  ]);
+  return codes;
+}
+
+// Checks an authenticator code or, failing that, an unused recovery code.
+// Either is spent on success.
+export async function verifySecondFactor(
+  userId: number,
+  code: string
+): Promise<"totp" | "recovery" | null> {
+  const twoFactor = await prisma.twoFactor.findUnique({ where: { userId } });
+  if (!twoFactor?.enabledAt || !twoFactor.secret) return null;
+
+  const step = matchStep(code, twoFactor.secret);
+  if (step !== null) {
+    // Guarded on the last step so a code is accepted once, even when two
+    // requests race with it
+    const { count } = await prisma.twoFactor.updateMany({
+      where: {
+        userId,
+        OR: [{ lastUsedStep: null }, { lastUsedStep: { lt: step } }],
+      },
+      data: { lastUsedStep: step },
+    });
+    return count === 1 ? "totp" : null;
+  }
+
+  const { count } = await prisma.recoveryCode.updateMany({
+    where: { userId, codeHash: hashRecoveryCode(code), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  return count === 1 ? "recovery" : null;
+}
+
+// Replaces every recovery code; the old ones stop working
+export async function regenerateRecoveryCodes(userId: number) {
+  const { codes, hashes } = generateRecoveryCodes();
+  await prisma.$transaction([
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.createMany({
+      data: hashes.map((codeHash) => ({ userId, codeHash })),
+    }),
+  ]);
+  return codes;
+}
+
+export async function disableTwoFactor(userId: number) {
+  await prisma.$transaction([
+    prisma.twoFactor.deleteMany({ where: { userId } }),
+    prisma.recoveryCode.deleteMany({ where: { userId } }),
+  ]);
+}
+
+// The 30-second step `code` was generated in, or null if it doesn't match
+function matchStep(code: string, secret: string) {
+  const token = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(token)) return null;
+  const delta = totp.checkDelta(token, secret);
+  if (delta === null) return null;
+  return Math.floor(Date.now() / 1000 / stepSeconds) + delta;
+}
+
+// Recovery codes are compared without case, spaces or dashes
+const hashRecoveryCode = (code: string) =>
+  crypto
+    .createHash("sha256")
+    .update(code.toLowerCase().replace(/[\s-]/g, ""))
+    .digest("hex");
+
+function generateRecoveryCodes() {
+  const codes = Array.from({ length: recoveryCodeCount }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
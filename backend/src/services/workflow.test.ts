@@ -0,0 +1,277 @@
+import { Request, WorkflowState, WorkflowTransition } from "@prisma/client";
+import { describe, expect, it, vi } from "vitest";
+
+vi.mock("@prisma/client", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@prisma/client")>()),
+  PrismaClient: vi.fn(() => ({})),
+}));
+
+import {
+  LoadedWorkflow,
+  TransitionError,
+  backfillTimestamps,
+  resolveTransition,
+  transitionData,
+  transitionsFrom,
+} from "./workflow";
+
+const state = (
+  key: string,
+  position: number,
+  extra: Partial<WorkflowState> = {}
+): WorkflowState => ({
+  id: position,
+  workflowId: 1,
+  key,
+  label: key.replace(/_/g, " "),
+  color: "#888888",
+  position,
+  isTerminal: false,
+  timestampField: null,
+  ...extra,
+});
+
+let nextTransitionId = 1;
+const transition = (
+  fromKey: string | null,
+  toKey: string,
+  extra: Partial<WorkflowTransition> = {}
+): WorkflowTransition => ({
+  id: nextTransitionId++,
+  workflowId: 1,
+  fromKey,
+  toKey,
+  label: `To ${toKey}`,
+  roles: ["manager", "admin"],
+  guard: null,
+  ...extra,
+});
+
+const workflow: LoadedWorkflow = {
+  id: 1,
+  name: "Standard",
+  isDefault: true,
+  createdAt: new Date("2026-01-01T00:00:00Z"),
+  updatedAt: new Date("2026-01-01T00:00:00Z"),
+  states: [
+    state("in_queue", 1, { timestampField: "inQueueAt" }),
+    state("viewed", 2, { timestampField: "viewedAt" }),
+    state("implementing_actions", 3, {
+      timestampField: "implementingActionsAt",
+    }),
+    state("completed", 4, { isTerminal: true, timestampField: "completedAt" }),
+    state("cancelled", 5, { isTerminal: true }),
+  ],
+  transitions: [
+    transition("in_queue", "viewed"),
+    transition("viewed", "implementing_actions", {
+      roles: ["manager", "technician"],
+      guard: "requiresAssignee",
+    }),
+    transition("implementing_actions", "completed", {
+      roles: ["manager", "technician", "tenant"],
+    }),
+    transition(null, "cancelled", { guard: "requiresReason" }),
+    transition("viewed", "in_queue", { guard: "noSuchGuard" }),
+  ],
+};
+
+const created = new Date("2026-03-02T10:00:00Z");
+
+const request = (overrides: Partial<Request> = {}) =>
+  ({
+    id: 12,
+    status: "in_queue",
+    assigneeId: null,
+    createdAt: created,
+    inQueueAt: null,
+    viewedAt: null,
+    maintenanceRequestedAt: null,
+    implementingActionsAt: null,
+    completedAt: null,
+    ...overrides,
+  }) as Request;
+
+// The error resolveTransition throws, for asserting on its message and status
+function failure(run: () => unknown) {
+  try {
+    run();
+  } catch (err) {
+    expect(err).toBeInstanceOf(TransitionError);
+    return err as TransitionError;
+  }
+  throw new Error("Expected a TransitionError");
+}
+
+describe("transitionsFrom", () => {
+  it("adds wildcard transitions to open states", () => {
+    expect(transitionsFrom(workflow, "viewed").map((t) => t.toKey)).toEqual([
+      "implementing_actions",
+      "cancelled",
+      "in_queue",
+    ]);
+  });
+
+  it("keeps wildcards out of terminal and unknown states", () => {
+    expect(transitionsFrom(workflow, "completed")).toEqual([]);
+    expect(transitionsFrom(workflow, "archived")).toEqual([]);
+  });
+
+  it("doesn't offer a wildcard back into the current state", () => {
+    const cancelledIsOpen: LoadedWorkflow = {
+      ...workflow,
+      states: workflow.states.map((s) =>
+        s.key === "cancelled" ? { ...s, isTerminal: false } : s
+      ),
+    };
+    expect(transitionsFrom(cancelledIsOpen, "cancelled")).toEqual([]);
+  });
+});
+
+describe("resolveTransition", () => {
+  it("returns the matching transition", () => {
+    const t = resolveTransition(workflow, request(), "viewed", "manager");
+    expect(t).toMatchObject({ fromKey: "in_queue", toKey: "viewed" });
+  });
+
+  it("refuses unknown statuses and moves the workflow doesn't have", () => {
+    expect(
+      failure(() => resolveTransition(workflow, request(), "done", "manager"))
+        .message
+    ).toBe('Unknown status "done"');
+    expect(
+      failure(() =>
+        resolveTransition(workflow, request(), "completed", "manager")
+      ).message
+    ).toBe("A request cannot move from in queue to completed.");
+  });
+
+  it("answers 403 to roles the transition doesn't list", () => {
+    const err = failure(() =>
+      resolveTransition(workflow, request(), "viewed", "tenant")
+    );
+    expect(err.status).toBe(403);
+  });
+
+  it("needs an assignee when the guard asks for one", () => {
+    const viewed = request({ status: "viewed" });
+    expect(
+      failure(() =>
+        resolveTransition(workflow, viewed, "implementing_actions", "manager")
+      ).message
+    ).toBe("Assign a technician before starting work.");
+
+    const assigned = request({ status: "viewed", assigneeId: 4 });
+    expect(
+      resolveTransition(workflow, assigned, "implementing_actions", "manager")
+        .toKey
+    ).toBe("implementing_actions");
+  });
+
+  it("needs a non-blank reason when the guard asks for one", () => {
+    for (const reason of [undefined, "", "   "]) {
+      const err = failure(() =>
+        resolveTransition(workflow, request(), "cancelled", "manager", reason)
+      );
+      expect(err.message).toBe("A reason is required for this change.");
+      expect(err.status).toBe(400);
+    }
+    expect(
+      resolveTransition(
+        workflow,
+        request(),
+        "cancelled",
+        "manager",
+        "Tenant moved out"
+      ).fromKey
+    ).toBeNull();
+  });
+
+  it("fails closed when a transition names a guard that doesn't exist", () => {
+    const err = failure(() =>
+      resolveTransition(
+        workflow,
+        request({ status: "viewed" }),
+        "in_queue",
+        "manager"
+      )
+    );
+    expect(err.message).toBe(
+      'Transition guard "noSuchGuard" is not available.'
+    );
+  });
+
+  it("prefers an explicit transition over the wildcard", () => {
+    const withExplicit: LoadedWorkflow = {
+      ...workflow,
+      transitions: [
+        ...workflow.transitions,
+        transition("in_queue", "cancelled"),
+      ],
+    };
+    const t = resolveTransition(
+      withExplicit,
+      request(),
+      "cancelled",
+      "manager"
+    );
+    expect(t.fromKey).toBe("in_queue");
+    expect(t.guard).toBeNull();
+  });
+
+  it("never leaves a terminal state through a wildcard", () => {
+    const err = failure(() =>
+      resolveTransition(
+        workflow,
+        request({ status: "completed" }),
+        "cancelled",
+        "manager",
+        "Oops"
+      )
+    );
+    expect(err.message).toBe(
+      "A request cannot move from completed to cancelled."
+    );
+  });
+});
+
+describe("transitionData", () => {
+  const now = new Date("2026-03-03T09:00:00Z");
+
+  it("stamps a state's timestamp the first time only", () => {
+    expect(transitionData(workflow, request(), "viewed", now)).toEqual({
+      status: "viewed",
+      viewedAt: now,
+    });
+    expect(
+      transitionData(workflow, request({ viewedAt: created }), "viewed", now)
+    ).toEqual({ status: "viewed" });
+  });
+
+  it("stamps nothing for states without a timestamp", () => {
+    expect(transitionData(workflow, request(), "cancelled", now)).toEqual({
+      status: "cancelled",
+    });
+  });
+});
+
+describe("backfillTimestamps", () => {
+  const now = new Date("2026-03-03T09:00:00Z");
+
+  it("fills the steps a request skipped, queueing it when it was created", () => {
+    const skipped = request({
+      status: "implementing_actions",
+      viewedAt: new Date("2026-03-02T11:00:00Z"),
+    });
+    expect(backfillTimestamps(workflow, skipped, now)).toEqual({
+      inQueueAt: created,
+      implementingActionsAt: now,
+    });
+  });
+
+  it("leaves requests in states without a timestamp alone", () => {
+    expect(
+      backfillTimestamps(workflow, request({ status: "cancelled" }), now)
+    ).toEqual({});
+  });
+});
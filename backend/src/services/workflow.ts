@@ -0,0 +1,211 @@
+import {
+  Prisma,
+  PrismaClient,
+  Request,
+  Role,
+  Workflow,
+  WorkflowState,
+  WorkflowTransition,
+} from "@prisma/client";
+
+const prisma = new PrismaClient();
+
+export type LoadedWorkflow = Workflow & {
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+};
+
+const workflowInclude = {
+  states: { orderBy: { position: "asc" } },
+  transitions: { orderBy: { id: "asc" } },
+} satisfies Prisma.WorkflowInclude;
+
+// Request columns a state is allowed to stamp on entry
+const timestampFields = [
+  "inQueueAt",
+  "viewedAt",
+  "maintenanceRequestedAt",
+  "implementingActionsAt",
+  "completedAt",
+] as const;
+type TimestampField = (typeof timestampFields)[number];
+
+export type GuardContext = {
+  request: Request;
+  reason?: string;
+};
+
+// Guards referenced by name from WorkflowTransition.guard. Each returns an
+// error message when the transition must not happen, or null to allow it.
+const guards: Record<string, (ctx: GuardContext) => string | null> = {
+  requiresAssignee: ({ request }) =>
+    request.assigneeId ? null : "Assign a technician before starting work.",
+  requiresReason: ({ reason }) =>
+    reason && reason.trim() ? null : "A reason is required for this change.",
+};
+
+export class TransitionError extends Error {
+  constructor(
+    message: string,
+    public status: 400 | 403 = 400
+  ) {
+    super(message);
+  }
+}
+
+export async function loadWorkflow(
+  id?: number | null
+): Promise<LoadedWorkflow> {
+  const workflow = id
+    ? await prisma.workflow.findUnique({
+        where: { id },
+        include: workflowInclude,
+      })
+    : await prisma.workflow.findFirst({
+        where: { isDefault: true },
+        include: workflowInclude,
+      });
+
+  if (!workflow) {
+    throw new Error(
+      id ? `Workflow ${id} not found` : "No default workflow is configured"
+    );
+  }
+  return workflow;
+}
+
+export function findState(workflow: LoadedWorkflow, key: string) {
+  return workflow.states.find((s) => s.key === key) ?? null;
+}
+
+// Transitions that may leave `fromKey`, including "from any" wildcards
+export function transitionsFrom(workflow: LoadedWorkflow, fromKey: string) {
+  const from = findState(workflow, fromKey);
+  return workflow.transitions.filter(
+    (t) =>
+      t.fromKey === fromKey ||
+      (t.fromKey === null && !!from && !from.isTerminal && t.toKey !== fromKey)
+  );
+}
+
+// Picks the transition a user fires by moving a request to `toKey`, or
+// throws a TransitionError explaining why the move is not allowed.
+export function resolveTransition(
+  workflow: LoadedWorkflow,
+  request: Request,
+  toKey: string,
+  role: Role,
+  reason?: string
+) {
+  const target = findState(workflow, toKey);
+  if (!target) {
+    throw new TransitionError(`Unknown status "${toKey}"`);
+  }
+
+  const candidates = transitionsFrom(workflow, request.status).filter(
+    (t) => t.toKey === toKey
+  );
+  if (candidates.length === 0) {
+    const from = findState(workflow, request.status);
+    throw new TransitionError(
+      `A request cannot move from ${from?.label ?? request.status} to ${target.label}.`
+    );
+  }
+
+  const allowed = candidates.filter((t) => t.roles.includes(role));
+  if (allowed.length === 0) {
+    throw new TransitionError(
+      `You are not allowed to move this request to ${target.label}.`,
+      403
+    );
+  }
+
+  // Prefer an explicit transition over a wildcard one
+  const transition = allowed.find((t) => t.fromKey !== null) ?? allowed[0];
+
+  if (transition.guard) {
+    const guard = guards[transition.guard];
+    // Unknown guards fail closed so a typo can't open up a transition
+    const failure = guard
+      ? guard({ request, reason })
+      : `Transition guard "${transition.guard}" is not available.`;
+    if (failure) {
+      throw new TransitionError(failure);
+    }
+  }
+
+  return transition;
+}
+
+// Status and first-entry timestamp for moving a request into `toKey`
+export function transitionData(
+  workflow: LoadedWorkflow,
+  request: Request,
+  toKey: string,
+  now: Date
+) {
+  const data: Partial<Record<TimestampField, Date>> & { status: string } = {
+    status: toKey,
+  };
+
+  const field = findState(workflow, toKey)?.timestampField;
+  if (field && isTimestampField(field) && !request[field]) {
+    data[field] = now;
+  }
+
+  return data;
+}
+
+// Fills timestamps for main-line steps the request already passed but never
+// stamped (legacy rows and requests that skipped steps).
+export function backfillTimestamps(
+  workflow: LoadedWorkflow,
+  request: Request,
+  now: Date
+) {
+  const data: Partial<Record<TimestampField, Date>> = {};
+  const current = findState(workflow, request.status);
+  if (!current?.timestampField) return data;
+
+  for (const state of workflow.states) {
+    const field = state.timestampField;
+    if (
+      state.position <= current.position &&
+      field &&
+      isTimestampField(field) &&
+      !request[field]
+    ) {
+      data[field] = field === "inQueueAt" ? request.createdAt : now;
+    }
+  }
+  return data;
+}
+
+// Shape sent to the frontends so they render the workflow, not a copy of it
+export function publishWorkflow(workflow: LoadedWorkflow) {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    states: workflow.states.map((s) => ({
+      key: s.key,
+      label: s.label,
+      color: s.color,
+      position: s.position,
+      isTerminal: s.isTerminal,
+      timestampField: s.timestampField,
+    })),
+    transitions: workflow.transitions.map((t) => ({
+      id: t.id,
+      fromKey: t.fromKey,
+      toKey: t.toKey,
+      label: t.label,
+      roles: t.roles,
+      requiresReason: t.guard === "requiresReason",
+      guard: t.guard,
+    })),
+  };
+}
+
+function isTimestampField(field: string): field is TimestampField {
+  return (timestampFields as readonly string[]).includes(field);
+}
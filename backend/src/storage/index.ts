@@ -0,0 +1,35 @@
+import { Readable } from "stream";
+import { createLocalDriver } from "./localDriver";
+
+// A place to keep uploaded bytes. Keys are opaque, slash-separated paths
+// generated by the caller; drivers must not interpret them beyond that.
+export interface StorageDriver {
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+  read(key: string): Promise<Readable>;
+  remove(key: string): Promise<void>;
+}
+
+type DriverFactory = () => StorageDriver;
+
+const drivers: Record<string, DriverFactory> = {
+  local: createLocalDriver,
+};
+
+// Lets deployments plug in another backend (S3, GCS, ...) before first use
+export function registerStorageDriver(name: string, factory: DriverFactory) {
+  drivers[name] = factory;
+}
+
+let instance: StorageDriver | null = null;
+
+export function getStorage(): StorageDriver {
+  if (!instance) {
+    const name = process.env.STORAGE_DRIVER || "local";
+    const factory = drivers[name];
+    if (!factory) {
+      throw new Error(`Unknown STORAGE_DRIVER "${name}"`);
+    }
+    instance = factory();
+  }
+  return instance;
+}
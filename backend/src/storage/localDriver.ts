@@ -0,0 +1,34 @@
+import fs from "fs";
+import path from "path";
+import { StorageDriver } from "./index";
+
+// Stores files on the local disk under UPLOAD_DIR (default: ./uploads)
+export function createLocalDriver(): StorageDriver {
+  const root = path.resolve(process.env.UPLOAD_DIR || "uploads");
+
+  const resolveKey = (key: string) => {
+    const fullPath = path.resolve(root, key);
+    if (!fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return fullPath;
+  };
+
+  return {
+    async save(key, data) {
+      const fullPath = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+      await fs.promises.writeFile(fullPath, data);
+    },
+
+    async read(key) {
+      const fullPath = resolveKey(key);
+      await fs.promises.access(fullPath);
+      return fs.createReadStream(fullPath);
+    },
+
+    async remove(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+  };
+}
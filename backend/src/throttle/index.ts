@@ -0,0 +1,60 @@
+import { createMemoryStore } from "./memoryStore";
+import { createPostgresStore } from "./postgresStore";
+
+// Failed-attempt counter for one key ("account:<email>", "ip:<address>").
+// blockedUntil is when the next attempt is allowed; locked marks a lockout
+// rather than a short progressive delay.
+export type ThrottleState = {
+  failures: number;
+  windowStartsAt: Date;
+  blockedUntil: Date | null;
+  locked: boolean;
+};
+
+// Keeps throttle counters. Stores only count and block; deciding how long to
+// block for happens in services/loginThrottle.ts.
+export interface ThrottleStore {
+  get(key: string): Promise<ThrottleState | null>;
+  // Counts one failure, starting a new window if the current one began
+  // before windowStart
+  recordFailure(
+    key: string,
+    windowStart: Date,
+    now: Date
+  ): Promise<ThrottleState>;
+  block(key: string, until: Date, locked: boolean): Promise<void>;
+  reset(key: string): Promise<void>;
+  // Keys with the given prefix that are locked at `now`
+  listLocked(
+    prefix: string,
+    now: Date
+  ): Promise<Array<{ key: string } & ThrottleState>>;
+}
+
+type StoreFactory = () => ThrottleStore;
+
+// memory suits a single node; instances behind a load balancer must share
+// counters through postgres
+const stores: Record<string, StoreFactory> = {
+  memory: createMemoryStore,
+  postgres: createPostgresStore,
+};
+
+// Lets deployments plug in another backend (Redis, ...) before first use
+export function registerThrottleStore(name: string, factory: StoreFactory) {
+  stores[name] = factory;
+}
+
+let instance: ThrottleStore | null = null;
+
+export function getThrottleStore(): ThrottleStore {
+  if (!instance) {
+    const name = process.env.LOGIN_THROTTLE_STORE || "memory";
+    const factory = stores[name];
+    if (!factory) {
+      throw new Error(`Unknown LOGIN_THROTTLE_STORE "${name}"`);
+    }
+    instance = factory();
+  }
+  return instance;
+}
@@ -0,0 +1,65 @@
+import { ThrottleState, ThrottleStore } from "./index";
+
+// Past this many keys, stale entries are swept on the next write so a
+// spray of usernames or addresses can't grow the map without bound
+const sweepThreshold = 10000;
+
+export function createMemoryStore(): ThrottleStore {
+  const entries = new Map<string, ThrottleState>();
+
+  const sweep = (windowStart: Date, now: Date) => {
+    for (const [key, state] of entries) {
+      const blocked = state.blockedUntil && state.blockedUntil > now;
+      if (!blocked && state.windowStartsAt < windowStart) {
+        entries.delete(key);
+      }
+    }
+  };
+
+  return {
+    async get(key) {
+      const state = entries.get(key);
+      return state ? { ...state } : null;
+    },
+
+    async recordFailure(key, windowStart, now) {
+      if (entries.size > sweepThreshold) sweep(windowStart, now);
+
+      const current = entries.get(key);
+      const state: ThrottleState =
+        current && current.windowStartsAt >= windowStart
+          ? { ...current, failures: current.failures + 1 }
+          : {
+              failures: 1,
+              windowStartsAt: now,
+              blockedUntil: current?.blockedUntil ?? null,
+              locked: current?.locked ?? false,
+            };
+      entries.set(key, state);
+      return { ...state };
+    },
+
+    async block(key, until, locked) {
+      const state = entries.get(key);
+      if (state) {
+        entries.set(key, { ...state, blockedUntil: until, locked });
+      }
+    },
+
+    async reset(key) {
+      entries.delete(key);
+    },
+
+    async listLocked(prefix, now) {
+      return [...entries]
+        .filter(
+          ([key, state]) =>
+            key.startsWith(prefix) &&
+            state.locked &&
+            !!state.blockedUntil &&
+            state.blockedUntil > now
+        )
+        .map(([key, state]) => ({ key, ...state }));
+    },
+  };
+}
@@ -0,0 +1,68 @@
+import { PrismaClient } from "@prisma/client";
+import { ThrottleState, ThrottleStore } from "./index";
+
+const prisma = new PrismaClient();
+
+export function createPostgresStore(): ThrottleStore {
+  return {
+    async get(key) {
+      return prisma.loginThrottle.findUnique({
+        where: { key },
+        select: {
+          failures: true,
+          windowStartsAt: true,
+          blockedUntil: true,
+          locked: true,
+        },
+      });
+    },
+
+    // One upsert so concurrent failures on other instances are all counted
+    async recordFailure(key, windowStart, now) {
+      const [state] = await prisma.$queryRaw<ThrottleState[]>`
+        INSERT INTO "LoginThrottle" ("key", "failures", "windowStartsAt", "updatedAt")
+        VALUES (${key}, 1, ${now}, ${now})
+        ON CONFLICT ("key") DO UPDATE SET
+          "failures" = CASE
+            WHEN "LoginThrottle"."windowStartsAt" < ${windowStart} THEN 1
+            ELSE "LoginThrottle"."failures" + 1
+          END,
+          "windowStartsAt" = CASE
+            WHEN "LoginThrottle"."windowStartsAt" < ${windowStart} THEN ${now}
+            ELSE "LoginThrottle"."windowStartsAt"
+          END,
+          "updatedAt" = ${now}
+        RETURNING "failures", "windowStartsAt", "blockedUntil", "locked"`;
+      return state;
+    },
+
+    async block(key, until, locked) {
+      await prisma.loginThrottle.updateMany({
+        where: { key },
+        data: { blockedUntil: until, locked },
+      });
+    },
+
+    async reset(key) {
+      await prisma.loginThrottle.deleteMany({ where: { key } });
+    },
+
+    async listLocked(prefix, now) {
+      return prisma.loginThrottle.findMany({
+        where: {
+          key: { startsWith: prefix },
+          locked: true,
+          blockedUntil: { gt: now },
+        },
+        select: {
+          key: true,
+          failures: true,
+          windowStartsAt: true,
+          blockedUntil: true,
+          locked: true,
+        },
+        orderBy: { blockedUntil: "desc" },
+      });
+    },
+  };
+}
@@ -3,46 +3,116 @@ import { Routes, Route, Navigate } from "react-router-dom";
 import LoginPage from "./pages/LoginPage";
 import ManagerDashboard from "./pages/ManagerDashboard";
 import TenantDashboard from "./pages/TenantDashboard";
+import TechnicianDashboard from "./pages/TechnicianDashboard";
+import AdminDashboard from "./pages/AdminDashboard";
+import UsersPage from "./pages/UsersPage";
+import AnalyticsPage from "./pages/AnalyticsPage";
+import CalendarPage from "./pages/CalendarPage";
+import MaintenancePlansPage from "./pages/MaintenancePlansPage";
+import ForgotPasswordPage from "./pages/ForgotPasswordPage";
+import ResetPasswordPage from "./pages/ResetPasswordPage";
+import AcceptInvitePage from "./pages/AcceptInvitePage";
+import VerifyEmailPage from "./pages/VerifyEmailPage";
 import { ProtectedRoute } from "./components/ProtectedRoute";
-import { useAuth } from "./contexts/AuthContext";
+import { EmailVerificationBanner } from "./components/EmailVerificationBanner";
+import { Role, useAuth } from "./contexts/AuthContext";
+
+const homePathByRole: Record<Role, string> = {
+  tenant: "/tenant",
+  manager: "/manager",
+  admin: "/admin",
+  technician: "/technician",
+};
 
 const App: React.FC = () => {
   const { user } = useAuth();
 
   return (
-    <Routes>
-      <Route path="/login" element={<LoginPage />} />
-      <Route
-        path="/manager"
-        element={
-          <ProtectedRoute allowedRoles={["manager"]}>
-            <ManagerDashboard />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/tenant"
-        element={
-          <ProtectedRoute allowedRoles={["tenant"]}>
-            <TenantDashboard />
-          </ProtectedRoute>
-        }
-      />
-      <Route
-        path="/"
-        element={
-          user ? (
-            <Navigate
-              to={user.role === "manager" ? "/manager" : "/tenant"}
-              replace
-            />
-          ) : (
-            <Navigate to="/login" replace />
-          )
-        }
-      />
-      <Route path="*" element={<Navigate to="/" replace />} />
-    </Routes>
+    <>
+      <EmailVerificationBanner />
+      <Routes>
+        <Route path="/login" element={<LoginPage />} />
+        <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+        <Route path="/reset-password" element={<ResetPasswordPage />} />
+        <Route path="/accept-invite" element={<AcceptInvitePage />} />
+        <Route path="/verify-email" element={<VerifyEmailPage />} />
+        <Route
+          path="/manager"
+          element={
+            <ProtectedRoute allowedRoles={["manager", "admin"]}>
+              <ManagerDashboard />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin"
+          element={
+            <ProtectedRoute allowedRoles={["admin"]}>
+              <AdminDashboard />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/users"
+          element={
+            <ProtectedRoute allowedRoles={["manager", "admin"]}>
+              <UsersPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/analytics"
+          element={
+            <ProtectedRoute allowedRoles={["manager", "admin"]}>
+              <AnalyticsPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/calendar"
+          element={
+            <ProtectedRoute allowedRoles={["manager", "admin", "technician"]}>
+              <CalendarPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/maintenance-plans"
+          element={
+            <ProtectedRoute allowedRoles={["manager", "admin"]}>
+              <MaintenancePlansPage />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/tenant"
+          element={
+            <ProtectedRoute allowedRoles={["tenant"]}>
+              <TenantDashboard />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/technician"
+          element={
+            <ProtectedRoute allowedRoles={["technician"]}>
+              <TechnicianDashboard />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/"
+          element={
+            user ? (
+              <Navigate to={homePathByRole[user.role]} replace />
+            ) : (
+              <Navigate to="/login" replace />
+            )
+          }
+        />
+        <Route path="*" element={<Navigate to="/" replace />} />
+      </Routes>
+    </>
   );
 };
 
@@ -0,0 +1,22 @@
+import React from "react";
+
+interface Props {
+  subtitle: string;
+  children: React.ReactNode;
+}
+
+// Centered card with the Kefiat header, shared by the account pages
+export const AuthCard: React.FC<Props> = ({ subtitle, children }) => (
+  <div className="auth-layout">
+    <div className="auth-card">
+      <div className="auth-title-row">
+        <div className="app-logo-circle">K</div>
+        <div>
+          <h1 className="auth-title">Kefiat</h1>
+          <p className="auth-subtitle">{subtitle}</p>
+        </div>
+      </div>
+      {children}
+    </div>
+  </div>
+);
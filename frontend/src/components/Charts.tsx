@@ -0,0 +1,123 @@
+import React from "react";
+
+export type BarDatum = { label: string; value: number };
+
+// Horizontal bars scaled to the largest value
+export const BarList: React.FC<{
+  data: BarDatum[];
+  color?: string;
+  format?: (value: number) => string;
+}> = ({ data, color = "var(--primary)", format = String }) => {
+  if (data.length === 0) return <p className="text-muted">No data.</p>;
+  const max = Math.max(...data.map((d) => d.value), 1);
+
+  return (
+    <ul className="bar-list">
+      {data.map((d) => (
+        <li key={d.label} className="bar-list-row">
+          <span className="bar-list-label">{d.label}</span>
+          <span className="bar-list-track">
+            <span
+              className="bar-list-fill"
+              style={{
+                width: `${(d.value / max) * 100}%`,
+                backgroundColor: color,
+              }}
+            />
+          </span>
+          <span className="bar-list-value">{format(d.value)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export type LineSeries = {
+  label: string;
+  color: string;
+  values: number[];
+};
+
+const width = 640;
+const height = 200;
+const padding = { top: 10, right: 10, bottom: 24, left: 36 };
+
+// Lines over a shared x axis (one label per point)
+export const LineChart: React.FC<{
+  labels: string[];
+  series: LineSeries[];
+}> = ({ labels, series }) => {
+  if (labels.length === 0) return <p className="text-muted">No data.</p>;
+
+  const max = Math.max(1, ...series.flatMap((s) => s.values));
+  const plotWidth = width - padding.left - padding.right;
+  const plotHeight = height - padding.top - padding.bottom;
+  const x = (i: number) =>
+    padding.left +
+    (labels.length === 1
+      ? plotWidth / 2
+      : (i / (labels.length - 1)) * plotWidth);
+  const y = (value: number) =>
+    padding.top + plotHeight - (value / max) * plotHeight;
+  // About six x labels, whatever the number of points
+  const labelEvery = Math.max(1, Math.ceil(labels.length / 6));
+
+  return (
+    <div>
+      <svg className="line-chart" viewBox={`0 0 ${width} ${height}`} role="img">
+        {[0, 0.5, 1].map((f) => (
+          <g key={f}>
+            <line
+              className="line-chart-grid"
+              x1={padding.left}
+              x2={width - padding.right}
+              y1={y(max * f)}
+              y2={y(max * f)}
+            />
+            <text
+              className="line-chart-axis"
+              x={padding.left - 6}
+              y={y(max * f) + 4}
+              textAnchor="end"
+            >
+              {Math.round(max * f)}
+            </text>
+          </g>
+        ))}
+        {labels.map((label, i) =>
+          i % labelEvery === 0 ? (
+            <text
+              key={i}
+              className="line-chart-axis"
+              x={x(i)}
+              y={height - 6}
+              textAnchor="middle"
+            >
+              {label}
+            </text>
+          ) : null
+        )}
+        {series.map((s) => (
+          <polyline
+            key={s.label}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={2}
+            points={s.values.map((v, i) => `${x(i)},${y(v)}`).join(" ")}
+          />
+        ))}
+      </svg>
+      <div className="chart-legend">
+        {series.map((s) => (
+          <span key={s.label}>
+            <span
+              className="chart-legend-swatch"
+              style={{ backgroundColor: s.color }}
+            />
+            {s.label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
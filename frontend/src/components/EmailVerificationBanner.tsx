@@ -0,0 +1,51 @@
+import React, { useState } from "react";
+import axios from "axios";
+import { useAuth } from "../contexts/AuthContext";
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// Reminds signed-in users with an unconfirmed address to verify it
+export const EmailVerificationBanner: React.FC = () => {
+  const { user, token } = useAuth();
+  const [status, setStatus] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+
+  if (!user || !token || user.emailVerifiedAt) return null;
+
+  const handleResend = async () => {
+    setSending(true);
+    try {
+      const res = await api.post(
+        "/auth/resend-verification",
+        {},
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setStatus(res.data.message);
+    } catch (err: any) {
+      setStatus(err?.response?.data?.message || "Failed to send email.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <div className="verify-banner">
+      <span>Please confirm your email address ({user.email}).</span>
+      {status ? (
+        <span>{status}</span>
+      ) : (
+        <button
+          type="button"
+          className="btn btn-secondary"
+          style={{ fontSize: 12, padding: "3px 10px" }}
+          onClick={handleResend}
+          disabled={sending}
+        >
+          {sending ? "Sending..." : "Resend link"}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useState } from "react";
+import axios from "axios";
+
+type PropertyWithUnits = {
+  id: number;
+  name: string;
+  buildings: {
+    id: number;
+    name: string;
+    units: { id: number; number: string }[];
+  }[];
+};
+
+interface Props {
+  token: string;
+  properties: PropertyWithUnits[];
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// Manager: email an invitation that lets a tenant set up their account
+export const InviteTenantForm: React.FC<Props> = ({ token, properties }) => {
+  const [name, setName] = useState("");
+  const [email, setEmail] = useState("");
+  const [unitId, setUnitId] = useState("");
+  const [sending, setSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const unitOptions = properties.flatMap((p) =>
+    p.buildings.flatMap((b) =>
+      b.units.map((u) => ({
+        id: u.id,
+        label: `${p.name} – ${b.name} – Unit ${u.number}`,
+      }))
+    )
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSending(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await api.post(
+        "/auth/invitations",
+        { name, email, unitId: Number(unitId) },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setMessage(`Invitation sent to ${email}.`);
+      setName("");
+      setEmail("");
+      setUnitId("");
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to send invitation.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <p className="card-title">Invite a tenant</p>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+        <input
+          className="input"
+          style={{ flex: "1 1 160px" }}
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Full name"
+          required
+        />
+        <input
+          type="email"
+          className="input"
+          style={{ flex: "1 1 200px" }}
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          placeholder="tenant@example.com"
+          required
+        />
+        <select
+          className="select"
+          style={{ flex: "1 1 220px" }}
+          value={unitId}
+          onChange={(e) => setUnitId(e.target.value)}
+          required
+        >
+          <option value="">Select unit...</option>
+          {unitOptions.map((u) => (
+            <option key={u.id} value={u.id}>
+              {u.label}
+            </option>
+          ))}
+        </select>
+        <button type="submit" className="btn btn-primary" disabled={sending}>
+          {sending ? "Sending..." : "Send invite"}
+        </button>
+      </div>
+      {message && <p className="text-muted">{message}</p>}
+      {error && <div className="text-error">{error}</div>}
+    </form>
+  );
+};
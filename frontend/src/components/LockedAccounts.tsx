@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+
+type Lockout = { email: string; failures: number; lockedUntil: string };
+
+interface Props {
+  token: string;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// Accounts locked by repeated failed logins, with a way to let them back in
+export const LockedAccounts: React.FC<Props> = ({ token }) => {
+  const [lockouts, setLockouts] = useState<Lockout[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.get<Lockout[]>("/auth/lockouts", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!cancelled) setLockouts(res.data);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to load locked accounts.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleUnlock = async (email: string) => {
+    setError(null);
+    try {
+      await api.post(
+        "/auth/unlock",
+        { email },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setLockouts((prev) => prev.filter((l) => l.email !== email));
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to unlock account.");
+    }
+  };
+
+  return (
+    <div>
+      <p className="card-title">Locked accounts</p>
+      {lockouts.length === 0 ? (
+        <p className="text-muted">No accounts are locked.</p>
+      ) : (
+        <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+          {lockouts.map((l) => (
+            <li
+              key={l.email}
+              style={{
+                display: "flex",
+                alignItems: "center",
+                gap: 12,
+                fontSize: 13,
+                padding: "4px 0",
+              }}
+            >
+              <span>{l.email}</span>
+              <span className="text-muted">
+                {l.failures} failed attempts · locked until{" "}
+                {new Date(l.lockedUntil).toLocaleTimeString()}
+              </span>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                style={{ marginLeft: "auto" }}
+                onClick={() => handleUnlock(l.email)}
+              >
+                Unlock
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <div className="text-error">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+
+type NotificationEvent =
+  | "request_created"
+  | "status_changed"
+  | "priority_changed"
+  | "request_completed";
+
+type Preference = { event: NotificationEvent; email: boolean };
+
+interface Props {
+  token: string;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const eventLabels: Record<NotificationEvent, string> = {
+  request_created: "New requests",
+  status_changed: "Status changes",
+  priority_changed: "Priority changes",
+  request_completed: "Completed requests",
+};
+
+export const NotificationPreferences: React.FC<Props> = ({ token }) => {
+  const [preferences, setPreferences] = useState<Preference[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.get<Preference[]>("/notifications/preferences", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!cancelled) setPreferences(res.data);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to load email settings.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleToggle = async (event: NotificationEvent, email: boolean) => {
+    setError(null);
+    setPreferences((prev) =>
+      prev.map((p) => (p.event === event ? { ...p, email } : p))
+    );
+    try {
+      await api.put(
+        "/notifications/preferences",
+        { event, email },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+    } catch (err: any) {
+      console.error(err);
+      setPreferences((prev) =>
+        prev.map((p) => (p.event === event ? { ...p, email: !email } : p))
+      );
+      setError(err?.response?.data?.message || "Failed to save setting.");
+    }
+  };
+
+  return (
+    <div>
+      <p className="card-title">Email me about</p>
+      <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+        {preferences.map((p) => (
+          <label key={p.event} style={{ fontSize: 13 }}>
+            <input
+              type="checkbox"
+              checked={p.email}
+              onChange={(e) => handleToggle(p.event, e.target.checked)}
+            />{" "}
+            {eventLabels[p.event]}
+          </label>
+        ))}
+      </div>
+      {error && <div className="text-error">{error}</div>}
+    </div>
+  );
+};
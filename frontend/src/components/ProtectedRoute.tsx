@@ -1,10 +1,10 @@
 import React from "react";
 import { Navigate } from "react-router-dom";
-import { useAuth } from "../contexts/AuthContext";
+import { Role, useAuth } from "../contexts/AuthContext";
 
 interface Props {
   children: React.ReactNode;
-  allowedRoles?: Array<"tenant" | "manager" | "admin">;
+  allowedRoles?: Role[];
 }
 
 export const ProtectedRoute: React.FC<Props> = ({ children, allowedRoles }) => {
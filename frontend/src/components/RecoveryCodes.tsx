@@ -0,0 +1,20 @@
+import React from "react";
+
+interface Props {
+  codes: string[];
+}
+
+// Shown once after enrollment or regeneration; the server keeps only hashes
+export const RecoveryCodes: React.FC<Props> = ({ codes }) => (
+  <div>
+    <p style={{ fontSize: 13 }}>
+      Save these recovery codes somewhere safe. Each one signs you in once if
+      you lose your authenticator. They won't be shown again.
+    </p>
+    <ul className="recovery-codes">
+      {codes.map((code) => (
+        <li key={code}>{code}</li>
+      ))}
+    </ul>
+  </div>
+);
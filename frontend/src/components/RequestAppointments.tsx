@@ -0,0 +1,253 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+
+type AppointmentStatus = "proposed" | "accepted" | "declined" | "cancelled";
+
+type Appointment = {
+  id: number;
+  date: string;
+  window: string;
+  status: AppointmentStatus;
+  declineReason: string | null;
+  respondedAt: string | null;
+  createdAt: string;
+  technician: { id: number; name: string; phone: string | null };
+  proposedBy: { id: number; name: string };
+};
+
+interface Props {
+  requestId: number;
+  token: string;
+  // Managers propose and cancel visits; tenants accept or decline them
+  mode: "manager" | "tenant";
+  // The tenant's preferred windows, the only slots a visit can take
+  windows: (string | null | undefined)[];
+  // Bumped by the dashboard when live updates arrive
+  reloadKey?: number;
+  onChange?: () => void;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const statusLabels: Record<AppointmentStatus, string> = {
+  proposed: "Waiting for the tenant",
+  accepted: "Confirmed",
+  declined: "Declined",
+  cancelled: "Cancelled",
+};
+
+const statusColors: Record<AppointmentStatus, string> = {
+  proposed: "#f59e0b",
+  accepted: "#22c55e",
+  declined: "#ef4444",
+  cancelled: "#6b7280",
+};
+
+// Visit dates are calendar days, so format them without a timezone shift
+export function formatVisitDate(date: string) {
+  return new Date(`${date.slice(0, 10)}T00:00:00`).toLocaleDateString(
+    undefined,
+    { weekday: "short", day: "numeric", month: "short" }
+  );
+}
+
+export const RequestAppointments: React.FC<Props> = ({
+  requestId,
+  token,
+  mode,
+  windows,
+  reloadKey,
+  onChange,
+}) => {
+  const slots = windows.filter((w): w is string => !!w);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [date, setDate] = useState("");
+  const [slot, setSlot] = useState(slots[0] ?? "");
+  const [declineReason, setDeclineReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.get<Appointment[]>(
+          `/requests/${requestId}/appointments`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        if (!cancelled) setAppointments(res.data);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to load visits.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, token, reloadKey]);
+
+  // Posts an action, then swaps in the appointment the server returns
+  const send = async (path: string, body: object, failure: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await api.post<Appointment>(
+        `/requests/${requestId}/appointments${path}`,
+        body,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setAppointments((prev) =>
+        path === ""
+          ? // A new proposal cancels whatever was booked before it
+            [
+              res.data,
+              ...prev.map((a) =>
+                a.status === "proposed" || a.status === "accepted"
+                  ? { ...a, status: "cancelled" as const }
+                  : a
+              ),
+            ]
+          : prev.map((a) => (a.id === res.data.id ? res.data : a))
+      );
+      setDeclineReason("");
+      onChange?.();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || failure);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePropose = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!date || !slot) return;
+    send("", { date, window: slot }, "Failed to propose the visit.");
+  };
+
+  const today = new Date().toLocaleDateString("en-CA");
+
+  if (loading) return <p className="text-muted">Loading visits...</p>;
+
+  return (
+    <div className="appointments">
+      <div className="appointments-title">Visit</div>
+      {appointments.length === 0 && (
+        <p className="text-muted" style={{ fontSize: 12, margin: 0 }}>
+          {mode === "manager"
+            ? "No visit proposed yet."
+            : "We'll propose a visit in one of your preferred windows."}
+        </p>
+      )}
+      <ul className="appointment-list">
+        {appointments.map((a) => (
+          <li key={a.id} className="appointment">
+            <div className="appointment-heading">
+              <span>
+                {formatVisitDate(a.date)} · {a.window} · {a.technician.name}
+              </span>
+              <span
+                className="appointment-status"
+                style={{ color: statusColors[a.status] }}
+              >
+                {statusLabels[a.status]}
+              </span>
+            </div>
+            {a.status === "declined" && a.declineReason && (
+              <div className="text-muted">Reason: {a.declineReason}</div>
+            )}
+
+            {mode === "tenant" && a.status === "proposed" && (
+              <div className="appointment-actions">
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  disabled={saving}
+                  onClick={() =>
+                    send(`/${a.id}/accept`, {}, "Failed to accept the visit.")
+                  }
+                >
+                  Accept
+                </button>
+                <input
+                  className="input"
+                  placeholder="Reason (optional)"
+                  value={declineReason}
+                  onChange={(e) => setDeclineReason(e.target.value)}
+                />
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  disabled={saving}
+                  onClick={() =>
+                    send(
+                      `/${a.id}/decline`,
+                      { reason: declineReason },
+                      "Failed to decline the visit."
+                    )
+                  }
+                >
+                  Decline
+                </button>
+              </div>
+            )}
+
+            {mode === "manager" &&
+              (a.status === "proposed" || a.status === "accepted") && (
+                <div className="appointment-actions">
+                  <button
+                    type="button"
+                    className="btn btn-secondary"
+                    disabled={saving}
+                    onClick={() =>
+                      send(`/${a.id}/cancel`, {}, "Failed to cancel the visit.")
+                    }
+                  >
+                    Cancel visit
+                  </button>
+                </div>
+              )}
+          </li>
+        ))}
+      </ul>
+
+      {mode === "manager" && slots.length > 0 && (
+        <form className="appointment-actions" onSubmit={handlePropose}>
+          <input
+            type="date"
+            className="input"
+            min={today}
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+          />
+          <select
+            className="select"
+            value={slot}
+            onChange={(e) => setSlot(e.target.value)}
+          >
+            {slots.map((w) => (
+              <option key={w} value={w}>
+                {w}
+              </option>
+            ))}
+          </select>
+          <button
+            type="submit"
+            className="btn btn-primary"
+            disabled={saving || !date}
+          >
+            Propose visit
+          </button>
+        </form>
+      )}
+      {error && <div className="text-error">{error}</div>}
+    </div>
+  );
+};
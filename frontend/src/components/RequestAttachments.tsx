@@ -0,0 +1,186 @@
+import React, { useEffect, useRef, useState } from "react";
+import axios from "axios";
+
+type Attachment = {
+  id: number;
+  fileName: string;
+  mimeType: string;
+  size: number;
+  thumbnailKey: string | null;
+  createdAt: string;
+  uploadedBy: { id: number; name: string };
+};
+
+interface Props {
+  requestId: number;
+  token: string;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 * 1024
+    ? `${Math.max(1, Math.round(bytes / 1024))} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+// Downloads go through axios so the bearer token is sent; the browser then
+// gets a short-lived object URL.
+const fetchBlobUrl = async (url: string, token: string) => {
+  const res = await api.get<Blob>(url, {
+    headers: { Authorization: `Bearer ${token}` },
+    responseType: "blob",
+  });
+  return URL.createObjectURL(res.data);
+};
+
+export const RequestAttachments: React.FC<Props> = ({ requestId, token }) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [thumbnails, setThumbnails] = useState<Record<number, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.get<Attachment[]>(
+          `/requests/${requestId}/attachments`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        if (!cancelled) setAttachments(res.data);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to load attachments.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, token]);
+
+  // Load thumbnails for images we haven't requested yet
+  const requestedThumbnails = useRef(new Set<number>());
+  useEffect(() => {
+    attachments
+      .filter((a) => a.thumbnailKey && !requestedThumbnails.current.has(a.id))
+      .forEach(async (a) => {
+        requestedThumbnails.current.add(a.id);
+        try {
+          const url = await fetchBlobUrl(
+            `/requests/${requestId}/attachments/${a.id}/thumbnail`,
+            token
+          );
+          setThumbnails((prev) => ({ ...prev, [a.id]: url }));
+        } catch (err) {
+          console.error(err);
+        }
+      });
+  }, [attachments, requestId, token]);
+
+  // Release thumbnail object URLs when the panel closes
+  const thumbnailsRef = useRef(thumbnails);
+  thumbnailsRef.current = thumbnails;
+  useEffect(
+    () => () =>
+      Object.values(thumbnailsRef.current).forEach(URL.revokeObjectURL),
+    []
+  );
+
+  const handleOpen = async (a: Attachment) => {
+    try {
+      const url = await fetchBlobUrl(
+        `/requests/${requestId}/attachments/${a.id}/file`,
+        token
+      );
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = a.fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to download file.");
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    const body = new FormData();
+    files.forEach((f) => body.append("attachments", f));
+
+    setUploading(true);
+    setError(null);
+    try {
+      const res = await api.post<Attachment[]>(
+        `/requests/${requestId}/attachments`,
+        body,
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setAttachments((prev) => [...prev, ...res.data]);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to upload files.");
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  return (
+    <div className="attachment-panel">
+      {loading ? (
+        <p className="text-muted">Loading attachments...</p>
+      ) : attachments.length === 0 ? (
+        <p className="text-muted">No photos or files yet.</p>
+      ) : (
+        <div className="attachment-grid">
+          {attachments.map((a) => (
+            <button
+              key={a.id}
+              type="button"
+              className="attachment-tile"
+              onClick={() => handleOpen(a)}
+              title={`${a.fileName} · ${formatSize(a.size)} · ${
+                a.uploadedBy.name
+              }`}
+            >
+              {thumbnails[a.id] ? (
+                <img src={thumbnails[a.id]} alt={a.fileName} />
+              ) : (
+                <span className="attachment-file-label">
+                  {a.mimeType === "application/pdf" ? "PDF" : "File"}
+                </span>
+              )}
+              <span className="attachment-name">{a.fileName}</span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      <label
+        className="btn btn-secondary"
+        style={{ fontSize: 12, padding: "4px 10px", display: "inline-block" }}
+      >
+        {uploading ? "Uploading..." : "Add photos or files"}
+        <input
+          type="file"
+          multiple
+          accept="image/jpeg,image/png,image/webp,application/pdf"
+          onChange={handleUpload}
+          disabled={uploading}
+          style={{ display: "none" }}
+        />
+      </label>
+      {error && <div className="text-error">{error}</div>}
+    </div>
+  );
+};
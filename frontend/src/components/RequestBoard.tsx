@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Role, UnitSummary } from "../contexts/AuthContext";
+import { useWorkflow } from "../hooks/useWorkflow";
+
+type RequestPriority = "low" | "normal" | "high" | "emergency";
+
+type BoardRequest = {
+  id: number;
+  unit: UnitSummary;
+  category: string;
+  status: string;
+  priority: RequestPriority;
+  createdAt: string;
+  updatedAt: string;
+  lastUpdatedByRole: string;
+  tenant: { name: string } | null;
+  assignee: { name: string } | null;
+};
+
+type RequestPage = {
+  items: BoardRequest[];
+  total: number;
+};
+
+interface Props {
+  token: string;
+  role: Role;
+  // Query string of the dashboard's shared filters (property, priority...)
+  filters: string;
+  // Bumped by the dashboard when live updates arrive
+  reloadKey: number;
+  now: number;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// Most cards loaded per side (open / recently closed)
+const boardLimit = 200;
+// Terminal columns only show requests closed this recently
+const closedDays = 14;
+
+const priorityColor: Record<RequestPriority, string> = {
+  low: "#6b7280",
+  normal: "#0ea5e9",
+  high: "#f97316",
+  emergency: "#ef4444",
+};
+
+function formatAge(ms: number) {
+  const minutes = Math.max(0, Math.floor(ms / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)}h`;
+  return `${Math.floor(minutes / (24 * 60))}d`;
+}
+
+// One column per workflow state. Dragging a card onto another column fires
+// the status change; the move shows at once and is undone if the server
+// rejects it.
+export const RequestBoard: React.FC<Props> = ({
+  token,
+  role,
+  filters,
+  reloadKey,
+  now,
+}) => {
+  const { states, statusLabel, transitionsFor } = useWorkflow(token);
+  const [requests, setRequests] = useState<BoardRequest[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<number | null>(null);
+  const [overKey, setOverKey] = useState<string | null>(null);
+  const [savingIds, setSavingIds] = useState<number[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const closedSince = new Date(now - closedDays * 24 * 60 * 60 * 1000);
+        const query = (extra: Record<string, string>) => {
+          const params = new URLSearchParams(filters);
+          params.set("sort", "updatedAt");
+          params.set("dir", "desc");
+          params.set("limit", String(boardLimit));
+          for (const [key, value] of Object.entries(extra)) {
+            params.set(key, value);
+          }
+          return `/requests?${params.toString()}`;
+        };
+        const headers = { Authorization: `Bearer ${token}` };
+        const [openRes, closedRes] = await Promise.all([
+          api.get<RequestPage>(query({ open: "true" }), { headers }),
+          api.get<RequestPage>(
+            query({ open: "false", updatedFrom: closedSince.toISOString() }),
+            { headers }
+          ),
+        ]);
+        if (cancelled) return;
+        setRequests([...openRes.data.items, ...closedRes.data.items]);
+        setTruncated(
+          openRes.data.total > boardLimit || closedRes.data.total > boardLimit
+        );
+        setError(null);
+      } catch (err: any) {
+        console.error(err);
+        if (!cancelled) {
+          setError(err?.response?.data?.message || "Failed to load the board.");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+    // The closed-since cutoff only needs to move when the board reloads
+  }, [token, filters, reloadKey]);
+
+  const dragged = requests.find((r) => r.id === draggingId) ?? null;
+  const allowedTargets = dragged
+    ? transitionsFor(dragged.status, role).map((t) => t.toKey)
+    : [];
+
+  const setStatus = (id: number, status: string) =>
+    setRequests((prev) =>
+      prev.map((r) => (r.id === id ? { ...r, status } : r))
+    );
+
+  const moveRequest = async (id: number, toKey: string) => {
+    const request = requests.find((r) => r.id === id);
+    if (!request || request.status === toKey || savingIds.includes(id)) return;
+
+    const transition = transitionsFor(request.status, role).find(
+      (t) => t.toKey === toKey
+    );
+    let reason: string | undefined;
+    if (transition?.requiresReason) {
+      reason = window.prompt(`Reason for "${transition.label}":`)?.trim();
+      if (!reason) return;
+    }
+
+    const fromKey = request.status;
+    setStatus(id, toKey);
+    setSavingIds((prev) => [...prev, id]);
+    setError(null);
+
+    try {
+      const res = await api.patch<BoardRequest>(
+        `/requests/${id}/status`,
+        { status: toKey, reason },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setRequests((prev) =>
+        prev.map((r) =>
+          r.id === id
+            ? {
+                ...r,
+                status: res.data.status,
+                updatedAt: res.data.updatedAt,
+                lastUpdatedByRole: res.data.lastUpdatedByRole,
+              }
+            : r
+        )
+      );
+    } catch (err: any) {
+      console.error(err);
+      setStatus(id, fromKey);
+      setError(
+        err?.response?.data?.message ||
+          `Couldn't move #${id} to ${statusLabel(toKey)}.`
+      );
+    } finally {
+      setSavingIds((prev) => prev.filter((s) => s !== id));
+    }
+  };
+
+  if (loading) return <p className="text-muted">Loading board...</p>;
+
+  return (
+    <div>
+      {error && <div className="text-error">{error}</div>}
+      {truncated && (
+        <p className="text-muted" style={{ fontSize: 12 }}>
+          Showing the {boardLimit} most recently updated requests on each side;
+          narrow the filters to see the rest.
+        </p>
+      )}
+      <div className="board">
+        {states.map((state) => {
+          const cards = requests.filter((r) => r.status === state.key);
+          const isTarget = allowedTargets.includes(state.key);
+          return (
+            <div
+              key={state.key}
+              className={[
+                "board-column",
+                isTarget ? "board-column-target" : "",
+                overKey === state.key ? "board-column-over" : "",
+              ].join(" ")}
+              onDragOver={(e) => {
+                if (draggingId === null) return;
+                e.preventDefault();
+                setOverKey(state.key);
+              }}
+              onDragLeave={() =>
+                setOverKey((prev) => (prev === state.key ? null : prev))
+              }
+              onDrop={(e) => {
+                e.preventDefault();
+                setOverKey(null);
+                const id = Number(e.dataTransfer.getData("text/plain"));
+                if (id) moveRequest(id, state.key);
+              }}
+            >
+              <div
+                className="board-column-heading"
+                style={{ borderTopColor: state.color }}
+              >
+                <span>{state.label}</span>
+                <span className="text-muted">{cards.length}</span>
+              </div>
+              {state.isTerminal && (
+                <div className="board-column-note">Last {closedDays} days</div>
+              )}
+              {cards.map((r) => (
+                <div
+                  key={r.id}
+                  className="board-card"
+                  draggable={!savingIds.includes(r.id)}
+                  style={{
+                    borderLeftColor: priorityColor[r.priority],
+                    opacity: savingIds.includes(r.id) ? 0.6 : 1,
+                  }}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData("text/plain", String(r.id));
+                    e.dataTransfer.effectAllowed = "move";
+                    setDraggingId(r.id);
+                  }}
+                  onDragEnd={() => {
+                    setDraggingId(null);
+                    setOverKey(null);
+                  }}
+                >
+                  <div className="board-card-heading">
+                    <span>
+                      #{r.id} · {r.category}
+                    </span>
+                    <span
+                      className="text-muted"
+                      title={`Opened ${new Date(r.createdAt).toLocaleString()}`}
+                    >
+                      {formatAge(now - new Date(r.createdAt).getTime())}
+                    </span>
+                  </div>
+                  <div>
+                    {r.unit.building.name} {r.unit.number}
+                    {r.tenant && ` · ${r.tenant.name}`}
+                  </div>
+                  <div className="text-muted">
+                    {r.assignee ? r.assignee.name : "Unassigned"}
+                  </div>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,209 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+
+type Comment = {
+  id: number;
+  body: string;
+  internal: boolean;
+  parentId: number | null;
+  createdAt: string;
+  author: {
+    id: number;
+    name: string;
+    role: "tenant" | "manager" | "admin" | "technician";
+  };
+};
+
+interface Props {
+  requestId: number;
+  token: string;
+  currentUserId: number;
+  // Managers may post internal notes and see them in the thread
+  allowInternal?: boolean;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const roleLabels: Record<Comment["author"]["role"], string> = {
+  tenant: "Tenant",
+  manager: "Maintenance",
+  admin: "Maintenance",
+  technician: "Technician",
+};
+
+export const RequestComments: React.FC<Props> = ({
+  requestId,
+  token,
+  currentUserId,
+  allowInternal = false,
+}) => {
+  const [comments, setComments] = useState<Comment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [body, setBody] = useState("");
+  const [internal, setInternal] = useState(false);
+  const [replyTo, setReplyTo] = useState<Comment | null>(null);
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.get<Comment[]>(
+          `/requests/${requestId}/comments`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        if (!cancelled) setComments(res.data);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to load messages.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, token]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!body.trim()) return;
+
+    setSending(true);
+    setError(null);
+    try {
+      const res = await api.post<Comment>(
+        `/requests/${requestId}/comments`,
+        {
+          body,
+          internal: allowInternal && internal,
+          parentId: replyTo?.id,
+        },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setComments((prev) => [...prev, res.data]);
+      setBody("");
+      setReplyTo(null);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to send message.");
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(undefined, {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+
+  const topLevel = comments.filter((c) => !c.parentId);
+  const repliesOf = (id: number) => comments.filter((c) => c.parentId === id);
+
+  const renderComment = (c: Comment, isReply = false) => (
+    <div
+      key={c.id}
+      className={`comment${c.internal ? " comment-internal" : ""}${
+        isReply ? " comment-reply" : ""
+      }`}
+    >
+      <div className="comment-meta">
+        <span>
+          {c.author.id === currentUserId ? "You" : c.author.name} ·{" "}
+          {roleLabels[c.author.role]}
+        </span>
+        <span>
+          {c.internal && <strong>Internal · </strong>}
+          {formatDateTime(c.createdAt)}
+        </span>
+      </div>
+      <div className="comment-body">{c.body}</div>
+      {!isReply && (
+        <button
+          type="button"
+          className="comment-reply-button"
+          onClick={() => setReplyTo(c)}
+        >
+          Reply
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="comment-panel">
+      {loading ? (
+        <p className="text-muted">Loading messages...</p>
+      ) : topLevel.length === 0 ? (
+        <p className="text-muted">No messages yet.</p>
+      ) : (
+        <div className="comment-thread">
+          {topLevel.map((c) => (
+            <React.Fragment key={c.id}>
+              {renderComment(c)}
+              {repliesOf(c.id).map((r) => renderComment(r, true))}
+            </React.Fragment>
+          ))}
+        </div>
+      )}
+
+      <form onSubmit={handleSubmit}>
+        {replyTo && (
+          <div className="comment-meta" style={{ marginBottom: 4 }}>
+            <span>Replying to {replyTo.author.name}</span>
+            <button
+              type="button"
+              className="comment-reply-button"
+              onClick={() => setReplyTo(null)}
+            >
+              Cancel
+            </button>
+          </div>
+        )}
+        <textarea
+          className="textarea"
+          rows={2}
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          placeholder="Write a message..."
+        />
+        <div
+          style={{
+            display: "flex",
+            justifyContent: "space-between",
+            alignItems: "center",
+            marginTop: 6,
+          }}
+        >
+          {allowInternal ? (
+            <label className="text-muted" style={{ fontSize: 12 }}>
+              <input
+                type="checkbox"
+                checked={internal}
+                onChange={(e) => setInternal(e.target.checked)}
+              />{" "}
+              Internal note (managers only)
+            </label>
+          ) : (
+            <span />
+          )}
+          <button
+            type="submit"
+            disabled={sending || !body.trim()}
+            className="btn btn-primary"
+            style={{ fontSize: 12, padding: "4px 12px" }}
+          >
+            {sending ? "Sending..." : "Send"}
+          </button>
+        </div>
+        {error && <div className="text-error">{error}</div>}
+      </form>
+    </div>
+  );
+};
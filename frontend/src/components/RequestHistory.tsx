@@ -0,0 +1,147 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useWorkflow } from "../hooks/useWorkflow";
+
+type RequestEvent = {
+  id: number;
+  type:
+    | "created"
+    | "status_changed"
+    | "priority_changed"
+    | "closed"
+    | "assignee_changed"
+    | "reopened"
+    | "sla_at_risk"
+    | "sla_breached"
+    | "appointment_proposed"
+    | "appointment_accepted"
+    | "appointment_declined"
+    | "appointment_cancelled";
+  field: string | null;
+  oldValue: string | null;
+  newValue: string | null;
+  note: string | null;
+  actorRole: string | null;
+  createdAt: string;
+  actor: { id: number; name: string; role: string } | null;
+};
+
+interface Props {
+  requestId: number;
+  token: string;
+  currentUserId: number;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const priorityLabels: Record<string, string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "High",
+  emergency: "Emergency",
+};
+
+const describe = (e: RequestEvent, statusLabel: (key: string) => string) => {
+  const label = (value: string | null) =>
+    value
+      ? e.field === "status"
+        ? statusLabel(value)
+        : (priorityLabels[value] ?? value)
+      : "none";
+
+  switch (e.type) {
+    case "created":
+      return "Request submitted";
+    case "closed":
+      return `Marked as resolved (was ${label(e.oldValue)})`;
+    case "status_changed":
+      return `Status: ${label(e.oldValue)} → ${label(e.newValue)}`;
+    case "priority_changed":
+      return `Priority: ${label(e.oldValue)} → ${label(e.newValue)}`;
+    case "reopened":
+      return `Problem came back – reopened as #${e.newValue}`;
+    case "sla_at_risk":
+      return `SLA at risk: ${e.newValue === "view" ? "first response" : "completion"} target`;
+    case "sla_breached":
+      return `SLA breached: ${e.newValue === "view" ? "first response" : "completion"} target missed`;
+    case "assignee_changed":
+      return e.newValue
+        ? `Assigned to ${e.newValue}${e.oldValue ? ` (was ${e.oldValue})` : ""}`
+        : `Unassigned from ${e.oldValue}`;
+    case "appointment_proposed":
+      return `Visit proposed for ${e.newValue}`;
+    case "appointment_accepted":
+      return `Visit on ${e.newValue} accepted`;
+    case "appointment_declined":
+      return `Visit on ${e.newValue} declined`;
+    case "appointment_cancelled":
+      return `Visit on ${e.oldValue} cancelled`;
+    default:
+      return e.type;
+  }
+};
+
+export const RequestHistory: React.FC<Props> = ({
+  requestId,
+  token,
+  currentUserId,
+}) => {
+  const { statusLabel } = useWorkflow(token);
+  const [events, setEvents] = useState<RequestEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.get<RequestEvent[]>(
+          `/requests/${requestId}/history`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        if (!cancelled) setEvents(res.data);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to load history.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [requestId, token]);
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(undefined, {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+
+  const actorName = (e: RequestEvent) => {
+    if (!e.actor) return "System";
+    if (e.actor.id === currentUserId) return "You";
+    return e.actor.name;
+  };
+
+  if (loading) return <p className="text-muted">Loading history...</p>;
+  if (error) return <div className="text-error">{error}</div>;
+
+  return (
+    <ol className="history-timeline">
+      {events.map((e) => (
+        <li key={e.id} className="history-item">
+          <div className="history-text">{describe(e, statusLabel)}</div>
+          {e.note && <div className="history-note">“{e.note}”</div>}
+          <div className="history-meta">
+            {actorName(e)} · {formatDateTime(e.createdAt)}
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
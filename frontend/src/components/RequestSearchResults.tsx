@@ -0,0 +1,196 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { UnitSummary } from "../contexts/AuthContext";
+import { useWorkflow } from "../hooks/useWorkflow";
+import { RequestHistory } from "./RequestHistory";
+import { RequestAttachments } from "./RequestAttachments";
+import { RequestComments } from "./RequestComments";
+
+type SearchResult = {
+  id: number;
+  unit: UnitSummary;
+  category: string;
+  status: string;
+  createdAt: string;
+  tenant: { name: string; email: string } | null;
+  search: {
+    rank: number;
+    source: "request" | "comment";
+    snippet: { text: string; match: boolean }[];
+  };
+};
+
+type SearchPage = {
+  items: SearchResult[];
+  total: number;
+};
+
+interface Props {
+  query: string;
+  token: string;
+  currentUserId: number;
+}
+
+const pageSize = 20;
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// Ranked matches across every request, open or closed, best first
+export const RequestSearchResults: React.FC<Props> = ({
+  query,
+  token,
+  currentUserId,
+}) => {
+  const { statusLabel, statusColor } = useWorkflow(token);
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [openId, setOpenId] = useState<number | null>(null);
+
+  const loadPage = async (offset: number) => {
+    const params = new URLSearchParams({
+      q: query,
+      limit: String(pageSize),
+      offset: String(offset),
+    });
+    const res = await api.get<SearchPage>(
+      `/requests/search?${params.toString()}`,
+      { headers: { Authorization: `Bearer ${token}` } }
+    );
+    return res.data;
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setOpenId(null);
+
+    (async () => {
+      try {
+        const page = await loadPage(0);
+        if (cancelled) return;
+        setResults(page.items);
+        setTotal(page.total);
+        setError(null);
+      } catch (err: any) {
+        console.error(err);
+        if (!cancelled) {
+          setError(err?.response?.data?.message || "Search failed.");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [query, token]);
+
+  const loadMore = async () => {
+    setLoading(true);
+    try {
+      const page = await loadPage(results.length);
+      setResults((prev) => [...prev, ...page.items]);
+      setTotal(page.total);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Search failed.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (error) return <div className="text-error">{error}</div>;
+  if (loading && results.length === 0) {
+    return <p className="text-muted">Searching...</p>;
+  }
+  if (results.length === 0) {
+    return <p className="text-muted">No requests match “{query}”.</p>;
+  }
+
+  return (
+    <div>
+      <p className="text-muted" style={{ fontSize: 12, marginTop: 0 }}>
+        {total} {total === 1 ? "request matches" : "requests match"}, open and
+        closed
+      </p>
+      <ul className="search-results">
+        {results.map((r) => (
+          <li key={r.id} className="search-result">
+            <div className="search-result-heading">
+              <span>
+                #{r.id} · {r.category} · {r.unit.building.name} {r.unit.number}{" "}
+                {r.tenant && `· ${r.tenant.name}`}
+              </span>
+              <span
+                className="status-pill"
+                style={{ backgroundColor: statusColor(r.status) }}
+              >
+                {statusLabel(r.status)}
+              </span>
+            </div>
+            <div className="search-snippet">
+              {r.search.source === "comment" && (
+                <span className="text-muted">Comment: </span>
+              )}
+              {r.search.snippet.map((part, i) =>
+                part.match ? (
+                  <mark key={i}>{part.text}</mark>
+                ) : (
+                  <React.Fragment key={i}>{part.text}</React.Fragment>
+                )
+              )}
+            </div>
+            <div className="search-result-meta">
+              {r.unit.building.property.name} ·{" "}
+              {r.tenant ? `${r.tenant.email} · ` : ""}opened{" "}
+              {new Date(r.createdAt).toLocaleDateString()}
+              <button
+                type="button"
+                className="btn btn-secondary"
+                style={{ fontSize: 11, padding: "3px 8px", marginLeft: 8 }}
+                onClick={() =>
+                  setOpenId((prev) => (prev === r.id ? null : r.id))
+                }
+              >
+                {openId === r.id
+                  ? "Hide details"
+                  : "History, photos & messages"}
+              </button>
+            </div>
+            {openId === r.id && (
+              <div>
+                <RequestHistory
+                  requestId={r.id}
+                  token={token}
+                  currentUserId={currentUserId}
+                />
+                <RequestAttachments requestId={r.id} token={token} />
+                <RequestComments
+                  requestId={r.id}
+                  token={token}
+                  currentUserId={currentUserId}
+                  allowInternal
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+      {results.length < total && (
+        <button
+          type="button"
+          className="btn btn-secondary"
+          disabled={loading}
+          onClick={loadMore}
+        >
+          {loading ? "Loading..." : "Show more results"}
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useAuth } from "../contexts/AuthContext";
+
+type Session = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+};
+
+interface Props {
+  token: string;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// Rough "Chrome on Windows" label; the raw user agent is in the tooltip
+function describeDevice(userAgent: string | null) {
+  if (!userAgent) return "Unknown device";
+  const browser =
+    ["Edg", "Firefox", "Chrome", "Safari"].find((b) => userAgent.includes(b)) ??
+    "Browser";
+  const os =
+    ["Windows", "Android", "iPhone", "iPad", "Mac OS", "Linux"].find((o) =>
+      userAgent.includes(o)
+    ) ?? "unknown system";
+  return `${browser === "Edg" ? "Edge" : browser} on ${os}`;
+}
+
+export const SessionList: React.FC<Props> = ({ token }) => {
+  const { logoutEverywhere } = useAuth();
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.get<Session[]>("/auth/sessions", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!cancelled) setSessions(res.data);
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to load signed-in devices.");
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const handleRevoke = async (id: string) => {
+    setError(null);
+    try {
+      await api.delete(`/auth/sessions/${id}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      setSessions((prev) => prev.filter((s) => s.id !== id));
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to sign out device.");
+    }
+  };
+
+  const handleLogoutEverywhere = () => {
+    if (!window.confirm("Sign out of every device, including this one?")) {
+      return;
+    }
+    logoutEverywhere();
+  };
+
+  return (
+    <div>
+      <p className="card-title">Signed-in devices</p>
+      <ul style={{ listStyle: "none", padding: 0, margin: 0 }}>
+        {sessions.map((s) => (
+          <li
+            key={s.id}
+            style={{
+              display: "flex",
+              alignItems: "center",
+              gap: 12,
+              fontSize: 13,
+              padding: "4px 0",
+            }}
+          >
+            <span title={s.userAgent ?? undefined}>
+              {describeDevice(s.userAgent)}
+              {s.current && <strong> (this device)</strong>}
+            </span>
+            <span className="text-muted">
+              {s.ipAddress ?? "—"} · last active{" "}
+              {new Date(s.lastUsedAt).toLocaleString()}
+            </span>
+            {!s.current && (
+              <button
+                type="button"
+                className="btn btn-secondary"
+                style={{ marginLeft: "auto" }}
+                onClick={() => handleRevoke(s.id)}
+              >
+                Sign out
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        className="btn btn-danger"
+        style={{ marginTop: 8 }}
+        onClick={handleLogoutEverywhere}
+      >
+        Log out everywhere
+      </button>
+      {error && <div className="text-error">{error}</div>}
+    </div>
+  );
+};
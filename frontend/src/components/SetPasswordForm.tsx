@@ -0,0 +1,72 @@
+import React, { useState } from "react";
+
+interface Props {
+  submitLabel: string;
+  onSubmit: (password: string) => Promise<void>;
+}
+
+const minPasswordLength = 8;
+
+// New password + confirmation, used by the invite and reset pages
+export const SetPasswordForm: React.FC<Props> = ({ submitLabel, onSubmit }) => {
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (password.length < minPasswordLength) {
+      setError(`Password must be at least ${minPasswordLength} characters.`);
+      return;
+    }
+    if (password !== confirm) {
+      setError("Passwords don't match.");
+      return;
+    }
+
+    setLoading(true);
+    try {
+      await onSubmit(password);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || "Something went wrong");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="field-group">
+        <label className="field-label">New password</label>
+        <input
+          type="password"
+          className="input"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          placeholder="At least 8 characters"
+        />
+      </div>
+      <div className="field-group">
+        <label className="field-label">Confirm password</label>
+        <input
+          type="password"
+          className="input"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+        />
+      </div>
+      {error && <div className="text-error">{error}</div>}
+      <button
+        type="submit"
+        disabled={loading}
+        className="btn btn-primary"
+        style={{ width: "100%", marginTop: 10 }}
+      >
+        {loading ? "Saving..." : submitLabel}
+      </button>
+    </form>
+  );
+};
@@ -0,0 +1,67 @@
+import React from "react";
+
+export type SlaSnapshot = {
+  status: "on_track" | "at_risk" | "breached";
+  target: "view" | "complete" | null;
+  viewDueAt: string | null;
+  completeDueAt: string | null;
+};
+
+interface Props {
+  sla: SlaSnapshot;
+  // Passed in so one ticking clock drives every badge on the page
+  now: number;
+}
+
+const statusColor: Record<SlaSnapshot["status"], string> = {
+  on_track: "#16a34a",
+  at_risk: "#f59e0b",
+  breached: "#ef4444",
+};
+
+const targetLabels = { view: "View", complete: "Fix" };
+
+const formatSpan = (ms: number) => {
+  const minutes = Math.max(1, Math.round(Math.abs(ms) / 60000));
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours}h ${minutes % 60}m`;
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+export const SlaBadge: React.FC<Props> = ({ sla, now }) => {
+  const dueAt =
+    sla.target === "view"
+      ? sla.viewDueAt
+      : sla.target === "complete"
+        ? sla.completeDueAt
+        : null;
+
+  if (!sla.target || !dueAt) {
+    return (
+      <span className="text-muted">
+        {sla.status === "breached" ? "Breached" : "—"}
+      </span>
+    );
+  }
+
+  const remaining = new Date(dueAt).getTime() - now;
+  const text =
+    remaining >= 0
+      ? `${targetLabels[sla.target]} due in ${formatSpan(remaining)}`
+      : `${targetLabels[sla.target]} overdue ${formatSpan(remaining)}`;
+
+  return (
+    <span
+      className="sla-badge"
+      style={{
+        borderColor: statusColor[sla.status],
+        color: statusColor[sla.status],
+      }}
+      title={`Due ${new Date(dueAt).toLocaleString()}`}
+    >
+      {sla.status === "breached" ? "Breached · " : ""}
+      {text}
+    </span>
+  );
+};
@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Role, useAuth } from "../contexts/AuthContext";
+import { RecoveryCodes } from "./RecoveryCodes";
+import { TwoFactorSetup } from "./TwoFactorSetup";
+
+type Status = {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+};
+
+interface Props {
+  token: string;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const policyRoles: Array<{ role: Role; label: string }> = [
+  { role: "admin", label: "Admins" },
+  { role: "manager", label: "Managers" },
+  { role: "technician", label: "Technicians" },
+  { role: "tenant", label: "Tenants" },
+];
+
+export const TwoFactorSettings: React.FC<Props> = ({ token }) => {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<Status | null>(null);
+  const [settingUp, setSettingUp] = useState(false);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const [requiredRoles, setRequiredRoles] = useState<Role[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const isAdmin = user?.role === "admin";
+
+  const loadStatus = async () => {
+    try {
+      const res = await api.get<Status>("/auth/2fa", {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      setStatus(res.data);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to load two-factor settings.");
+    }
+  };
+
+  useEffect(() => {
+    loadStatus();
+    if (isAdmin) {
+      api
+        .get<{ requiredRoles: Role[] }>("/auth/2fa/policy", {
+          headers: { Authorization: `Bearer ${token}` },
+        })
+        .then((res) => setRequiredRoles(res.data.requiredRoles))
+        .catch((err) => console.error(err));
+    }
+  }, [token, isAdmin]);
+
+  const promptCode = () =>
+    window.prompt(
+      "Enter a code from your authenticator app (or a recovery code)"
+    );
+
+  const handleRegenerate = async () => {
+    const code = promptCode();
+    if (!code) return;
+    setError(null);
+    try {
+      const res = await api.post<{ recoveryCodes: string[] }>(
+        "/auth/2fa/recovery-codes",
+        { code },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setNewCodes(res.data.recoveryCodes);
+      loadStatus();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to create new codes.");
+    }
+  };
+
+  const handleDisable = async () => {
+    const code = promptCode();
+    if (!code) return;
+    setError(null);
+    try {
+      await api.post(
+        "/auth/2fa/disable",
+        { code },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      loadStatus();
+    } catch (err: any) {
+      console.error(err);
+      setError(
+        err?.response?.data?.message || "Failed to turn off two-factor."
+      );
+    }
+  };
+
+  const handlePolicyToggle = async (role: Role, required: boolean) => {
+    if (!requiredRoles) return;
+    const next = required
+      ? [...requiredRoles, role]
+      : requiredRoles.filter((r) => r !== role);
+    setError(null);
+    try {
+      const res = await api.put<{ requiredRoles: Role[] }>(
+        "/auth/2fa/policy",
+        { requiredRoles: next },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setRequiredRoles(res.data.requiredRoles);
+      loadStatus();
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to save policy.");
+    }
+  };
+
+  return (
+    <div>
+      <p className="card-title">Two-factor authentication</p>
+      {status && !settingUp && (
+        <div style={{ display: "flex", alignItems: "center", gap: 12 }}>
+          <span style={{ fontSize: 13 }}>
+            {status.enabled
+              ? `On · ${status.recoveryCodesLeft} recovery codes left`
+              : "Off"}
+            {status.required && " · required for your role"}
+          </span>
+          {status.enabled ? (
+            <>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={handleRegenerate}
+              >
+                New recovery codes
+              </button>
+              {!status.required && (
+                <button
+                  type="button"
+                  className="btn btn-danger"
+                  onClick={handleDisable}
+                >
+                  Turn off
+                </button>
+              )}
+            </>
+          ) : (
+            <button
+              type="button"
+              className="btn btn-primary"
+              onClick={() => setSettingUp(true)}
+            >
+              Set up
+            </button>
+          )}
+        </div>
+      )}
+      {settingUp && (
+        <TwoFactorSetup
+          token={token}
+          onDone={() => {
+            setSettingUp(false);
+            loadStatus();
+          }}
+        />
+      )}
+      {newCodes && <RecoveryCodes codes={newCodes} />}
+      {isAdmin && requiredRoles && (
+        <div style={{ marginTop: 12 }}>
+          <p className="card-title">Require two-factor for</p>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+            {policyRoles.map(({ role, label }) => (
+              <label key={role} style={{ fontSize: 13 }}>
+                <input
+                  type="checkbox"
+                  checked={requiredRoles.includes(role)}
+                  onChange={(e) => handlePolicyToggle(role, e.target.checked)}
+                />{" "}
+                {label}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+      {error && <div className="text-error">{error}</div>}
+    </div>
+  );
+};
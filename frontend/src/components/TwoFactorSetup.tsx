@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { useAuth } from "../contexts/AuthContext";
+import { RecoveryCodes } from "./RecoveryCodes";
+
+type Enrollment = { secret: string; otpauthUrl: string; qrCode: string };
+
+interface Props {
+  // Signed-in users pass their token; a forced-setup login passes the
+  // challenge from the password step instead
+  token?: string;
+  challengeToken?: string;
+  onDone: () => void;
+}
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// Authenticator enrollment: scan the QR code, confirm a code, save the
+// recovery codes
+export const TwoFactorSetup: React.FC<Props> = ({
+  token,
+  challengeToken,
+  onDone,
+}) => {
+  const { enableTwoFactor } = useAuth();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.post<Enrollment>(
+          "/auth/2fa/setup",
+          { challengeToken },
+          token ? { headers: { Authorization: `Bearer ${token}` } } : undefined
+        );
+        if (!cancelled) setEnrollment(res.data);
+      } catch (err: any) {
+        console.error(err);
+        if (!cancelled) {
+          setError(
+            err?.response?.data?.message || "Failed to start two-factor setup."
+          );
+        }
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, challengeToken]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      setRecoveryCodes(await enableTwoFactor(code, challengeToken));
+    } catch (err: any) {
+      setError(err?.response?.data?.message || "Failed to verify code.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div>
+        <RecoveryCodes codes={recoveryCodes} />
+        <button
+          type="button"
+          className="btn btn-primary"
+          style={{ width: "100%", marginTop: 10 }}
+          onClick={onDone}
+        >
+          I've saved my codes
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit}>
+      {enrollment && (
+        <div style={{ textAlign: "center", marginBottom: 12 }}>
+          <img
+            src={enrollment.qrCode}
+            alt="QR code for your authenticator app"
+            width={180}
+            height={180}
+          />
+          <p className="text-muted" style={{ fontSize: 12 }}>
+            Can't scan it? Enter this key instead:{" "}
+            <code>{enrollment.secret}</code>
+          </p>
+        </div>
+      )}
+      <div className="field-group">
+        <label className="field-label">Code from your authenticator app</label>
+        <input
+          className="input"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          placeholder="123456"
+        />
+      </div>
+      {error && <div className="text-error">{error}</div>}
+      <button
+        type="submit"
+        disabled={loading || !enrollment}
+        className="btn btn-primary"
+        style={{ width: "100%", marginTop: 10 }}
+      >
+        {loading ? "Checking..." : "Turn on two-factor"}
+      </button>
+    </form>
+  );
+};
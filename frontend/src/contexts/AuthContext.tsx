@@ -1,75 +1,243 @@
-import React, { createContext, useContext, useEffect, useState } from "react";
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useRef,
+  useState,
+} from "react";
 import axios from "axios";
 
+export type Role = "tenant" | "manager" | "admin" | "technician";
+
+export type UnitSummary = {
+  id: number;
+  number: string;
+  building: {
+    id: number;
+    name: string;
+    property: { id: number; name: string };
+  };
+};
+
 export type User = {
   id: number;
   name: string;
   email: string;
-  role: "tenant" | "manager" | "admin";
+  role: Role;
+  emailVerifiedAt?: string | null;
+  tenantProfile?: { unit: UnitSummary } | null;
 } | null;
 
+// After the password, an account with two-factor needs a code ("verify") and
+// one whose role requires it must first enroll ("setup")
+export type LoginResult =
+  | { twoFactor: null }
+  | { twoFactor: "verify" | "setup"; challengeToken: string };
+
 interface AuthContextValue {
   user: User;
   token: string | null;
   loading: boolean;
-  login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  login: (email: string, password: string) => Promise<LoginResult>;
+  verifyTwoFactor: (
+    challengeToken: string,
+    code: string
+  ) => Promise<{ usedRecoveryCode: boolean }>;
+  enableTwoFactor: (code: string, challengeToken?: string) => Promise<string[]>;
+  acceptInvite: (inviteToken: string, password: string) => Promise<LoginResult>;
+  refreshUser: () => Promise<void>;
+  logout: () => Promise<void>;
+  logoutEverywhere: () => Promise<void>;
 }
 
+type SessionResponse = { token: string; expiresIn: number; user: User };
+
+type LoginResponse =
+  SessionResponse | { twoFactor: "verify" | "setup"; challengeToken: string };
+
 const AuthContext = createContext<AuthContextValue | undefined>(undefined);
 
+// withCredentials sends the httpOnly refresh cookie; the access token itself
+// is only ever kept in memory
 const api = axios.create({
   baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+  withCredentials: true,
 });
 
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User>(null);
   const [token, setToken] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const refreshTimer = useRef<number>();
+  const expiresAt = useRef(0);
 
-  useEffect(() => {
-    const storedToken = localStorage.getItem("kefiat_token");
-    if (!storedToken) {
-      setLoading(false);
-      return;
+  const clearSession = useCallback(() => {
+    window.clearTimeout(refreshTimer.current);
+    expiresAt.current = 0;
+    setUser(null);
+    setToken(null);
+  }, []);
+
+  const inFlight = useRef<Promise<boolean> | null>(null);
+
+  const requestRefresh = async (retried = false): Promise<boolean> => {
+    try {
+      const res = await api.post<SessionResponse>("/auth/refresh");
+      applySession(res.data);
+      return true;
+    } catch (err: any) {
+      const status = err?.response?.status;
+      // Another tab rotated the cookie first; the new one is already stored
+      if (status === 409 && !retried) {
+        await new Promise((resolve) => window.setTimeout(resolve, 500));
+        return requestRefresh(true);
+      }
+      // A 401 means the session is over; anything else may be a blip
+      if (status === 401) clearSession();
+      return false;
     }
+  };
 
-    setToken(storedToken);
-    api
-      .get("/auth/me", {
-        headers: { Authorization: `Bearer ${storedToken}` },
-      })
-      .then((res) => {
-        setUser(res.data);
-      })
-      .catch(() => {
-        setUser(null);
-        setToken(null);
-        localStorage.removeItem("kefiat_token");
-      })
-      .finally(() => setLoading(false));
+  // Concurrent callers share one request so the cookie rotates only once
+  const refresh = useCallback((): Promise<boolean> => {
+    if (!inFlight.current) {
+      inFlight.current = requestRefresh().finally(() => {
+        inFlight.current = null;
+      });
+    }
+    return inFlight.current;
   }, []);
 
+  // Stores a fresh access token and renews it before it runs out
+  const applySession = (session: SessionResponse) => {
+    setUser(session.user);
+    setToken(session.token);
+    expiresAt.current = Date.now() + session.expiresIn * 1000;
+
+    window.clearTimeout(refreshTimer.current);
+    refreshTimer.current = window.setTimeout(async () => {
+      if (!(await refresh())) {
+        // One retry shortly before expiry
+        refreshTimer.current = window.setTimeout(
+          refresh,
+          session.expiresIn * 100
+        );
+      }
+    }, session.expiresIn * 800);
+  };
+
+  useEffect(() => {
+    refresh().finally(() => setLoading(false));
+
+    // Timers are throttled in background tabs, so catch up on return
+    const onVisible = () => {
+      if (
+        document.visibilityState === "visible" &&
+        expiresAt.current &&
+        Date.now() > expiresAt.current - 60 * 1000
+      ) {
+        refresh();
+      }
+    };
+    document.addEventListener("visibilitychange", onVisible);
+
+    return () => {
+      document.removeEventListener("visibilitychange", onVisible);
+      window.clearTimeout(refreshTimer.current);
+    };
+  }, [refresh]);
+
+  const finishLogin = (data: LoginResponse): LoginResult => {
+    if ("twoFactor" in data) {
+      return { twoFactor: data.twoFactor, challengeToken: data.challengeToken };
+    }
+    applySession(data);
+    return { twoFactor: null };
+  };
+
   const login = async (email: string, password: string) => {
-    const res = await api.post("/auth/login", { email, password });
-    const { token: newToken, user: newUser } = res.data;
-    setUser(newUser);
-    setToken(newToken);
-    localStorage.setItem("kefiat_token", newToken);
+    const res = await api.post<LoginResponse>("/auth/login", {
+      email,
+      password,
+    });
+    return finishLogin(res.data);
   };
 
-  const logout = () => {
-    setUser(null);
-    setToken(null);
-    localStorage.removeItem("kefiat_token");
+  const verifyTwoFactor = async (challengeToken: string, code: string) => {
+    const res = await api.post<SessionResponse & { usedRecoveryCode: boolean }>(
+      "/auth/login/2fa",
+      { challengeToken, code }
+    );
+    applySession(res.data);
+    return { usedRecoveryCode: res.data.usedRecoveryCode };
+  };
+
+  // Confirms a new authenticator. During a forced-setup login the challenge
+  // stands in for a session, and the response starts one.
+  const enableTwoFactor = async (code: string, challengeToken?: string) => {
+    const res = await api.post<
+      { recoveryCodes: string[] } & Partial<SessionResponse>
+    >(
+      "/auth/2fa/enable",
+      { code, challengeToken },
+      challengeToken
+        ? undefined
+        : { headers: { Authorization: `Bearer ${token}` } }
+    );
+    const { recoveryCodes, ...session } = res.data;
+    if (session.token && session.expiresIn) {
+      applySession(session as SessionResponse);
+    }
+    return recoveryCodes;
+  };
+
+  // Sets a password from an invitation link and starts the session
+  const acceptInvite = async (inviteToken: string, password: string) => {
+    const res = await api.post<LoginResponse>("/auth/accept-invite", {
+      token: inviteToken,
+      password,
+    });
+    return finishLogin(res.data);
+  };
+
+  const refreshUser = async () => {
+    if (!token) return;
+    const res = await api.get("/auth/me", {
+      headers: { Authorization: `Bearer ${token}` },
+    });
+    setUser(res.data);
   };
 
+  const endSession = async (path: string) => {
+    try {
+      if (token) {
+        await api.post(path, null, {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+      }
+    } catch (err) {
+      console.error(err);
+    } finally {
+      clearSession();
+    }
+  };
+
+  const logout = () => endSession("/auth/logout");
+
+  const logoutEverywhere = () => endSession("/auth/logout-all");
+
   const value: AuthContextValue = {
     user,
     token,
     loading,
     login,
+    verifyTwoFactor,
+    enableTwoFactor,
+    acceptInvite,
+    refreshUser,
     logout,
+    logoutEverywhere,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
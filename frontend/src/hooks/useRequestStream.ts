@@ -0,0 +1,41 @@
+import { useEffect, useRef } from "react";
+
+export type RequestStreamEvent = {
+  id: number;
+  requestId: number;
+  type: string;
+  field: string | null;
+  newValue: string | null;
+  actorId: number | null;
+  createdAt: string;
+};
+
+const baseURL = import.meta.env.VITE_API_BASE_URL || "http://localhost:4000";
+
+// Subscribes to the server's live request events. The server only sends
+// events for requests this user may see; EventSource reconnects by itself.
+export const useRequestStream = (
+  token: string | null,
+  onEvent: (event: RequestStreamEvent) => void
+) => {
+  // Latest callback without reopening the connection on every render
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  useEffect(() => {
+    if (!token) return;
+
+    const source = new EventSource(
+      `${baseURL}/events/stream?access_token=${encodeURIComponent(token)}`
+    );
+    source.addEventListener("request", (e) => {
+      try {
+        onEventRef.current(JSON.parse((e as MessageEvent).data));
+      } catch (err) {
+        console.error(err);
+      }
+    });
+
+    return () => source.close();
+  }, [token]);
+};
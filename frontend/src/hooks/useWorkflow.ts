@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { Role } from "../contexts/AuthContext";
+
+export type WorkflowState = {
+  key: string;
+  label: string;
+  color: string;
+  position: number;
+  isTerminal: boolean;
+  timestampField: string | null;
+};
+
+export type WorkflowTransition = {
+  id: number;
+  fromKey: string | null;
+  toKey: string;
+  label: string;
+  roles: Role[];
+  requiresReason: boolean;
+  guard: string | null;
+};
+
+export type Workflow = {
+  id: number;
+  name: string;
+  states: WorkflowState[];
+  transitions: WorkflowTransition[];
+};
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// Loads the default workflow so pages render statuses and the actions a role
+// may take from the server's definition instead of a hard-coded pipeline.
+export const useWorkflow = (token: string | null) => {
+  const [workflow, setWorkflow] = useState<Workflow | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    (async () => {
+      try {
+        const res = await api.get<Workflow>("/workflows/default", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        if (!cancelled) setWorkflow(res.data);
+      } catch (err) {
+        console.error(err);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const stateOf = useCallback(
+    (key: string) => workflow?.states.find((s) => s.key === key) ?? null,
+    [workflow]
+  );
+
+  const statusLabel = useCallback(
+    (key: string) => stateOf(key)?.label ?? key,
+    [stateOf]
+  );
+
+  const statusColor = useCallback(
+    (key: string) => stateOf(key)?.color ?? "#4b5563",
+    [stateOf]
+  );
+
+  const isTerminal = useCallback(
+    (key: string) => stateOf(key)?.isTerminal ?? false,
+    [stateOf]
+  );
+
+  // Transitions `role` may fire from `fromKey`; "from any" transitions apply
+  // to every non-terminal state. Mirrors the server's resolution.
+  const transitionsFor = useCallback(
+    (fromKey: string, role: Role) => {
+      if (!workflow) return [];
+      const from = stateOf(fromKey);
+      const candidates = workflow.transitions.filter(
+        (t) =>
+          t.roles.includes(role) &&
+          (t.fromKey === fromKey ||
+            (t.fromKey === null &&
+              !!from &&
+              !from.isTerminal &&
+              t.toKey !== fromKey))
+      );
+      // One entry per target, preferring the explicit transition
+      const byTarget = new Map<string, WorkflowTransition>();
+      for (const t of candidates) {
+        const existing = byTarget.get(t.toKey);
+        if (!existing || (existing.fromKey === null && t.fromKey !== null)) {
+          byTarget.set(t.toKey, t);
+        }
+      }
+      return Array.from(byTarget.values());
+    },
+    [workflow, stateOf]
+  );
+
+  return {
+    workflow,
+    states: workflow?.states ?? [],
+    stateOf,
+    statusLabel,
+    statusColor,
+    isTerminal,
+    transitionsFor,
+  };
+};
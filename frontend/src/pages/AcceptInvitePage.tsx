@@ -0,0 +1,51 @@
+import React, { useState } from "react";
+import { Link, useNavigate, useSearchParams } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { AuthCard } from "../components/AuthCard";
+import { SetPasswordForm } from "../components/SetPasswordForm";
+import { TwoFactorSetup } from "../components/TwoFactorSetup";
+
+const AcceptInvitePage: React.FC = () => {
+  const { acceptInvite } = useAuth();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+
+  // Set when the tenant role requires two-factor: enroll before the session
+  const [setupChallenge, setSetupChallenge] = useState<string | null>(null);
+
+  const handleAccept = async (password: string) => {
+    const result = await acceptInvite(token as string, password);
+    if (result.twoFactor) {
+      setSetupChallenge(result.challengeToken);
+      return;
+    }
+    navigate("/");
+  };
+
+  if (setupChallenge) {
+    return (
+      <AuthCard subtitle="One more step: set up two-factor authentication.">
+        <TwoFactorSetup
+          challengeToken={setupChallenge}
+          onDone={() => navigate("/")}
+        />
+      </AuthCard>
+    );
+  }
+
+  return (
+    <AuthCard subtitle="Welcome! Choose a password to finish setting up your account.">
+      {token ? (
+        <SetPasswordForm submitLabel="Create account" onSubmit={handleAccept} />
+      ) : (
+        <div className="text-error">This invitation link is incomplete.</div>
+      )}
+      <div className="auth-helper">
+        Already set up? <Link to="/login">Log in</Link>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default AcceptInvitePage;
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { Role, useAuth } from "../contexts/AuthContext";
+import { SessionList } from "../components/SessionList";
+import { TwoFactorSettings } from "../components/TwoFactorSettings";
+
+type Matrix = {
+  permissions: string[];
+  roles: Record<Role, string[]>;
+};
+
+type ManagerAssignment = {
+  id: number;
+  name: string;
+  email: string;
+  propertyIds: number[];
+};
+
+type PropertySummary = { id: number; name: string };
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const permissionLabels: Record<string, string> = {
+  "requests.view_all": "View all requests",
+  "requests.change_status": "Change status",
+  "requests.change_priority": "Change priority",
+  "requests.assign": "Assign technicians",
+  "users.manage": "Manage users",
+  "plans.manage": "Manage preventive maintenance",
+  "settings.manage": "Manage settings",
+};
+
+const roleOrder: Role[] = ["admin", "manager", "technician", "tenant"];
+
+const AdminDashboard: React.FC = () => {
+  const { user, token, logout } = useAuth();
+  const [matrix, setMatrix] = useState<Matrix | null>(null);
+  const [managers, setManagers] = useState<ManagerAssignment[]>([]);
+  const [properties, setProperties] = useState<PropertySummary[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+
+    const fetchData = async () => {
+      try {
+        const headers = { Authorization: `Bearer ${token}` };
+        const [matrixRes, assignmentsRes, propertiesRes] = await Promise.all([
+          api.get<Matrix>("/permissions", { headers }),
+          api.get<ManagerAssignment[]>("/permissions/assignments", {
+            headers,
+          }),
+          api.get<PropertySummary[]>("/properties", { headers }),
+        ]);
+        setMatrix(matrixRes.data);
+        setManagers(assignmentsRes.data);
+        setProperties(propertiesRes.data);
+      } catch (err) {
+        console.error(err);
+        setError("Failed to load admin settings.");
+      }
+    };
+
+    fetchData();
+  }, [token]);
+
+  const handleAssignmentToggle = async (
+    manager: ManagerAssignment,
+    propertyId: number,
+    assigned: boolean
+  ) => {
+    const propertyIds = assigned
+      ? [...manager.propertyIds, propertyId]
+      : manager.propertyIds.filter((id) => id !== propertyId);
+    setError(null);
+    try {
+      await api.put(
+        `/permissions/assignments/${manager.id}`,
+        { propertyIds },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setManagers((prev) =>
+        prev.map((m) => (m.id === manager.id ? { ...m, propertyIds } : m))
+      );
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to save assignment.");
+    }
+  };
+
+  return (
+    <div className="app-shell">
+      <header className="app-topbar">
+        <div className="app-topbar-left">
+          <div className="app-logo-circle">K</div>
+          <div>
+            <h1 className="app-topbar-title">Admin Console</h1>
+            <p className="app-topbar-subtitle">
+              Who can do what, and where.{" "}
+              <Link to="/manager">Go to requests</Link>{" "}
+              <Link to="/users">Users</Link>
+            </p>
+          </div>
+        </div>
+        <div>
+          <div className="app-topbar-user">
+            <div>{user?.name}</div>
+            <div>{user?.email}</div>
+          </div>
+          <button
+            onClick={logout}
+            className="btn btn-secondary"
+            style={{ marginTop: 6 }}
+          >
+            Logout
+          </button>
+        </div>
+      </header>
+
+      <main className="page-content">
+        {error && <div className="text-error">{error}</div>}
+
+        {matrix && (
+          <section className="card">
+            <p className="card-title">Permissions by role</p>
+            <div className="table-wrapper">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Permission</th>
+                    {roleOrder.map((role) => (
+                      <th key={role} style={{ textTransform: "capitalize" }}>
+                        {role}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {matrix.permissions.map((permission) => (
+                    <tr key={permission} className="table-row">
+                      <td>{permissionLabels[permission] ?? permission}</td>
+                      {roleOrder.map((role) => (
+                        <td key={role}>
+                          {matrix.roles[role]?.includes(permission) ? "✓" : ""}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-muted" style={{ fontSize: 12 }}>
+              Managers' permissions apply only to the properties assigned to
+              them below. Tenants and technicians act only on their own or
+              assigned requests.
+            </p>
+          </section>
+        )}
+
+        <section className="card" style={{ marginTop: 16 }}>
+          <p className="card-title">Manager properties</p>
+          <p className="text-muted" style={{ fontSize: 12 }}>
+            New managers and new properties start unassigned. Tick the
+            properties each manager looks after.
+          </p>
+          {managers.length === 0 ? (
+            <p className="text-muted">No managers yet.</p>
+          ) : (
+            <div className="table-wrapper">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Manager</th>
+                    {properties.map((p) => (
+                      <th key={p.id}>{p.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {managers.map((m) => (
+                    <tr key={m.id} className="table-row">
+                      <td>
+                        <div>{m.name}</div>
+                        <div className="text-muted" style={{ fontSize: 12 }}>
+                          {m.email}
+                        </div>
+                        {m.propertyIds.length === 0 && (
+                          <div className="text-error" style={{ fontSize: 12 }}>
+                            No properties yet, so no requests to see
+                          </div>
+                        )}
+                      </td>
+                      {properties.map((p) => (
+                        <td key={p.id}>
+                          <input
+                            type="checkbox"
+                            checked={m.propertyIds.includes(p.id)}
+                            onChange={(e) =>
+                              handleAssignmentToggle(m, p.id, e.target.checked)
+                            }
+                          />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <TwoFactorSettings token={token} />
+          </section>
+        )}
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <SessionList token={token} />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AdminDashboard;
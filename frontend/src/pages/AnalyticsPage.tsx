@@ -0,0 +1,343 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+import { BarList, LineChart } from "../components/Charts";
+
+type StageStat = {
+  key: string;
+  label: string;
+  count: number;
+  medianHours: number | null;
+  p90Hours: number | null;
+};
+
+type Analytics = {
+  range: { from: string; to: string; bucket: "day" | "week" };
+  stages: StageStat[];
+  backlog: { date: string; opened: number; closed: number; open: number }[];
+  volume: {
+    byCategory: { key: string; count: number }[];
+    byPriority: { key: string; count: number }[];
+    byUnit: { unitId: number; label: string; count: number }[];
+    // Opened by maintenance plans; not in the breakdowns above
+    preventive: number;
+  };
+  repeats: {
+    completed: number;
+    reopened: number;
+    reopenRate: number | null;
+    created: number;
+    sameUnitRepeats: number;
+    sameUnitRate: number | null;
+    windowDays: number;
+  };
+};
+
+type PropertyOption = { id: number; name: string };
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const priorityLabels: Record<string, string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "High",
+  emergency: "Emergency",
+};
+
+// Short spans in hours, longer ones in days
+function formatHours(value: number | null) {
+  if (value === null) return "—";
+  return value < 48 ? `${value} h` : `${Math.round(value / 2.4) / 10} d`;
+}
+
+function formatRate(value: number | null) {
+  return value === null ? "—" : `${Math.round(value * 1000) / 10}%`;
+}
+
+const AnalyticsPage: React.FC = () => {
+  const { user, token, logout } = useAuth();
+  const [data, setData] = useState<Analytics | null>(null);
+  const [properties, setProperties] = useState<PropertyOption[]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [propertyId, setPropertyId] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    api
+      .get<PropertyOption[]>("/properties", {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      .then((res) => setProperties(res.data))
+      .catch((err) => console.error(err));
+  }, [token]);
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    setLoading(true);
+
+    (async () => {
+      try {
+        const params = new URLSearchParams();
+        if (from) params.set("from", from);
+        if (to) params.set("to", to);
+        if (propertyId) params.set("propertyId", propertyId);
+        const res = await api.get<Analytics>(
+          `/analytics/requests?${params.toString()}`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        if (cancelled) return;
+        setData(res.data);
+        setError(null);
+      } catch (err: any) {
+        console.error(err);
+        if (!cancelled) {
+          setError(err?.response?.data?.message || "Failed to load analytics.");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, from, to, propertyId]);
+
+  const slowestP90 = Math.max(
+    1,
+    ...(data?.stages.map((s) => s.p90Hours ?? 0) ?? [])
+  );
+
+  return (
+    <div className="app-shell">
+      <header className="app-topbar">
+        <div className="app-topbar-left">
+          <div className="app-logo-circle">K</div>
+          <div>
+            <h1 className="app-topbar-title">Analytics</h1>
+            <p className="app-topbar-subtitle">
+              Response times, backlog and where requests come from.{" "}
+              <Link to="/manager">Go to requests</Link>
+            </p>
+          </div>
+        </div>
+        <div>
+          <div className="app-topbar-user">
+            <div>{user?.name}</div>
+            <div>{user?.email}</div>
+          </div>
+          <button
+            onClick={logout}
+            className="btn btn-secondary"
+            style={{ marginTop: 6 }}
+          >
+            Logout
+          </button>
+        </div>
+      </header>
+
+      <main className="page-content">
+        <section className="card">
+          <div style={{ display: "flex", flexWrap: "wrap", gap: 12 }}>
+            <div className="field-group">
+              <label className="field-label">From</label>
+              <input
+                type="date"
+                className="input"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+              />
+            </div>
+            <div className="field-group">
+              <label className="field-label">To</label>
+              <input
+                type="date"
+                className="input"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+              />
+            </div>
+            <div className="field-group">
+              <label className="field-label">Property</label>
+              <select
+                className="select"
+                value={propertyId}
+                onChange={(e) => setPropertyId(e.target.value)}
+              >
+                <option value="">All properties</option>
+                {properties.map((p) => (
+                  <option key={p.id} value={p.id}>
+                    {p.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          {data && (
+            <p className="text-muted" style={{ fontSize: 12, marginBottom: 0 }}>
+              {data.range.from} to {data.range.to}
+              {loading && " · updating..."}
+            </p>
+          )}
+          {error && <div className="text-error">{error}</div>}
+        </section>
+
+        {!data ? (
+          <p className="text-muted">Loading analytics...</p>
+        ) : (
+          <>
+            <section className="card" style={{ marginTop: 16 }}>
+              <h2 style={{ marginTop: 0, fontSize: 18 }}>Time in each stage</h2>
+              <p className="text-muted" style={{ fontSize: 12 }}>
+                Requests that finished the stage in this period. The bar shows
+                the median; the line marks the 90th percentile.
+              </p>
+              <div className="table-wrapper">
+                <table className="table">
+                  <thead>
+                    <tr>
+                      <th>Stage</th>
+                      <th>Requests</th>
+                      <th>Median</th>
+                      <th>90th percentile</th>
+                      <th style={{ width: "35%" }}></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {data.stages.map((s) => (
+                      <tr key={s.key}>
+                        <td>{s.label}</td>
+                        <td>{s.count}</td>
+                        <td>{formatHours(s.medianHours)}</td>
+                        <td>{formatHours(s.p90Hours)}</td>
+                        <td>
+                          <span className="bar-list-track stage-track">
+                            <span
+                              className="bar-list-fill"
+                              style={{
+                                width: `${((s.medianHours ?? 0) / slowestP90) * 100}%`,
+                                backgroundColor: "var(--primary)",
+                              }}
+                            />
+                            {s.p90Hours !== null && (
+                              <span
+                                className="stage-p90"
+                                style={{
+                                  left: `${(s.p90Hours / slowestP90) * 100}%`,
+                                }}
+                              />
+                            )}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className="card" style={{ marginTop: 16 }}>
+              <h2 style={{ marginTop: 0, fontSize: 18 }}>Backlog</h2>
+              <p className="text-muted" style={{ fontSize: 12 }}>
+                Open requests at the end of each{" "}
+                {data.range.bucket === "week" ? "week" : "day"}, with how many
+                were opened and closed.
+              </p>
+              <LineChart
+                labels={data.backlog.map((b) => b.date.slice(5))}
+                series={[
+                  {
+                    label: "Open",
+                    color: "#f97316",
+                    values: data.backlog.map((b) => b.open),
+                  },
+                  {
+                    label: "Opened",
+                    color: "#3b82f6",
+                    values: data.backlog.map((b) => b.opened),
+                  },
+                  {
+                    label: "Closed",
+                    color: "#22c55e",
+                    values: data.backlog.map((b) => b.closed),
+                  },
+                ]}
+              />
+            </section>
+
+            <section className="card-grid" style={{ marginTop: 16 }}>
+              <div className="card">
+                <p className="card-title">Reopened after completion</p>
+                <p className="card-value">
+                  {formatRate(data.repeats.reopenRate)}
+                </p>
+                <p className="text-muted" style={{ fontSize: 12 }}>
+                  {data.repeats.reopened} of {data.repeats.completed} completed
+                  requests
+                </p>
+              </div>
+              <div className="card">
+                <p className="card-title">Repeat issues</p>
+                <p className="card-value">
+                  {formatRate(data.repeats.sameUnitRate)}
+                </p>
+                <p className="text-muted" style={{ fontSize: 12 }}>
+                  {data.repeats.sameUnitRepeats} of {data.repeats.created} new
+                  requests had the same category in the same unit within{" "}
+                  {data.repeats.windowDays} days
+                </p>
+              </div>
+            </section>
+
+            <section className="card-grid">
+              <div className="card">
+                <p className="card-title">By category</p>
+                <BarList
+                  data={data.volume.byCategory.map((c) => ({
+                    label: c.key,
+                    value: c.count,
+                  }))}
+                />
+              </div>
+              <div className="card">
+                <p className="card-title">By priority</p>
+                <BarList
+                  color="#f97316"
+                  data={data.volume.byPriority.map((p) => ({
+                    label: priorityLabels[p.key] ?? p.key,
+                    value: p.count,
+                  }))}
+                />
+              </div>
+              <div className="card">
+                <p className="card-title">Busiest units</p>
+                <BarList
+                  color="#ec4899"
+                  data={data.volume.byUnit.map((u) => ({
+                    label: u.label,
+                    value: u.count,
+                  }))}
+                />
+              </div>
+            </section>
+            {data.volume.preventive > 0 && (
+              <p className="text-muted" style={{ fontSize: 12 }}>
+                Not counting {data.volume.preventive} preventive requests opened
+                by maintenance plans.
+              </p>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default AnalyticsPage;
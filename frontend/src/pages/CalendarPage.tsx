@@ -0,0 +1,428 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { UnitSummary, useAuth } from "../contexts/AuthContext";
+import { useRequestStream } from "../hooks/useRequestStream";
+
+type RequestPriority = "low" | "normal" | "high" | "emergency";
+
+type Visit = {
+  id: number;
+  date: string; // YYYY-MM-DD
+  window: string;
+  status: "proposed" | "accepted";
+  technician: { id: number; name: string };
+  request: {
+    id: number;
+    category: string;
+    priority: RequestPriority;
+    status: string;
+    unit: UnitSummary;
+    tenant: { name: string } | null;
+  };
+};
+
+type UnscheduledRequest = {
+  id: number;
+  category: string;
+  priority: RequestPriority;
+  status: string;
+  preferredWindow1: string | null;
+  preferredWindow2: string | null;
+  createdAt: string;
+  unit: UnitSummary;
+  assignee: { id: number; name: string } | null;
+};
+
+type CalendarData = {
+  range: { from: string; to: string };
+  visits: Visit[];
+  unscheduled: UnscheduledRequest[];
+};
+
+type CalendarView = "day" | "week";
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+// The 2-hour windows tenants pick from, one calendar row each
+const slots = [
+  "08:00-10:00",
+  "09:00-11:00",
+  "10:00-12:00",
+  "11:00-13:00",
+  "12:00-14:00",
+  "13:00-15:00",
+  "14:00-16:00",
+  "15:00-17:00",
+];
+
+const priorityColor: Record<RequestPriority, string> = {
+  low: "#6b7280",
+  normal: "#0ea5e9",
+  high: "#f97316",
+  emergency: "#ef4444",
+};
+
+// Calendar days as YYYY-MM-DD, stepped in UTC so DST never skips a day
+const addDays = (day: string, days: number) =>
+  new Date(Date.parse(`${day}T00:00:00Z`) + days * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+
+const today = () => new Date().toLocaleDateString("en-CA");
+
+// Weeks start on Monday
+function weekStart(day: string) {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDays(day, -((weekday + 6) % 7));
+}
+
+const formatDay = (day: string) =>
+  new Date(`${day}T00:00:00`).toLocaleDateString(undefined, {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+  });
+
+const CalendarPage: React.FC = () => {
+  const { user, token, logout } = useAuth();
+  const [view, setView] = useState<CalendarView>("week");
+  const [anchor, setAnchor] = useState(today);
+  const [data, setData] = useState<CalendarData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [feedMessage, setFeedMessage] = useState<string | null>(null);
+
+  const [reloadKey, setReloadKey] = useState(0);
+  useRequestStream(token, () => setReloadKey((k) => k + 1));
+
+  const from = view === "week" ? weekStart(anchor) : anchor;
+  const days = Array.from({ length: view === "week" ? 7 : 1 }, (_, i) =>
+    addDays(from, i)
+  );
+
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+    setLoading(true);
+
+    (async () => {
+      try {
+        const res = await api.get<CalendarData>(
+          `/calendar?from=${from}&days=${days.length}`,
+          { headers: { Authorization: `Bearer ${token}` } }
+        );
+        if (cancelled) return;
+        setData(res.data);
+        setError(null);
+      } catch (err: any) {
+        console.error(err);
+        if (!cancelled) {
+          setError(err?.response?.data?.message || "Failed to load visits.");
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [token, from, days.length, reloadKey]);
+
+  useEffect(() => {
+    if (!token) return;
+    api
+      .get<{ url: string }>("/calendar/feed", {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      .then((res) => setFeedUrl(res.data.url))
+      .catch((err) => console.error(err));
+  }, [token]);
+
+  const handleCopyFeed = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      setFeedMessage("Link copied.");
+    } catch {
+      setFeedMessage("Copy the link from the box above.");
+    }
+  };
+
+  const handleResetFeed = async () => {
+    if (
+      !window.confirm(
+        "Calendars subscribed with the current link will stop updating. Continue?"
+      )
+    ) {
+      return;
+    }
+    try {
+      const res = await api.post<{ url: string }>(
+        "/calendar/feed/reset",
+        {},
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setFeedUrl(res.data.url);
+      setFeedMessage("New link created; the old one no longer works.");
+    } catch (err: any) {
+      console.error(err);
+      setFeedMessage(
+        err?.response?.data?.message || "Failed to reset the link."
+      );
+    }
+  };
+
+  const step = view === "week" ? 7 : 1;
+  const homePath = user?.role === "technician" ? "/technician" : "/manager";
+  // How many waiting requests would take each slot
+  const waitingFor = (slot: string) =>
+    data?.unscheduled.filter(
+      (r) => r.preferredWindow1 === slot || r.preferredWindow2 === slot
+    ).length ?? 0;
+
+  return (
+    <div className="app-shell">
+      <header className="app-topbar">
+        <div className="app-topbar-left">
+          <div className="app-logo-circle">K</div>
+          <div>
+            <h1 className="app-topbar-title">Calendar</h1>
+            <p className="app-topbar-subtitle">
+              Booked visits and the windows tenants asked for.{" "}
+              <Link to={homePath}>Go to requests</Link>
+            </p>
+          </div>
+        </div>
+        <div>
+          <div className="app-topbar-user">
+            <div>{user?.name}</div>
+            <div>{user?.email}</div>
+          </div>
+          <button
+            onClick={logout}
+            className="btn btn-secondary"
+            style={{ marginTop: 6 }}
+          >
+            Logout
+          </button>
+        </div>
+      </header>
+
+      <main className="page-content">
+        <section className="card">
+          <div className="calendar-toolbar">
+            <div style={{ display: "flex", gap: 8 }}>
+              {(["day", "week"] as const).map((v) => (
+                <button
+                  key={v}
+                  type="button"
+                  className={
+                    view === v ? "btn btn-primary" : "btn btn-secondary"
+                  }
+                  style={{ padding: "4px 10px", fontSize: 11 }}
+                  onClick={() => setView(v)}
+                >
+                  {v === "day" ? "Day" : "Week"}
+                </button>
+              ))}
+            </div>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={() => setAnchor(addDays(anchor, -step))}
+              >
+                ‹
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={() => setAnchor(today())}
+              >
+                Today
+              </button>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                onClick={() => setAnchor(addDays(anchor, step))}
+              >
+                ›
+              </button>
+              <strong>
+                {view === "week"
+                  ? `${formatDay(days[0])} – ${formatDay(days[6])}`
+                  : formatDay(days[0])}
+              </strong>
+              {loading && <span className="text-muted">Loading...</span>}
+            </div>
+          </div>
+          {error && <div className="text-error">{error}</div>}
+
+          <div className="table-wrapper">
+            <table className="table calendar-grid">
+              <thead>
+                <tr>
+                  <th style={{ width: 130 }}>Window</th>
+                  {days.map((day) => (
+                    <th
+                      key={day}
+                      className={day === today() ? "calendar-today" : ""}
+                    >
+                      {formatDay(day)}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {slots.map((slot) => (
+                  <tr key={slot}>
+                    <td>
+                      <div>{slot}</div>
+                      {waitingFor(slot) > 0 && (
+                        <div
+                          className="text-muted"
+                          style={{ fontSize: 11 }}
+                          title="Open requests without a visit that prefer this window"
+                        >
+                          {waitingFor(slot)} waiting
+                        </div>
+                      )}
+                    </td>
+                    {days.map((day) => (
+                      <td key={day}>
+                        {data?.visits
+                          .filter((v) => v.date === day && v.window === slot)
+                          .map((v) => (
+                            <div
+                              key={v.id}
+                              className={`calendar-visit calendar-visit-${v.status}`}
+                              style={{
+                                borderLeftColor:
+                                  priorityColor[v.request.priority],
+                              }}
+                              title={
+                                v.status === "proposed"
+                                  ? "Waiting for the tenant to accept"
+                                  : "Confirmed with the tenant"
+                              }
+                            >
+                              <div>
+                                #{v.request.id} · {v.request.category}
+                              </div>
+                              <div className="text-muted">
+                                {v.request.unit.building.name}{" "}
+                                {v.request.unit.number} · {v.technician.name}
+                              </div>
+                            </div>
+                          ))}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-muted" style={{ fontSize: 12, marginBottom: 0 }}>
+            Solid cards are confirmed; dashed cards are proposals the tenant
+            hasn't answered yet.
+          </p>
+        </section>
+
+        <section className="card" style={{ marginTop: 16 }}>
+          <h2 style={{ marginTop: 0, fontSize: 18 }}>Waiting for a visit</h2>
+          {!data || data.unscheduled.length === 0 ? (
+            <p className="text-muted">Every open request has a visit.</p>
+          ) : (
+            <div className="table-wrapper">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>ID</th>
+                    <th>Unit</th>
+                    <th>Category</th>
+                    <th>Preferred windows</th>
+                    <th>Assignee</th>
+                    <th>Submitted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.unscheduled.map((r) => (
+                    <tr key={r.id}>
+                      <td>
+                        <span
+                          style={{ color: priorityColor[r.priority] }}
+                          title={r.priority}
+                        >
+                          ●
+                        </span>{" "}
+                        #{r.id}
+                      </td>
+                      <td>
+                        {r.unit.building.name} {r.unit.number}
+                      </td>
+                      <td>{r.category}</td>
+                      <td>
+                        {[r.preferredWindow1, r.preferredWindow2]
+                          .filter(Boolean)
+                          .join("; ") || "—"}
+                      </td>
+                      <td>{r.assignee?.name ?? "Unassigned"}</td>
+                      <td>{new Date(r.createdAt).toLocaleDateString()}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        <section className="card" style={{ marginTop: 16 }}>
+          <h2 style={{ marginTop: 0, fontSize: 18 }}>Subscribe</h2>
+          <p className="text-muted" style={{ fontSize: 12 }}>
+            Add this link to Google Calendar, Outlook or Apple Calendar as a
+            subscription ("from URL") to see your visits there. Rescheduled and
+            cancelled visits update on the next refresh. Anyone with the link
+            can read it, so keep it private.
+          </p>
+          <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+            <input
+              className="input"
+              readOnly
+              value={feedUrl ?? ""}
+              style={{ flex: 1, minWidth: 260 }}
+              onFocus={(e) => e.target.select()}
+            />
+            <button
+              type="button"
+              className="btn btn-primary"
+              disabled={!feedUrl}
+              onClick={handleCopyFeed}
+            >
+              Copy link
+            </button>
+            <button
+              type="button"
+              className="btn btn-secondary"
+              disabled={!feedUrl}
+              onClick={handleResetFeed}
+            >
+              Reset link
+            </button>
+          </div>
+          {feedMessage && (
+            <p className="text-muted" style={{ fontSize: 12 }}>
+              {feedMessage}
+            </p>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default CalendarPage;
@@ -0,0 +1,65 @@
+import React, { useState } from "react";
+import { Link } from "react-router-dom";
+import axios from "axios";
+import { AuthCard } from "../components/AuthCard";
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const ForgotPasswordPage: React.FC = () => {
+  const [email, setEmail] = useState("");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setLoading(true);
+    try {
+      const res = await api.post("/auth/forgot-password", { email });
+      setMessage(res.data.message);
+    } catch (err: any) {
+      setError(err?.response?.data?.message || "Failed to send reset link");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <AuthCard subtitle="Forgot your password? We'll email you a reset link.">
+      {message ? (
+        <p className="text-muted">{message}</p>
+      ) : (
+        <form onSubmit={handleSubmit}>
+          <div className="field-group">
+            <label className="field-label">Email</label>
+            <input
+              type="email"
+              className="input"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="you@example.com"
+              required
+            />
+          </div>
+          {error && <div className="text-error">{error}</div>}
+          <button
+            type="submit"
+            disabled={loading}
+            className="btn btn-primary"
+            style={{ width: "100%", marginTop: 10 }}
+          >
+            {loading ? "Sending..." : "Send reset link"}
+          </button>
+        </form>
+      )}
+      <div className="auth-helper">
+        <Link to="/login">Back to login</Link>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default ForgotPasswordPage;
@@ -1,12 +1,16 @@
 import React, { useState } from "react";
-import { useNavigate } from "react-router-dom";
-import { useAuth } from "../contexts/AuthContext";
+import { Link, useNavigate } from "react-router-dom";
+import { LoginResult, useAuth } from "../contexts/AuthContext";
+import { TwoFactorSetup } from "../components/TwoFactorSetup";
 
 const LoginPage: React.FC = () => {
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const navigate = useNavigate();
   const [email, setEmail] = useState("manager@example.com");
   const [password, setPassword] = useState("password123");
+  const [code, setCode] = useState("");
+  // Second step after a correct password, when the account needs one
+  const [challenge, setChallenge] = useState<LoginResult>({ twoFactor: null });
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
@@ -15,12 +19,13 @@ const LoginPage: React.FC = () => {
     setError(null);
     setLoading(true);
     try {
-      await login(email, password);
-      if (email === "manager@example.com") {
-        navigate("/manager");
-      } else {
-        navigate("/tenant");
+      const result = await login(email, password);
+      if (result.twoFactor) {
+        setChallenge(result);
+        return;
       }
+      // The root route sends each role to its own dashboard
+      navigate("/");
     } catch (err: any) {
       setError(err?.response?.data?.message || "Login failed");
     } finally {
@@ -28,6 +33,35 @@ const LoginPage: React.FC = () => {
     }
   };
 
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!challenge.twoFactor) return;
+    setError(null);
+    setLoading(true);
+    try {
+      const { usedRecoveryCode } = await verifyTwoFactor(
+        challenge.challengeToken,
+        code
+      );
+      if (usedRecoveryCode) {
+        window.alert(
+          "You signed in with a recovery code, which can't be used again. Create new codes from your dashboard if you're running low."
+        );
+      }
+      navigate("/");
+    } catch (err: any) {
+      setError(err?.response?.data?.message || "Verification failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const backToPassword = () => {
+    setChallenge({ twoFactor: null });
+    setCode("");
+    setError(null);
+  };
+
   return (
     <div className="auth-layout">
       <div className="auth-card">
@@ -41,42 +75,100 @@ const LoginPage: React.FC = () => {
           </div>
         </div>
 
-        <form onSubmit={handleSubmit}>
-          <div className="field-group">
-            <label className="field-label">Email</label>
-            <input
-              type="email"
-              className="input"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              placeholder="you@example.com"
-            />
-          </div>
-          <div className="field-group">
-            <label className="field-label">Password</label>
-            <input
-              type="password"
-              className="input"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="••••••••"
+        {challenge.twoFactor === "setup" && (
+          <>
+            <p style={{ fontSize: 13 }}>
+              Your account needs two-factor authentication. Scan the code with
+              an authenticator app, then enter the code it shows.
+            </p>
+            <TwoFactorSetup
+              challengeToken={challenge.challengeToken}
+              onDone={() => navigate("/")}
             />
+          </>
+        )}
+
+        {challenge.twoFactor === "verify" && (
+          <form onSubmit={handleVerify}>
+            <div className="field-group">
+              <label className="field-label">Authentication code</label>
+              <input
+                className="input"
+                autoFocus
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                placeholder="123456 or a recovery code"
+              />
+            </div>
+            {error && <div className="text-error">{error}</div>}
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn btn-primary"
+              style={{ width: "100%", marginTop: 10 }}
+            >
+              {loading ? "Checking..." : "Verify"}
+            </button>
+          </form>
+        )}
+
+        {challenge.twoFactor && (
+          <div className="auth-helper">
+            <button
+              type="button"
+              className="btn btn-secondary"
+              onClick={backToPassword}
+            >
+              Back
+            </button>
           </div>
-          {error && <div className="text-error">{error}</div>}
-          <button
-            type="submit"
-            disabled={loading}
-            className="btn btn-primary"
-            style={{ width: "100%", marginTop: 10 }}
-          >
-            {loading ? "Logging in..." : "Log in"}
-          </button>
-        </form>
+        )}
+
+        {!challenge.twoFactor && (
+          <form onSubmit={handleSubmit}>
+            <div className="field-group">
+              <label className="field-label">Email</label>
+              <input
+                type="email"
+                className="input"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="you@example.com"
+              />
+            </div>
+            <div className="field-group">
+              <label className="field-label">Password</label>
+              <input
+                type="password"
+                className="input"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="••••••••"
+              />
+            </div>
+            {error && <div className="text-error">{error}</div>}
+            <button
+              type="submit"
+              disabled={loading}
+              className="btn btn-primary"
+              style={{ width: "100%", marginTop: 10 }}
+            >
+              {loading ? "Logging in..." : "Log in"}
+            </button>
+          </form>
+        )}
+
+        <div className="auth-helper" style={{ textAlign: "right" }}>
+          <Link to="/forgot-password">Forgot password?</Link>
+        </div>
 
         <div className="auth-helper">
           <div>Test accounts:</div>
+          <div>Admin – admin@example.com / password123</div>
           <div>Manager – manager@example.com / password123</div>
           <div>Tenant – tenant@example.com / password123</div>
+          <div>Technician – tech@example.com / password123</div>
         </div>
       </div>
     </div>
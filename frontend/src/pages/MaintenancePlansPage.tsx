@@ -0,0 +1,582 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { useAuth } from "../contexts/AuthContext";
+
+type RequestPriority = "low" | "normal" | "high" | "emergency";
+type Frequency = "daily" | "weekly" | "monthly" | "yearly";
+
+type Plan = {
+  id: number;
+  name: string;
+  category: string;
+  description: string;
+  checklist: string[];
+  priority: RequestPriority;
+  preferredWindow1: string;
+  preferredWindow2: string | null;
+  frequency: Frequency;
+  interval: number;
+  startsOn: string;
+  endsOn: string | null;
+  nextRunOn: string | null;
+  lastRunAt: string | null;
+  active: boolean;
+  targets: {
+    id: number;
+    unit: { id: number; number: string; building: { name: string } } | null;
+    building: { id: number; name: string } | null;
+  }[];
+  _count: { requests: number };
+};
+
+type PropertyTree = {
+  id: number;
+  name: string;
+  buildings: {
+    id: number;
+    name: string;
+    units: { id: number; number: string }[];
+  }[];
+};
+
+type PlanForm = {
+  name: string;
+  category: string;
+  description: string;
+  checklist: string; // one item per line
+  priority: RequestPriority;
+  preferredWindow1: string;
+  preferredWindow2: string;
+  frequency: Frequency;
+  interval: string;
+  startsOn: string;
+  endsOn: string;
+  unitIds: number[];
+  buildingIds: number[];
+};
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const windowOptions = [
+  "08:00-10:00",
+  "09:00-11:00",
+  "10:00-12:00",
+  "11:00-13:00",
+  "12:00-14:00",
+  "13:00-15:00",
+  "14:00-16:00",
+  "15:00-17:00",
+];
+
+const frequencyUnits: Record<Frequency, [string, string]> = {
+  daily: ["day", "days"],
+  weekly: ["week", "weeks"],
+  monthly: ["month", "months"],
+  yearly: ["year", "years"],
+};
+
+const emptyForm = (): PlanForm => ({
+  name: "",
+  category: "HVAC",
+  description: "",
+  checklist: "",
+  priority: "normal",
+  preferredWindow1: "09:00-11:00",
+  preferredWindow2: "",
+  frequency: "monthly",
+  interval: "1",
+  startsOn: new Date().toLocaleDateString("en-CA"),
+  endsOn: "",
+  unitIds: [],
+  buildingIds: [],
+});
+
+const day = (value: string | null) => (value ? value.slice(0, 10) : "—");
+
+function describeSchedule(plan: Plan) {
+  const [one, many] = frequencyUnits[plan.frequency];
+  const every = plan.interval === 1 ? one : `${plan.interval} ${many}`;
+  return `Every ${every} from ${day(plan.startsOn)}${
+    plan.endsOn ? ` until ${day(plan.endsOn)}` : ""
+  }`;
+}
+
+function describeTargets(plan: Plan) {
+  return plan.targets
+    .map((t) =>
+      t.building
+        ? `${t.building.name} (all units)`
+        : `${t.unit!.building.name} ${t.unit!.number}`
+    )
+    .join(", ");
+}
+
+const MaintenancePlansPage: React.FC = () => {
+  const { user, token, logout } = useAuth();
+  const [plans, setPlans] = useState<Plan[]>([]);
+  const [properties, setProperties] = useState<PropertyTree[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // null: form closed; 0: new plan; otherwise the plan being edited
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [form, setForm] = useState<PlanForm>(emptyForm);
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!token) return;
+    const headers = { Authorization: `Bearer ${token}` };
+
+    (async () => {
+      try {
+        const [plansRes, propertiesRes] = await Promise.all([
+          api.get<Plan[]>("/maintenance-plans", { headers }),
+          api.get<PropertyTree[]>("/properties", { headers }),
+        ]);
+        setPlans(plansRes.data);
+        setProperties(propertiesRes.data);
+      } catch (err) {
+        console.error(err);
+        setError("Failed to load plans.");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [token]);
+
+  const openForm = (plan?: Plan) => {
+    setFormError(null);
+    setEditingId(plan ? plan.id : 0);
+    setForm(
+      plan
+        ? {
+            name: plan.name,
+            category: plan.category,
+            description: plan.description,
+            checklist: plan.checklist.join("\n"),
+            priority: plan.priority,
+            preferredWindow1: plan.preferredWindow1,
+            preferredWindow2: plan.preferredWindow2 ?? "",
+            frequency: plan.frequency,
+            interval: String(plan.interval),
+            startsOn: day(plan.startsOn),
+            endsOn: plan.endsOn ? day(plan.endsOn) : "",
+            unitIds: plan.targets.flatMap((t) => (t.unit ? [t.unit.id] : [])),
+            buildingIds: plan.targets.flatMap((t) =>
+              t.building ? [t.building.id] : []
+            ),
+          }
+        : emptyForm()
+    );
+  };
+
+  const handleChange = (
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement
+    >
+  ) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const toggle = (field: "unitIds" | "buildingIds", id: number) =>
+    setForm((prev) => ({
+      ...prev,
+      [field]: prev[field].includes(id)
+        ? prev[field].filter((x) => x !== id)
+        : [...prev[field], id],
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setFormError(null);
+
+    const body = {
+      ...form,
+      checklist: form.checklist.split("\n"),
+      interval: Number(form.interval),
+      preferredWindow2: form.preferredWindow2 || null,
+      endsOn: form.endsOn || null,
+      // A whole building already covers its units
+      unitIds: form.unitIds.filter(
+        (id) =>
+          !properties.some((p) =>
+            p.buildings.some(
+              (b) =>
+                form.buildingIds.includes(b.id) &&
+                b.units.some((u) => u.id === id)
+            )
+          )
+      ),
+    };
+
+    try {
+      const headers = { Authorization: `Bearer ${token}` };
+      const res = editingId
+        ? await api.put<Plan>(`/maintenance-plans/${editingId}`, body, {
+            headers,
+          })
+        : await api.post<Plan>("/maintenance-plans", body, { headers });
+      setPlans((prev) =>
+        editingId
+          ? prev.map((p) => (p.id === res.data.id ? res.data : p))
+          : [...prev, res.data]
+      );
+      setEditingId(null);
+    } catch (err: any) {
+      console.error(err);
+      setFormError(err?.response?.data?.message || "Failed to save the plan.");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActiveToggle = async (plan: Plan) => {
+    setError(null);
+    try {
+      const res = await api.patch<Plan>(
+        `/maintenance-plans/${plan.id}/active`,
+        { active: !plan.active },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setPlans((prev) => prev.map((p) => (p.id === plan.id ? res.data : p)));
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to update the plan.");
+    }
+  };
+
+  return (
+    <div className="app-shell">
+      <header className="app-topbar">
+        <div className="app-topbar-left">
+          <div className="app-logo-circle">K</div>
+          <div>
+            <h1 className="app-topbar-title">Preventive maintenance</h1>
+            <p className="app-topbar-subtitle">
+              Recurring work that opens requests on schedule.{" "}
+              <Link to="/manager">Go to requests</Link>
+            </p>
+          </div>
+        </div>
+        <div>
+          <div className="app-topbar-user">
+            <div>{user?.name}</div>
+            <div>{user?.email}</div>
+          </div>
+          <button
+            onClick={logout}
+            className="btn btn-secondary"
+            style={{ marginTop: 6 }}
+          >
+            Logout
+          </button>
+        </div>
+      </header>
+
+      <main className="page-content">
+        <section className="card">
+          <div
+            style={{
+              display: "flex",
+              justifyContent: "space-between",
+              alignItems: "center",
+              marginBottom: 12,
+            }}
+          >
+            <h2 style={{ margin: 0, fontSize: 18 }}>Plans</h2>
+            {editingId === null && (
+              <button
+                type="button"
+                className="btn btn-primary"
+                onClick={() => openForm()}
+              >
+                New plan
+              </button>
+            )}
+          </div>
+          {error && <div className="text-error">{error}</div>}
+
+          {loading ? (
+            <p className="text-muted">Loading plans...</p>
+          ) : plans.length === 0 ? (
+            <p className="text-muted">No plans yet.</p>
+          ) : (
+            <div className="table-wrapper">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Plan</th>
+                    <th>Schedule</th>
+                    <th>Covers</th>
+                    <th>Next run</th>
+                    <th>Requests</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plans.map((p) => (
+                    <tr key={p.id} style={{ opacity: p.active ? 1 : 0.6 }}>
+                      <td>
+                        <div>{p.name}</div>
+                        <div className="text-muted" style={{ fontSize: 11 }}>
+                          {p.category} · {p.checklist.length} checklist items
+                        </div>
+                      </td>
+                      <td style={{ fontSize: 12 }}>{describeSchedule(p)}</td>
+                      <td style={{ fontSize: 12 }}>{describeTargets(p)}</td>
+                      <td style={{ fontSize: 12 }}>
+                        {!p.active
+                          ? "Paused"
+                          : p.nextRunOn
+                            ? day(p.nextRunOn)
+                            : "Finished"}
+                      </td>
+                      <td>{p._count.requests}</td>
+                      <td>
+                        <div style={{ display: "flex", gap: 6 }}>
+                          <button
+                            type="button"
+                            className="btn btn-secondary"
+                            style={{ fontSize: 11, padding: "3px 8px" }}
+                            onClick={() => openForm(p)}
+                          >
+                            Edit
+                          </button>
+                          <button
+                            type="button"
+                            className="btn btn-secondary"
+                            style={{ fontSize: 11, padding: "3px 8px" }}
+                            onClick={() => handleActiveToggle(p)}
+                          >
+                            {p.active ? "Pause" : "Resume"}
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </section>
+
+        {editingId !== null && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <h2 style={{ marginTop: 0, fontSize: 18 }}>
+              {editingId ? "Edit plan" : "New plan"}
+            </h2>
+            <form onSubmit={handleSubmit}>
+              <div className="plan-form-row">
+                <div className="field-group" style={{ flex: 2 }}>
+                  <label className="field-label">Name</label>
+                  <input
+                    name="name"
+                    className="input"
+                    value={form.name}
+                    onChange={handleChange}
+                    placeholder="Quarterly HVAC filter change"
+                  />
+                </div>
+                <div className="field-group" style={{ flex: 1 }}>
+                  <label className="field-label">Category</label>
+                  <select
+                    name="category"
+                    className="select"
+                    value={form.category}
+                    onChange={handleChange}
+                  >
+                    <option>HVAC</option>
+                    <option>AC</option>
+                    <option>Water leak</option>
+                    <option>Laundry/Dryer</option>
+                    <option>Kitchen</option>
+                    <option>Power Outage</option>
+                    <option>Other</option>
+                  </select>
+                </div>
+                <div className="field-group" style={{ flex: 1 }}>
+                  <label className="field-label">Priority</label>
+                  <select
+                    name="priority"
+                    className="select"
+                    value={form.priority}
+                    onChange={handleChange}
+                  >
+                    <option value="low">Low</option>
+                    <option value="normal">Normal</option>
+                    <option value="high">High</option>
+                    <option value="emergency">Emergency</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="field-group">
+                <label className="field-label">Description</label>
+                <textarea
+                  name="description"
+                  className="textarea"
+                  rows={2}
+                  value={form.description}
+                  onChange={handleChange}
+                />
+              </div>
+              <div className="field-group">
+                <label className="field-label">Checklist (one per line)</label>
+                <textarea
+                  name="checklist"
+                  className="textarea"
+                  rows={4}
+                  value={form.checklist}
+                  onChange={handleChange}
+                  placeholder={"Replace filter\nCheck condensate drain"}
+                />
+              </div>
+
+              <div className="plan-form-row">
+                <div className="field-group">
+                  <label className="field-label">Every</label>
+                  <div style={{ display: "flex", gap: 6 }}>
+                    <input
+                      name="interval"
+                      type="number"
+                      min={1}
+                      className="input"
+                      style={{ width: 70 }}
+                      value={form.interval}
+                      onChange={handleChange}
+                    />
+                    <select
+                      name="frequency"
+                      className="select"
+                      value={form.frequency}
+                      onChange={handleChange}
+                    >
+                      {(Object.keys(frequencyUnits) as Frequency[]).map((f) => (
+                        <option key={f} value={f}>
+                          {frequencyUnits[f][1]}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                <div className="field-group">
+                  <label className="field-label">Starting</label>
+                  <input
+                    name="startsOn"
+                    type="date"
+                    className="input"
+                    value={form.startsOn}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="field-group">
+                  <label className="field-label">Until (optional)</label>
+                  <input
+                    name="endsOn"
+                    type="date"
+                    className="input"
+                    value={form.endsOn}
+                    onChange={handleChange}
+                  />
+                </div>
+                <div className="field-group">
+                  <label className="field-label">Preferred window</label>
+                  <select
+                    name="preferredWindow1"
+                    className="select"
+                    value={form.preferredWindow1}
+                    onChange={handleChange}
+                  >
+                    {windowOptions.map((w) => (
+                      <option key={w}>{w}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="field-group">
+                  <label className="field-label">Second window</label>
+                  <select
+                    name="preferredWindow2"
+                    className="select"
+                    value={form.preferredWindow2}
+                    onChange={handleChange}
+                  >
+                    <option value="">None</option>
+                    {windowOptions.map((w) => (
+                      <option key={w}>{w}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="field-group">
+                <label className="field-label">Covers</label>
+                <div className="plan-targets">
+                  {properties.map((p) => (
+                    <div key={p.id}>
+                      <div className="plan-targets-property">{p.name}</div>
+                      {p.buildings.map((b) => {
+                        const whole = form.buildingIds.includes(b.id);
+                        return (
+                          <div key={b.id} className="plan-targets-building">
+                            <label>
+                              <input
+                                type="checkbox"
+                                checked={whole}
+                                onChange={() => toggle("buildingIds", b.id)}
+                              />{" "}
+                              {b.name} (all units)
+                            </label>
+                            <div className="plan-targets-units">
+                              {b.units.map((u) => (
+                                <label key={u.id}>
+                                  <input
+                                    type="checkbox"
+                                    disabled={whole}
+                                    checked={
+                                      whole || form.unitIds.includes(u.id)
+                                    }
+                                    onChange={() => toggle("unitIds", u.id)}
+                                  />{" "}
+                                  {u.number}
+                                </label>
+                              ))}
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {formError && <div className="text-error">{formError}</div>}
+              <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+                <button
+                  type="submit"
+                  className="btn btn-primary"
+                  disabled={saving}
+                >
+                  {saving ? "Saving..." : "Save plan"}
+                </button>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  onClick={() => setEditingId(null)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </form>
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MaintenancePlansPage;
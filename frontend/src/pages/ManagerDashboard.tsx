@@ -1,13 +1,24 @@
 import React, { useEffect, useMemo, useState } from "react";
 import axios from "axios";
-import { useAuth } from "../contexts/AuthContext";
-
-type RequestStatus =
-  | "in_queue"
-  | "viewed"
-  | "maintenance_requested"
-  | "implementing_actions"
-  | "completed";
+import { Link, useSearchParams } from "react-router-dom";
+import { UnitSummary, useAuth } from "../contexts/AuthContext";
+import { RequestComments } from "../components/RequestComments";
+import { RequestAttachments } from "../components/RequestAttachments";
+import { RequestHistory } from "../components/RequestHistory";
+import { NotificationPreferences } from "../components/NotificationPreferences";
+import { SessionList } from "../components/SessionList";
+import { TwoFactorSettings } from "../components/TwoFactorSettings";
+import { LockedAccounts } from "../components/LockedAccounts";
+import { InviteTenantForm } from "../components/InviteTenantForm";
+import { SlaBadge, SlaSnapshot } from "../components/SlaBadge";
+import { RequestSearchResults } from "../components/RequestSearchResults";
+import { RequestBoard } from "../components/RequestBoard";
+import {
+  formatVisitDate,
+  RequestAppointments,
+} from "../components/RequestAppointments";
+import { useRequestStream } from "../hooks/useRequestStream";
+import { useWorkflow } from "../hooks/useWorkflow";
 
 type RequestPriority = "low" | "normal" | "high" | "emergency";
 type PreferredTimeWindow =
@@ -16,51 +27,98 @@ type PreferredTimeWindow =
   | "evening"
   | "anytime"
   | null;
-type UpdatedByRole = "tenant" | "manager" | "system";
+type UpdatedByRole = "tenant" | "manager" | "technician" | "system";
 
 type ManagerRequest = {
   id: number;
-  unit: string;
+  unit: UnitSummary;
   category: string;
   description: string;
-  phone: string;
-  status: RequestStatus;
+  phone: string | null;
+  status: string; // workflow state key
   createdAt: string;
   updatedAt: string;
   priority: RequestPriority;
   preferredTimeWindow: PreferredTimeWindow;
+  preferredWindow1: string | null;
+  preferredWindow2: string | null;
   accessInstructions?: string | null;
   lastUpdatedByRole: UpdatedByRole;
+  // Empty on preventive work in a vacant unit
   tenant: {
     name: string;
     email: string;
-  };
+  } | null;
+  assignee: Assignee | null;
+  maintenancePlanId: number | null;
+  // The proposed or confirmed visit, if any
+  appointments: ActiveAppointment[];
+  reopenedFromId: number | null;
+  sla: SlaSnapshot;
+};
+
+type ActiveAppointment = {
+  id: number;
+  date: string;
+  window: string;
+  status: "proposed" | "accepted";
 };
 
-const statusLabels: Record<RequestStatus, string> = {
-  in_queue: "In Queue",
-  viewed: "Viewed",
-  maintenance_requested: "Maintenance Requested",
-  implementing_actions: "Implementing Actions",
-  completed: "Completed",
+type Assignee = {
+  id: number;
+  name: string;
+  kind: "staff" | "vendor";
+  company?: string | null;
+};
+
+type PropertyTree = {
+  id: number;
+  name: string;
+  buildings: {
+    id: number;
+    name: string;
+    units: { id: number; number: string }[];
+  }[];
 };
 
-const statusColor: Record<RequestStatus, string> = {
-  in_queue: "#4b5563",
-  viewed: "#0ea5e9",
-  maintenance_requested: "#f97316",
-  implementing_actions: "#eab308",
-  completed: "#16a34a",
+type GroupBy = "none" | "property" | "building";
+
+type RequestPage = {
+  items: ManagerRequest[];
+  nextCursor: string | null;
+  total: number;
 };
 
-const statusOrder: RequestStatus[] = [
-  "in_queue",
-  "viewed",
-  "maintenance_requested",
-  "implementing_actions",
-  "completed",
+type SortField = "id" | "category" | "priority" | "updatedAt" | "status";
+
+// Filters that live in the URL, so a filtered view can be bookmarked or
+// shared. "status" absent means open requests only. The search box ("q")
+// is in the URL too but searches all history rather than filtering the table.
+const filterParams = [
+  "status",
+  "priority",
+  "category",
+  "propertyId",
+  "buildingId",
+  "tenant",
+  "createdFrom",
+  "createdTo",
+  "sort",
+  "dir",
+] as const;
+
+const categoryOptions = [
+  "HVAC",
+  "AC",
+  "Water leak",
+  "Laundry/Dryer",
+  "Kitchen",
+  "Power Outage",
+  "Other",
 ];
 
+const pageSize = 50;
+
 const priorityLabels: Record<RequestPriority, string> = {
   low: "Low",
   normal: "Normal",
@@ -88,6 +146,8 @@ const api = axios.create({
 
 const ManagerDashboard: React.FC = () => {
   const { user, token, logout } = useAuth();
+  const { states, statusLabel, statusColor, isTerminal, transitionsFor } =
+    useWorkflow(token);
   const [requests, setRequests] = useState<ManagerRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -95,42 +155,261 @@ const ManagerDashboard: React.FC = () => {
   const [updatingPriorityId, setUpdatingPriorityId] = useState<number | null>(
     null
   );
+  const [updatingAssigneeId, setUpdatingAssigneeId] = useState<number | null>(
+    null
+  );
+  const [technicians, setTechnicians] = useState<Assignee[]>([]);
+  const [conversationId, setConversationId] = useState<number | null>(null);
+
+  const [properties, setProperties] = useState<PropertyTree[]>([]);
+  // A scoped manager no admin has given any properties yet
+  const [unassigned, setUnassigned] = useState(false);
+  const [groupBy, setGroupBy] = useState<GroupBy>("none");
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const statusFilter = searchParams.get("status") ?? "all";
+  const priorityFilter = searchParams.get("priority") ?? "";
+  const categoryFilter = searchParams.get("category") ?? "";
+  const propertyFilter = searchParams.get("propertyId")
+    ? Number(searchParams.get("propertyId"))
+    : "all";
+  const buildingFilter = searchParams.get("buildingId")
+    ? Number(searchParams.get("buildingId"))
+    : "all";
+  const createdFrom = searchParams.get("createdFrom") ?? "";
+  const createdTo = searchParams.get("createdTo") ?? "";
+  const sort = (searchParams.get("sort") ?? "id") as SortField;
+  const dir = searchParams.get("dir") === "asc" ? "asc" : "desc";
+  const searchQuery = searchParams.get("q") ?? "";
+  // Table or board; both use the same filters
+  const view = searchParams.get("view") === "board" ? "board" : "table";
 
-  const [statusFilter, setStatusFilter] = useState<"all" | RequestStatus>(
-    "all"
+  // Sets (or clears, with "") URL filters; any change starts at page one
+  const updateFilters = (changes: Record<string, string>) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        for (const [key, value] of Object.entries(changes)) {
+          if (value) next.set(key, value);
+          else next.delete(key);
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  // Text filters reach the URL (and the server) once typing pauses
+  const [searchInput, setSearchInput] = useState(searchParams.get("q") ?? "");
+  const [tenantInput, setTenantInput] = useState(
+    searchParams.get("tenant") ?? ""
   );
-  const [search, setSearch] = useState("");
+  useEffect(() => {
+    const id = setTimeout(() => {
+      if (
+        searchInput.trim() !== (searchParams.get("q") ?? "") ||
+        tenantInput.trim() !== (searchParams.get("tenant") ?? "")
+      ) {
+        updateFilters({ q: searchInput.trim(), tenant: tenantInput.trim() });
+      }
+    }, 300);
+    return () => clearTimeout(id);
+    // Only typing should schedule an update
+  }, [searchInput, tenantInput]);
+
+  // Query string for the server: the URL filters, with the status buttons
+  // translated ("all" means every open request)
+  const queryString = useMemo(() => {
+    const params = new URLSearchParams();
+    for (const key of filterParams) {
+      const value = searchParams.get(key);
+      if (value && key !== "status") params.set(key, value);
+    }
+    if (statusFilter === "all") params.set("open", "true");
+    else params.set("status", statusFilter);
+    if (!params.has("sort")) params.set("sort", "id");
+    params.set("limit", String(pageSize));
+    return params.toString();
+  }, [searchParams, statusFilter]);
+
+  // What the board shares with the table: everything but status and order,
+  // since the board lays requests out by status itself
+  const boardFilters = useMemo(() => {
+    const params = new URLSearchParams();
+    for (const key of filterParams) {
+      const value = searchParams.get(key);
+      if (value && !["status", "sort", "dir"].includes(key)) {
+        params.set(key, value);
+      }
+    }
+    return params.toString();
+  }, [searchParams]);
+
+  // Cursor pagination: cursors[i] fetches page i (null is the first page)
+  const [cursors, setCursors] = useState<(string | null)[]>([null]);
+  const [pageIndex, setPageIndex] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [summary, setSummary] = useState({ open: 0, completed: 0 });
+
+  useEffect(() => {
+    setCursors([null]);
+    setPageIndex(0);
+  }, [queryString]);
+
+  // Ticks every minute so SLA countdowns stay current between reloads
+  const [now, setNow] = useState(() => Date.now());
+  useEffect(() => {
+    const id = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(id);
+  }, []);
+
+  useEffect(() => {
+    if (!token) return;
+
+    (async () => {
+      try {
+        const [propertiesRes, techniciansRes] = await Promise.all([
+          api.get<PropertyTree[]>("/properties", {
+            headers: { Authorization: `Bearer ${token}` },
+          }),
+          api.get<Assignee[]>("/technicians", {
+            headers: { Authorization: `Bearer ${token}` },
+          }),
+        ]);
+        setProperties(propertiesRes.data);
+        setUnassigned(
+          user?.role !== "admin" && propertiesRes.data.length === 0
+        );
+        setTechnicians(techniciansRes.data);
+      } catch (err) {
+        console.error(err);
+        setError("Failed to load maintenance requests.");
+      }
+    })();
+  }, [token]);
+
+  // Live updates: new requests and teammates' changes reload the page
+  const [reloadKey, setReloadKey] = useState(0);
+  useRequestStream(token, () => setReloadKey((k) => k + 1));
+
+  const cursor = cursors[pageIndex] ?? null;
 
   useEffect(() => {
     if (!token) {
       setLoading(false);
       return;
     }
+    let cancelled = false;
 
     (async () => {
       try {
-        const res = await api.get<ManagerRequest[]>("/requests", {
-          headers: { Authorization: `Bearer ${token}` },
-        });
-        setRequests(res.data);
-      } catch (err) {
+        const params = new URLSearchParams(queryString);
+        if (cursor) params.set("cursor", cursor);
+        // The board loads its own cards
+        const [pageRes, summaryRes] = await Promise.all([
+          view === "table"
+            ? api.get<RequestPage>(`/requests?${params.toString()}`, {
+                headers: { Authorization: `Bearer ${token}` },
+              })
+            : null,
+          api.get<{ open: number; completed: number }>("/requests/summary", {
+            headers: { Authorization: `Bearer ${token}` },
+          }),
+        ]);
+        if (cancelled) return;
+        if (pageRes) {
+          setRequests(pageRes.data.items);
+          setNextCursor(pageRes.data.nextCursor);
+          setTotal(pageRes.data.total);
+        }
+        setSummary(summaryRes.data);
+        setError(null);
+      } catch (err: any) {
         console.error(err);
-        setError("Failed to load maintenance requests.");
+        if (!cancelled) {
+          setError(
+            err?.response?.data?.message ||
+              "Failed to load maintenance requests."
+          );
+        }
       } finally {
-        setLoading(false);
+        if (!cancelled) setLoading(false);
       }
     })();
-  }, [token]);
 
-  const handleStatusChange = async (id: number, newStatus: RequestStatus) => {
+    return () => {
+      cancelled = true;
+    };
+  }, [token, queryString, cursor, reloadKey, view]);
+
+  // Downloads every request matching the current filters, not just this page
+  const [exportFormat, setExportFormat] = useState<"csv" | "xlsx">("csv");
+  const [exporting, setExporting] = useState(false);
+  const handleExport = async () => {
     if (!token) return;
+    setExporting(true);
+    try {
+      const params = new URLSearchParams(queryString);
+      params.delete("limit");
+      params.set("format", exportFormat);
+      const res = await api.get<Blob>(`/requests/export?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+        responseType: "blob",
+      });
+      const url = URL.createObjectURL(res.data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `requests-${new Date().toISOString().slice(0, 10)}.${exportFormat}`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error(err);
+      setError("Failed to export requests.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const goToNextPage = () => {
+    if (!nextCursor) return;
+    setCursors((prev) => [...prev.slice(0, pageIndex + 1), nextCursor]);
+    setPageIndex((i) => i + 1);
+  };
+
+  const handleSort = (field: SortField) => {
+    updateFilters({
+      sort: field,
+      dir: sort === field && dir === "desc" ? "asc" : "desc",
+    });
+  };
+
+  const sortIndicator = (field: SortField) =>
+    sort === field ? (dir === "asc" ? " ▲" : " ▼") : "";
+
+  const handleStatusChange = async (id: number, newStatus: string) => {
+    if (!token || !user) return;
+
+    const request = requests.find((r) => r.id === id);
+    const transition = request
+      ? transitionsFor(request.status, user.role).find(
+          (t) => t.toKey === newStatus
+        )
+      : undefined;
+
+    let reason: string | undefined;
+    if (transition?.requiresReason) {
+      reason = window.prompt(`Reason for "${transition.label}":`)?.trim();
+      if (!reason) return;
+    }
+
     setUpdatingId(id);
     setError(null);
 
     try {
       const res = await api.patch<ManagerRequest>(
         `/requests/${id}/status`,
-        { status: newStatus },
+        { status: newStatus, reason },
         { headers: { Authorization: `Bearer ${token}` } }
       );
 
@@ -189,6 +468,41 @@ const ManagerDashboard: React.FC = () => {
     }
   };
 
+  const handleAssigneeChange = async (
+    id: number,
+    technicianId: number | null
+  ) => {
+    if (!token) return;
+    setUpdatingAssigneeId(id);
+    setError(null);
+
+    try {
+      const res = await api.patch<ManagerRequest>(
+        `/requests/${id}/assignee`,
+        { technicianId },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      setRequests((prev) =>
+        prev.map((r) =>
+          r.id === id
+            ? {
+                ...r,
+                assignee: res.data.assignee,
+                updatedAt: res.data.updatedAt,
+                lastUpdatedByRole: res.data.lastUpdatedByRole,
+              }
+            : r
+        )
+      );
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to assign request.");
+    } finally {
+      setUpdatingAssigneeId(null);
+    }
+  };
+
   const formatDateTime = (value: string) =>
     new Date(value).toLocaleString(undefined, {
       dateStyle: "short",
@@ -198,33 +512,52 @@ const ManagerDashboard: React.FC = () => {
   const formatUpdatedBy = (role: UpdatedByRole) => {
     if (role === "tenant") return "Tenant";
     if (role === "manager") return "Maintenance";
+    if (role === "technician") return "Technician";
     return "System";
   };
 
-  const filteredRequests = useMemo(() => {
-    const term = search.trim().toLowerCase();
-    return requests.filter((r) => {
-      // Status filtering:
-      // "all" = all *open* (non-completed) requests
-      if (statusFilter === "all") {
-        if (r.status === "completed") return false;
-      } else if (r.status !== statusFilter) {
-        return false;
-      }
-
-      if (!term) return true;
-
-      const haystack =
-        `${r.unit} ${r.category} ${r.phone} ${r.tenant.name} ${r.tenant.email}`.toLowerCase();
+  // Buildings offered in the filter follow the selected property
+  const buildingOptions = useMemo(
+    () =>
+      properties
+        .filter((p) => propertyFilter === "all" || p.id === propertyFilter)
+        .flatMap((p) =>
+          p.buildings.map((b) => ({
+            id: b.id,
+            label: propertyFilter === "all" ? `${p.name} – ${b.name}` : b.name,
+          }))
+        ),
+    [properties, propertyFilter]
+  );
 
-      return haystack.includes(term);
-    });
-  }, [requests, statusFilter, search]);
+  const groupedRequests = useMemo(() => {
+    if (groupBy === "none") {
+      return [{ key: "all", label: "", items: requests }];
+    }
 
-  const totalOpen = requests.filter((r) => r.status !== "completed").length;
-  const totalCompleted = requests.filter(
-    (r) => r.status === "completed"
-  ).length;
+    const groups = new Map<
+      string,
+      { key: string; label: string; items: ManagerRequest[] }
+    >();
+    for (const r of requests) {
+      const { building } = r.unit;
+      const key =
+        groupBy === "property"
+          ? `p-${building.property.id}`
+          : `b-${building.id}`;
+      const label =
+        groupBy === "property"
+          ? building.property.name
+          : `${building.property.name} – ${building.name}`;
+      if (!groups.has(key)) {
+        groups.set(key, { key, label, items: [] });
+      }
+      groups.get(key)!.items.push(r);
+    }
+    return Array.from(groups.values()).sort((a, b) =>
+      a.label.localeCompare(b.label)
+    );
+  }, [requests, groupBy]);
 
   return (
     <div className="app-shell">
@@ -234,7 +567,17 @@ const ManagerDashboard: React.FC = () => {
           <div>
             <h1 className="app-topbar-title">Manager Dashboard</h1>
             <p className="app-topbar-subtitle">
-              Live view of all maintenance requests in your property.
+              Live view of all maintenance requests in your property.{" "}
+              <Link to="/users">Users</Link>{" "}
+              <Link to="/analytics">Analytics</Link>{" "}
+              <Link to="/calendar">Calendar</Link>{" "}
+              <Link to="/maintenance-plans">Preventive maintenance</Link>
+              {user?.role === "admin" && (
+                <>
+                  {" "}
+                  <Link to="/admin">Admin console</Link>
+                </>
+              )}
             </p>
           </div>
         </div>
@@ -258,12 +601,41 @@ const ManagerDashboard: React.FC = () => {
         <section className="card-grid">
           <div className="card">
             <p className="card-title">Active Requests</p>
-            <p className="card-value">{totalOpen}</p>
+            <p className="card-value">{summary.open}</p>
           </div>
           <div className="card">
             <p className="card-title">Completed</p>
-            <p className="card-value">{totalCompleted}</p>
+            <p className="card-value">{summary.completed}</p>
+          </div>
+        </section>
+
+        {/* Full-text search across all requests */}
+        <section className="card" style={{ marginBottom: 16 }}>
+          <div
+            style={{
+              display: "flex",
+              gap: 8,
+              alignItems: "center",
+              marginBottom: searchQuery ? 12 : 0,
+            }}
+          >
+            <h2 style={{ margin: 0, fontSize: 18 }}>Search</h2>
+            <input
+              type="search"
+              className="input"
+              placeholder="Descriptions, comments, units, tenants..."
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              style={{ flex: 1 }}
+            />
           </div>
+          {searchQuery && token && user && (
+            <RequestSearchResults
+              query={searchQuery}
+              token={token}
+              currentUserId={user.id}
+            />
+          )}
         </section>
 
         {/* Requests table with filters */}
@@ -278,56 +650,215 @@ const ManagerDashboard: React.FC = () => {
               marginBottom: 12,
             }}
           >
-            <h2 style={{ margin: 0, fontSize: 18 }}>
-              Live Maintenance Requests
-            </h2>
+            <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+              <h2 style={{ margin: 0, fontSize: 18 }}>
+                Live Maintenance Requests
+              </h2>
+              {(["table", "board"] as const).map((v) => (
+                <button
+                  key={v}
+                  type="button"
+                  className={
+                    view === v ? "btn btn-primary" : "btn btn-secondary"
+                  }
+                  style={{ padding: "4px 10px", fontSize: 11 }}
+                  onClick={() =>
+                    updateFilters({ view: v === "board" ? v : "" })
+                  }
+                >
+                  {v === "table" ? "Table" : "Board"}
+                </button>
+              ))}
+            </div>
 
             <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
-              {/* Status filter buttons */}
-              <div style={{ display: "flex", gap: 4, flexWrap: "wrap" }}>
-                {(["all", ...statusOrder] as const).map((s) => {
-                  const label = s === "all" ? "All (Open)" : statusLabels[s];
-                  const active = statusFilter === s;
-                  return (
-                    <button
-                      key={s}
-                      type="button"
-                      onClick={() => setStatusFilter(s)}
-                      className={
-                        active ? "btn btn-primary" : "btn btn-secondary"
-                      }
-                      style={{
-                        padding: "4px 10px",
-                        fontSize: 11,
-                        textTransform: "uppercase",
-                        letterSpacing: "0.06em",
-                      }}
-                    >
-                      {label}
-                    </button>
-                  );
-                })}
+              {/* Status filter buttons (the board has a column per status) */}
+              {view === "table" && (
+                <div style={{ display: "flex", gap: 4, flexWrap: "wrap" }}>
+                  {["all", ...states.map((st) => st.key)].map((s) => {
+                    const label = s === "all" ? "All (Open)" : statusLabel(s);
+                    const active = statusFilter === s;
+                    return (
+                      <button
+                        key={s}
+                        type="button"
+                        onClick={() =>
+                          updateFilters({ status: s === "all" ? "" : s })
+                        }
+                        className={
+                          active ? "btn btn-primary" : "btn btn-secondary"
+                        }
+                        style={{
+                          padding: "4px 10px",
+                          fontSize: 11,
+                          textTransform: "uppercase",
+                          letterSpacing: "0.06em",
+                        }}
+                      >
+                        {label}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {/* Property / building filters */}
+              <div style={{ display: "flex", gap: 4 }}>
+                <select
+                  className="select"
+                  value={propertyFilter}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    updateFilters({
+                      propertyId: value === "all" ? "" : value,
+                      buildingId: "",
+                    });
+                  }}
+                  style={{ fontSize: 12 }}
+                >
+                  <option value="all">All properties</option>
+                  {properties.map((p) => (
+                    <option key={p.id} value={p.id}>
+                      {p.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="select"
+                  value={buildingFilter}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    updateFilters({ buildingId: value === "all" ? "" : value });
+                  }}
+                  style={{ fontSize: 12 }}
+                >
+                  <option value="all">All buildings</option>
+                  {buildingOptions.map((b) => (
+                    <option key={b.id} value={b.id}>
+                      {b.label}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  className="select"
+                  value={groupBy}
+                  onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+                  style={{ fontSize: 12 }}
+                >
+                  <option value="none">No grouping</option>
+                  <option value="property">Group by property</option>
+                  <option value="building">Group by building</option>
+                </select>
               </div>
 
-              {/* Search field */}
-              <div>
+              {/* Priority / category / created date filters */}
+              <div style={{ display: "flex", gap: 4, flexWrap: "wrap" }}>
+                <select
+                  className="select"
+                  value={priorityFilter}
+                  onChange={(e) => updateFilters({ priority: e.target.value })}
+                  style={{ fontSize: 12 }}
+                >
+                  <option value="">All priorities</option>
+                  {(Object.keys(priorityLabels) as RequestPriority[]).map(
+                    (p) => (
+                      <option key={p} value={p}>
+                        {priorityLabels[p]}
+                      </option>
+                    )
+                  )}
+                </select>
+                <select
+                  className="select"
+                  value={categoryFilter}
+                  onChange={(e) => updateFilters({ category: e.target.value })}
+                  style={{ fontSize: 12 }}
+                >
+                  <option value="">All categories</option>
+                  {categoryOptions.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  className="input"
+                  title="Created on or after"
+                  value={createdFrom}
+                  onChange={(e) =>
+                    updateFilters({ createdFrom: e.target.value })
+                  }
+                  style={{ fontSize: 12 }}
+                />
                 <input
-                  type="text"
+                  type="date"
                   className="input"
-                  placeholder="Search unit, tenant, phone, category..."
-                  value={search}
-                  onChange={(e) => setSearch(e.target.value)}
-                  style={{ minWidth: 220 }}
+                  title="Created on or before"
+                  value={createdTo}
+                  onChange={(e) => updateFilters({ createdTo: e.target.value })}
+                  style={{ fontSize: 12 }}
                 />
               </div>
+
+              {/* Tenant filter */}
+              <input
+                type="text"
+                className="input"
+                placeholder="Tenant name or email..."
+                value={tenantInput}
+                onChange={(e) => setTenantInput(e.target.value)}
+                style={{ minWidth: 160 }}
+              />
+
+              {/* Spreadsheet of everything the filters match */}
+              <div style={{ display: "flex", gap: 4 }}>
+                <select
+                  className="select"
+                  value={exportFormat}
+                  onChange={(e) =>
+                    setExportFormat(e.target.value as "csv" | "xlsx")
+                  }
+                  style={{ fontSize: 12 }}
+                >
+                  <option value="csv">CSV</option>
+                  <option value="xlsx">Excel</option>
+                </select>
+                <button
+                  type="button"
+                  className="btn btn-secondary"
+                  disabled={exporting}
+                  onClick={handleExport}
+                >
+                  {exporting ? "Exporting..." : "Export"}
+                </button>
+              </div>
             </div>
           </div>
 
           {error && <div className="text-error">{error}</div>}
+          {unassigned && (
+            <p className="text-muted">
+              No properties have been assigned to you yet, so there are no
+              requests to show. Ask an admin to assign the properties you look
+              after.
+            </p>
+          )}
 
-          {loading ? (
+          {view === "board" ? (
+            token &&
+            user && (
+              <RequestBoard
+                token={token}
+                role={user.role}
+                filters={boardFilters}
+                reloadKey={reloadKey}
+                now={now}
+              />
+            )
+          ) : loading ? (
             <p className="text-muted">Loading requests...</p>
-          ) : filteredRequests.length === 0 ? (
+          ) : requests.length === 0 ? (
             <p className="text-muted">
               No requests match your current filters.
             </p>
@@ -336,134 +867,367 @@ const ManagerDashboard: React.FC = () => {
               <table className="table">
                 <thead>
                   <tr>
-                    <th>ID</th>
+                    <th
+                      className="table-sortable"
+                      onClick={() => handleSort("id")}
+                    >
+                      ID{sortIndicator("id")}
+                    </th>
                     <th>Unit</th>
                     <th>Tenant</th>
-                    <th>Category</th>
-                    <th>Priority</th>
+                    <th
+                      className="table-sortable"
+                      onClick={() => handleSort("category")}
+                    >
+                      Category{sortIndicator("category")}
+                    </th>
+                    <th
+                      className="table-sortable"
+                      onClick={() => handleSort("priority")}
+                    >
+                      Priority{sortIndicator("priority")}
+                    </th>
                     <th>Preferred Time</th>
                     <th>Description</th>
                     <th>Phone</th>
-                    <th>Last Updated</th>
-                    <th>Status</th>
+                    <th>Assignee</th>
+                    <th
+                      className="table-sortable"
+                      onClick={() => handleSort("updatedAt")}
+                    >
+                      Last Updated{sortIndicator("updatedAt")}
+                    </th>
+                    <th>SLA</th>
+                    <th
+                      className="table-sortable"
+                      onClick={() => handleSort("status")}
+                    >
+                      Status{sortIndicator("status")}
+                    </th>
                   </tr>
                 </thead>
-                <tbody>
-                  {filteredRequests.map((req) => (
-                    <tr key={req.id} className="table-row">
-                      <td>{req.id}</td>
-                      <td>{req.unit}</td>
-                      <td>
-                        <div>{req.tenant?.name}</div>
-                        <div style={{ fontSize: 11, color: "#9ca3af" }}>
-                          {req.tenant?.email}
-                        </div>
-                      </td>
-                      <td>{req.category}</td>
-                      <td>
-                        <div
-                          style={{
-                            marginBottom: 4,
-                          }}
-                        >
-                          <span
-                            style={{
-                              display: "inline-block",
-                              padding: "2px 8px",
-                              borderRadius: 999,
-                              fontSize: 11,
-                              border: "1px solid rgba(148,163,184,0.7)",
-                              color: priorityColor[req.priority],
-                            }}
-                          >
-                            {priorityLabels[req.priority]}
+                {groupedRequests.map((group) => (
+                  <tbody key={group.key}>
+                    {groupBy !== "none" && (
+                      <tr>
+                        <td colSpan={12} className="table-group-heading">
+                          {group.label}{" "}
+                          <span className="text-muted">
+                            ({group.items.length})
                           </span>
-                        </div>
-                        <select
-                          value={req.priority}
-                          disabled={updatingPriorityId === req.id}
-                          onChange={(e) =>
-                            handlePriorityChange(
-                              req.id,
-                              e.target.value as RequestPriority
-                            )
-                          }
-                          className="select"
-                          style={{ fontSize: 11 }}
-                        >
-                          <option value="low">Low</option>
-                          <option value="normal">Normal</option>
-                          <option value="high">High</option>
-                          <option value="emergency">Emergency</option>
-                        </select>
-                      </td>
-                      <td style={{ fontSize: 11 }}>
-                        {req.preferredTimeWindow
-                          ? timeWindowLabels[req.preferredTimeWindow]
-                          : "—"}
-                      </td>
-                      <td>
-                        <div>{req.description}</div>
-                        {req.accessInstructions && (
-                          <div
-                            style={{
-                              marginTop: 4,
-                              fontSize: 11,
-                              color: "#9ca3af",
-                            }}
-                          >
-                            Access: {req.accessInstructions}
-                          </div>
+                        </td>
+                      </tr>
+                    )}
+                    {group.items.map((req) => (
+                      <React.Fragment key={req.id}>
+                        <tr className="table-row">
+                          <td>{req.id}</td>
+                          <td>
+                            <div>{req.unit.number}</div>
+                            <div style={{ fontSize: 11, color: "#9ca3af" }}>
+                              {req.unit.building.property.name} ·{" "}
+                              {req.unit.building.name}
+                            </div>
+                          </td>
+                          <td>
+                            <div>{req.tenant?.name ?? "—"}</div>
+                            <div style={{ fontSize: 11, color: "#9ca3af" }}>
+                              {req.tenant?.email}
+                            </div>
+                          </td>
+                          <td>
+                            {req.category}
+                            {req.reopenedFromId && (
+                              <div style={{ fontSize: 11, color: "#f472b6" }}>
+                                Follow-up to #{req.reopenedFromId}
+                              </div>
+                            )}
+                            {req.maintenancePlanId && (
+                              <div style={{ fontSize: 11, color: "#22c55e" }}>
+                                Preventive maintenance
+                              </div>
+                            )}
+                          </td>
+                          <td>
+                            <div
+                              style={{
+                                marginBottom: 4,
+                              }}
+                            >
+                              <span
+                                style={{
+                                  display: "inline-block",
+                                  padding: "2px 8px",
+                                  borderRadius: 999,
+                                  fontSize: 11,
+                                  border: "1px solid rgba(148,163,184,0.7)",
+                                  color: priorityColor[req.priority],
+                                }}
+                              >
+                                {priorityLabels[req.priority]}
+                              </span>
+                            </div>
+                            <select
+                              value={req.priority}
+                              disabled={updatingPriorityId === req.id}
+                              onChange={(e) =>
+                                handlePriorityChange(
+                                  req.id,
+                                  e.target.value as RequestPriority
+                                )
+                              }
+                              className="select"
+                              style={{ fontSize: 11 }}
+                            >
+                              <option value="low">Low</option>
+                              <option value="normal">Normal</option>
+                              <option value="high">High</option>
+                              <option value="emergency">Emergency</option>
+                            </select>
+                          </td>
+                          <td style={{ fontSize: 11 }}>
+                            {req.preferredTimeWindow
+                              ? timeWindowLabels[req.preferredTimeWindow]
+                              : "—"}
+                            {req.appointments?.[0] && (
+                              <div
+                                style={{
+                                  marginTop: 4,
+                                  color:
+                                    req.appointments[0].status === "accepted"
+                                      ? "#22c55e"
+                                      : "#f59e0b",
+                                }}
+                              >
+                                Visit{" "}
+                                {formatVisitDate(req.appointments[0].date)}{" "}
+                                {req.appointments[0].window}
+                                {req.appointments[0].status === "proposed" &&
+                                  " (proposed)"}
+                              </div>
+                            )}
+                          </td>
+                          <td>
+                            <div style={{ whiteSpace: "pre-line" }}>
+                              {req.description}
+                            </div>
+                            {req.accessInstructions && (
+                              <div
+                                style={{
+                                  marginTop: 4,
+                                  fontSize: 11,
+                                  color: "#9ca3af",
+                                }}
+                              >
+                                Access: {req.accessInstructions}
+                              </div>
+                            )}
+                          </td>
+                          <td>{req.phone ?? "—"}</td>
+                          <td>
+                            <select
+                              value={req.assignee?.id ?? ""}
+                              disabled={updatingAssigneeId === req.id}
+                              onChange={(e) =>
+                                handleAssigneeChange(
+                                  req.id,
+                                  e.target.value ? Number(e.target.value) : null
+                                )
+                              }
+                              className="select"
+                              style={{ fontSize: 11, minWidth: 130 }}
+                            >
+                              <option value="">Unassigned</option>
+                              {req.assignee &&
+                                !technicians.some(
+                                  (t) => t.id === req.assignee!.id
+                                ) && (
+                                  <option value={req.assignee.id}>
+                                    {req.assignee.name}
+                                  </option>
+                                )}
+                              {technicians.map((t) => (
+                                <option key={t.id} value={t.id}>
+                                  {t.name}
+                                  {t.kind === "vendor" ? " (vendor)" : ""}
+                                </option>
+                              ))}
+                            </select>
+                          </td>
+                          <td style={{ fontSize: 11 }}>
+                            <div>{formatDateTime(req.updatedAt)}</div>
+                            <div style={{ color: "#9ca3af" }}>
+                              by {formatUpdatedBy(req.lastUpdatedByRole)}
+                            </div>
+                          </td>
+                          <td>
+                            {isTerminal(req.status) ? (
+                              <span className="text-muted">
+                                {req.sla.status === "breached"
+                                  ? "Breached"
+                                  : "—"}
+                              </span>
+                            ) : (
+                              <SlaBadge sla={req.sla} now={now} />
+                            )}
+                          </td>
+                          <td>
+                            <div
+                              style={{
+                                display: "flex",
+                                flexDirection: "column",
+                                gap: 6,
+                              }}
+                            >
+                              <span
+                                className="status-pill"
+                                style={{
+                                  backgroundColor: statusColor(req.status),
+                                }}
+                              >
+                                {statusLabel(req.status)}
+                              </span>
+                              <select
+                                value={req.status}
+                                disabled={updatingId === req.id}
+                                onChange={(e) =>
+                                  handleStatusChange(req.id, e.target.value)
+                                }
+                                className="select"
+                                style={{ fontSize: 12 }}
+                              >
+                                <option value={req.status}>
+                                  {statusLabel(req.status)}
+                                </option>
+                                {user &&
+                                  transitionsFor(req.status, user.role).map(
+                                    (t) => (
+                                      <option key={t.id} value={t.toKey}>
+                                        {t.label}
+                                      </option>
+                                    )
+                                  )}
+                              </select>
+                              <button
+                                type="button"
+                                className="btn btn-secondary"
+                                style={{ fontSize: 11, padding: "3px 8px" }}
+                                onClick={() =>
+                                  setConversationId((prev) =>
+                                    prev === req.id ? null : req.id
+                                  )
+                                }
+                              >
+                                {conversationId === req.id
+                                  ? "Hide details"
+                                  : "History, photos & messages"}
+                              </button>
+                            </div>
+                          </td>
+                        </tr>
+                        {conversationId === req.id && token && user && (
+                          <tr>
+                            <td colSpan={12}>
+                              {!isTerminal(req.status) && (
+                                <RequestAppointments
+                                  requestId={req.id}
+                                  token={token}
+                                  mode="manager"
+                                  windows={[
+                                    req.preferredWindow1,
+                                    req.preferredWindow2,
+                                  ]}
+                                  reloadKey={reloadKey}
+                                  onChange={() => setReloadKey((k) => k + 1)}
+                                />
+                              )}
+                              <RequestHistory
+                                requestId={req.id}
+                                token={token}
+                                currentUserId={user.id}
+                              />
+                              <RequestAttachments
+                                requestId={req.id}
+                                token={token}
+                              />
+                              <RequestComments
+                                requestId={req.id}
+                                token={token}
+                                currentUserId={user.id}
+                                allowInternal
+                              />
+                            </td>
+                          </tr>
                         )}
-                      </td>
-                      <td>{req.phone}</td>
-                      <td style={{ fontSize: 11 }}>
-                        <div>{formatDateTime(req.updatedAt)}</div>
-                        <div style={{ color: "#9ca3af" }}>
-                          by {formatUpdatedBy(req.lastUpdatedByRole)}
-                        </div>
-                      </td>
-                      <td>
-                        <div
-                          style={{
-                            display: "flex",
-                            flexDirection: "column",
-                            gap: 6,
-                          }}
-                        >
-                          <span
-                            className="status-pill"
-                            style={{ backgroundColor: statusColor[req.status] }}
-                          >
-                            {statusLabels[req.status]}
-                          </span>
-                          <select
-                            value={req.status}
-                            disabled={updatingId === req.id}
-                            onChange={(e) =>
-                              handleStatusChange(
-                                req.id,
-                                e.target.value as RequestStatus
-                              )
-                            }
-                            className="select"
-                            style={{ fontSize: 12 }}
-                          >
-                            {statusOrder.map((s) => (
-                              <option key={s} value={s}>
-                                {statusLabels[s]}
-                              </option>
-                            ))}
-                          </select>
-                        </div>
-                      </td>
-                    </tr>
-                  ))}
-                </tbody>
+                      </React.Fragment>
+                    ))}
+                  </tbody>
+                ))}
               </table>
             </div>
           )}
+
+          {view === "table" && (
+            <div
+              style={{
+                display: "flex",
+                gap: 8,
+                alignItems: "center",
+                marginTop: 8,
+              }}
+            >
+              <button
+                type="button"
+                className="btn btn-secondary"
+                disabled={pageIndex === 0}
+                onClick={() => setPageIndex((i) => Math.max(0, i - 1))}
+              >
+                Previous
+              </button>
+              <span className="text-muted" style={{ fontSize: 12 }}>
+                {total === 0
+                  ? "No matching requests"
+                  : `${pageIndex * pageSize + 1}–${
+                      pageIndex * pageSize + requests.length
+                    } of ${total}`}
+              </span>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                disabled={!nextCursor}
+                onClick={goToNextPage}
+              >
+                Next
+              </button>
+            </div>
+          )}
         </section>
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <InviteTenantForm token={token} properties={properties} />
+          </section>
+        )}
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <LockedAccounts token={token} />
+          </section>
+        )}
+
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <NotificationPreferences token={token} />
+          </section>
+        )}
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <SessionList token={token} />
+          </section>
+        )}
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <TwoFactorSettings token={token} />
+          </section>
+        )}
       </main>
     </div>
   );
@@ -0,0 +1,37 @@
+import React, { useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import axios from "axios";
+import { AuthCard } from "../components/AuthCard";
+import { SetPasswordForm } from "../components/SetPasswordForm";
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const ResetPasswordPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleReset = async (password: string) => {
+    const res = await api.post("/auth/reset-password", { token, password });
+    setMessage(res.data.message);
+  };
+
+  return (
+    <AuthCard subtitle="Choose a new password.">
+      {!token ? (
+        <div className="text-error">This reset link is incomplete.</div>
+      ) : message ? (
+        <p className="text-muted">{message}</p>
+      ) : (
+        <SetPasswordForm submitLabel="Reset password" onSubmit={handleReset} />
+      )}
+      <div className="auth-helper">
+        <Link to="/login">Back to login</Link>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default ResetPasswordPage;
@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { UnitSummary, useAuth } from "../contexts/AuthContext";
+import { NotificationPreferences } from "../components/NotificationPreferences";
+import { SessionList } from "../components/SessionList";
+import { TwoFactorSettings } from "../components/TwoFactorSettings";
+import { formatVisitDate } from "../components/RequestAppointments";
+import { useRequestStream } from "../hooks/useRequestStream";
+import { useWorkflow, WorkflowTransition } from "../hooks/useWorkflow";
+
+type RequestPriority = "low" | "normal" | "high" | "emergency";
+
+type AssignedRequest = {
+  id: number;
+  unit: UnitSummary;
+  category: string;
+  description: string;
+  phone: string | null;
+  status: string; // workflow state key
+  priority: RequestPriority;
+  preferredWindow1?: string | null;
+  preferredWindow2?: string | null;
+  accessInstructions?: string | null;
+  assignedAt: string | null;
+  createdAt: string;
+  tenant: {
+    name: string;
+  } | null;
+  // The proposed or confirmed visit, if any
+  appointments: {
+    id: number;
+    date: string;
+    window: string;
+    status: "proposed" | "accepted";
+  }[];
+};
+
+const priorityLabels: Record<RequestPriority, string> = {
+  low: "Low",
+  normal: "Normal",
+  high: "High",
+  emergency: "Emergency",
+};
+
+const priorityColor: Record<RequestPriority, string> = {
+  low: "#6b7280",
+  normal: "#0ea5e9",
+  high: "#f97316",
+  emergency: "#ef4444",
+};
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const TechnicianDashboard: React.FC = () => {
+  const { user, token, logout } = useAuth();
+  const { statusLabel, statusColor, isTerminal, transitionsFor } =
+    useWorkflow(token);
+  const [requests, setRequests] = useState<AssignedRequest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<"open" | "completed">("open");
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+
+  // Bumped by live updates, e.g. when new work is assigned
+  const [reloadKey, setReloadKey] = useState(0);
+  useRequestStream(token, () => setReloadKey((k) => k + 1));
+
+  useEffect(() => {
+    if (!token) {
+      setLoading(false);
+      return;
+    }
+
+    (async () => {
+      try {
+        const res = await api.get<AssignedRequest[]>("/requests/assigned", {
+          headers: { Authorization: `Bearer ${token}` },
+        });
+        setRequests(res.data);
+      } catch (err) {
+        console.error(err);
+        setError("Failed to load your assigned work.");
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [token, reloadKey]);
+
+  const handleTransition = async (
+    request: AssignedRequest,
+    transition: WorkflowTransition
+  ) => {
+    if (!token) return;
+
+    let reason: string | undefined;
+    if (transition.requiresReason) {
+      reason = window.prompt(`Reason for "${transition.label}":`)?.trim();
+      if (!reason) return;
+    }
+
+    setUpdatingId(request.id);
+    setError(null);
+    try {
+      const res = await api.patch<AssignedRequest>(
+        `/requests/${request.id}/status`,
+        { status: transition.toKey, reason },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+      setRequests((prev) =>
+        prev.map((r) =>
+          r.id === request.id ? { ...r, status: res.data.status } : r
+        )
+      );
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to update status.");
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const formatDateTime = (value: string) =>
+    new Date(value).toLocaleString(undefined, {
+      dateStyle: "short",
+      timeStyle: "short",
+    });
+
+  const visible = requests.filter((r) =>
+    view === "open" ? !isTerminal(r.status) : isTerminal(r.status)
+  );
+
+  return (
+    <div className="app-shell">
+      <header className="app-topbar">
+        <div className="app-topbar-left">
+          <div className="app-logo-circle">K</div>
+          <div>
+            <h1 className="app-topbar-title">My Assigned Work</h1>
+            <p className="app-topbar-subtitle">
+              Requests your manager has assigned to you.{" "}
+              <Link to="/calendar">Calendar</Link>
+            </p>
+          </div>
+        </div>
+        <div>
+          <div className="app-topbar-user">
+            <div>{user?.name}</div>
+            <div>{user?.email}</div>
+          </div>
+          <button
+            onClick={logout}
+            className="btn btn-secondary"
+            style={{ marginTop: 6 }}
+          >
+            Logout
+          </button>
+        </div>
+      </header>
+
+      <main className="page-content">
+        <div style={{ display: "flex", gap: 8, marginBottom: 12 }}>
+          <button
+            type="button"
+            className={
+              view === "open" ? "btn btn-primary" : "btn btn-secondary"
+            }
+            style={{ fontSize: 12, padding: "4px 10px" }}
+            onClick={() => setView("open")}
+          >
+            Open
+          </button>
+          <button
+            type="button"
+            className={
+              view === "completed" ? "btn btn-primary" : "btn btn-secondary"
+            }
+            style={{ fontSize: 12, padding: "4px 10px" }}
+            onClick={() => setView("completed")}
+          >
+            Completed
+          </button>
+        </div>
+
+        {error && <div className="text-error">{error}</div>}
+
+        {loading ? (
+          <p className="text-muted">Loading your work...</p>
+        ) : visible.length === 0 ? (
+          <p className="text-muted">
+            {view === "open"
+              ? "Nothing is assigned to you right now."
+              : "You haven't completed any assigned requests yet."}
+          </p>
+        ) : (
+          <div className="request-cards">
+            {visible.map((r) => (
+              <article key={r.id} className="card">
+                <div
+                  style={{
+                    display: "flex",
+                    justifyContent: "space-between",
+                    gap: 8,
+                    marginBottom: 8,
+                    alignItems: "flex-start",
+                  }}
+                >
+                  <div>
+                    <h3 className="request-card-title">
+                      #{r.id} {r.category} – Unit {r.unit.number}
+                    </h3>
+                    <p className="request-card-meta">
+                      {r.unit.building.property.name} · {r.unit.building.name}
+                    </p>
+                    {r.assignedAt && (
+                      <p className="request-card-meta">
+                        Assigned: {formatDateTime(r.assignedAt)}
+                      </p>
+                    )}
+                  </div>
+                  <div style={{ textAlign: "right" }}>
+                    <span
+                      className="status-pill"
+                      style={{ backgroundColor: statusColor(r.status) }}
+                    >
+                      {statusLabel(r.status)}
+                    </span>
+                    <div
+                      style={{
+                        marginTop: 6,
+                        fontSize: 11,
+                        color: priorityColor[r.priority],
+                      }}
+                    >
+                      {priorityLabels[r.priority]}
+                    </div>
+                  </div>
+                </div>
+
+                <p
+                  style={{
+                    margin: "8px 0",
+                    fontSize: 13,
+                    whiteSpace: "pre-line",
+                  }}
+                >
+                  {r.description}
+                </p>
+                {r.tenant && (
+                  <p className="request-card-footer">
+                    Tenant: {r.tenant.name}
+                    {r.phone && ` · ${r.phone}`}
+                  </p>
+                )}
+                {(r.preferredWindow1 || r.preferredWindow2) && (
+                  <p className="request-card-footer">
+                    Preferred windows:{" "}
+                    {[r.preferredWindow1, r.preferredWindow2]
+                      .filter(Boolean)
+                      .join("; ")}
+                  </p>
+                )}
+                {r.accessInstructions && (
+                  <p className="request-card-footer">
+                    Access: {r.accessInstructions}
+                  </p>
+                )}
+                {r.appointments?.[0] && (
+                  <p className="request-card-footer">
+                    Visit: {formatVisitDate(r.appointments[0].date)}{" "}
+                    {r.appointments[0].window}
+                    {r.appointments[0].status === "accepted"
+                      ? " (confirmed)"
+                      : " (waiting for the tenant)"}
+                  </p>
+                )}
+                {user && transitionsFor(r.status, user.role).length > 0 && (
+                  <div
+                    style={{
+                      marginTop: 10,
+                      display: "flex",
+                      flexWrap: "wrap",
+                      gap: 6,
+                      justifyContent: "flex-end",
+                    }}
+                  >
+                    {transitionsFor(r.status, user.role).map((t) => (
+                      <button
+                        key={t.id}
+                        type="button"
+                        className="btn btn-secondary"
+                        style={{ fontSize: 12, padding: "4px 10px" }}
+                        disabled={updatingId === r.id}
+                        onClick={() => handleTransition(r, t)}
+                      >
+                        {t.label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </article>
+            ))}
+          </div>
+        )}
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <NotificationPreferences token={token} />
+          </section>
+        )}
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <SessionList token={token} />
+          </section>
+        )}
+        {token && (
+          <section className="card" style={{ marginTop: 16 }}>
+            <TwoFactorSettings token={token} />
+          </section>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default TechnicianDashboard;
@@ -1,13 +1,15 @@
 import React, { useEffect, useState } from "react";
 import axios from "axios";
-import { useAuth } from "../contexts/AuthContext";
-
-type RequestStatus =
-  | "in_queue"
-  | "viewed"
-  | "maintenance_requested"
-  | "implementing_actions"
-  | "completed";
+import { UnitSummary, useAuth } from "../contexts/AuthContext";
+import { RequestComments } from "../components/RequestComments";
+import { RequestAttachments } from "../components/RequestAttachments";
+import { RequestHistory } from "../components/RequestHistory";
+import { RequestAppointments } from "../components/RequestAppointments";
+import { NotificationPreferences } from "../components/NotificationPreferences";
+import { SessionList } from "../components/SessionList";
+import { TwoFactorSettings } from "../components/TwoFactorSettings";
+import { useRequestStream } from "../hooks/useRequestStream";
+import { useWorkflow } from "../hooks/useWorkflow";
 
 type RequestPriority = "low" | "normal" | "high" | "emergency";
 
@@ -18,15 +20,15 @@ type PreferredTimeWindow =
   | "anytime"
   | null;
 
-type UpdatedByRole = "tenant" | "manager" | "system";
+type UpdatedByRole = "tenant" | "manager" | "technician" | "system";
 
 type TenantRequest = {
   id: number;
-  unit: string;
+  unit: UnitSummary;
   category: string;
   description: string;
-  phone: string;
-  status: RequestStatus;
+  phone: string | null;
+  status: string; // workflow state key
   createdAt: string;
   updatedAt: string;
   priority: RequestPriority;
@@ -40,8 +42,24 @@ type TenantRequest = {
   maintenanceRequestedAt: string | null;
   implementingActionsAt: string | null;
   completedAt: string | null;
+
+  // Follow-up links when a completed request is reopened
+  reopenedFromId: number | null;
+  reopenReason: string | null;
+  reopenedBy: { id: number } | null;
+  reopenableUntil: string | null;
+
+  // The proposed or confirmed visit, if any
+  appointments: { id: number; status: "proposed" | "accepted" }[];
 };
 
+type TimestampField =
+  | "inQueueAt"
+  | "viewedAt"
+  | "maintenanceRequestedAt"
+  | "implementingActionsAt"
+  | "completedAt";
+
 const windowOptions = [
   { value: "08:00-10:00", label: "8:00 – 10:00 AM" },
   { value: "09:00-11:00", label: "9:00 – 11:00 AM" },
@@ -53,30 +71,6 @@ const windowOptions = [
   { value: "15:00-17:00", label: "3:00 – 5:00 PM" },
 ];
 
-const statusLabels: Record<RequestStatus, string> = {
-  in_queue: "In Queue",
-  viewed: "Viewed",
-  maintenance_requested: "Maintenance Requested",
-  implementing_actions: "Implementing Actions",
-  completed: "Completed",
-};
-
-const statusColor: Record<RequestStatus, string> = {
-  in_queue: "#4b5563",
-  viewed: "#0ea5e9",
-  maintenance_requested: "#f97316",
-  implementing_actions: "#eab308",
-  completed: "#16a34a",
-};
-
-const statusPipeline: RequestStatus[] = [
-  "in_queue",
-  "viewed",
-  "maintenance_requested",
-  "implementing_actions",
-  "completed",
-];
-
 const priorityLabels: Record<RequestPriority, string> = {
   low: "Low",
   normal: "Normal",
@@ -104,6 +98,8 @@ const api = axios.create({
 
 const TenantDashboard: React.FC = () => {
   const { user, token, logout } = useAuth();
+  const { states, statusLabel, statusColor, isTerminal, transitionsFor } =
+    useWorkflow(token);
   const [requests, setRequests] = useState<TenantRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [submitting, setSubmitting] = useState(false);
@@ -114,6 +110,9 @@ const TenantDashboard: React.FC = () => {
     "active"
   );
 
+  // Request whose conversation panel is open
+  const [conversationId, setConversationId] = useState<number | null>(null);
+
   // Modal for "Mark as resolved"
   const [modalOpen, setModalOpen] = useState(false);
   const [modalRequestId, setModalRequestId] = useState<number | null>(null);
@@ -149,12 +148,74 @@ const TenantDashboard: React.FC = () => {
     }
   };
 
-  const getStatusIndex = (status: RequestStatus) =>
-    statusPipeline.indexOf(status);
+  // Modal for "Problem came back"
+  const [reopenRequestId, setReopenRequestId] = useState<number | null>(null);
+  const [reopenReason, setReopenReason] = useState("");
+  const [reopening, setReopening] = useState(false);
+
+  const closeReopenModal = () => {
+    setReopenRequestId(null);
+    setReopenReason("");
+  };
+
+  const confirmReopen = async () => {
+    if (!token || !reopenRequestId || !reopenReason.trim()) return;
+
+    setReopening(true);
+    try {
+      const res = await api.post<TenantRequest>(
+        `/requests/${reopenRequestId}/reopen`,
+        { reason: reopenReason },
+        { headers: { Authorization: `Bearer ${token}` } }
+      );
+
+      setRequests((prev) => [
+        res.data,
+        ...prev.map((r) =>
+          r.id === reopenRequestId
+            ? { ...r, reopenedBy: { id: res.data.id }, reopenableUntil: null }
+            : r
+        ),
+      ]);
+      setRequestView("active");
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to reopen request.");
+    } finally {
+      setReopening(false);
+      closeReopenModal();
+    }
+  };
+
+  const canReopen = (r: TenantRequest) =>
+    !!r.reopenableUntil && new Date(r.reopenableUntil) > new Date();
+
+  // Timeline steps are the workflow states that stamp a time on the request
+  const timelineSteps = states.filter((s) => s.timestampField);
+
+  const stepTime = (r: TenantRequest, field: string) =>
+    field === "inQueueAt"
+      ? r.inQueueAt || r.createdAt
+      : r[field as TimestampField];
+
+  // Off-timeline states (on hold, reopened, ...) show progress so far
+  const getStatusIndex = (r: TenantRequest) => {
+    const index = timelineSteps.findIndex((s) => s.key === r.status);
+    if (index !== -1) return index;
+    let reached = 0;
+    timelineSteps.forEach((s, i) => {
+      if (stepTime(r, s.timestampField!)) reached = i;
+    });
+    return reached;
+  };
+
+  const canResolve = (r: TenantRequest) =>
+    transitionsFor(r.status, "tenant").some((t) => t.toKey === "completed");
 
   const formatUpdatedBy = (role: UpdatedByRole) => {
     if (role === "tenant") return "You";
     if (role === "manager") return "Maintenance";
+    if (role === "technician") return "Technician";
     return "System";
   };
 
@@ -185,12 +246,16 @@ const TenantDashboard: React.FC = () => {
     return `${hours} h ${minutes} min`;
   };
 
-  const activeRequests = requests.filter((r) => r.status !== "completed");
-  const completedRequests = requests.filter((r) => r.status === "completed");
+  const activeRequests = requests.filter((r) => !isTerminal(r.status));
+  const completedRequests = requests.filter((r) => isTerminal(r.status));
   const currentList =
     requestView === "active" ? activeRequests : completedRequests;
 
-  // Load + auto-refresh tenant requests
+  // Bumped by live updates to reload the list
+  const [reloadKey, setReloadKey] = useState(0);
+  useRequestStream(token, () => setReloadKey((k) => k + 1));
+
+  // Load tenant requests, and reload whenever one of them changes
   useEffect(() => {
     if (!token) {
       setLoading(false);
@@ -220,16 +285,15 @@ const TenantDashboard: React.FC = () => {
     };
 
     fetchRequests();
-    const intervalId = setInterval(fetchRequests, 15000);
 
     return () => {
       cancelled = true;
-      clearInterval(intervalId);
     };
-  }, [token]);
+  }, [token, reloadKey]);
+
+  const tenantUnit = user?.tenantProfile?.unit ?? null;
 
   const [form, setForm] = useState({
-    unit: "",
     category: "HVAC",
     description: "",
     phone: "",
@@ -239,6 +303,8 @@ const TenantDashboard: React.FC = () => {
     accessInstructions: "",
   });
 
+  const [files, setFiles] = useState<File[]>([]);
+
   const handleChange = (
     e: React.ChangeEvent<
       HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
@@ -257,24 +323,27 @@ const TenantDashboard: React.FC = () => {
     setSubmitMessage(null);
 
     try {
-      const res = await api.post<TenantRequest>(
-        "/requests",
-        {
-          unit: form.unit,
-          category: form.category,
-          description: form.description,
-          phone: form.phone,
-          priority: form.priority,
-          preferredWindow1: form.preferredWindow1,
-          preferredWindow2: form.preferredWindow2 || undefined,
-          accessInstructions: form.accessInstructions || undefined,
-        },
-        { headers: { Authorization: `Bearer ${token}` } }
-      );
+      // Multipart so photos can travel with the request
+      const body = new FormData();
+      body.append("category", form.category);
+      body.append("description", form.description);
+      body.append("phone", form.phone);
+      body.append("priority", form.priority);
+      body.append("preferredWindow1", form.preferredWindow1);
+      if (form.preferredWindow2) {
+        body.append("preferredWindow2", form.preferredWindow2);
+      }
+      if (form.accessInstructions) {
+        body.append("accessInstructions", form.accessInstructions);
+      }
+      files.forEach((f) => body.append("attachments", f));
+
+      const res = await api.post<TenantRequest>("/requests", body, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
 
       setRequests((prev) => [res.data, ...prev]);
       setForm({
-        unit: "",
         category: "HVAC",
         description: "",
         phone: "",
@@ -283,6 +352,7 @@ const TenantDashboard: React.FC = () => {
         preferredWindow2: "",
         accessInstructions: "",
       });
+      setFiles([]);
       setSubmitMessage(
         "Request submitted. We’ll update you as it moves through each step."
       );
@@ -332,14 +402,17 @@ const TenantDashboard: React.FC = () => {
             <form onSubmit={handleSubmit}>
               <div style={{ display: "flex", gap: 12, marginBottom: 12 }}>
                 <div style={{ flex: 1 }} className="field-group">
-                  <label className="field-label">Apartment / Unit Number</label>
+                  <label className="field-label">Apartment / Unit</label>
                   <input
                     type="text"
-                    name="unit"
                     className="input"
-                    value={form.unit}
-                    onChange={handleChange}
-                    required
+                    value={
+                      tenantUnit
+                        ? `Unit ${tenantUnit.number} – ${tenantUnit.building.name}`
+                        : "No unit on file"
+                    }
+                    readOnly
+                    disabled
                   />
                 </div>
                 <div style={{ flex: 1 }} className="field-group">
@@ -491,6 +564,28 @@ const TenantDashboard: React.FC = () => {
                 />
               </div>
 
+              <div className="field-group">
+                <label className="field-label">
+                  Photos or documents (optional, up to 5 files, 10 MB each)
+                </label>
+                <input
+                  key={files.length === 0 ? "empty" : "filled"}
+                  type="file"
+                  multiple
+                  accept="image/jpeg,image/png,image/webp,application/pdf"
+                  className="input"
+                  onChange={(e) =>
+                    setFiles(Array.from(e.target.files ?? []).slice(0, 5))
+                  }
+                />
+              </div>
+
+              {!tenantUnit && (
+                <div className="text-error">
+                  Your account is not linked to a unit yet. Please contact your
+                  property manager before submitting a request.
+                </div>
+              )}
               {error && <div className="text-error">{error}</div>}
               {submitMessage && !error && (
                 <div
@@ -506,7 +601,7 @@ const TenantDashboard: React.FC = () => {
 
               <button
                 type="submit"
-                disabled={submitting}
+                disabled={submitting || !tenantUnit}
                 className="btn btn-primary"
                 style={{ marginTop: 8 }}
               >
@@ -566,24 +661,12 @@ const TenantDashboard: React.FC = () => {
             ) : (
               <div className="request-cards">
                 {currentList.map((r) => {
-                  const currentIndex = getStatusIndex(r.status);
-
-                  const times: {
-                    status: RequestStatus;
-                    time: string | null;
-                  }[] = [
-                    { status: "in_queue", time: r.inQueueAt || r.createdAt },
-                    { status: "viewed", time: r.viewedAt },
-                    {
-                      status: "maintenance_requested",
-                      time: r.maintenanceRequestedAt,
-                    },
-                    {
-                      status: "implementing_actions",
-                      time: r.implementingActionsAt,
-                    },
-                    { status: "completed", time: r.completedAt },
-                  ];
+                  const currentIndex = getStatusIndex(r);
+
+                  const times = timelineSteps.map((step) => ({
+                    status: step.key,
+                    time: stepTime(r, step.timestampField!),
+                  }));
 
                   return (
                     <article key={r.id} className="card request-card">
@@ -598,18 +681,32 @@ const TenantDashboard: React.FC = () => {
                       >
                         <div>
                           <h3 className="request-card-title">
-                            {r.category} – Unit {r.unit}
+                            {r.category} – Unit {r.unit.number}
                           </h3>
+                          <p className="request-card-meta">
+                            {r.unit.building.property.name} ·{" "}
+                            {r.unit.building.name}
+                          </p>
                           <p className="request-card-meta">
                             Submitted: {formatDateTime(r.createdAt)}
                           </p>
+                          {r.reopenedFromId && (
+                            <p className="request-card-meta">
+                              Follow-up to #{r.reopenedFromId}
+                            </p>
+                          )}
+                          {r.reopenedBy && (
+                            <p className="request-card-meta">
+                              Reopened as #{r.reopenedBy.id}
+                            </p>
+                          )}
                         </div>
                         <div style={{ textAlign: "right" }}>
                           <span
                             className="status-pill"
-                            style={{ backgroundColor: statusColor[r.status] }}
+                            style={{ backgroundColor: statusColor(r.status) }}
                           >
-                            {statusLabels[r.status]}
+                            {statusLabel(r.status)}
                           </span>
                           <div
                             style={{
@@ -629,7 +726,11 @@ const TenantDashboard: React.FC = () => {
 
                       <p className="request-card-text">{r.description}</p>
 
-                      <p className="request-card-footer">Contact: {r.phone}</p>
+                      {r.phone && (
+                        <p className="request-card-footer">
+                          Contact: {r.phone}
+                        </p>
+                      )}
 
                       {/* Preferred visit windows */}
                       {(r.preferredWindow1 || r.preferredWindow2) && (
@@ -653,12 +754,26 @@ const TenantDashboard: React.FC = () => {
                         </p>
                       )}
 
+                      {token && r.appointments?.length > 0 && (
+                        <RequestAppointments
+                          requestId={r.id}
+                          token={token}
+                          mode="tenant"
+                          windows={[r.preferredWindow1, r.preferredWindow2]}
+                          reloadKey={reloadKey}
+                          onChange={() => setReloadKey((k) => k + 1)}
+                        />
+                      )}
+
                       {/* TIMELINE */}
                       <div className="request-timeline">
                         {/* bar */}
                         <div className="request-timeline-bar-row">
-                          {statusPipeline.map((step, idx) => (
-                            <div key={step} className="request-timeline-step">
+                          {timelineSteps.map((step, idx) => (
+                            <div
+                              key={step.key}
+                              className="request-timeline-step"
+                            >
                               {idx <= currentIndex && (
                                 <div className="request-timeline-step-fill" />
                               )}
@@ -668,9 +783,12 @@ const TenantDashboard: React.FC = () => {
 
                         {/* labels */}
                         <div className="request-timeline-label-row">
-                          {statusPipeline.map((step) => (
-                            <div key={step} className="request-timeline-label">
-                              {statusLabels[step]}
+                          {timelineSteps.map((step) => (
+                            <div
+                              key={step.key}
+                              className="request-timeline-label"
+                            >
+                              {step.label}
                             </div>
                           ))}
                         </div>
@@ -684,9 +802,9 @@ const TenantDashboard: React.FC = () => {
                             gap: 4,
                           }}
                         >
-                          {statusPipeline.map((step, index) => {
+                          {timelineSteps.map((step, index) => {
                             const timeEntry = times.find(
-                              (t) => t.status === step
+                              (t) => t.status === step.key
                             );
                             const timeVal = timeEntry?.time || null;
                             const timeStr = timeVal
@@ -703,7 +821,7 @@ const TenantDashboard: React.FC = () => {
 
                             return (
                               <div
-                                key={step}
+                                key={step.key}
                                 style={{
                                   flex: 1,
                                   textAlign: "center",
@@ -743,14 +861,29 @@ const TenantDashboard: React.FC = () => {
                         </p>
                       </div>
 
-                      {r.status !== "completed" && (
-                        <div
-                          style={{
-                            marginTop: 10,
-                            display: "flex",
-                            justifyContent: "flex-end",
-                          }}
+                      <div
+                        style={{
+                          marginTop: 10,
+                          display: "flex",
+                          justifyContent: "flex-end",
+                          gap: 8,
+                        }}
+                      >
+                        <button
+                          type="button"
+                          className="btn btn-secondary"
+                          style={{ fontSize: 12, padding: "4px 10px" }}
+                          onClick={() =>
+                            setConversationId((prev) =>
+                              prev === r.id ? null : r.id
+                            )
+                          }
                         >
+                          {conversationId === r.id
+                            ? "Hide details"
+                            : "History, photos & messages"}
+                        </button>
+                        {canResolve(r) && (
                           <button
                             type="button"
                             className="btn btn-secondary"
@@ -759,7 +892,33 @@ const TenantDashboard: React.FC = () => {
                           >
                             Mark as resolved
                           </button>
-                        </div>
+                        )}
+                        {canReopen(r) && (
+                          <button
+                            type="button"
+                            className="btn btn-secondary"
+                            style={{ fontSize: 12, padding: "4px 10px" }}
+                            onClick={() => setReopenRequestId(r.id)}
+                          >
+                            Problem came back
+                          </button>
+                        )}
+                      </div>
+
+                      {conversationId === r.id && token && user && (
+                        <>
+                          <RequestHistory
+                            requestId={r.id}
+                            token={token}
+                            currentUserId={user.id}
+                          />
+                          <RequestAttachments requestId={r.id} token={token} />
+                          <RequestComments
+                            requestId={r.id}
+                            token={token}
+                            currentUserId={user.id}
+                          />
+                        </>
                       )}
                     </article>
                   );
@@ -767,6 +926,21 @@ const TenantDashboard: React.FC = () => {
               </div>
             )}
           </section>
+          {token && (
+            <section className="card" style={{ marginTop: 16 }}>
+              <NotificationPreferences token={token} />
+            </section>
+          )}
+          {token && (
+            <section className="card" style={{ marginTop: 16 }}>
+              <SessionList token={token} />
+            </section>
+          )}
+          {token && (
+            <section className="card" style={{ marginTop: 16 }}>
+              <TwoFactorSettings token={token} />
+            </section>
+          )}
         </div>
       </main>
 
@@ -791,6 +965,39 @@ const TenantDashboard: React.FC = () => {
           </div>
         </div>
       )}
+
+      {/* Reopen modal */}
+      {reopenRequestId && (
+        <div className="modal-backdrop">
+          <div className="modal-card">
+            <h3 className="modal-title">Problem came back?</h3>
+            <p className="modal-text">
+              We'll open a follow-up linked to this request. Tell maintenance
+              what's happening now.
+            </p>
+            <textarea
+              className="textarea"
+              rows={3}
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              placeholder="e.g. The sink started leaking again two days later."
+            />
+
+            <div className="modal-actions">
+              <button className="btn btn-secondary" onClick={closeReopenModal}>
+                Cancel
+              </button>
+              <button
+                className="btn btn-primary"
+                onClick={confirmReopen}
+                disabled={reopening || !reopenReason.trim()}
+              >
+                {reopening ? "Reopening..." : "Reopen"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,664 @@
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { Link } from "react-router-dom";
+import { Role, useAuth } from "../contexts/AuthContext";
+
+type ManagedUser = {
+  id: number;
+  name: string;
+  email: string;
+  role: Role;
+  emailVerifiedAt: string | null;
+  deactivatedAt: string | null;
+  createdAt: string;
+  invitePending: boolean;
+  tenantProfile: {
+    unit: {
+      id: number;
+      number: string;
+      building: {
+        id: number;
+        name: string;
+        property: { id: number; name: string };
+      };
+    };
+  } | null;
+};
+
+type UserPage = {
+  items: ManagedUser[];
+  total: number;
+  page: number;
+  pageSize: number;
+};
+
+type PropertyTree = {
+  id: number;
+  name: string;
+  buildings: {
+    id: number;
+    name: string;
+    units: { id: number; number: string }[];
+  }[];
+};
+
+type StatusFilter = "active" | "deactivated" | "all";
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const pageSize = 25;
+const allRoles: Role[] = ["tenant", "technician", "manager", "admin"];
+
+function unitLabel(user: ManagedUser) {
+  const unit = user.tenantProfile?.unit;
+  if (!unit) return "—";
+  return `${unit.building.property.name} – ${unit.building.name} – Unit ${unit.number}`;
+}
+
+const UsersPage: React.FC = () => {
+  const { user, token, logout } = useAuth();
+  const isAdmin = user?.role === "admin";
+  const creatableRoles: Role[] = isAdmin ? allRoles : ["tenant", "technician"];
+
+  const [users, setUsers] = useState<ManagedUser[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [search, setSearch] = useState("");
+  const [roleFilter, setRoleFilter] = useState<Role | "all">("all");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("active");
+  const [properties, setProperties] = useState<PropertyTree[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const [newName, setNewName] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [newRole, setNewRole] = useState<Role>("tenant");
+  const [newUnitId, setNewUnitId] = useState("");
+  const [creating, setCreating] = useState(false);
+
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [editName, setEditName] = useState("");
+  const [editEmail, setEditEmail] = useState("");
+
+  const unitOptions = properties.flatMap((p) =>
+    p.buildings.flatMap((b) =>
+      b.units.map((u) => ({
+        id: u.id,
+        label: `${p.name} – ${b.name} – Unit ${u.number}`,
+      }))
+    )
+  );
+
+  useEffect(() => {
+    if (!token) return;
+
+    api
+      .get<PropertyTree[]>("/properties", {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+      .then((res) => setProperties(res.data))
+      .catch((err) => console.error(err));
+  }, [token]);
+
+  // Typing in the search box waits for a pause before hitting the server
+  useEffect(() => {
+    if (!token) return;
+    let cancelled = false;
+
+    const timer = window.setTimeout(async () => {
+      setLoading(true);
+      try {
+        const res = await api.get<UserPage>("/users", {
+          headers: { Authorization: `Bearer ${token}` },
+          params: {
+            search: search || undefined,
+            role: roleFilter === "all" ? undefined : roleFilter,
+            status: statusFilter,
+            page,
+            pageSize,
+          },
+        });
+        if (!cancelled) {
+          setUsers(res.data.items);
+          setTotal(res.data.total);
+        }
+      } catch (err) {
+        console.error(err);
+        if (!cancelled) setError("Failed to load users.");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [token, search, roleFilter, statusFilter, page]);
+
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+
+  const replaceUser = (updated: ManagedUser) => {
+    setUsers((prev) => prev.map((u) => (u.id === updated.id ? updated : u)));
+  };
+
+  const runAction = async (
+    action: () => Promise<ManagedUser | void>,
+    successMessage: string | null,
+    failureMessage: string
+  ) => {
+    setError(null);
+    setMessage(null);
+    try {
+      const updated = await action();
+      if (updated) replaceUser(updated);
+      if (successMessage) setMessage(successMessage);
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || failureMessage);
+    }
+  };
+
+  const headers = { Authorization: `Bearer ${token}` };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const res = await api.post<ManagedUser>(
+        "/users",
+        {
+          name: newName,
+          email: newEmail,
+          role: newRole,
+          unitId: newRole === "tenant" && newUnitId ? Number(newUnitId) : null,
+        },
+        { headers }
+      );
+      setUsers((prev) => [res.data, ...prev]);
+      setTotal((prev) => prev + 1);
+      setMessage(`Invitation sent to ${res.data.email}.`);
+      setNewName("");
+      setNewEmail("");
+      setNewUnitId("");
+    } catch (err: any) {
+      console.error(err);
+      setError(err?.response?.data?.message || "Failed to create user.");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const startEdit = (u: ManagedUser) => {
+    setEditingId(u.id);
+    setEditName(u.name);
+    setEditEmail(u.email);
+  };
+
+  const handleSaveEdit = (u: ManagedUser) =>
+    runAction(
+      async () => {
+        const res = await api.patch<ManagedUser>(
+          `/users/${u.id}`,
+          { name: editName, email: editEmail },
+          { headers }
+        );
+        setEditingId(null);
+        return res.data;
+      },
+      null,
+      "Failed to update user."
+    );
+
+  const handleRoleChange = (u: ManagedUser, role: Role) => {
+    if (
+      !window.confirm(
+        `Change ${u.name}'s role to ${role}? They will be signed out everywhere.`
+      )
+    ) {
+      return;
+    }
+    runAction(
+      async () =>
+        (
+          await api.put<ManagedUser>(
+            `/users/${u.id}/role`,
+            { role },
+            { headers }
+          )
+        ).data,
+      null,
+      "Failed to change role."
+    );
+  };
+
+  const handleUnitChange = (u: ManagedUser, value: string) => {
+    if (!value && !window.confirm(`Move ${u.name} out of their unit?`)) {
+      return;
+    }
+    runAction(
+      async () =>
+        (
+          await api.put<ManagedUser>(
+            `/users/${u.id}/unit`,
+            { unitId: value ? Number(value) : null },
+            { headers }
+          )
+        ).data,
+      null,
+      "Failed to change unit."
+    );
+  };
+
+  const handleDeactivate = (u: ManagedUser) => {
+    if (
+      !window.confirm(`Deactivate ${u.name}? They won't be able to log in.`)
+    ) {
+      return;
+    }
+    const moveOut =
+      u.role === "tenant" &&
+      !!u.tenantProfile &&
+      window.confirm(`Also move ${u.name} out of ${unitLabel(u)}?`);
+    runAction(
+      async () =>
+        (
+          await api.post<ManagedUser>(
+            `/users/${u.id}/deactivate`,
+            { moveOut },
+            { headers }
+          )
+        ).data,
+      `${u.name} has been deactivated.`,
+      "Failed to deactivate user."
+    );
+  };
+
+  const handleReactivate = (u: ManagedUser) =>
+    runAction(
+      async () =>
+        (
+          await api.post<ManagedUser>(
+            `/users/${u.id}/reactivate`,
+            {},
+            { headers }
+          )
+        ).data,
+      `${u.name} can log in again.`,
+      "Failed to reactivate user."
+    );
+
+  const handleResendInvite = (u: ManagedUser) =>
+    runAction(
+      async () => {
+        await api.post(`/users/${u.id}/invite`, {}, { headers });
+      },
+      `Invitation sent to ${u.email}.`,
+      "Failed to send invitation."
+    );
+
+  return (
+    <div className="app-shell">
+      <header className="app-topbar">
+        <div className="app-topbar-left">
+          <div className="app-logo-circle">K</div>
+          <div>
+            <h1 className="app-topbar-title">Users</h1>
+            <p className="app-topbar-subtitle">
+              Invite, move and deactivate accounts.{" "}
+              <Link to="/manager">Go to requests</Link>
+              {isAdmin && (
+                <>
+                  {" "}
+                  <Link to="/admin">Admin console</Link>
+                </>
+              )}
+            </p>
+          </div>
+        </div>
+        <div>
+          <div className="app-topbar-user">
+            <div>{user?.name}</div>
+            <div>{user?.email}</div>
+          </div>
+          <button
+            onClick={logout}
+            className="btn btn-secondary"
+            style={{ marginTop: 6 }}
+          >
+            Logout
+          </button>
+        </div>
+      </header>
+
+      <main className="page-content">
+        <section className="card">
+          <form onSubmit={handleCreate}>
+            <p className="card-title">Add a user</p>
+            <div style={{ display: "flex", flexWrap: "wrap", gap: 8 }}>
+              <input
+                className="input"
+                style={{ flex: "1 1 160px" }}
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                placeholder="Full name"
+                required
+              />
+              <input
+                type="email"
+                className="input"
+                style={{ flex: "1 1 200px" }}
+                value={newEmail}
+                onChange={(e) => setNewEmail(e.target.value)}
+                placeholder="name@example.com"
+                required
+              />
+              <select
+                className="select"
+                value={newRole}
+                onChange={(e) => setNewRole(e.target.value as Role)}
+              >
+                {creatableRoles.map((r) => (
+                  <option key={r} value={r}>
+                    {r}
+                  </option>
+                ))}
+              </select>
+              {newRole === "tenant" && (
+                <select
+                  className="select"
+                  style={{ flex: "1 1 220px" }}
+                  value={newUnitId}
+                  onChange={(e) => setNewUnitId(e.target.value)}
+                >
+                  <option value="">No unit yet</option>
+                  {unitOptions.map((u) => (
+                    <option key={u.id} value={u.id}>
+                      {u.label}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <button
+                type="submit"
+                className="btn btn-primary"
+                disabled={creating}
+              >
+                {creating ? "Sending..." : "Create and invite"}
+              </button>
+            </div>
+          </form>
+        </section>
+
+        <section className="card" style={{ marginTop: 16 }}>
+          <div
+            style={{
+              display: "flex",
+              flexWrap: "wrap",
+              gap: 8,
+              alignItems: "center",
+              marginBottom: 8,
+            }}
+          >
+            <p className="card-title" style={{ margin: 0, flex: "1 1 auto" }}>
+              {total} {total === 1 ? "user" : "users"}
+            </p>
+            <input
+              type="text"
+              className="input"
+              placeholder="Search name or email..."
+              value={search}
+              onChange={(e) => {
+                setSearch(e.target.value);
+                setPage(1);
+              }}
+              style={{ minWidth: 220 }}
+            />
+            <select
+              className="select"
+              value={roleFilter}
+              onChange={(e) => {
+                setRoleFilter(e.target.value as Role | "all");
+                setPage(1);
+              }}
+              style={{ fontSize: 12 }}
+            >
+              <option value="all">All roles</option>
+              {allRoles.map((r) => (
+                <option key={r} value={r}>
+                  {r}
+                </option>
+              ))}
+            </select>
+            <select
+              className="select"
+              value={statusFilter}
+              onChange={(e) => {
+                setStatusFilter(e.target.value as StatusFilter);
+                setPage(1);
+              }}
+              style={{ fontSize: 12 }}
+            >
+              <option value="active">Active</option>
+              <option value="deactivated">Deactivated</option>
+              <option value="all">Everyone</option>
+            </select>
+          </div>
+
+          {error && <div className="text-error">{error}</div>}
+          {message && <p className="text-muted">{message}</p>}
+
+          {loading && users.length === 0 ? (
+            <p className="text-muted">Loading users...</p>
+          ) : users.length === 0 ? (
+            <p className="text-muted">No users match your filters.</p>
+          ) : (
+            <div className="table-wrapper">
+              <table className="table">
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Role</th>
+                    <th>Unit</th>
+                    <th>Status</th>
+                    <th>Actions</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {users.map((u) => (
+                    <tr key={u.id} className="table-row">
+                      <td>
+                        {editingId === u.id ? (
+                          <div style={{ display: "grid", gap: 4 }}>
+                            <input
+                              className="input"
+                              value={editName}
+                              onChange={(e) => setEditName(e.target.value)}
+                            />
+                            <input
+                              type="email"
+                              className="input"
+                              value={editEmail}
+                              onChange={(e) => setEditEmail(e.target.value)}
+                            />
+                          </div>
+                        ) : (
+                          <>
+                            <div>{u.name}</div>
+                            <div
+                              className="text-muted"
+                              style={{ fontSize: 12 }}
+                            >
+                              {u.email}
+                            </div>
+                          </>
+                        )}
+                      </td>
+                      <td>
+                        {isAdmin && u.id !== user?.id ? (
+                          <select
+                            className="select"
+                            value={u.role}
+                            onChange={(e) =>
+                              handleRoleChange(u, e.target.value as Role)
+                            }
+                            style={{ fontSize: 12 }}
+                          >
+                            {allRoles.map((r) => (
+                              <option key={r} value={r}>
+                                {r}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <span style={{ textTransform: "capitalize" }}>
+                            {u.role}
+                          </span>
+                        )}
+                      </td>
+                      <td>
+                        {u.role === "tenant" ? (
+                          <select
+                            className="select"
+                            value={u.tenantProfile?.unit.id ?? ""}
+                            onChange={(e) =>
+                              handleUnitChange(u, e.target.value)
+                            }
+                            style={{ fontSize: 12, maxWidth: 260 }}
+                          >
+                            <option value="">No unit</option>
+                            {u.tenantProfile &&
+                              !unitOptions.some(
+                                (o) => o.id === u.tenantProfile!.unit.id
+                              ) && (
+                                <option value={u.tenantProfile.unit.id}>
+                                  {unitLabel(u)}
+                                </option>
+                              )}
+                            {unitOptions.map((o) => (
+                              <option key={o.id} value={o.id}>
+                                {o.label}
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          "—"
+                        )}
+                      </td>
+                      <td style={{ fontSize: 12 }}>
+                        {u.deactivatedAt
+                          ? `Deactivated ${new Date(
+                              u.deactivatedAt
+                            ).toLocaleDateString()}`
+                          : u.invitePending
+                            ? "Invited"
+                            : u.emailVerifiedAt
+                              ? "Active"
+                              : "Active (email unverified)"}
+                      </td>
+                      <td>
+                        <div style={{ display: "flex", gap: 4 }}>
+                          {editingId === u.id ? (
+                            <>
+                              <button
+                                type="button"
+                                className="btn btn-primary"
+                                onClick={() => handleSaveEdit(u)}
+                              >
+                                Save
+                              </button>
+                              <button
+                                type="button"
+                                className="btn btn-secondary"
+                                onClick={() => setEditingId(null)}
+                              >
+                                Cancel
+                              </button>
+                            </>
+                          ) : (
+                            <button
+                              type="button"
+                              className="btn btn-secondary"
+                              onClick={() => startEdit(u)}
+                            >
+                              Edit
+                            </button>
+                          )}
+                          {u.invitePending && !u.deactivatedAt && (
+                            <button
+                              type="button"
+                              className="btn btn-secondary"
+                              onClick={() => handleResendInvite(u)}
+                            >
+                              Resend invite
+                            </button>
+                          )}
+                          {u.id !== user?.id &&
+                            (u.deactivatedAt ? (
+                              <button
+                                type="button"
+                                className="btn btn-secondary"
+                                onClick={() => handleReactivate(u)}
+                              >
+                                Reactivate
+                              </button>
+                            ) : (
+                              <button
+                                type="button"
+                                className="btn btn-danger"
+                                onClick={() => handleDeactivate(u)}
+                              >
+                                Deactivate
+                              </button>
+                            ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pageCount > 1 && (
+            <div
+              style={{
+                display: "flex",
+                gap: 8,
+                alignItems: "center",
+                marginTop: 8,
+              }}
+            >
+              <button
+                type="button"
+                className="btn btn-secondary"
+                disabled={page <= 1}
+                onClick={() => setPage((p) => p - 1)}
+              >
+                Previous
+              </button>
+              <span className="text-muted" style={{ fontSize: 12 }}>
+                Page {page} of {pageCount}
+              </span>
+              <button
+                type="button"
+                className="btn btn-secondary"
+                disabled={page >= pageCount}
+                onClick={() => setPage((p) => p + 1)}
+              >
+                Next
+              </button>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+};
+
+export default UsersPage;
@@ -0,0 +1,58 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import axios from "axios";
+import { useAuth } from "../contexts/AuthContext";
+import { AuthCard } from "../components/AuthCard";
+
+const api = axios.create({
+  baseURL: import.meta.env.VITE_API_BASE_URL || "http://localhost:4000",
+});
+
+const VerifyEmailPage: React.FC = () => {
+  const { user, refreshUser } = useAuth();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get("token");
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Tokens are single-use, so only submit once even if the effect re-runs
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (!token) {
+      setError("This verification link is incomplete.");
+      return;
+    }
+    if (submitted.current) return;
+    submitted.current = true;
+
+    (async () => {
+      try {
+        const res = await api.post("/auth/verify-email", { token });
+        setMessage(res.data.message);
+        await refreshUser().catch(() => undefined);
+      } catch (err: any) {
+        setError(
+          err?.response?.data?.message || "Failed to confirm your email."
+        );
+      }
+    })();
+  }, [token, refreshUser]);
+
+  return (
+    <AuthCard subtitle="Email confirmation">
+      {error ? (
+        <div className="text-error">{error}</div>
+      ) : (
+        <p className="text-muted">{message || "Confirming your email..."}</p>
+      )}
+      <div className="auth-helper">
+        <Link to={user ? "/" : "/login"}>
+          {user ? "Go to your dashboard" : "Back to login"}
+        </Link>
+      </div>
+    </AuthCard>
+  );
+};
+
+export default VerifyEmailPage;